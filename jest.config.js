@@ -5,7 +5,12 @@ module.exports = {
   setupFiles: ['<rootDir>/tests/setup.ts'],
   moduleFileExtensions: ['ts', 'js', 'json', 'node'],
   transform: {
-    '^.+\\.[tj]s$': ['ts-jest', { useESM: true, tsconfig: { allowJs: true } }],
+    '^.+\\.ts$': ['ts-jest', { useESM: true, tsconfig: { allowJs: true } }],
+    // ESM-only dependencies (see transformIgnorePatterns) must be compiled down to CommonJS
+    '^.+\\.js$': [
+      'babel-jest',
+      { presets: [['@babel/preset-env', { targets: { node: 'current' } }]] },
+    ],
   },
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
@@ -16,7 +16,10 @@ interface SyncContextType {
   syncNow: (folderId?: string) => Promise<void>;
   pauseSync: (folderId?: string) => Promise<void>;
   resumeSync: (folderId?: string) => Promise<void>;
-  resolveConflict: (conflictId: string, resolution: 'local' | 'remote' | 'both') => Promise<void>;
+  resolveConflict: (
+    conflictId: string,
+    resolution: 'local' | 'remote' | 'both' | 'merge'
+  ) => Promise<void>;
   refreshStatus: () => Promise<void>;
 }
 
@@ -167,7 +170,7 @@ export function SyncProvider({ children }: SyncProviderProps) {
   );
 
   const resolveConflict = useCallback(
-    async (conflictId: string, resolution: 'local' | 'remote' | 'both') => {
+    async (conflictId: string, resolution: 'local' | 'remote' | 'both' | 'merge') => {
       try {
         await window.electronAPI.resolveConflict(conflictId, resolution);
         setConflicts((prev) => prev.filter((c) => c.id !== conflictId));
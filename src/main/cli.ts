@@ -11,6 +11,8 @@ import { getCliBridgePath } from '../shared/constants/cliBridge';
 import { AppConfig } from '../shared/types/config';
 import { FileEntry } from '../shared/types/sync';
 import { logger } from './utils/logger';
+import { DEFAULT_RELAY_PORT, RelayServer } from './network/relay';
+import { DEFAULT_RENDEZVOUS_PORT, RendezvousServer } from './network/rendezvous';
 
 const defaultAppConfig: AppConfig = {
   language: 'en',
@@ -31,6 +33,10 @@ const defaultAppConfig: AppConfig = {
   performance: {
     uploadLimit: 0,
     downloadLimit: 0,
+    lanUploadLimit: 0,
+    lanDownloadLimit: 0,
+    wanUploadLimit: 0,
+    wanDownloadLimit: 0,
     pauseOnLowBattery: true,
     batteryThreshold: 20,
     pauseOnPowerSave: true,
@@ -100,6 +106,15 @@ type BridgeRequest =
   | {
       action: 'status-tree';
       folderId: string;
+    }
+  | {
+      action: 'override-remote' | 'revert-local';
+      folderId: string;
+    }
+  | {
+      action: 'prioritize';
+      folderId: string;
+      path: string;
     };
 
 let pendingBridgeConnection: net.Socket | null = null;
@@ -268,6 +283,120 @@ async function handleSync(folderId?: string, configPath?: string): Promise<void>
   }
 }
 
+/**
+ * Runs an override/revert in the running app; both need connected peers, so
+ * there is no standalone fallback.
+ */
+async function handleFolderReset(
+  action: 'override-remote' | 'revert-local',
+  folderId: string
+): Promise<void> {
+  try {
+    const result = await sendBridgeRequest<{ folderId: string; files: number }>({
+      action,
+      folderId,
+    });
+
+    // eslint-disable-next-line no-console
+    logger.info(`${action} finished for folder ${folderId}`, result);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    logger.error(
+      isBridgeUnavailable(error)
+        ? 'AirSync-Lite is not running; start it with "airsync start" first'
+        : `${action} failed`,
+      { error }
+    );
+    process.exitCode = 1;
+  }
+}
+
+/** Moves a file or directory to the front of the running app's transfers. */
+async function handlePrioritize(folderId: string, relativePath: string): Promise<void> {
+  try {
+    const result = await sendBridgeRequest<{ success: boolean; message?: string }>({
+      action: 'prioritize',
+      folderId,
+      path: relativePath,
+    });
+
+    // eslint-disable-next-line no-console
+    logger.info(`Prioritized ${relativePath} in folder ${folderId}`, result);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    logger.error(
+      isBridgeUnavailable(error)
+        ? 'AirSync-Lite is not running; start it with "airsync start" first'
+        : 'prioritize failed',
+      { error }
+    );
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Runs a relay in the foreground until interrupted. Tokens come from --token
+ * or the comma-separated AIRSYNC_RELAY_TOKENS; without any, anyone may relay.
+ */
+async function handleRelay(options: {
+  port: string;
+  host?: string;
+  token?: string[];
+  sessionRate: string;
+  maxSessions?: string;
+}): Promise<void> {
+  const tokens = [
+    ...(options.token ?? []),
+    ...(process.env.AIRSYNC_RELAY_TOKENS ?? '').split(','),
+  ].filter((token) => token.trim().length > 0);
+  const relay = new RelayServer({
+    port: Number(options.port),
+    host: options.host,
+    tokens,
+    sessionRateLimit: Number(options.sessionRate) * 1024,
+    maxSessions: options.maxSessions ? Number(options.maxSessions) : undefined,
+  });
+
+  await relay.start();
+  if (tokens.length === 0) {
+    logger.warn('No relay tokens configured; any device may use this relay');
+  }
+
+  await new Promise<void>((resolve) => {
+    const shutdown = () => {
+      logger.info('Stopping relay server');
+      void relay.stop().then(resolve);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+}
+
+/** Runs a rendezvous server in the foreground until interrupted. */
+async function handleRendezvous(options: {
+  port: string;
+  host?: string;
+  ttl: string;
+  maxDevices?: string;
+}): Promise<void> {
+  const rendezvous = new RendezvousServer({
+    port: Number(options.port),
+    host: options.host,
+    ttl: Number(options.ttl) * 60 * 1000,
+    maxDevices: options.maxDevices ? Number(options.maxDevices) : undefined,
+  });
+  await rendezvous.start();
+
+  await new Promise<void>((resolve) => {
+    const shutdown = () => {
+      logger.info('Stopping rendezvous server');
+      void rendezvous.stop().then(resolve);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+}
+
 async function handleConfigExport(target: string, configPath?: string): Promise<void> {
   const store = await loadStore(resolveConfigPath(configPath));
   const exportPath = path.resolve(target);
@@ -350,6 +479,50 @@ program
     }
   });
 
+program
+  .command('override <folderId>')
+  .description('Override remote changes with the contents of a send-only folder')
+  .action(async (folderId: string) => {
+    await handleFolderReset('override-remote', folderId);
+  });
+
+program
+  .command('revert <folderId>')
+  .description('Revert local changes in a receive-only folder')
+  .action(async (folderId: string) => {
+    await handleFolderReset('revert-local', folderId);
+  });
+
+program
+  .command('prioritize <folderId> <path>')
+  .description('Transfer a file or directory before anything else queued in the folder')
+  .action(async (folderId: string, relativePath: string) => {
+    await handlePrioritize(folderId, relativePath);
+  });
+
+program
+  .command('relay')
+  .description('Run a relay for devices that cannot reach each other directly')
+  .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_RELAY_PORT))
+  .option('--host <host>', 'Address to listen on')
+  .option('-t, --token <token...>', 'Tokens devices must present')
+  .option('--session-rate <KB/s>', 'Bandwidth cap per relayed session, 0 = unlimited', '0')
+  .option('--max-sessions <count>', 'Most sessions relayed at once')
+  .action(async (options) => {
+    await handleRelay(options);
+  });
+
+program
+  .command('rendezvous')
+  .description('Run a rendezvous server devices use to find each other across networks')
+  .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_RENDEZVOUS_PORT))
+  .option('--host <host>', 'Address to listen on')
+  .option('--ttl <minutes>', 'Minutes an announcement is kept', '15')
+  .option('--max-devices <count>', 'Most devices kept at once')
+  .action(async (options) => {
+    await handleRendezvous(options);
+  });
+
 const configCommand = program.command('config').description('Manage configuration');
 
 configCommand
@@ -0,0 +1,145 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { Hashing, RollingHash } from '../watcher/Hashing';
+import { ChunkedFile, ContentChunk } from './DiffTypes';
+
+export interface ContentChunkerOptions {
+  minSize: number;
+  avgSize: number;
+  maxSize: number;
+  /** Trailing bytes that decide whether a position is a chunk boundary. */
+  window: number;
+}
+
+const DEFAULT_OPTIONS: ContentChunkerOptions = {
+  minSize: 16 * 1024,
+  avgSize: 64 * 1024,
+  maxSize: 256 * 1024,
+  window: 48,
+};
+
+const READ_SIZE = 1024 * 1024;
+
+interface ChunkingState {
+  rolling: RollingHash;
+  fileHash: crypto.Hash;
+  chunkHash: crypto.Hash;
+  chunkStart: number;
+  chunkLength: number;
+  chunks: ContentChunk[];
+}
+
+/**
+ * Splits data at content-defined boundaries, so an edit only changes the
+ * chunks around it and identical data yields identical chunks in any file.
+ */
+export class ContentChunker {
+  private readonly options: ContentChunkerOptions;
+  private readonly hashing: Hashing;
+  private readonly mask: number;
+
+  constructor(options: Partial<ContentChunkerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    const { minSize, avgSize, maxSize, window } = this.options;
+    if (window <= 0 || window > minSize || minSize >= avgSize || avgSize > maxSize) {
+      throw new Error('Invalid content chunker sizes');
+    }
+
+    // Boundaries become likely once a chunk is past minSize, so aim the mask at the rest
+    this.mask = 2 ** Math.round(Math.log2(avgSize - minSize)) - 1;
+    this.hashing = new Hashing({
+      algorithm: 'sha256',
+      blockSize: maxSize,
+      rollingWindow: window,
+    });
+  }
+
+  async chunkFile(filePath: string): Promise<ChunkedFile> {
+    const state = this.createState();
+    const handle = await fs.open(filePath, 'r');
+
+    try {
+      const buffer = Buffer.alloc(READ_SIZE);
+      let bytesRead: number;
+      let position = 0;
+      do {
+        ({ bytesRead } = await handle.read(buffer, 0, READ_SIZE, position));
+        this.update(state, buffer.subarray(0, bytesRead));
+        position += bytesRead;
+      } while (bytesRead > 0);
+    } finally {
+      await handle.close();
+    }
+
+    return this.finish(state);
+  }
+
+  chunkBuffer(data: Buffer): ChunkedFile {
+    const state = this.createState();
+    this.update(state, data);
+    return this.finish(state);
+  }
+
+  private createState(): ChunkingState {
+    return {
+      rolling: this.hashing.createRollingHash(),
+      fileHash: crypto.createHash('sha256'),
+      chunkHash: crypto.createHash('sha256'),
+      chunkStart: 0,
+      chunkLength: 0,
+      chunks: [],
+    };
+  }
+
+  private update(state: ChunkingState, data: Buffer): void {
+    const { minSize, maxSize, window } = this.options;
+    // Bytes before this point can never fall inside the window at minSize
+    const rollFrom = minSize - window;
+    let sliceStart = 0;
+
+    for (let i = 0; i < data.length; i++) {
+      state.chunkLength += 1;
+      if (state.chunkLength > rollFrom) {
+        state.rolling.push(data[i]);
+      }
+
+      const boundary =
+        state.chunkLength >= maxSize ||
+        (state.chunkLength >= minSize && (state.rolling.value() & this.mask) === this.mask);
+
+      if (boundary) {
+        state.chunkHash.update(data.subarray(sliceStart, i + 1));
+        sliceStart = i + 1;
+        this.emitChunk(state);
+      }
+    }
+
+    state.chunkHash.update(data.subarray(sliceStart));
+    state.fileHash.update(data);
+  }
+
+  private emitChunk(state: ChunkingState): void {
+    state.chunks.push({
+      offset: state.chunkStart,
+      length: state.chunkLength,
+      hash: state.chunkHash.digest('hex'),
+    });
+    state.chunkStart += state.chunkLength;
+    state.chunkLength = 0;
+    state.chunkHash = crypto.createHash('sha256');
+    state.rolling.reset();
+  }
+
+  private finish(state: ChunkingState): ChunkedFile {
+    if (state.chunkLength > 0) {
+      this.emitChunk(state);
+    }
+
+    return {
+      size: state.chunkStart,
+      hash: state.fileHash.digest('hex'),
+      chunks: state.chunks,
+    };
+  }
+}
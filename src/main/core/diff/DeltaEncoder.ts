@@ -1,5 +1,12 @@
+import * as fs from 'fs/promises';
 import { DeltaChunk } from './DiffTypes';
 
+export const DELTA_HEADER_SIZE = 9;
+
+const OP_COPY = 0x01;
+const OP_INSERT = 0x02;
+const OP_DELETE = 0x03;
+
 export class DeltaEncoder {
   encode(chunks: DeltaChunk[]): Buffer {
     const parts: Buffer[] = [];
@@ -29,4 +36,99 @@ export class DeltaEncoder {
 
     return Buffer.concat(parts);
   }
+
+  /**
+   * Streams the encoded delta to disk; inserts without inline data are read
+   * from `sourcePath` at their offset. Returns the encoded size in bytes.
+   */
+  async encodeToFile(
+    chunks: DeltaChunk[],
+    sourcePath: string,
+    outputPath: string
+  ): Promise<number> {
+    const source = await fs.open(sourcePath, 'r');
+    const output = await fs.open(outputPath, 'w');
+    let written = 0;
+
+    try {
+      for (const chunk of chunks) {
+        if (chunk.type === 'insert' && !chunk.data) {
+          const length = chunk.length ?? 0;
+          const header = encodeHeader(OP_INSERT, chunk.offset, length);
+          const data = Buffer.alloc(length);
+          const { bytesRead } = await source.read(data, 0, length, chunk.offset);
+          if (bytesRead !== length) {
+            throw new Error(`Source changed while encoding delta at offset ${chunk.offset}`);
+          }
+          await output.write(header);
+          await output.write(data);
+          written += header.length + length;
+        } else {
+          const encoded = this.encode([chunk]);
+          await output.write(encoded);
+          written += encoded.length;
+        }
+      }
+    } finally {
+      await source.close();
+      await output.close();
+    }
+
+    return written;
+  }
+
+  decode(buffer: Buffer): DeltaChunk[] {
+    const chunks: DeltaChunk[] = [];
+    let position = 0;
+
+    while (position < buffer.length) {
+      if (buffer.length - position < DELTA_HEADER_SIZE) {
+        throw new Error('Truncated delta header');
+      }
+
+      const { type, offset, length } = decodeHeader(buffer.subarray(position));
+      position += DELTA_HEADER_SIZE;
+
+      if (type === 'insert') {
+        if (buffer.length - position < length) {
+          throw new Error('Truncated delta insert data');
+        }
+        chunks.push({ type, offset, data: buffer.subarray(position, position + length) });
+        position += length;
+      } else {
+        chunks.push({ type, offset, length });
+      }
+    }
+
+    return chunks;
+  }
+}
+
+function encodeHeader(op: number, offset: number, length: number): Buffer {
+  const header = Buffer.alloc(DELTA_HEADER_SIZE);
+  header.writeUInt8(op, 0);
+  header.writeUInt32BE(offset, 1);
+  header.writeUInt32BE(length, 5);
+  return header;
+}
+
+export function decodeHeader(header: Buffer): {
+  type: DeltaChunk['type'];
+  offset: number;
+  length: number;
+} {
+  const op = header.readUInt8(0);
+  const offset = header.readUInt32BE(1);
+  const length = header.readUInt32BE(5);
+
+  switch (op) {
+    case OP_COPY:
+      return { type: 'copy', offset, length };
+    case OP_INSERT:
+      return { type: 'insert', offset, length };
+    case OP_DELETE:
+      return { type: 'delete', offset, length };
+    default:
+      throw new Error(`Unknown delta instruction 0x${op.toString(16)}`);
+  }
 }
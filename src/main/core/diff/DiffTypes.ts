@@ -17,3 +17,35 @@ export interface RollingDiffResult {
   blocks: DiffBlock[];
   delta: DeltaChunk[];
 }
+
+export interface BlockSignature {
+  index: number;
+  weak: number;
+  strong: string;
+}
+
+export interface FileSignature {
+  blockSize: number;
+  size: number;
+  blocks: BlockSignature[];
+}
+
+export interface SignatureDiffResult {
+  /** Sequential instructions; inserts reference target offsets and carry no data. */
+  chunks: DeltaChunk[];
+  targetHash: string;
+  targetSize: number;
+  literalBytes: number;
+}
+
+export interface ContentChunk {
+  offset: number;
+  length: number;
+  hash: string;
+}
+
+export interface ChunkedFile {
+  size: number;
+  hash: string;
+  chunks: ContentChunk[];
+}
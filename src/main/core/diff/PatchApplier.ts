@@ -1,41 +1,76 @@
 import * as fs from 'fs/promises';
 import { DeltaChunk } from './DiffTypes';
+import { DELTA_HEADER_SIZE, decodeHeader } from './DeltaEncoder';
 
+/**
+ * Rebuilds a file from delta instructions applied in order: `copy` appends a
+ * range of the base file, `insert` appends literal data and `delete` is a
+ * no-op (the range is simply never copied).
+ */
 export class PatchApplier {
   async apply(basePath: string, outputPath: string, chunks: DeltaChunk[]): Promise<void> {
     const base = await fs.readFile(basePath);
+    const parts: Buffer[] = [];
 
-    // ✅ CRITICAL FIX: Calculate final size dynamically
-    let finalSize = base.length;
     for (const chunk of chunks) {
-      if (chunk.type === 'insert' && chunk.data) {
-        const chunkEnd = chunk.offset + chunk.data.length;
-        if (chunkEnd > finalSize) {
-          finalSize = chunkEnd;
-        }
+      if (chunk.type === 'copy') {
+        // Copies of a trailing short block may overrun the base size
+        const end = Math.min(chunk.offset + (chunk.length ?? 0), base.length);
+        parts.push(base.subarray(chunk.offset, end));
+      } else if (chunk.type === 'insert' && chunk.data) {
+        parts.push(chunk.data);
       }
     }
 
-    // Allocate buffer with correct size
-    const output = Buffer.alloc(finalSize);
+    await fs.writeFile(outputPath, Buffer.concat(parts));
+  }
+
+  /**
+   * Streaming variant of `apply` that reads encoded instructions from `deltaPath`,
+   * keeping memory bounded by the largest single instruction.
+   */
+  async applyFile(basePath: string, deltaPath: string, outputPath: string): Promise<void> {
+    const base = await fs.open(basePath, 'r');
+    const delta = await fs.open(deltaPath, 'r');
+    const output = await fs.open(outputPath, 'w');
 
-    // Copy base data (only up to base.length)
-    base.copy(output, 0, 0, Math.min(base.length, finalSize));
+    try {
+      const { size: deltaSize } = await delta.stat();
+      const header = Buffer.alloc(DELTA_HEADER_SIZE);
+      let position = 0;
 
-    // Apply patches
-    for (const chunk of chunks) {
-      if (chunk.type === 'copy') {
-        // Data already copied from base
-        continue;
-      } else if (chunk.type === 'insert' && chunk.data) {
-        // Insert new/changed data
-        chunk.data.copy(output, chunk.offset, 0, chunk.data.length);
-      } else if (chunk.type === 'delete' && chunk.length) {
-        // Zero out deleted region
-        output.fill(0, chunk.offset, chunk.offset + chunk.length);
+      while (position < deltaSize) {
+        const { bytesRead } = await delta.read(header, 0, DELTA_HEADER_SIZE, position);
+        if (bytesRead !== DELTA_HEADER_SIZE) {
+          throw new Error('Truncated delta header');
+        }
+        position += DELTA_HEADER_SIZE;
+
+        const { type, offset, length } = decodeHeader(header);
+        if (type === 'delete') {
+          continue;
+        }
+
+        const data = Buffer.alloc(length);
+        const source = type === 'copy' ? base : delta;
+        const readFrom = type === 'copy' ? offset : position;
+        const { bytesRead: dataRead } = await source.read(data, 0, length, readFrom);
+
+        if (type === 'insert') {
+          if (dataRead !== length) {
+            throw new Error('Truncated delta insert data');
+          }
+          position += length;
+        } else if (dataRead !== length) {
+          throw new Error(`Base file is shorter than copy range at offset ${offset}`);
+        }
+
+        await output.write(data, 0, dataRead);
       }
+    } finally {
+      await base.close();
+      await delta.close();
+      await output.close();
     }
-
-    await fs.writeFile(outputPath, output);
   }
 }
@@ -0,0 +1,288 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { BlockSignature, DeltaChunk, FileSignature, SignatureDiffResult } from './DiffTypes';
+
+export interface SignatureDiffOptions {
+  minBlockSize: number;
+  maxBlockSize: number;
+  /** Largest literal run emitted as a single insert instruction. */
+  maxLiteralRun: number;
+}
+
+const DEFAULT_OPTIONS: SignatureDiffOptions = {
+  minBlockSize: 2048,
+  maxBlockSize: 1024 * 1024,
+  maxLiteralRun: 4 * 1024 * 1024,
+};
+
+/**
+ * rsync-style delta generation: the receiver describes its copy of a file as a
+ * list of block checksums, and the sender finds those blocks at any offset of
+ * its own copy using a rolling weak checksum confirmed by SHA-256.
+ */
+export class SignatureDiff {
+  private readonly options: SignatureDiffOptions;
+
+  constructor(options: Partial<SignatureDiffOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Picks a block size close to sqrt(fileSize), rounded to a power of two.
+   */
+  chooseBlockSize(fileSize: number): number {
+    const target = 2 ** Math.ceil(Math.log2(Math.max(1, Math.sqrt(fileSize))));
+    return Math.min(this.options.maxBlockSize, Math.max(this.options.minBlockSize, target));
+  }
+
+  async createSignature(filePath: string, blockSize?: number): Promise<FileSignature> {
+    const handle = await fs.open(filePath, 'r');
+
+    try {
+      const { size } = await handle.stat();
+      const effectiveBlockSize = blockSize ?? this.chooseBlockSize(size);
+      const buffer = Buffer.alloc(effectiveBlockSize);
+      const blocks: BlockSignature[] = [];
+
+      for (let index = 0; index * effectiveBlockSize < size; index++) {
+        const { bytesRead } = await handle.read(
+          buffer,
+          0,
+          effectiveBlockSize,
+          index * effectiveBlockSize
+        );
+        if (bytesRead <= 0) {
+          break;
+        }
+
+        const block = buffer.subarray(0, bytesRead);
+        const { a, b } = weakChecksum(block, 0, bytesRead);
+        blocks.push({ index, weak: combine(a, b), strong: strongHash(block) });
+      }
+
+      return { blockSize: effectiveBlockSize, size, blocks };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Computes copy/insert instructions that rebuild `targetPath` from the file
+   * described by `signature`. Memory use is bounded by a few blocks.
+   */
+  async diff(targetPath: string, signature: FileSignature): Promise<SignatureDiffResult> {
+    const { blockSize } = signature;
+    const lookup = new Map<number, BlockSignature[]>();
+    // Cheap prefilter so most rolling positions skip the map lookup entirely
+    const seen = new Uint8Array(65536);
+    for (const block of signature.blocks) {
+      seen[tag(block.weak)] = 1;
+      const bucket = lookup.get(block.weak);
+      if (bucket) {
+        bucket.push(block);
+      } else {
+        lookup.set(block.weak, [block]);
+      }
+    }
+
+    const blockLength = (block: BlockSignature): number =>
+      Math.min(blockSize, signature.size - block.index * blockSize);
+
+    const reader = await BufferedReader.open(targetPath, Math.max(blockSize * 4, 1024 * 1024));
+    const targetHash = crypto.createHash('sha256');
+    const chunks: DeltaChunk[] = [];
+    let literalStart = 0;
+    let literalBytes = 0;
+
+    const pushCopy = (offset: number, length: number): void => {
+      const last = chunks[chunks.length - 1];
+      if (last?.type === 'copy' && last.offset + (last.length ?? 0) === offset) {
+        last.length = (last.length ?? 0) + length;
+      } else {
+        chunks.push({ type: 'copy', offset, length });
+      }
+    };
+
+    const flushLiteral = (end: number): void => {
+      if (end > literalStart) {
+        chunks.push({ type: 'insert', offset: literalStart, length: end - literalStart });
+        literalBytes += end - literalStart;
+      }
+      literalStart = end;
+    };
+
+    try {
+      const size = reader.size;
+      let pos = 0;
+      let windowLength = 0;
+      let a = 0;
+      let b = 0;
+
+      const resetWindow = async (): Promise<void> => {
+        windowLength = Math.min(blockSize, size - pos);
+        await reader.ensure(pos, pos + windowLength);
+        ({ a, b } = weakChecksum(reader.buffer, reader.indexOf(pos), windowLength));
+      };
+
+      await resetWindow();
+
+      while (pos < size && windowLength > 0) {
+        const weak = combine(a, b);
+        const candidates = seen[tag(weak)] ? lookup.get(weak) : undefined;
+        let match: BlockSignature | undefined;
+
+        if (candidates) {
+          const start = reader.indexOf(pos);
+          const strong = strongHash(reader.buffer.subarray(start, start + windowLength));
+          match = candidates.find(
+            (block) => block.strong === strong && blockLength(block) === windowLength
+          );
+        }
+
+        if (match) {
+          flushLiteral(pos);
+          pushCopy(match.index * blockSize, windowLength);
+          pos += windowLength;
+          literalStart = pos;
+          reader.release(pos);
+          await resetWindow();
+          continue;
+        }
+
+        // Roll the window forward by one byte
+        if (!reader.has(pos + windowLength + 1)) {
+          await reader.ensure(pos, pos + windowLength + 1);
+        }
+        const outgoing = reader.byteAt(pos);
+        pos += 1;
+
+        if (pos + windowLength - 1 < size) {
+          const incoming = reader.byteAt(pos + windowLength - 1);
+          a = (a - outgoing + incoming) & 0xffff;
+          b = (b - windowLength * outgoing + a) & 0xffff;
+        } else {
+          // Near EOF the window shrinks instead of rolling
+          a = (a - outgoing) & 0xffff;
+          b = (b - windowLength * outgoing) & 0xffff;
+          windowLength -= 1;
+        }
+
+        if (pos - literalStart >= this.options.maxLiteralRun) {
+          flushLiteral(pos);
+          reader.release(pos);
+        }
+      }
+
+      flushLiteral(size);
+
+      // Hash the target in a second sequential pass so the window buffer stays small
+      await reader.hashInto(targetHash);
+
+      return {
+        chunks,
+        targetHash: targetHash.digest('hex'),
+        targetSize: size,
+        literalBytes,
+      };
+    } finally {
+      await reader.close();
+    }
+  }
+}
+
+function weakChecksum(buffer: Buffer, start: number, length: number): { a: number; b: number } {
+  let a = 0;
+  let b = 0;
+  for (let i = 0; i < length; i++) {
+    const byte = buffer[start + i];
+    a += byte;
+    b += (length - i) * byte;
+  }
+  return { a: a & 0xffff, b: b & 0xffff };
+}
+
+function combine(a: number, b: number): number {
+  return ((b << 16) | a) >>> 0;
+}
+
+function tag(weak: number): number {
+  return (weak ^ (weak >>> 16)) & 0xffff;
+}
+
+function strongHash(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Sliding read buffer over a file; callers release bytes they no longer need.
+ */
+class BufferedReader {
+  buffer: Buffer = Buffer.alloc(0);
+  private bufferOffset = 0;
+
+  private constructor(
+    private readonly handle: fs.FileHandle,
+    readonly size: number,
+    private readonly readSize: number
+  ) {}
+
+  static async open(filePath: string, readSize: number): Promise<BufferedReader> {
+    const handle = await fs.open(filePath, 'r');
+    const { size } = await handle.stat();
+    return new BufferedReader(handle, size, readSize);
+  }
+
+  indexOf(position: number): number {
+    return position - this.bufferOffset;
+  }
+
+  byteAt(position: number): number {
+    return this.buffer[position - this.bufferOffset];
+  }
+
+  has(end: number): boolean {
+    return this.bufferOffset + this.buffer.length >= Math.min(end, this.size);
+  }
+
+  async ensure(start: number, end: number): Promise<void> {
+    const target = Math.min(end, this.size);
+    if (start < this.bufferOffset) {
+      throw new Error(`Position ${start} was already released`);
+    }
+
+    while (this.bufferOffset + this.buffer.length < target) {
+      const readFrom = this.bufferOffset + this.buffer.length;
+      const length = Math.max(this.readSize, target - readFrom);
+      const next = Buffer.alloc(Math.min(length, this.size - readFrom));
+      const { bytesRead } = await this.handle.read(next, 0, next.length, readFrom);
+      if (bytesRead <= 0) {
+        break;
+      }
+      this.buffer = Buffer.concat([this.buffer, next.subarray(0, bytesRead)]);
+    }
+  }
+
+  release(position: number): void {
+    const drop = position - this.bufferOffset;
+    if (drop > 0) {
+      this.buffer = this.buffer.subarray(Math.min(drop, this.buffer.length));
+      this.bufferOffset = position;
+    }
+  }
+
+  async hashInto(hash: crypto.Hash): Promise<void> {
+    const chunk = Buffer.alloc(this.readSize);
+    for (let position = 0; position < this.size; ) {
+      const { bytesRead } = await this.handle.read(chunk, 0, chunk.length, position);
+      if (bytesRead <= 0) {
+        break;
+      }
+      hash.update(chunk.subarray(0, bytesRead));
+      position += bytesRead;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
@@ -2,3 +2,5 @@ export * from './RollingDiff';
 export * from './DeltaEncoder';
 export * from './PatchApplier';
 export * from './DiffTypes';
+export * from './SignatureDiff';
+export * from './ContentChunker';
@@ -1,5 +1,6 @@
 export * from './watcher';
 export * from './diff';
+export * from './merge';
 export * from './versioning';
 export * from './ignore';
 export * from './utils/PresetRegistry';
@@ -0,0 +1,115 @@
+/** A key present in both edits with different values than in the ancestor. */
+export interface KeyConflict {
+  /** Dotted path of the key, e.g. `scripts.build`. */
+  key: string;
+  base?: unknown;
+  local?: unknown;
+  remote?: unknown;
+}
+
+/** A remote edit that has to be applied to the local document. */
+export interface KeyChange {
+  path: string[];
+  value?: unknown;
+  deleted: boolean;
+}
+
+export interface KeyMergeResult {
+  /** Merged value; conflicting keys keep the local value. */
+  value: unknown;
+  /** Remote edits taken over, in document order. */
+  changes: KeyChange[];
+  conflicts: KeyConflict[];
+}
+
+const ABSENT = Symbol('absent');
+type Slot = unknown | typeof ABSENT;
+
+/**
+ * Three-way merge of parsed documents at the key level. Objects are merged key by
+ * key; arrays and scalars are compared as whole values. `undefined` stands for a
+ * missing document, e.g. when there is no common ancestor.
+ */
+export function mergeKeys(base: unknown, local: unknown, remote: unknown): KeyMergeResult {
+  const result: KeyMergeResult = { value: undefined, changes: [], conflicts: [] };
+  const merged = mergeSlot(
+    [],
+    base === undefined ? ABSENT : base,
+    local === undefined ? ABSENT : local,
+    remote === undefined ? ABSENT : remote,
+    result
+  );
+  result.value = merged === ABSENT ? undefined : merged;
+  return result;
+}
+
+function mergeSlot(
+  path: string[],
+  base: Slot,
+  local: Slot,
+  remote: Slot,
+  result: KeyMergeResult
+): Slot {
+  if (deepEqual(local, remote) || deepEqual(base, remote)) {
+    return local;
+  }
+  if (deepEqual(base, local)) {
+    result.changes.push(
+      remote === ABSENT ? { path, deleted: true } : { path, value: remote, deleted: false }
+    );
+    return remote;
+  }
+
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const merged: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+    for (const key of keys) {
+      const value = mergeSlot(
+        [...path, key],
+        slot(baseObject, key),
+        slot(local, key),
+        slot(remote, key),
+        result
+      );
+      if (value !== ABSENT) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  result.conflicts.push({
+    key: path.join('.'),
+    base: base === ABSENT ? undefined : base,
+    local: local === ABSENT ? undefined : local,
+    remote: remote === ABSENT ? undefined : remote,
+  });
+  return local;
+}
+
+function slot(object: Record<string, unknown>, key: string): Slot {
+  return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : ABSENT;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
@@ -0,0 +1,261 @@
+import * as path from 'path';
+
+export interface MergeLabels {
+  local: string;
+  remote: string;
+}
+
+export interface ThreeWayMergeResult {
+  /** False when at least one region was changed differently on both sides. */
+  clean: boolean;
+  conflicts: number;
+  /** Merged text, with conflict markers around the regions that could not be merged. */
+  text: string;
+}
+
+/** Extensions of files that are merged line by line; others are treated as binary. */
+const TEXT_EXTENSIONS = new Set([
+  '.md',
+  '.markdown',
+  '.txt',
+  '.rst',
+  '.adoc',
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.css',
+  '.scss',
+  '.less',
+  '.html',
+  '.htm',
+  '.xml',
+  '.svg',
+  '.py',
+  '.rb',
+  '.go',
+  '.rs',
+  '.java',
+  '.kt',
+  '.swift',
+  '.c',
+  '.h',
+  '.cpp',
+  '.hpp',
+  '.cs',
+  '.php',
+  '.sh',
+  '.sql',
+  '.json',
+  '.yaml',
+  '.yml',
+  '.toml',
+  '.ini',
+  '.cfg',
+  '.csv',
+]);
+
+const BINARY_SNIFF_BYTES = 8000;
+
+export function isMergeableTextFile(filePath: string): boolean {
+  return TEXT_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Treats content with a NUL byte near the start as binary, like git does.
+ */
+export function looksBinary(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+interface MergeRegion {
+  base: string[];
+  local: string[];
+  remote: string[];
+}
+
+/**
+ * Line-based three-way merge (diff3). Regions changed on only one side take that
+ * side's lines; regions changed identically on both sides are taken once; the rest
+ * become conflicts wrapped in standard `<<<<<<<`, `=======`, `>>>>>>>` markers.
+ */
+export class ThreeWayMerge {
+  merge(
+    base: string,
+    local: string,
+    remote: string,
+    labels: MergeLabels = { local: 'local', remote: 'remote' }
+  ): ThreeWayMergeResult {
+    const eol = local.includes('\r\n') ? '\r\n' : '\n';
+    const output: string[] = [];
+    let conflicts = 0;
+
+    for (const region of this.regions(splitLines(base), splitLines(local), splitLines(remote))) {
+      const localChanged = !sameLines(region.local, region.base);
+      const remoteChanged = !sameLines(region.remote, region.base);
+
+      if (!remoteChanged || sameLines(region.local, region.remote)) {
+        output.push(...region.local);
+      } else if (!localChanged) {
+        output.push(...region.remote);
+      } else {
+        conflicts += 1;
+        output.push(
+          `<<<<<<< ${labels.local}${eol}`,
+          ...terminated(region.local, eol),
+          `=======${eol}`,
+          ...terminated(region.remote, eol),
+          `>>>>>>> ${labels.remote}${eol}`
+        );
+      }
+    }
+
+    return { clean: conflicts === 0, conflicts, text: output.join('') };
+  }
+
+  /**
+   * Splits the three texts into alternating stable regions (unchanged on both
+   * sides) and unstable ones, using the lines of `base` matched on both sides as anchors.
+   */
+  private regions(base: string[], local: string[], remote: string[]): MergeRegion[] {
+    const localMatch = matchLines(base, local);
+    const remoteMatch = matchLines(base, remote);
+    const regions: MergeRegion[] = [];
+    let o = 0;
+    let a = 0;
+    let b = 0;
+
+    for (;;) {
+      let stable = 0;
+      while (
+        o + stable < base.length &&
+        localMatch[o + stable] === a + stable &&
+        remoteMatch[o + stable] === b + stable
+      ) {
+        stable += 1;
+      }
+
+      if (stable > 0) {
+        const lines = base.slice(o, o + stable);
+        regions.push({ base: lines, local: lines, remote: lines });
+        o += stable;
+        a += stable;
+        b += stable;
+        continue;
+      }
+
+      // The next base line kept on both sides ends the unstable region
+      let next = o;
+      while (
+        next < base.length &&
+        (localMatch[next] === undefined || remoteMatch[next] === undefined)
+      ) {
+        next += 1;
+      }
+      const localEnd = next < base.length ? localMatch[next]! : local.length;
+      const remoteEnd = next < base.length ? remoteMatch[next]! : remote.length;
+
+      if (next === o && localEnd === a && remoteEnd === b) {
+        return regions;
+      }
+
+      regions.push({
+        base: base.slice(o, next),
+        local: local.slice(a, localEnd),
+        remote: remote.slice(b, remoteEnd),
+      });
+      o = next;
+      a = localEnd;
+      b = remoteEnd;
+    }
+  }
+}
+
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/** Conflict markers must start on their own line. */
+function terminated(lines: string[], eol: string): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith('\n') ? lines : [...lines.slice(0, -1), last + eol];
+}
+
+/**
+ * Longest common subsequence of two line lists (Myers' O(ND) algorithm).
+ * Returns, for each line of `a`, the index of the line of `b` it is matched with.
+ */
+function matchLines(a: string[], b: string[]): Array<number | undefined> {
+  const matches: Array<number | undefined> = new Array(a.length);
+
+  // Common prefix and suffix need no search, which keeps typical edits cheap
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start += 1;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+    matches[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x reached on diagonals -d..d after d edits
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  // Walk the edit path back from the end, recording the diagonal (matching) moves
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    const furthest = (diagonal: number) => (d === 0 ? 0 : trace[d - 1][diagonal + d - 1]);
+    const prevK =
+      d === 0 ? 0 : k === -d || (k !== d && furthest(k - 1) < furthest(k + 1)) ? k + 1 : k - 1;
+    const prevX = furthest(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x -= 1;
+      y -= 1;
+      matches[start + x] = start + y;
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return matches;
+}
@@ -0,0 +1,3 @@
+export * from './ThreeWayMerge';
+export * from './KeyMerge';
+export * from './strategies';
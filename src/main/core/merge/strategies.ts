@@ -0,0 +1,240 @@
+import * as path from 'path';
+import YAML from 'yaml';
+import { KeyChange, KeyMergeResult, mergeKeys } from './KeyMerge';
+import {
+  MergeLabels,
+  ThreeWayMerge,
+  ThreeWayMergeResult,
+  isMergeableTextFile,
+} from './ThreeWayMerge';
+
+export interface MergeResult extends ThreeWayMergeResult {
+  /** Dotted paths of the keys both sides changed, for structured formats. */
+  conflictingKeys?: string[];
+}
+
+/**
+ * Merges one file format. Strategies throw when a version cannot be parsed,
+ * so the caller can fall back to the next matching strategy.
+ */
+export interface MergeStrategy {
+  readonly name: string;
+  matches(filePath: string): boolean;
+  merge(base: string, local: string, remote: string, labels: MergeLabels): MergeResult;
+}
+
+/** Line-based diff3 merge for any text file. */
+export class TextMergeStrategy implements MergeStrategy {
+  readonly name = 'text';
+  private readonly merger = new ThreeWayMerge();
+
+  matches(filePath: string): boolean {
+    return (isMergeableTextFile(filePath) || isEnvFile(filePath)) && !isLockfile(filePath);
+  }
+
+  merge(base: string, local: string, remote: string, labels: MergeLabels): MergeResult {
+    return this.merger.merge(base, local, remote, labels);
+  }
+}
+
+/**
+ * Key-level JSON merge, so reformatting or reordering keys on one side does not
+ * conflict with edits on the other. Output keeps the local indentation.
+ */
+export class JsonMergeStrategy implements MergeStrategy {
+  readonly name = 'json';
+
+  matches(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.json' && !isLockfile(filePath);
+  }
+
+  merge(base: string, local: string, remote: string): MergeResult {
+    const result = mergeKeys(
+      parseJson(base, 'base'),
+      parseJson(local, 'local'),
+      parseJson(remote, 'remote')
+    );
+    const indent = /^([ \t]+)\S/m.exec(local)?.[1] ?? 2;
+    const text = JSON.stringify(result.value, null, indent) + (local.endsWith('\n') ? '\n' : '');
+    return toMergeResult(result, local.includes('\r\n') ? text.replace(/\n/g, '\r\n') : text);
+  }
+}
+
+/**
+ * Key-level YAML merge. Remote edits are applied to the local document, which
+ * keeps its comments and layout.
+ */
+export class YamlMergeStrategy implements MergeStrategy {
+  readonly name = 'yaml';
+
+  matches(filePath: string): boolean {
+    const ext = path.extname(filePath).toLowerCase();
+    return (ext === '.yaml' || ext === '.yml') && !isLockfile(filePath);
+  }
+
+  merge(base: string, local: string, remote: string): MergeResult {
+    const localDocument = parseYaml(local, 'local');
+    const result = mergeKeys(
+      parseYaml(base, 'base')?.toJSON(),
+      localDocument?.toJSON(),
+      parseYaml(remote, 'remote')?.toJSON()
+    );
+
+    if (!localDocument || result.changes.some((change) => change.path.length === 0)) {
+      return toMergeResult(result, YAML.stringify(result.value));
+    }
+    for (const change of result.changes) {
+      if (change.deleted) {
+        localDocument.deleteIn(change.path);
+      } else {
+        localDocument.setIn(change.path, change.value);
+      }
+    }
+    return toMergeResult(result, String(localDocument));
+  }
+}
+
+/**
+ * Merges `.env`-style `KEY=value` files by variable. Remote edits are applied
+ * to the local lines, so comments and ordering survive.
+ */
+export class EnvMergeStrategy implements MergeStrategy {
+  readonly name = 'env';
+
+  matches(filePath: string): boolean {
+    return isEnvFile(filePath);
+  }
+
+  merge(base: string, local: string, remote: string): MergeResult {
+    const result = mergeKeys(parseEnv(base), parseEnv(local), parseEnv(remote));
+    const eol = local.includes('\r\n') ? '\r\n' : '\n';
+    const lines = local.split(/\r?\n/);
+    const trailingNewline = local.length === 0 || local.endsWith('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    for (const change of result.changes) {
+      applyEnvChange(lines, change);
+    }
+
+    const text = lines.join(eol) + (trailingNewline && lines.length > 0 ? eol : '');
+    return toMergeResult(result, text);
+  }
+}
+
+const LOCKFILE_COMMANDS = new Map<string, { command: string; args: string[] }>([
+  [
+    'package-lock.json',
+    { command: 'npm', args: ['install', '--package-lock-only', '--ignore-scripts'] },
+  ],
+  [
+    'npm-shrinkwrap.json',
+    { command: 'npm', args: ['install', '--package-lock-only', '--ignore-scripts'] },
+  ],
+  ['yarn.lock', { command: 'yarn', args: ['install', '--mode', 'update-lockfile'] }],
+  ['pnpm-lock.yaml', { command: 'pnpm', args: ['install', '--lockfile-only', '--ignore-scripts'] }],
+  ['Cargo.lock', { command: 'cargo', args: ['generate-lockfile'] }],
+  ['poetry.lock', { command: 'poetry', args: ['lock', '--no-update'] }],
+  ['Pipfile.lock', { command: 'pipenv', args: ['lock'] }],
+  ['Gemfile.lock', { command: 'bundle', args: ['lock'] }],
+  ['composer.lock', { command: 'composer', args: ['update', '--lock', '--no-scripts'] }],
+]);
+
+/**
+ * Lockfiles are generated by package managers and are never merged by content.
+ */
+export function isLockfile(filePath: string): boolean {
+  return LOCKFILE_COMMANDS.has(path.basename(filePath));
+}
+
+/** Package manager command that rebuilds the lockfile from its manifest. */
+export function getLockfileCommand(
+  filePath: string
+): { command: string; args: string[] } | undefined {
+  return LOCKFILE_COMMANDS.get(path.basename(filePath));
+}
+
+export function isEnvFile(filePath: string): boolean {
+  const name = path.basename(filePath).toLowerCase();
+  return name === '.env' || name.startsWith('.env.') || name.endsWith('.env');
+}
+
+function toMergeResult(result: KeyMergeResult, text: string): MergeResult {
+  const conflictingKeys = result.conflicts.map((conflict) => conflict.key);
+  return {
+    clean: conflictingKeys.length === 0,
+    conflicts: conflictingKeys.length,
+    conflictingKeys,
+    text,
+  };
+}
+
+function parseJson(text: string, label: string): unknown {
+  if (text.trim().length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Cannot parse ${label} version as JSON: ${(error as Error).message}`);
+  }
+}
+
+function parseYaml(text: string, label: string): YAML.Document.Parsed | undefined {
+  if (text.trim().length === 0) {
+    return undefined;
+  }
+  const document = YAML.parseDocument(text);
+  if (document.errors.length > 0) {
+    throw new Error(`Cannot parse ${label} version as YAML: ${document.errors[0].message}`);
+  }
+  return document;
+}
+
+const ENV_LINE = /^\s*(export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=(.*)$/;
+
+function parseEnv(text: string): Record<string, string> | undefined {
+  if (text.trim().length === 0) {
+    return undefined;
+  }
+  const variables: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const match = ENV_LINE.exec(line);
+    if (match) {
+      variables[match[2]] = match[3].trim();
+    }
+  }
+  return variables;
+}
+
+function applyEnvChange(lines: string[], change: KeyChange): void {
+  // Without an ancestor or local file the whole set of variables is replaced
+  if (change.path.length === 0) {
+    lines.splice(0, lines.length);
+    for (const [key, value] of Object.entries((change.value ?? {}) as Record<string, string>)) {
+      lines.push(`${key}=${value}`);
+    }
+    return;
+  }
+
+  const [key] = change.path;
+  const indexes = lines
+    .map((line, index) => (ENV_LINE.exec(line)?.[2] === key ? index : -1))
+    .filter((index) => index >= 0);
+
+  if (change.deleted) {
+    for (const index of indexes.reverse()) {
+      lines.splice(index, 1);
+    }
+    return;
+  }
+
+  const last = indexes[indexes.length - 1];
+  if (last === undefined) {
+    lines.push(`${key}=${change.value as string}`);
+  } else {
+    const exported = ENV_LINE.exec(lines[last])?.[1] ?? '';
+    lines[last] = `${exported}${key}=${change.value as string}`;
+  }
+}
@@ -15,6 +15,8 @@ export interface FileWatchEvent extends WatchEventBase {
   size: number;
   hash?: string;
   previousHash?: string;
+  /** Path the file was moved from; set on `rename` events. */
+  previousRelativePath?: string;
   metadata?: FileMetadata;
 }
 
@@ -43,6 +45,8 @@ export interface WatcherOptions {
   persistent: boolean;
   depth?: number;
   ignoredPatterns?: string[];
+  /** How long a removed file may wait for a matching addition to count as a rename. */
+  renameWindowMs?: number;
 }
 
 export interface SnapshotEntry {
@@ -51,6 +51,10 @@ export class FileSystemWatcher extends EventEmitter {
       this.queue.enqueue({ ...meta.event, hash: meta.snapshot.hash });
       debouncedFlush();
     });
+    this.tracker.on('file-rename', (meta) => {
+      this.queue.enqueue({ ...meta.event, hash: meta.snapshot.hash });
+      debouncedFlush();
+    });
     this.tracker.on('file-delete', (meta) => {
       this.queue.enqueue(meta.event);
       debouncedFlush();
@@ -70,6 +74,7 @@ export class FileSystemWatcher extends EventEmitter {
   }
 
   async stop(): Promise<void> {
+    this.tracker.flush();
     await this.queue.drain();
     await this.adapter.stop();
   }
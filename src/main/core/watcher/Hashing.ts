@@ -68,6 +68,7 @@ export class RollingHash {
   private currentHash = 0;
   private highestBasePower = 1;
   private buffer: number[] = [];
+  private readonly powers: number[] = [1];
 
   constructor(options: HashOptions) {
     this.window = options.rollingWindow ?? options.blockSize;
@@ -80,10 +81,7 @@ export class RollingHash {
 
     this.buffer.push(byte);
     this.currentHash = (this.currentHash * this.base + byte) % this.modulus;
-
-    if (this.buffer.length > 1) {
-      this.highestBasePower = (this.highestBasePower * this.base) % this.modulus;
-    }
+    this.highestBasePower = this.power(this.buffer.length - 1);
   }
 
   pop(): void {
@@ -103,6 +101,8 @@ export class RollingHash {
     if (this.buffer.length === 0) {
       this.currentHash = 0;
       this.highestBasePower = 1;
+    } else {
+      this.highestBasePower = this.power(this.buffer.length - 1);
     }
   }
 
@@ -115,4 +115,12 @@ export class RollingHash {
     this.currentHash = 0;
     this.highestBasePower = 1;
   }
+
+  /** base^exponent mod modulus, memoized since the window length is bounded. */
+  private power(exponent: number): number {
+    while (this.powers.length <= exponent) {
+      this.powers.push((this.powers[this.powers.length - 1] * this.base) % this.modulus);
+    }
+    return this.powers[exponent];
+  }
 }
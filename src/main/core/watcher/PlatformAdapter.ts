@@ -127,6 +127,7 @@ class GenericAdapter extends BaseAdapter {
       relativePath,
       folderId,
       timestamp: Date.now(),
+      inode: stats?.ino,
     } as WatchEvent;
 
     if (type === 'add' || type === 'change' || type === 'unlink' || type === 'rename') {
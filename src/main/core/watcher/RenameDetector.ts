@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+
+export interface RenameCandidate {
+  relativePath: string;
+  size: number;
+  inode?: number;
+  hash?: string;
+}
+
+export interface RenameDetectorOptions {
+  /** How long a removal waits for a matching addition before it counts as a delete. */
+  windowMs: number;
+}
+
+/**
+ * Pairs a removal with an addition of the same file seen shortly afterwards.
+ * Candidates match on size plus content hash, or on inode when either hash is
+ * unknown; among several matches the one with the same inode wins.
+ * Removals that expire unpaired are emitted as `remove`.
+ */
+export class RenameDetector<T extends RenameCandidate> extends EventEmitter {
+  private pending: Array<{ item: T; timer: NodeJS.Timeout }> = [];
+
+  constructor(private readonly options: RenameDetectorOptions) {
+    super();
+  }
+
+  removed(item: T): void {
+    const timer = setTimeout(() => {
+      this.pending = this.pending.filter((entry) => entry.item !== item);
+      this.emit('remove', item);
+    }, this.options.windowMs);
+
+    this.pending.push({ item, timer });
+  }
+
+  /**
+   * Returns and consumes the pending removal that `item` is a rename of, if any.
+   */
+  added(item: RenameCandidate): T | undefined {
+    const matches = this.pending.filter(({ item: removed }) => this.matches(removed, item));
+    const match =
+      matches.find(
+        ({ item: removed }) => item.inode !== undefined && removed.inode === item.inode
+      ) ?? matches[0];
+
+    if (!match) {
+      return undefined;
+    }
+
+    clearTimeout(match.timer);
+    this.pending = this.pending.filter((entry) => entry !== match);
+    return match.item;
+  }
+
+  /** Reports every pending removal as a delete right away. */
+  flush(): void {
+    const pending = this.pending;
+    this.clear();
+    pending.forEach(({ item }) => this.emit('remove', item));
+  }
+
+  clear(): void {
+    this.pending.forEach(({ timer }) => clearTimeout(timer));
+    this.pending = [];
+  }
+
+  private matches(removed: T, added: RenameCandidate): boolean {
+    if (removed.size !== added.size || removed.relativePath === added.relativePath) {
+      return false;
+    }
+
+    if (removed.hash && added.hash) {
+      return removed.hash === added.hash;
+    }
+
+    return removed.inode !== undefined && removed.inode === added.inode;
+  }
+}
@@ -1,7 +1,8 @@
 import { EventEmitter } from 'events';
-import { SnapshotEntry, WatchEvent, WatcherOptions } from './EventTypes';
+import { FileWatchEvent, SnapshotEntry, WatchEvent, WatcherOptions } from './EventTypes';
 import { SnapshotStore } from './SnapshotStore';
 import { Hashing } from './Hashing';
+import { RenameDetector, RenameCandidate } from './RenameDetector';
 
 interface TrackerOptions {
   watcherOptions: WatcherOptions;
@@ -9,9 +10,23 @@ interface TrackerOptions {
   hashing: Hashing;
 }
 
+interface PendingRemoval extends RenameCandidate {
+  event: WatchEvent;
+}
+
+const DEFAULT_RENAME_WINDOW_MS = 2000;
+
 export class Tracker extends EventEmitter {
+  private readonly renames: RenameDetector<PendingRemoval>;
+
   constructor(private readonly options: TrackerOptions) {
     super();
+    this.renames = new RenameDetector({
+      windowMs: options.watcherOptions.renameWindowMs ?? DEFAULT_RENAME_WINDOW_MS,
+    });
+    this.renames.on('remove', ({ event }: PendingRemoval) => {
+      this.emit('file-delete', { event });
+    });
   }
 
   async handleEvent(event: WatchEvent): Promise<void> {
@@ -34,6 +49,11 @@ export class Tracker extends EventEmitter {
     return this.options.snapshotStore.list();
   }
 
+  /** Reports removals still waiting for a rename partner as deletes. */
+  flush(): void {
+    this.renames.flush();
+  }
+
   private async handleFileChange(event: WatchEvent): Promise<void> {
     if (event.type === 'unlink') {
       return;
@@ -45,17 +65,38 @@ export class Tracker extends EventEmitter {
       size: hash.size,
       hash: hash.hash,
       modifiedAt: event.timestamp,
+      inode: event.inode,
     };
 
     const status = this.options.snapshotStore.compare(snapshot);
     this.options.snapshotStore.add(snapshot);
 
+    if (status === 'new') {
+      const source = this.renames.added(snapshot);
+      if (source) {
+        const renamed: FileWatchEvent = {
+          ...(event as FileWatchEvent),
+          type: 'rename',
+          previousRelativePath: source.relativePath,
+        };
+        this.emit('file-rename', { event: renamed, snapshot });
+        return;
+      }
+    }
+
     this.emit('file-change', { event, status, snapshot });
   }
 
   private handleFileDelete(event: WatchEvent): void {
+    const snapshot = this.options.snapshotStore.get(event.relativePath);
     this.options.snapshotStore.remove(event.relativePath);
-    this.emit('file-delete', { event });
+
+    // Hold the delete briefly in case the file reappears elsewhere
+    if (snapshot) {
+      this.renames.removed({ ...snapshot, event });
+    } else {
+      this.emit('file-delete', { event });
+    }
   }
 
   private handleDirectoryAdd(event: WatchEvent): void {
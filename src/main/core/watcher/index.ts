@@ -1,6 +1,7 @@
 export * from './EventTypes';
 export * from './ChangeQueue';
 export * from './Hashing';
+export * from './RenameDetector';
 export * from './SnapshotStore';
 export * from './Tracker';
 export * from './FileSystemWatcher';
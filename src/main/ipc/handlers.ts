@@ -17,6 +17,7 @@ import {
   sanitizeFullConfig,
   sanitizeFolderInput,
   sanitizeFolderUpdate,
+  sanitizeEncryptionPasswords,
   sanitizeDeviceRename,
   sanitizeDiffPaths,
   sanitizeIgnoreRulesPayload,
@@ -155,6 +156,18 @@ export function setupIpcHandlers(
     }
   );
 
+  ipcMainInstance.handle(
+    'folders:setEncryptionPasswords',
+    async (_event, folderId: string, passwords: Record<string, string>) => {
+      if (!syncEngine) {
+        throw new Error('Sync engine not initialized');
+      }
+
+      // Kept in the keychain; the config never holds them
+      await syncEngine.setEncryptionPasswords(folderId, sanitizeEncryptionPasswords(passwords));
+    }
+  );
+
   ipcMainInstance.handle('folders:remove', async (_event, folderId: string) => {
     const folders = store.get('folders');
     const filtered = folders.filter((f) => f.id !== folderId);
@@ -168,6 +181,22 @@ export function setupIpcHandlers(
     return true;
   });
 
+  ipcMainInstance.handle('folders:overrideRemote', async (_event, folderId: string) => {
+    if (!syncEngine) {
+      throw new Error('Sync engine not initialized');
+    }
+
+    return syncEngine.overrideRemoteChanges(folderId);
+  });
+
+  ipcMainInstance.handle('folders:revertLocal', async (_event, folderId: string) => {
+    if (!syncEngine) {
+      throw new Error('Sync engine not initialized');
+    }
+
+    return syncEngine.revertLocalChanges(folderId);
+  });
+
   ipcMainInstance.handle('folders:browse', async () => {
     const result = await dialog.showOpenDialog({
       properties: ['openDirectory', 'createDirectory'],
@@ -223,6 +252,26 @@ export function setupIpcHandlers(
     throw new Error('Device not found');
   });
 
+  ipcMainInstance.handle(
+    'devices:setUntrusted',
+    async (_event, deviceId: string, untrusted: boolean) => {
+      if (typeof untrusted !== 'boolean') {
+        throw new Error('Field "untrusted" must be a boolean.');
+      }
+
+      const devices = store.get('devices');
+      const device = devices.find((d) => d.id === deviceId);
+
+      if (device) {
+        device.untrusted = untrusted;
+        store.set('devices', devices);
+        return device;
+      }
+
+      throw new Error('Device not found');
+    }
+  );
+
   // Sync operation handlers
   ipcMainInstance.handle('sync:getStatus', () => {
     if (!syncEngine) {
@@ -282,6 +331,14 @@ export function setupIpcHandlers(
     syncEngine.resumeSync(folderId);
   });
 
+  ipcMainInstance.handle('sync:prioritize', (_event, folderId: string, relativePath: string) => {
+    if (!syncEngine) {
+      throw new Error('Sync engine not initialized');
+    }
+
+    syncEngine.prioritize(folderId, relativePath);
+  });
+
   // File operation handlers
   ipcMainInstance.handle('files:getHistory', async () => {
     // This would be implemented by the version manager
@@ -295,7 +352,7 @@ export function setupIpcHandlers(
 
   ipcMainInstance.handle(
     'files:resolveConflict',
-    async (_event, conflictId: string, resolution: 'local' | 'remote' | 'both') => {
+    async (_event, conflictId: string, resolution: 'local' | 'remote' | 'both' | 'merge') => {
       if (!syncEngine) {
         throw new Error('Sync engine not initialized');
       }
@@ -496,6 +553,8 @@ export function setupIpcHandlers(
     return scheduleManager?.getCurrentSSIDSync() || null;
   });
 
+  ipcMainInstance.handle('network:getNatStatus', () => networkManager?.getNatStatus() ?? null);
+
   // Logs and diagnostics handlers
   ipcMainInstance.handle('logs:get', async (_event, lines?: number) => {
     const logPath = (logger as any).getLogPath();
@@ -548,6 +607,8 @@ export function setupIpcHandlers(
       diskSpace: await getDiskSpace(),
       syncStatus: syncEngine?.getSyncStatus() || {},
       connectedDevices: networkManager?.getConnectedDevices() || new Set(),
+      nat: networkManager?.getNatStatus() ?? null,
+      portMappings: networkManager?.getPortMappings() ?? [],
       scheduleStatus: scheduleManager?.getStatus() || {},
     };
 
@@ -7,6 +7,7 @@ import fs from 'fs';
 import { setupIpcHandlers } from './ipc/handlers';
 import { createTray } from './tray/trayManager';
 import { initializeLogger } from './utils/logger';
+import { keychain } from './utils/keychain';
 import { FileWatcher } from './sync/fileWatcher';
 import { SyncEngine } from './sync/syncEngine';
 import { NetworkManager } from './network/networkManager';
@@ -37,6 +38,10 @@ const defaultAppConfig: AppConfig = {
   performance: {
     uploadLimit: 0,
     downloadLimit: 0,
+    lanUploadLimit: 0,
+    lanDownloadLimit: 0,
+    wanUploadLimit: 0,
+    wanDownloadLimit: 0,
     pauseOnLowBattery: true,
     batteryThreshold: 20,
     pauseOnPowerSave: true,
@@ -226,7 +231,7 @@ async function initializeServices(): Promise<void> {
     await networkManager.start();
 
     // Initialize sync engine
-    syncEngine = new SyncEngine(store, fileWatcher, networkManager);
+    syncEngine = new SyncEngine(store, fileWatcher, networkManager, keychain);
     await syncEngine.initialize();
 
     // Initialize schedule manager
@@ -273,6 +278,28 @@ app.whenReady().then(async () => {
           const files = await networkManager.getLocalFileList(folderId);
           return { folderId, files };
         },
+        async overrideRemote(folderId: string) {
+          if (!syncEngine) {
+            throw new Error('Sync engine not initialized');
+          }
+
+          return { folderId, files: await syncEngine.overrideRemoteChanges(folderId) };
+        },
+        async revertLocal(folderId: string) {
+          if (!syncEngine) {
+            throw new Error('Sync engine not initialized');
+          }
+
+          return { folderId, files: await syncEngine.revertLocalChanges(folderId) };
+        },
+        async prioritize(folderId: string, relativePath: string) {
+          if (!syncEngine) {
+            return { success: false, message: 'Sync engine not initialized' };
+          }
+
+          syncEngine.prioritize(folderId, relativePath);
+          return { success: true };
+        },
       });
     }
 
@@ -0,0 +1,152 @@
+import { logger } from '../utils/logger';
+import { isLanAddress } from '../sync/bandwidthLimiter';
+
+/** How a peer is reached, best first. */
+export type PathTier = 'lan' | 'wan' | 'relay';
+
+/** Where a candidate address came from. */
+export type CandidateSource = 'discovery' | 'rendezvous' | 'config' | 'relay';
+
+export interface DialCandidate {
+  address: string;
+  port: number;
+  source: CandidateSource;
+}
+
+export interface RaceResult<T> {
+  candidate: DialCandidate;
+  connection: T;
+}
+
+export interface ConnectionRacerOptions {
+  /** Milliseconds between starting one direct attempt and the next. */
+  stagger?: number;
+  /** Milliseconds relay attempts wait, so direct paths get a head start. */
+  relayDelay?: number;
+}
+
+const TIER_RANK: Record<PathTier, number> = { lan: 0, wan: 1, relay: 2 };
+
+/** Tier of an address as recorded on a connection, or of a dial candidate. */
+export function pathTier(target: string | DialCandidate): PathTier {
+  if (typeof target !== 'string') {
+    return target.source === 'relay' ? 'relay' : pathTier(target.address);
+  }
+  if (target.startsWith('relay:')) {
+    return 'relay';
+  }
+  return isLanAddress(target) ? 'lan' : 'wan';
+}
+
+/** Whether a path of tier `a` should be preferred over one of tier `b`. */
+export function isBetterTier(a: PathTier, b: PathTier): boolean {
+  return TIER_RANK[a] < TIER_RANK[b];
+}
+
+/**
+ * Drops duplicate endpoints and orders the rest LAN, then WAN, then relay,
+ * keeping the order candidates were gathered in within a tier.
+ */
+export function rankCandidates(candidates: DialCandidate[]): DialCandidate[] {
+  const unique = new Map<string, DialCandidate>();
+  for (const candidate of candidates) {
+    const key = `${candidate.address}|${candidate.port}`;
+    if (!unique.has(key)) {
+      unique.set(key, candidate);
+    }
+  }
+  return [...unique.values()]
+    .map((candidate, index) => ({ candidate, index }))
+    .sort(
+      (a, b) =>
+        TIER_RANK[pathTier(a.candidate)] - TIER_RANK[pathTier(b.candidate)] || a.index - b.index
+    )
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Dials a peer's candidate endpoints in the spirit of Happy Eyeballs
+ * (RFC 8305): attempts start one after another with a short stagger, the
+ * next one straight away when every attempt so far has failed, and the first
+ * connection that comes up wins. Later ones are closed again.
+ */
+export class ConnectionRacer {
+  private readonly DEFAULT_STAGGER = 250;
+  private readonly DEFAULT_RELAY_DELAY = 2_000;
+
+  constructor(private readonly options: ConnectionRacerOptions = {}) {}
+
+  /** Resolves with the winning connection, or null when every attempt failed. */
+  race<T>(
+    candidates: DialCandidate[],
+    dial: (candidate: DialCandidate) => Promise<T>,
+    close: (connection: T) => void
+  ): Promise<RaceResult<T> | null> {
+    const ordered = rankCandidates(candidates);
+
+    return new Promise((resolve) => {
+      let next = 0;
+      let running = 0;
+      let settled = false;
+      let timer: NodeJS.Timeout | null = null;
+
+      const finish = (result: RaceResult<T> | null) => {
+        settled = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        resolve(result);
+      };
+
+      const startNext = () => {
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        if (settled) {
+          return;
+        }
+        if (next >= ordered.length) {
+          if (running === 0) {
+            finish(null);
+          }
+          return;
+        }
+
+        const candidate = ordered[next++];
+        running++;
+        Promise.resolve()
+          .then(() => dial(candidate))
+          .then(
+            (connection) => {
+              running--;
+              if (settled) {
+                close(connection);
+              } else {
+                finish({ candidate, connection });
+              }
+            },
+            (error) => {
+              running--;
+              logger.debug(`Dialing ${candidate.address}:${candidate.port} failed:`, error);
+              if (running === 0) {
+                startNext();
+              }
+            }
+          );
+
+        if (next < ordered.length) {
+          timer = setTimeout(startNext, this.delayBefore(ordered[next]));
+        }
+      };
+
+      startNext();
+    });
+  }
+
+  private delayBefore(candidate: DialCandidate): number {
+    return pathTier(candidate) === 'relay'
+      ? this.options.relayDelay ?? this.DEFAULT_RELAY_DELAY
+      : this.options.stagger ?? this.DEFAULT_STAGGER;
+  }
+}
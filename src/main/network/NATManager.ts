@@ -1,24 +1,57 @@
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
+import { NatPmpClient } from './portmap/NatPmpClient';
+import { PcpClient } from './portmap/PcpClient';
+import { PortMapper, PortMappingProtocol, findDefaultGateway } from './portmap/PortMapper';
+import { UpnpClient } from './portmap/UpnpClient';
 
-interface NATPortMapping {
-  protocol: 'tcp' | 'udp';
+export interface NATPortMapping {
+  protocol: PortMappingProtocol;
   privatePort: number;
   publicPort: number;
+  /** Lease granted in seconds; 0 means the gateway keeps it until removed. */
   ttl: number;
+  externalAddress?: string;
 }
 
-interface NATDevice {
+export interface NATDevice {
   gateway: string;
-  type: 'upnp' | 'nat-pmp';
+  type: 'upnp' | 'nat-pmp' | 'pcp';
 }
 
+export interface NATManagerOptions {
+  /** Gateway asked over PCP and NAT-PMP; the default route's when not set. */
+  gateway?: string;
+  /** Port PCP and NAT-PMP requests go to. */
+  pmpPort?: number;
+  /** Where SSDP searches go, for gateways that do not join the multicast group. */
+  ssdpAddress?: string;
+  ssdpPort?: number;
+  /** Milliseconds to wait for the gateway on each request. */
+  timeout?: number;
+  /** Lease to ask for, in seconds. */
+  lifetime?: number;
+}
+
+/**
+ * Asks the gateway to forward ports to this device so peers on other
+ * networks can dial it directly. PCP and NAT-PMP are tried first since they
+ * need one unicast round trip; UPnP IGD after. Leases are renewed halfway
+ * through and removed again on cleanup.
+ */
 export class NATManager extends EventEmitter {
   private mappings: Map<number, NATPortMapping> = new Map();
+  private readonly renewTimers = new Map<number, NodeJS.Timeout>();
   private device: NATDevice | null = null;
+  private mapper: PortMapper | null = null;
   private enabled: boolean;
+  private readonly DEFAULT_LIFETIME = 2 * 60 * 60;
+  private readonly RENEW_RETRY_DELAY = 30 * 1000;
 
-  constructor(enabled: boolean = true) {
+  constructor(
+    enabled: boolean = true,
+    private readonly options: NATManagerOptions = {}
+  ) {
     super();
     this.enabled = enabled;
   }
@@ -28,41 +61,117 @@ export class NATManager extends EventEmitter {
       logger.info('NAT traversal disabled');
       return;
     }
+    if (this.mapper) {
+      return;
+    }
 
-    logger.warn(
-      'NAT traversal temporarily disabled due to security vulnerabilities in nat-api dependency'
-    );
-    logger.warn('Use relay/TURN servers or configure port forwarding manually');
-    logger.info('NAT Manager initialized in disabled mode');
+    const timeout = this.options.timeout ?? 2000;
+    const gateway = this.options.gateway ?? (await findDefaultGateway());
+    const candidates: PortMapper[] = [
+      ...(gateway
+        ? [
+            new PcpClient(gateway, { port: this.options.pmpPort, timeout }),
+            new NatPmpClient(gateway, { port: this.options.pmpPort, timeout }),
+          ]
+        : []),
+      new UpnpClient({
+        ssdpAddress: this.options.ssdpAddress,
+        ssdpPort: this.options.ssdpPort,
+        timeout,
+      }),
+    ];
+
+    for (const candidate of candidates) {
+      if (await candidate.probe()) {
+        this.mapper = candidate;
+        this.device = { gateway: candidate.gateway, type: candidate.type };
+        logger.info(`Port mapping available through ${candidate.type} on ${candidate.gateway}`);
+        return;
+      }
+      candidate.close();
+    }
+    logger.info('No gateway offers port mapping (UPnP IGD, NAT-PMP or PCP)');
   }
 
-  async mapPort(privatePort: number, publicPort: number): Promise<boolean> {
+  /** Forwards `publicPort` on the gateway to `privatePort` here. */
+  async mapPort(
+    privatePort: number,
+    publicPort: number,
+    protocol: PortMappingProtocol = 'tcp'
+  ): Promise<NATPortMapping | null> {
     if (!this.enabled) {
       logger.info(`NAT mapping skipped (disabled): ${privatePort} -> ${publicPort}`);
-      return false;
+      return null;
+    }
+    if (!this.mapper) {
+      logger.debug(`No gateway to map ${privatePort} -> ${publicPort} on`);
+      return null;
     }
 
-    logger.warn('Port mapping not available - NAT traversal disabled');
-    return false;
+    try {
+      const result = await this.mapper.map({
+        protocol,
+        privatePort,
+        publicPort,
+        lifetime: this.options.lifetime ?? this.DEFAULT_LIFETIME,
+      });
+      const mapping: NATPortMapping = {
+        protocol,
+        privatePort,
+        publicPort: result.publicPort,
+        ttl: result.lifetime,
+        externalAddress: result.externalAddress ?? (await this.getExternalIP()) ?? undefined,
+      };
+      this.mappings.set(mapping.publicPort, mapping);
+      this.scheduleRenewal(mapping);
+      logger.info(
+        `Mapped ${protocol} ${mapping.externalAddress ?? '?'}:${mapping.publicPort} -> ${privatePort} through ${this.mapper.type}`
+      );
+      this.emit('mapped', mapping);
+      return mapping;
+    } catch (error) {
+      logger.warn(`Port mapping ${privatePort} -> ${publicPort} failed:`, error);
+      return null;
+    }
   }
 
   async unmapPort(publicPort: number): Promise<boolean> {
-    if (!this.enabled) {
+    const mapping = this.mappings.get(publicPort);
+    this.clearRenewal(publicPort);
+    this.mappings.delete(publicPort);
+    if (!mapping || !this.mapper) {
       return true;
     }
 
-    this.mappings.delete(publicPort);
-    logger.info(`Port unmapping skipped: ${publicPort}`);
-    return true;
+    try {
+      await this.mapper.unmap({ ...mapping, lifetime: 0 });
+      logger.info(`Removed port mapping ${publicPort}`);
+      return true;
+    } catch (error) {
+      logger.warn(`Failed to remove port mapping ${publicPort}:`, error);
+      return false;
+    }
   }
 
   async getExternalIP(): Promise<string | null> {
-    if (!this.enabled) {
+    if (!this.enabled || !this.mapper) {
       return null;
     }
 
-    logger.info('External IP detection not available - NAT traversal disabled');
-    return null;
+    try {
+      return await this.mapper.getExternalIP();
+    } catch (error) {
+      logger.debug('External IP lookup through the gateway failed:', error);
+      return null;
+    }
+  }
+
+  getMappings(): NATPortMapping[] {
+    return [...this.mappings.values()];
+  }
+
+  getDevice(): NATDevice | null {
+    return this.device;
   }
 
   async cleanup(): Promise<void> {
@@ -70,6 +179,9 @@ export class NATManager extends EventEmitter {
       await this.unmapPort(publicPort);
     }
     this.mappings.clear();
+    this.mapper?.close();
+    this.mapper = null;
+    this.device = null;
     logger.info('NAT Manager cleaned up');
   }
 
@@ -81,6 +193,61 @@ export class NATManager extends EventEmitter {
     this.enabled = enabled;
     logger.info(`NAT traversal ${enabled ? 'enabled' : 'disabled'}`);
   }
+
+  /** Renews halfway through the lease, as RFC 6886 suggests. */
+  private scheduleRenewal(mapping: NATPortMapping): void {
+    this.clearRenewal(mapping.publicPort);
+    if (mapping.ttl === 0) {
+      return;
+    }
+    const expiresAt = Date.now() + mapping.ttl * 1000;
+    const timer = setTimeout(() => void this.renew(mapping, expiresAt), mapping.ttl * 500);
+    timer.unref?.();
+    this.renewTimers.set(mapping.publicPort, timer);
+  }
+
+  private async renew(mapping: NATPortMapping, expiresAt: number): Promise<void> {
+    this.renewTimers.delete(mapping.publicPort);
+    if (!this.mapper || this.mappings.get(mapping.publicPort) !== mapping) {
+      return;
+    }
+    try {
+      const result = await this.mapper.map({
+        ...mapping,
+        lifetime: this.options.lifetime ?? this.DEFAULT_LIFETIME,
+      });
+      const renewed: NATPortMapping = {
+        ...mapping,
+        publicPort: result.publicPort,
+        ttl: result.lifetime,
+        externalAddress: result.externalAddress ?? mapping.externalAddress,
+      };
+      this.mappings.delete(mapping.publicPort);
+      this.mappings.set(renewed.publicPort, renewed);
+      this.scheduleRenewal(renewed);
+      logger.debug(`Renewed port mapping ${renewed.publicPort} for ${renewed.ttl}s`);
+      this.emit('mapped', renewed);
+    } catch (error) {
+      if (Date.now() + this.RENEW_RETRY_DELAY < expiresAt) {
+        logger.warn(`Renewing port mapping ${mapping.publicPort} failed; retrying:`, error);
+        const timer = setTimeout(() => void this.renew(mapping, expiresAt), this.RENEW_RETRY_DELAY);
+        timer.unref?.();
+        this.renewTimers.set(mapping.publicPort, timer);
+        return;
+      }
+      logger.warn(`Port mapping ${mapping.publicPort} expired:`, error);
+      this.mappings.delete(mapping.publicPort);
+      this.emit('unmapped', mapping);
+    }
+  }
+
+  private clearRenewal(publicPort: number): void {
+    const timer = this.renewTimers.get(publicPort);
+    if (timer) {
+      clearTimeout(timer);
+      this.renewTimers.delete(publicPort);
+    }
+  }
 }
 
 export default NATManager;
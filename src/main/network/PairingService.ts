@@ -4,6 +4,7 @@ import Store from 'electron-store';
 import { AppConfig } from '../../shared/types/config';
 import { SecureChannel } from './secureChannel';
 import { PairingRequest, PairingResponse } from './protocol/Protocol';
+import { LEGACY_PROTOCOL_VERSION } from './protocol/TransferFrame';
 import { MessageBus } from './MessageBus';
 import { RateLimiter } from './security/RateLimiter';
 
@@ -77,7 +78,8 @@ export class PairingService extends EventEmitter {
           compressionEnabled: true,
           relayEnabled: true,
           natTraversalEnabled: true,
-          protocolVersion: '1.0.0',
+          // The peer's real version is recorded by the handshake when it connects
+          protocolVersion: LEGACY_PROTOCOL_VERSION,
         },
         publicKey: response.publicKey,
       } as any);
@@ -144,7 +146,8 @@ export class PairingService extends EventEmitter {
           compressionEnabled: true,
           relayEnabled: true,
           natTraversalEnabled: true,
-          protocolVersion: '1.0.0',
+          // The peer's real version is recorded by the handshake when it connects
+          protocolVersion: LEGACY_PROTOCOL_VERSION,
         },
         publicKey,
       } as any);
@@ -1,5 +1,10 @@
 import { EventEmitter } from 'events';
 
+export interface PeerAddress {
+  address: string;
+  port: number;
+}
+
 export interface PeerInfo {
   id: string;
   name: string;
@@ -8,6 +13,8 @@ export interface PeerInfo {
   status: 'unknown' | 'discovering' | 'connected' | 'disconnected';
   lastSeenAt?: number;
   capabilities?: Record<string, unknown>;
+  /** Every address the peer announced through a rendezvous server, best first. */
+  addresses?: PeerAddress[];
 }
 
 export class PeerRegistry extends EventEmitter {
@@ -4,3 +4,8 @@ export * from './networkManager';
 export * from './PeerRegistry';
 export * from './MessageBus';
 export * from './protocol/Protocol';
+export * from './protocol/TransferFrame';
+export * from './relay';
+export * from './rendezvous';
+export * from './stun';
+export * from './portmap';
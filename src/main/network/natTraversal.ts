@@ -1,45 +1,42 @@
 import { EventEmitter } from 'events';
 import * as dgram from 'dgram';
 import * as net from 'net';
-import * as crypto from 'crypto';
 import { logger } from '../utils/logger';
-
-interface STUNResult {
-  address: string;
-  port: number;
-  type: 'open' | 'symmetric' | 'restricted' | 'port-restricted';
-}
-
-interface RelayServer {
-  address: string;
-  port: number;
-  token: string;
-}
+import type { NatClassification } from '../../shared/types/sync';
+import type { RelayClient } from './relay/RelayClient';
+import { NatClassifier } from './stun/NatClassifier';
+import { StunAddress, parseStunUrl } from './stun/StunMessage';
+
+/** Used when the network rules name no STUN servers. */
+export const DEFAULT_STUN_SERVERS = [
+  'stun:stun.l.google.com:19302',
+  'stun:stun1.l.google.com:19302',
+  'stun:stun2.l.google.com:19302',
+  'stun:stun3.l.google.com:19302',
+  'stun:stun4.l.google.com:19302',
+];
 
 export class NATTraversal extends EventEmitter {
-  private stunServers = [
-    { host: 'stun.l.google.com', port: 19302 },
-    { host: 'stun1.l.google.com', port: 19302 },
-    { host: 'stun2.l.google.com', port: 19302 },
-    { host: 'stun3.l.google.com', port: 19302 },
-    { host: 'stun4.l.google.com', port: 19302 },
-  ];
-
-  private relayServers: RelayServer[] = [];
-  private publicEndpoint: STUNResult | null = null;
+  private readonly classifier = new NatClassifier();
+  private relayClient: RelayClient | null = null;
+  private classification: NatClassification | null = null;
   private udpSocket: dgram.Socket | null = null;
   private tcpPunchSocket: net.Socket | null = null;
 
-  constructor() {
+  constructor(private readonly getStunServers: () => string[] = () => []) {
     super();
   }
 
+  setRelayClient(client: RelayClient | null): void {
+    this.relayClient = client;
+  }
+
   async start(): Promise<void> {
     try {
-      // Discover public endpoint using STUN
-      this.publicEndpoint = await this.discoverPublicEndpoint();
+      // Discover public endpoint and NAT behaviour using STUN
+      const classification = await this.classifyNat();
       logger.info(
-        `NAT type: ${this.publicEndpoint.type}, Public endpoint: ${this.publicEndpoint.address}:${this.publicEndpoint.port}`
+        `NAT type: ${classification.type} (mapping ${classification.mapping}, filtering ${classification.filtering}), Public endpoint: ${classification.publicAddress}:${classification.publicPort}`
       );
 
       // Set up UDP hole punching socket
@@ -51,7 +48,7 @@ export class NATTraversal extends EventEmitter {
       // Bind to discovered port if possible
       await new Promise<void>((resolve, reject) => {
         this.udpSocket!.once('error', reject);
-        this.udpSocket!.bind(this.publicEndpoint!.port, () => {
+        this.udpSocket!.bind(classification.publicPort, () => {
           this.udpSocket!.removeListener('error', reject);
           resolve();
         });
@@ -64,131 +61,20 @@ export class NATTraversal extends EventEmitter {
     }
   }
 
-  private async discoverPublicEndpoint(): Promise<STUNResult> {
-    for (const server of this.stunServers) {
+  /** Probes the configured STUN servers, or the default ones, and keeps the result. */
+  async classifyNat(): Promise<NatClassification> {
+    const configured = this.getStunServers();
+    const servers: StunAddress[] = [];
+    for (const url of configured.length > 0 ? configured : DEFAULT_STUN_SERVERS) {
       try {
-        const socket = dgram.createSocket('udp4');
-        const result = await this.performSTUNQuery(socket, server);
-        socket.close();
-
-        return {
-          address: result.address,
-          port: result.port,
-          type: await this.detectNATType(server),
-        };
+        servers.push(parseStunUrl(url));
       } catch (error) {
-        logger.debug(`STUN server ${server.host} failed:`, error);
-        continue;
+        logger.warn(`Ignoring STUN server ${url}:`, error);
       }
     }
 
-    throw new Error('All STUN servers failed');
-  }
-
-  private performSTUNQuery(
-    socket: dgram.Socket,
-    server: { host: string; port: number }
-  ): Promise<{ address: string; port: number }> {
-    return new Promise((resolve, reject) => {
-      const transactionId = crypto.randomBytes(12);
-
-      // Create STUN binding request (simplified)
-      const stunRequest = Buffer.concat([
-        Buffer.from([0x00, 0x01]), // Binding Request
-        Buffer.from([0x00, 0x00]), // Message Length (no attributes)
-        Buffer.from([0x21, 0x12, 0xa4, 0x42]), // Magic Cookie
-        transactionId,
-      ]);
-
-      const timeout = setTimeout(() => {
-        reject(new Error('STUN query timeout'));
-      }, 5000);
-
-      socket.once('message', (msg) => {
-        clearTimeout(timeout);
-
-        try {
-          // Parse STUN response (simplified)
-          if (msg.length < 20) {
-            reject(new Error('Invalid STUN response'));
-            return;
-          }
-
-          // Extract XOR-MAPPED-ADDRESS (simplified parsing)
-          let offset = 20;
-          while (offset < msg.length) {
-            const attrType = msg.readUInt16BE(offset);
-            const attrLength = msg.readUInt16BE(offset + 2);
-
-            if (attrType === 0x0020) {
-              // XOR-MAPPED-ADDRESS
-              const family = msg[offset + 5];
-              const port = msg.readUInt16BE(offset + 6) ^ 0x2112;
-              const addr =
-                family === 0x01
-                  ? `${msg[offset + 8] ^ 0x21}.${msg[offset + 9] ^ 0x12}.${msg[offset + 10] ^ 0xa4}.${msg[offset + 11] ^ 0x42}`
-                  : ''; // IPv6 not implemented
-
-              resolve({ address: addr, port });
-              return;
-            }
-
-            offset += 4 + attrLength;
-            // Align to 4-byte boundary
-            offset = Math.ceil(offset / 4) * 4;
-          }
-
-          reject(new Error('No XOR-MAPPED-ADDRESS in response'));
-        } catch (error) {
-          reject(error);
-        }
-      });
-
-      socket.send(stunRequest, server.port, server.host, (err) => {
-        if (err) {
-          clearTimeout(timeout);
-          reject(err);
-        }
-      });
-    });
-  }
-
-  private async detectNATType(stunServer: {
-    host: string;
-    port: number;
-  }): Promise<STUNResult['type']> {
-    // Simplified NAT type detection
-    // In a real implementation, this would perform multiple STUN queries
-    // to determine the exact NAT type
-    try {
-      const socket1 = dgram.createSocket('udp4');
-      const socket2 = dgram.createSocket('udp4');
-
-      // Bind to different local ports
-      await new Promise<void>((resolve) => {
-        socket1.bind(0, () => resolve());
-      });
-
-      await new Promise<void>((resolve) => {
-        socket2.bind(0, () => resolve());
-      });
-
-      // Query STUN from both sockets
-      const res1 = await this.performSTUNQuery(socket1, stunServer);
-      const res2 = await this.performSTUNQuery(socket2, stunServer);
-
-      socket1.close();
-      socket2.close();
-
-      // Compare results
-      if (res1.port === res2.port) {
-        return 'symmetric';
-      } else {
-        return 'port-restricted';
-      }
-    } catch (error) {
-      return 'restricted';
-    }
+    this.classification = await this.classifier.classify(servers);
+    return this.classification;
   }
 
   async establishConnection(
@@ -326,37 +212,23 @@ export class NATTraversal extends EventEmitter {
   }
 
   private async establishRelayConnection(remoteId: string): Promise<void> {
-    // In a production system, this would connect through a relay server
-    // For now, we'll emit an event indicating relay is needed
-    logger.info(`Relay connection needed for ${remoteId}`);
-
-    this.emit('relay-needed', { remoteId });
-
-    // Try to use a relay server if available
-    if (this.relayServers.length > 0) {
-      const relay = this.relayServers[0];
-
-      const socket = new net.Socket();
-
-      socket.on('connect', () => {
-        // Authenticate with relay
-        socket.write(
-          JSON.stringify({
-            type: 'relay-connect',
-            token: relay.token,
-            targetId: remoteId,
-          })
-        );
+    if (!this.relayClient?.hasRelays()) {
+      logger.info(`Relay connection needed for ${remoteId}`);
+      this.emit('relay-needed', { remoteId });
+      return;
+    }
 
-        this.emit('connection-established', {
-          type: 'relay',
-          remoteId,
-          socket,
-          relay,
-        });
+    try {
+      const { stream, relay } = await this.relayClient.connect(remoteId);
+      this.emit('connection-established', {
+        type: 'relay',
+        remoteId,
+        socket: stream,
+        relay,
       });
-
-      socket.connect(relay.port, relay.address);
+    } catch (error) {
+      logger.warn(`Relay connection to ${remoteId} failed:`, error);
+      this.emit('relay-needed', { remoteId });
     }
   }
 
@@ -369,8 +241,14 @@ export class NATTraversal extends EventEmitter {
     }
   }
 
-  getPublicEndpoint(): STUNResult | null {
-    return this.publicEndpoint;
+  getPublicEndpoint(): StunAddress | null {
+    return this.classification
+      ? { address: this.classification.publicAddress, port: this.classification.publicPort }
+      : null;
+  }
+
+  getNatClassification(): NatClassification | null {
+    return this.classification;
   }
 
   async stop(): Promise<void> {
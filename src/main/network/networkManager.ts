@@ -9,7 +9,10 @@ const DEFAULT_IGNORE_PATTERNS = [
 import { EventEmitter } from 'events';
 import http, { Server as HttpServer } from 'http';
 import https, { Server as HttpsServer } from 'https';
+import net from 'net';
 import os from 'os';
+import tls from 'tls';
+import { Duplex } from 'stream';
 import QRCode from 'qrcode';
 import { Server as SocketIOServer, Socket as ServerSocket } from 'socket.io';
 import { io as SocketIOClient, Socket as ClientSocket } from 'socket.io-client';
@@ -17,23 +20,50 @@ import { v4 as uuidv4 } from 'uuid';
 import Store from 'electron-store';
 import { logger } from '../utils/logger';
 import type {
+  ChunkManifestRequestMessage,
   TransferInitMessage,
   TransferChunkMessage,
   TransferCompleteMessage,
   TransferErrorMessage,
   TransferRequestMessage,
 } from '../../shared/types/transfer';
+import { ConnectionRacer, DialCandidate, isBetterTier, pathTier } from './ConnectionRacer';
 import { DiscoveryService } from './discoveryService';
+import { NATManager, NATPortMapping } from './NATManager';
 import { NATTraversal } from './natTraversal';
-import { SecureChannel } from './secureChannel';
-import { PeerRegistry, PeerInfo } from './PeerRegistry';
+import { RelayClient, RelayConnection } from './relay/RelayClient';
+import { RendezvousClient } from './rendezvous/RendezvousClient';
+import { SecureChannel, certificateMatchesKey } from './secureChannel';
+import { PeerRegistry, PeerInfo, PeerAddress } from './PeerRegistry';
 import { MessageBus } from './MessageBus';
 import { ProtocolMessage } from './protocol/Protocol';
+import { LEGACY_PROTOCOL_VERSION, PROTOCOL_VERSION } from './protocol/TransferFrame';
+import { LEGACY_COMPRESSION, SUPPORTED_COMPRESSION } from './protocol/Compression';
+import {
+  PROTOCOL_FEATURES,
+  getLocalCapabilities,
+  legacyCapabilities,
+  negotiateCapabilities,
+  supportsHandshake,
+} from './protocol/Capabilities';
+import {
+  MAX_PEER_MESSAGE_BYTES,
+  PeerMessageType,
+  getTransferId,
+  validatePeerMessage,
+} from './protocol/MessageSchemas';
 import { RateLimiter } from './security/RateLimiter';
 import { IntrusionDetection } from './security/IntrusionDetection';
 import { ReplayProtector } from './security/ReplayProtector';
-import type { AppConfig } from '../../shared/types/config';
-import type { DeviceInfo, FileEntry } from '../../shared/types/sync';
+import type { AppConfig, NetworkRules } from '../../shared/types/config';
+import type {
+  DeviceInfo,
+  FileEntry,
+  FileInfo,
+  NatClassification,
+  NegotiatedCapabilities,
+  ProtocolFeature,
+} from '../../shared/types/sync';
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
@@ -43,12 +73,23 @@ import { ensurePairingCode } from '../utils/validation';
 interface ConnectionInfo {
   socket: ServerSocket;
   deviceId: string;
+  /** Remote address of the peer, used to tell LAN from WAN connections. */
+  address: string;
+  /** What the peer and this device agreed on in the capability handshake. */
+  capabilities: NegotiatedCapabilities;
   secure: boolean;
   established: Date;
   lastActivity: Date;
   role: 'client' | 'server';
 }
 
+type FileListProvider = (folderId: string, deviceId: string) => Promise<FileInfo[]>;
+type FileHashLookup = (
+  folderId: string,
+  relativePath: string,
+  stats: { size: number; mtimeMs: number; ino: number }
+) => string | undefined;
+
 interface PairingRequestState {
   deviceId: string;
   deviceName: string;
@@ -61,11 +102,20 @@ interface PairingRequestState {
 
 export class NetworkManager extends EventEmitter {
   private server: HttpServer | HttpsServer | null = null;
+  /** Serves relayed sessions once they are decrypted; never listens on a port. */
+  private relayedServer: HttpServer | null = null;
+  /** Who is on the other end of relayed sessions, as their TLS certificates proved. */
+  private readonly relayedSessions = new WeakMap<Duplex, { deviceId: string; address: string }>();
   private socketServer: SocketIOServer | null = null;
   private readonly connections: Map<string, ConnectionInfo> = new Map();
   private readonly pairingRequests: Map<string, PairingRequestState> = new Map();
   private readonly discoveryService: DiscoveryService;
   private readonly natTraversal: NATTraversal;
+  private readonly natManager = new NATManager();
+  private portMappingTask: Promise<void> | null = null;
+  private readonly relayClient: RelayClient;
+  private readonly rendezvousClient: RendezvousClient;
+  private rendezvousTimer: NodeJS.Timeout | null = null;
   private readonly secureChannel: SecureChannel;
   private readonly peerRegistry: PeerRegistry;
   private readonly messageBus: MessageBus;
@@ -81,8 +131,19 @@ export class NetworkManager extends EventEmitter {
   private readonly MAX_DIRECTORY_DEPTH = 32;
   private readonly MAX_DIRECTORY_ENTRIES = 20000;
   private walkEntryCount = 0;
+  private fileListProvider: FileListProvider | null = null;
+  private fileHashLookup: FileHashLookup | null = null;
   private readonly CONNECTION_TIMEOUT = 30 * 1000;
+  private readonly HANDSHAKE_TIMEOUT = 10 * 1000;
   private readonly HEARTBEAT_INTERVAL = 10 * 1000;
+  private readonly RELAY_DIAL_INTERVAL = 60 * 1000;
+  private readonly RENDEZVOUS_INTERVAL = 5 * 60 * 1000;
+  private readonly relayDialAttempts = new Map<string, number>();
+  private readonly UPGRADE_RETRY_INTERVAL = 60 * 1000;
+  private readonly UPGRADE_DRAIN_PERIOD = 30 * 1000;
+  private readonly upgradeAttempts = new Map<string, number>();
+  private readonly dialing = new Set<string>();
+  private readonly connectionRacer = new ConnectionRacer();
 
   constructor(private readonly store: Store<AppConfig>) {
     super();
@@ -95,8 +156,19 @@ export class NetworkManager extends EventEmitter {
       intervalMs: 5_000,
       peerRegistry: this.peerRegistry,
     });
-    this.natTraversal = new NATTraversal();
+    this.natTraversal = new NATTraversal(() => this.getStunServerUrls());
     this.secureChannel = new SecureChannel(this.deviceId);
+    this.relayClient = new RelayClient(this.deviceId, this.secureChannel, () =>
+      this.getRelayUrls()
+    );
+    this.natTraversal.setRelayClient(this.relayClient);
+    this.rendezvousClient = new RendezvousClient(this.deviceId, this.secureChannel, () =>
+      this.getDiscoveryServerUrls()
+    );
+
+    this.relayClient.on('incoming', (connection: RelayConnection) => {
+      void this.acceptRelayedSession(connection);
+    });
 
     this.discoveryService.on('peer-discovered', (announcement) => {
       this.handleDeviceDiscovered({
@@ -134,10 +206,18 @@ export class NetworkManager extends EventEmitter {
         cors: { origin: '*', methods: ['GET', 'POST'] },
         pingTimeout: 60_000,
         pingInterval: 25_000,
+        // Anything larger is refused by the message schemas anyway
+        maxHttpBufferSize: MAX_PEER_MESSAGE_BYTES,
       });
 
       this.socketServer.on('connection', (socket) => this.handleIncomingConnection(socket));
 
+      const engine = this.socketServer.engine;
+      this.relayedServer = http.createServer((req, res) => engine.handleRequest(req, res));
+      this.relayedServer.on('upgrade', (req, socket, head) =>
+        engine.handleUpgrade(req, socket, head)
+      );
+
       const port = await this.findAvailablePort();
       await new Promise<void>((resolve, reject) => {
         this.server!.once('error', reject);
@@ -149,6 +229,9 @@ export class NetworkManager extends EventEmitter {
 
       await this.discoveryService.start(this.deviceId, port);
       await this.natTraversal.start();
+      this.relayClient.listen();
+      this.startRendezvous(port);
+      this.portMappingTask = this.startPortMapping(port);
       this.startHeartbeat();
     } catch (error) {
       logger.error('Failed to start network manager:', error);
@@ -164,6 +247,15 @@ export class NetworkManager extends EventEmitter {
 
     await this.discoveryService.stop();
     await this.natTraversal.stop();
+    // Let a mapping still being set up finish so cleanup can remove it
+    await this.portMappingTask;
+    this.portMappingTask = null;
+    await this.natManager.cleanup();
+    this.relayClient.stop();
+    if (this.rendezvousTimer) {
+      clearInterval(this.rendezvousTimer);
+      this.rendezvousTimer = null;
+    }
 
     if (this.socketServer) {
       this.socketServer.close();
@@ -173,12 +265,23 @@ export class NetworkManager extends EventEmitter {
       this.server.close();
       this.server = null;
     }
+    this.relayedServer = null;
   }
 
   getDeviceId(): string {
     return this.deviceId;
   }
 
+  /** What STUN revealed about the NAT in front of this device, once probed. */
+  getNatStatus(): NatClassification | null {
+    return this.natTraversal.getNatClassification();
+  }
+
+  /** Ports the router forwards to this device. */
+  getPortMappings(): NATPortMapping[] {
+    return this.natManager.getMappings();
+  }
+
   getConnectedDevices(): Set<string> {
     return new Set(this.connections.keys());
   }
@@ -187,6 +290,105 @@ export class NetworkManager extends EventEmitter {
     return this.connections.get(deviceId) ?? null;
   }
 
+  /**
+   * Capabilities of a peer: the ones negotiated on connecting, else the ones
+   * recorded the last time it was connected.
+   */
+  getPeerCapabilities(deviceId: string): NegotiatedCapabilities {
+    const connection = this.connections.get(deviceId);
+    if (connection) {
+      return connection.capabilities;
+    }
+    const stored = this.store
+      .get('devices', [])
+      .find((device) => device.id === deviceId)?.capabilities;
+    if (stored?.features) {
+      return {
+        protocolVersion: stored.protocolVersion,
+        features: stored.features,
+        compressionAlgorithms: stored.compressionAlgorithms ?? LEGACY_COMPRESSION,
+      };
+    }
+    return legacyCapabilities(stored?.protocolVersion, stored?.compressionAlgorithms);
+  }
+
+  hasPeerFeature(deviceId: string, feature: ProtocolFeature): boolean {
+    return this.getPeerCapabilities(deviceId).features.includes(feature);
+  }
+
+  /** Keeps the stored capabilities in line with what was negotiated with the peer. */
+  private recordPeerCapabilities(deviceId: string, capabilities: NegotiatedCapabilities): void {
+    const devices = this.store.get('devices', []);
+    const device = devices.find((d) => d.id === deviceId);
+    if (
+      device?.capabilities &&
+      (device.capabilities.protocolVersion !== capabilities.protocolVersion ||
+        device.capabilities.features?.join() !== capabilities.features.join() ||
+        device.capabilities.compressionAlgorithms?.join() !==
+          capabilities.compressionAlgorithms.join())
+    ) {
+      device.capabilities = { ...device.capabilities, ...capabilities };
+      this.store.set('devices', devices);
+    }
+  }
+
+  /**
+   * Works out what a freshly authenticated peer supports. Peers that predate
+   * the handshake, or fail it, are treated as the version they reported.
+   */
+  private async negotiatePeer(
+    socket: ServerSocket,
+    deviceId: string,
+    reported: Record<string, unknown> | undefined,
+    initiate: boolean
+  ): Promise<NegotiatedCapabilities> {
+    // Peers that do not report a version speak the original protocol
+    let capabilities = legacyCapabilities(
+      reported?.protocolVersion ?? LEGACY_PROTOCOL_VERSION,
+      reported?.compressionAlgorithms
+    );
+    if (supportsHandshake(reported?.protocolVersion)) {
+      try {
+        const remote = await this.exchangeCapabilities(socket, initiate);
+        capabilities = negotiateCapabilities(getLocalCapabilities(), remote);
+      } catch (error) {
+        logger.warn(`Capability handshake with ${deviceId} failed:`, error);
+      }
+    }
+    logger.info(
+      `Negotiated protocol ${capabilities.protocolVersion} with ${deviceId} ` +
+        `(${capabilities.features.join(', ') || 'no optional features'})`
+    );
+    this.recordPeerCapabilities(deviceId, capabilities);
+    return capabilities;
+  }
+
+  /** Swaps capability offers; the connecting side sends first. */
+  private exchangeCapabilities(socket: ServerSocket, initiate: boolean): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const onCapabilities = (remote: unknown) => {
+        clearTimeout(timer);
+        if (!initiate) {
+          socket.emit('capabilities', getLocalCapabilities());
+        }
+        try {
+          resolve(validatePeerMessage('capabilities', remote));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      const timer = setTimeout(() => {
+        socket.off('capabilities', onCapabilities);
+        reject(new Error('Capability handshake timed out'));
+      }, this.HANDSHAKE_TIMEOUT);
+
+      socket.once('capabilities', onCapabilities);
+      if (initiate) {
+        socket.emit('capabilities', getLocalCapabilities());
+      }
+    });
+  }
+
   emitTo<TPayload>(deviceId: string, channel: string, payload: TPayload): void {
     const connection = this.connections.get(deviceId);
     if (!connection) {
@@ -281,7 +483,7 @@ export class NetworkManager extends EventEmitter {
           socket.on('connect_error', () => reject(new Error('Failed to connect')));
         });
 
-        await this.connectToDevice(device.id, peer.address, peer.port);
+        void this.connectToDevice(device.id);
         return device;
       } catch (error) {
         logger.debug('Pairing attempt failed:', error);
@@ -301,9 +503,15 @@ export class NetworkManager extends EventEmitter {
       const timeout = setTimeout(() => reject(new Error('File list request timeout')), 30_000);
 
       connection.socket.emit('request-file-list', { folderId });
-      connection.socket.once('file-list-response', (data) => {
+      connection.socket.once('file-list-response', (payload: unknown) => {
         clearTimeout(timeout);
-        resolve(data.files);
+        try {
+          const data = validatePeerMessage('file-list-response', payload) as { files: any[] };
+          resolve(data.files);
+        } catch (error) {
+          logger.warn(`Rejected malformed file list from ${deviceId}: ${(error as Error).message}`);
+          reject(error);
+        }
       });
       connection.socket.once('file-list-error', (error) => {
         clearTimeout(timeout);
@@ -312,6 +520,21 @@ export class NetworkManager extends EventEmitter {
     });
   }
 
+  /**
+   * Lets the sync engine answer peer file list requests with its versioned index,
+   * encrypted for untrusted peers.
+   */
+  setFileListProvider(provider: FileListProvider | null): void {
+    this.fileListProvider = provider;
+  }
+
+  /**
+   * Lets directory walks reuse hashes from the persistent file index.
+   */
+  setFileHashLookup(lookup: FileHashLookup | null): void {
+    this.fileHashLookup = lookup;
+  }
+
   async getLocalFileList(folderId: string): Promise<FileEntry[]> {
     const folder = this.store.get('folders').find((f) => f.id === folderId);
     if (!folder) {
@@ -319,7 +542,7 @@ export class NetworkManager extends EventEmitter {
     }
 
     this.walkEntryCount = 0;
-    return this.walkDirectory(folder.path, folder.ignorePatterns, 0, folder.path);
+    return this.walkDirectory(folder.path, folder.ignorePatterns, 0, folder.path, folder.id);
   }
 
   send(message: ProtocolMessage): void {
@@ -399,7 +622,8 @@ export class NetworkManager extends EventEmitter {
   }
 
   private handleIncomingConnection(socket: ServerSocket): void {
-    const address = (socket.handshake.address as string) ?? 'unknown';
+    const relayed = this.relayedSessions.get(socket.request.socket);
+    const address = relayed?.address ?? (socket.handshake.address as string) ?? 'unknown';
     logger.info(`New connection from ${address}`);
     const authTimeout = setTimeout(() => {
       const authenticated = Boolean((socket.data as Record<string, unknown>)?.authenticated);
@@ -409,25 +633,49 @@ export class NetworkManager extends EventEmitter {
       }
     }, this.CONNECTION_TIMEOUT);
 
-    socket.on('authenticate', async (data) => {
+    socket.on('authenticate', async (payload: unknown) => {
       clearTimeout(authTimeout);
+      let data: Record<string, any>;
+      try {
+        data = validatePeerMessage('authenticate', payload) as Record<string, any>;
+      } catch (error) {
+        this.rejectPeerMessage(socket, address, 'authenticate', payload, error as Error);
+        socket.emit('authentication-failed');
+        socket.disconnect();
+        return;
+      }
+
       try {
-        if (await this.authenticateDevice(data)) {
+        // Relayed peers already proved their device key in the TLS handshake
+        const authenticated = relayed
+          ? data.deviceId === relayed.deviceId
+          : await this.authenticateDevice(data);
+        if (authenticated) {
           (socket.data as Record<string, unknown>).authenticated = true;
           (socket.data as Record<string, unknown>).deviceId = data.deviceId;
 
-          this.connections.set(data.deviceId, {
+          // Listen for the peer's offer before telling it that it may send one
+          const negotiation = this.negotiatePeer(socket, data.deviceId, data, false);
+          socket.emit('authenticated', {
+            deviceId: this.deviceId,
+            protocolVersion: PROTOCOL_VERSION,
+            compressionAlgorithms: SUPPORTED_COMPRESSION,
+          });
+          const capabilities = await negotiation;
+          if (!socket.connected) {
+            return;
+          }
+
+          this.registerConnection({
             socket,
             deviceId: data.deviceId,
-            secure: this.store.get('security.encryptionEnabled'),
+            address,
+            capabilities,
+            secure: Boolean(relayed) || this.store.get('security.encryptionEnabled'),
             established: new Date(),
             lastActivity: new Date(),
             role: 'server',
           });
-
-          socket.emit('authenticated', { deviceId: this.deviceId });
-          this.emit('device-connected', data.deviceId);
-          this.setupDeviceHandlers(socket, data.deviceId);
         } else {
           socket.emit('authentication-failed');
           socket.disconnect();
@@ -438,8 +686,16 @@ export class NetworkManager extends EventEmitter {
       }
     });
 
-    socket.on('pairing-request', async (payload) => {
-      await this.handlePairingRequest(socket, payload);
+    socket.on('pairing-request', async (payload: unknown) => {
+      let data: { code: string };
+      try {
+        data = validatePeerMessage('pairing-request', payload) as { code: string };
+      } catch (error) {
+        this.rejectPeerMessage(socket, address, 'pairing-request', payload, error as Error);
+        socket.emit('pairing-response', { success: false, error: 'Malformed pairing request' });
+        return;
+      }
+      await this.handlePairingRequest(socket, data);
     });
   }
 
@@ -465,88 +721,415 @@ export class NetworkManager extends EventEmitter {
   }
 
   private setupDeviceHandlers(socket: ServerSocket, deviceId: string): void {
-    socket.on('request-file-list', async (data) => {
-      try {
-        const files = await this.getLocalFileList(data.folderId);
-        socket.emit('file-list-response', { folderId: data.folderId, files });
-      } catch (error) {
-        logger.error('Failed to get local file list:', error);
-        socket.emit('file-list-error', { error: (error as Error).message });
+    this.onPeerMessage(
+      socket,
+      deviceId,
+      'request-file-list',
+      async (data: { folderId: string }) => {
+        try {
+          let files: unknown[];
+          const folder = this.store.get('folders').find((f) => f.id === data.folderId);
+          if (!folder?.devices.includes(deviceId)) {
+            throw new Error(`Folder ${data.folderId} not found`);
+          }
+          if (this.fileListProvider) {
+            files = await this.fileListProvider(data.folderId, deviceId);
+          } else if (this.store.get('devices').some((d) => d.id === deviceId && d.untrusted)) {
+            throw new Error('Plain file lists are not shared with untrusted devices');
+          } else {
+            files = await this.getLocalFileList(data.folderId);
+          }
+          socket.emit('file-list-response', { folderId: data.folderId, files });
+        } catch (error) {
+          logger.error('Failed to get local file list:', error);
+          socket.emit('file-list-error', { error: (error as Error).message });
+        }
       }
-    });
+    );
 
-    socket.on('request-file', (data: TransferRequestMessage) => {
+    this.onPeerMessage(socket, deviceId, 'request-file', (data: TransferRequestMessage) => {
       this.emit('transfer-request', { deviceId, payload: data });
     });
 
-    socket.on('transfer-init', (data: TransferInitMessage) => {
+    this.onPeerMessage(
+      socket,
+      deviceId,
+      'request-chunk-manifest',
+      (data: ChunkManifestRequestMessage) => {
+        this.emit('chunk-manifest-request', { deviceId, payload: data });
+      }
+    );
+
+    this.onPeerMessage(socket, deviceId, 'transfer-init', (data: TransferInitMessage) => {
       this.emit('transfer-init', { deviceId, payload: data });
     });
 
-    socket.on('transfer-chunk', (data: TransferChunkMessage) => {
+    this.onPeerMessage(socket, deviceId, 'transfer-chunk', (data: TransferChunkMessage) => {
       this.emit('transfer-chunk', { deviceId, payload: data });
     });
 
-    socket.on('transfer-complete', (data: TransferCompleteMessage) => {
+    this.onPeerMessage(socket, deviceId, 'transfer-frame', (data: Buffer) => {
+      this.emit('transfer-frame', { deviceId, payload: data });
+    });
+
+    this.onPeerMessage(socket, deviceId, 'transfer-complete', (data: TransferCompleteMessage) => {
       this.emit('transfer-complete', { deviceId, payload: data });
     });
 
-    socket.on('transfer-error', (data: TransferErrorMessage) => {
+    this.onPeerMessage(socket, deviceId, 'transfer-error', (data: TransferErrorMessage) => {
       this.emit('transfer-error', { deviceId, payload: data });
     });
 
-    socket.on('sync-status', (data) => {
-      this.emit('remote-sync-status', { deviceId, ...data });
+    this.onPeerMessage(socket, deviceId, 'sync-status', (data: Record<string, unknown>) => {
+      this.emit('remote-sync-status', { ...data, deviceId });
     });
 
     socket.on('disconnect', () => {
+      if (this.connections.get(deviceId)?.socket !== socket) {
+        // A path the device has since moved off
+        return;
+      }
       this.connections.delete(deviceId);
       this.emit('device-disconnected', deviceId);
       logger.info(`Device ${deviceId} disconnected`);
     });
   }
 
-  private async connectToDevice(deviceId: string, address: string, port: number): Promise<void> {
-    if (this.connections.has(deviceId)) {
-      logger.info(`Already connected to device ${deviceId}`);
+  /**
+   * Listens for a message from a peer and hands it on only once it matches the
+   * schema of its event.
+   */
+  private onPeerMessage<T>(
+    socket: ServerSocket,
+    deviceId: string,
+    event: PeerMessageType,
+    handler: (payload: T) => void | Promise<void>
+  ): void {
+    socket.on(event, (payload: unknown) => {
+      let message: T;
+      try {
+        message = validatePeerMessage(event, payload) as T;
+      } catch (error) {
+        this.rejectPeerMessage(socket, deviceId, event, payload, error as Error);
+        return;
+      }
+      void handler(message);
+    });
+  }
+
+  /**
+   * Reports a malformed message and fails whatever the peer was waiting on, so
+   * it does not sit out a timeout. Peers that have not authenticated yet are
+   * reported by address.
+   */
+  private rejectPeerMessage(
+    socket: ServerSocket,
+    peerId: string,
+    event: PeerMessageType,
+    payload: unknown,
+    error: Error
+  ): void {
+    logger.warn(`Rejected malformed ${event} from ${peerId}: ${error.message}`);
+    this.intrusionDetection.report({
+      peerId,
+      type: 'malformed-message',
+      timestamp: Date.now(),
+      metadata: { event, error: error.message },
+    });
+
+    if (event === 'request-file-list') {
+      socket.emit('file-list-error', { error: error.message });
+      return;
+    }
+    // Answering a malformed transfer-error with another one could bounce forever
+    const transferId = getTransferId(payload);
+    if (
+      transferId &&
+      (event.startsWith('request-') || event.startsWith('transfer-')) &&
+      event !== 'transfer-error'
+    ) {
+      socket.emit('transfer-error', {
+        transferId,
+        error: `Malformed ${event}: ${error.message}`,
+      } satisfies TransferErrorMessage);
+    }
+  }
+
+  /**
+   * Dials every known endpoint of a paired device at once and keeps the best
+   * connection that comes up. When the device is already connected only
+   * paths better than the current one are tried, so a relayed or WAN
+   * connection moves to the LAN once the device shows up there.
+   */
+  private async connectToDevice(deviceId: string): Promise<void> {
+    if (this.dialing.has(deviceId)) {
       return;
     }
+    const current = this.connections.get(deviceId);
+    if (current) {
+      const lastUpgrade = this.upgradeAttempts.get(deviceId) ?? 0;
+      if (Date.now() - lastUpgrade < this.UPGRADE_RETRY_INTERVAL) {
+        return;
+      }
+    }
+
+    const candidates = this.gatherCandidates(deviceId).filter(
+      (candidate) => !current || isBetterTier(pathTier(candidate), pathTier(current.address))
+    );
+    if (candidates.length === 0) {
+      return;
+    }
+    if (current) {
+      this.upgradeAttempts.set(deviceId, Date.now());
+    }
+
+    this.dialing.add(deviceId);
+    try {
+      const result = await this.connectionRacer.race(
+        candidates,
+        (candidate) =>
+          candidate.source === 'relay'
+            ? this.dialViaRelay(deviceId)
+            : this.dialAddress(deviceId, candidate.address, candidate.port),
+        (connection) => connection.socket.disconnect()
+      );
+      if (!result) {
+        logger.warn(`Could not reach device ${deviceId} at any known address`);
+        return;
+      }
+
+      const existing = this.connections.get(deviceId);
+      if (
+        existing &&
+        !isBetterTier(pathTier(result.connection.address), pathTier(existing.address))
+      ) {
+        // The device dialed us meanwhile over a path at least as good
+        result.connection.socket.disconnect();
+        return;
+      }
+      this.registerConnection(result.connection);
+    } finally {
+      this.dialing.delete(deviceId);
+    }
+  }
 
-    const socket = SocketIOClient(`http://${address}:${port}`, {
+  /** Endpoints a paired device may be reached at, from every source we have. */
+  private gatherCandidates(deviceId: string): DialCandidate[] {
+    const candidates: DialCandidate[] = [];
+    const peer = this.peerRegistry.get(deviceId);
+    if (peer?.address && peer.port) {
+      candidates.push({ address: peer.address, port: peer.port, source: 'discovery' });
+    }
+    for (const entry of peer?.addresses ?? []) {
+      candidates.push({ ...entry, source: 'rendezvous' });
+    }
+    const device = (this.store.get('devices') ?? []).find((d) => d.id === deviceId);
+    if (device?.address && device.port) {
+      candidates.push({ address: device.address, port: device.port, source: 'config' });
+    }
+
+    const lastRelayAttempt = this.relayDialAttempts.get(deviceId) ?? 0;
+    if (this.relayClient.hasRelays() && Date.now() - lastRelayAttempt >= this.RELAY_DIAL_INTERVAL) {
+      candidates.push({ address: 'relay', port: 0, source: 'relay' });
+    }
+    return candidates;
+  }
+
+  private dialAddress(deviceId: string, address: string, port: number): Promise<ConnectionInfo> {
+    const host = net.isIPv6(address) ? `[${address}]` : address;
+    const socket = SocketIOClient(`http://${host}:${port}`, {
       reconnection: true,
       reconnectionAttempts: 5,
       reconnectionDelay: 1_000,
       timeout: this.CONNECTION_TIMEOUT,
     }) as unknown as ServerSocket;
+    return this.authenticateClient(socket, deviceId, address);
+  }
 
-    socket.on('connect', async () => {
-      logger.info(`Connected to device ${deviceId} at ${address}:${port}`);
-      const authData: any = { deviceId: this.deviceId };
+  /** Connects to a paired device through the first configured relay that can reach it. */
+  private async dialViaRelay(deviceId: string): Promise<ConnectionInfo> {
+    this.relayDialAttempts.set(deviceId, Date.now());
+    const relayed = await this.relayClient.connect(deviceId);
+    const secured = await this.secureRelayedStream(relayed.stream, deviceId, false);
+
+    const agent = new RelayAgent(secured);
+    // The relay carries a single connection, so no polling and no reconnects
+    const socket = SocketIOClient(`http://${deviceId}.relay`, {
+      // engine.io hands the agent to ws as is, though its typings only allow a string
+      agent: agent as unknown as string,
+      transports: ['websocket'],
+      reconnection: false,
+      timeout: this.CONNECTION_TIMEOUT,
+    }) as unknown as ServerSocket;
+    return this.authenticateClient(socket, deviceId, relayed.stream.remoteAddress);
+  }
 
-      (socket as unknown as ClientSocket).emit('authenticate', authData);
-    });
+  /** Serves a session a peer opened through a relay once it proved to be the device it claims. */
+  private async acceptRelayedSession({ stream, deviceId }: RelayConnection): Promise<void> {
+    try {
+      const secured = await this.secureRelayedStream(stream, deviceId, true);
+      this.relayedSessions.set(secured, { deviceId, address: stream.remoteAddress });
+      this.relayedServer?.emit('connection', secured);
+    } catch (error) {
+      logger.warn(`Refused relayed session from ${deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Relays see every byte, so relayed sessions always run TLS, whatever the
+   * encryption setting. Both sides present certificates for their device
+   * keys and check the peer's against the key they paired with.
+   */
+  private async secureRelayedStream(
+    stream: Duplex,
+    deviceId: string,
+    isServer: boolean
+  ): Promise<tls.TLSSocket> {
+    const device = (this.store.get('devices') ?? []).find((d) => d.id === deviceId);
+    if (!device?.publicKey) {
+      stream.destroy();
+      throw new Error(`Device ${deviceId} is not paired`);
+    }
+
+    const { key, cert } = await this.secureChannel.generateCertificates();
+    // Certificates are self-signed; the pinned device key is what gets checked
+    const secured = isServer
+      ? new tls.TLSSocket(stream, {
+          isServer: true,
+          key,
+          cert,
+          requestCert: true,
+          rejectUnauthorized: false,
+        })
+      : tls.connect({ socket: stream, key, cert, rejectUnauthorized: false });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new Error('TLS handshake timed out')),
+          this.HANDSHAKE_TIMEOUT
+        );
+        secured.once(isServer ? 'secure' : 'secureConnect', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+        secured.once('error', (error) => {
+          clearTimeout(timer);
+          reject(error);
+        });
+        secured.once('close', () => {
+          clearTimeout(timer);
+          reject(new Error('Relayed session closed during the TLS handshake'));
+        });
+      });
+      const peerCertificate = secured.getPeerX509Certificate();
+      if (!peerCertificate || !certificateMatchesKey(peerCertificate, device.publicKey)) {
+        throw new Error(`Relayed peer does not hold the key of device ${deviceId}`);
+      }
+    } catch (error) {
+      secured.destroy();
+      throw error;
+    }
+    return secured;
+  }
+
+  /**
+   * Authenticates and negotiates capabilities on a socket we dialed. Resolves
+   * with the connection once it is ready, without registering it; when the
+   * socket reconnects later on its own, it is registered straight away.
+   */
+  private authenticateClient(
+    socket: ServerSocket,
+    deviceId: string,
+    address: string
+  ): Promise<ConnectionInfo> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const fail = (error: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        socket.disconnect();
+        reject(error);
+      };
+      const timer = setTimeout(
+        () => fail(new Error(`Timed out connecting to ${address}`)),
+        this.CONNECTION_TIMEOUT
+      );
+
+      socket.on('connect', async () => {
+        logger.info(`Connected to device ${deviceId} at ${address}`);
+        const authData: any = {
+          deviceId: this.deviceId,
+          protocolVersion: PROTOCOL_VERSION,
+          compressionAlgorithms: SUPPORTED_COMPRESSION,
+        };
 
-    socket.on('authenticated', () => {
-      this.connections.set(deviceId, {
-        socket,
-        deviceId,
-        secure: this.store.get('security.encryptionEnabled'),
-        established: new Date(),
-        lastActivity: new Date(),
-        role: 'client',
+        (socket as unknown as ClientSocket).emit('authenticate', authData);
+      });
+
+      socket.on('authenticated', async (data?: Record<string, unknown>) => {
+        const capabilities = await this.negotiatePeer(socket, deviceId, data, true);
+        if (!socket.connected) {
+          fail(new Error(`Connection to ${address} closed during negotiation`));
+          return;
+        }
+        const connection: ConnectionInfo = {
+          socket,
+          deviceId,
+          address,
+          capabilities,
+          secure: pathTier(address) === 'relay' || this.store.get('security.encryptionEnabled'),
+          established: new Date(),
+          lastActivity: new Date(),
+          role: 'client',
+        };
+        if (settled) {
+          this.registerConnection(connection);
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        resolve(connection);
       });
-      this.emit('device-connected', deviceId);
-      this.setupDeviceHandlers(socket, deviceId);
-    });
 
-    socket.on('authentication-failed', () => {
-      logger.error(`Authentication failed for device ${deviceId}`);
-      socket.disconnect();
+      socket.on('authentication-failed', () => {
+        logger.error(`Authentication failed for device ${deviceId}`);
+        fail(new Error(`Authentication failed for device ${deviceId}`));
+        socket.disconnect();
+      });
+
+      socket.on('connect_error', (error) => fail(error));
     });
+  }
 
-    socket.on('connect_error', (error) => {
-      logger.error(`Failed to connect to device ${deviceId}:`, error);
+  /**
+   * Records an authenticated connection. One that replaces a connection to
+   * the same device is an upgrade to a better path: the device stays
+   * connected, and the dialing side closes the old path once replies still
+   * travelling over it have had time to arrive.
+   */
+  private registerConnection(connection: ConnectionInfo): void {
+    const { deviceId, socket } = connection;
+    const previous = this.connections.get(deviceId);
+    this.connections.set(deviceId, connection);
+    this.setupDeviceHandlers(socket, deviceId);
+
+    if (!previous || previous.socket === socket) {
+      this.emit('device-connected', deviceId);
+      return;
+    }
+    logger.info(`Moved device ${deviceId} from ${previous.address} to ${connection.address}`);
+    this.emit('connection-upgraded', {
+      deviceId,
+      address: connection.address,
+      previousAddress: previous.address,
     });
+    if (connection.role === 'client') {
+      setTimeout(() => previous.socket.disconnect(), this.UPGRADE_DRAIN_PERIOD).unref?.();
+    }
   }
 
   private async handlePairingRequest(socket: ServerSocket, data: any): Promise<void> {
@@ -567,7 +1150,9 @@ export class NetworkManager extends EventEmitter {
         compressionEnabled: true,
         relayEnabled: true,
         natTraversalEnabled: true,
-        protocolVersion: '1.0.0',
+        protocolVersion: PROTOCOL_VERSION,
+        compressionAlgorithms: SUPPORTED_COMPRESSION,
+        features: PROTOCOL_FEATURES,
       },
     };
 
@@ -579,7 +1164,8 @@ export class NetworkManager extends EventEmitter {
     targetPath: string,
     ignorePatterns: string[],
     depth: number,
-    basePath: string
+    basePath: string,
+    folderId: string
   ): Promise<FileEntry[]> {
     if (depth > this.MAX_DIRECTORY_DEPTH) {
       throw new Error(`Directory depth exceeds supported limit (${this.MAX_DIRECTORY_DEPTH}).`);
@@ -609,7 +1195,13 @@ export class NetworkManager extends EventEmitter {
 
       if (entry.isDirectory()) {
         const stats = await fs.stat(fullPath);
-        const children = await this.walkDirectory(fullPath, ignorePatterns, depth + 1, basePath);
+        const children = await this.walkDirectory(
+          fullPath,
+          ignorePatterns,
+          depth + 1,
+          basePath,
+          folderId
+        );
         entries.push({
           name: entry.name,
           path: fullPath,
@@ -626,7 +1218,8 @@ export class NetworkManager extends EventEmitter {
           type: 'file',
           size: stats.size,
           modifiedAt: stats.mtime.toISOString(),
-          hash: await this.hashFile(fullPath),
+          hash:
+            this.fileHashLookup?.(folderId, relativePath, stats) ?? (await this.hashFile(fullPath)),
         });
       }
     }
@@ -645,13 +1238,135 @@ export class NetworkManager extends EventEmitter {
     const devices = this.store.get('devices');
     const knownDevice = devices.find((d) => d.id === device.id);
 
-    if (knownDevice && !this.connections.has(device.id) && device.address && device.port) {
-      void this.connectToDevice(device.id, device.address, device.port);
+    // Connected devices are dialed too, in case this is a better path to them
+    if (knownDevice && device.address && device.port) {
+      void this.connectToDevice(device.id);
+    }
+  }
+
+  private getRelayUrls(): string[] {
+    const networkRules = this.store.get('schedules.networkRules') as NetworkRules | undefined;
+    return networkRules?.lanOnly ? [] : networkRules?.relayServers ?? [];
+  }
+
+  private getStunServerUrls(): string[] {
+    const networkRules = this.store.get('schedules.networkRules') as NetworkRules | undefined;
+    return networkRules?.stunServers ?? [];
+  }
+
+  private isPortMappingEnabled(): boolean {
+    const networkRules = this.store.get('schedules.networkRules') as NetworkRules | undefined;
+    return !networkRules?.lanOnly && networkRules?.portMapping !== false;
+  }
+
+  private getDiscoveryServerUrls(): string[] {
+    const networkRules = this.store.get('schedules.networkRules') as NetworkRules | undefined;
+    return networkRules?.lanOnly ? [] : networkRules?.discoveryServers ?? [];
+  }
+
+  private startRendezvous(port: number): void {
+    const refresh = () => {
+      this.refreshRendezvous(port).catch((error) =>
+        logger.warn('Rendezvous refresh failed:', error)
+      );
+    };
+    refresh();
+    this.rendezvousTimer = setInterval(refresh, this.RENDEZVOUS_INTERVAL);
+  }
+
+  /**
+   * Asks the router to forward the sync port so peers elsewhere can dial us,
+   * then announces the mapped address without waiting for the next refresh.
+   */
+  private async startPortMapping(port: number): Promise<void> {
+    this.natManager.setEnabled(this.isPortMappingEnabled());
+    if (!this.natManager.isEnabled()) {
+      return;
+    }
+    try {
+      await this.natManager.initialize();
+      if (await this.natManager.mapPort(port, port)) {
+        await this.refreshRendezvous(port);
+      }
+    } catch (error) {
+      logger.warn('Port mapping failed:', error);
+    }
+  }
+
+  /**
+   * Announces where this device can be reached to the rendezvous servers, and
+   * looks up paired devices we have no LAN connection to so they are dialed
+   * like devices found on the local network.
+   */
+  private async refreshRendezvous(port: number): Promise<void> {
+    if (!this.rendezvousClient.hasServers()) {
+      return;
+    }
+    await this.rendezvousClient.announce(this.getAnnouncedAddresses(port));
+
+    for (const device of this.store.get('devices') ?? []) {
+      const connection = this.connections.get(device.id);
+      if (!device.publicKey || (connection && pathTier(connection.address) === 'lan')) {
+        continue;
+      }
+      const addresses = await this.rendezvousClient.lookup(device.id, device.publicKey);
+      if (!addresses?.length) {
+        continue;
+      }
+      const peer: PeerInfo = {
+        id: device.id,
+        name: device.name,
+        address: addresses[0].address,
+        port: addresses[0].port,
+        status: 'discovering',
+        addresses,
+      };
+      this.peerRegistry.upsert(peer);
+      this.handleDeviceDiscovered(peer);
+    }
+  }
+
+  /**
+   * Router-mapped endpoints first, then the public address, since peers
+   * looking us up are usually on another network.
+   */
+  private getAnnouncedAddresses(port: number): PeerAddress[] {
+    const mapped = this.natManager
+      .getMappings()
+      .filter((mapping) => mapping.privatePort === port && mapping.externalAddress)
+      .map((mapping) => ({ address: mapping.externalAddress!, port: mapping.publicPort }));
+    const publicAddress = this.natTraversal.getPublicEndpoint()?.address;
+    const addresses = [
+      ...mapped,
+      ...[...(publicAddress ? [publicAddress] : []), ...this.getLocalAddresses()].map(
+        (address) => ({ address, port })
+      ),
+    ];
+    const unique = new Map(addresses.map((entry) => [`${entry.address}:${entry.port}`, entry]));
+    return [...unique.values()];
+  }
+
+  /**
+   * Keeps the relay registrations in line with the network rules and dials
+   * paired devices we have no connection to, relays included. Only the
+   * device with the lower ID dials, so two devices do not open a relay
+   * session each.
+   */
+  private dialDevicesViaRelay(): void {
+    this.relayClient.listen();
+    if (!this.relayClient.hasRelays()) {
+      return;
+    }
+    for (const device of this.store.get('devices') ?? []) {
+      if (!this.connections.has(device.id) && this.deviceId < device.id) {
+        void this.connectToDevice(device.id);
+      }
     }
   }
 
   private startHeartbeat(): void {
     setInterval(() => {
+      this.dialDevicesViaRelay();
       const now = Date.now();
       for (const [deviceId, connection] of this.connections) {
         const idle = now - connection.lastActivity.getTime();
@@ -683,3 +1398,29 @@ export class NetworkManager extends EventEmitter {
     return addresses;
   }
 }
+
+/**
+ * Hands socket.io the relayed stream, already secured with TLS, as the
+ * connection for its one request.
+ */
+class RelayAgent extends http.Agent {
+  private stream: Duplex | null;
+
+  constructor(stream: Duplex) {
+    super();
+    this.stream = stream;
+  }
+
+  createConnection(
+    _options: unknown,
+    callback: (error: Error | null, socket?: Duplex) => void
+  ): Duplex | undefined {
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream) {
+      callback(new Error('Relayed stream already in use'));
+      return undefined;
+    }
+    return stream;
+  }
+}
@@ -0,0 +1,113 @@
+import * as dgram from 'dgram';
+import {
+  PortMapper,
+  PortMappingRequest,
+  PortMappingResult,
+  connectGateway,
+  requestGateway,
+} from './PortMapper';
+
+/** Port gateways answer NAT-PMP and PCP requests on. */
+export const NAT_PMP_PORT = 5351;
+
+const OP_EXTERNAL_ADDRESS = 0;
+const OP_MAP_UDP = 1;
+const OP_MAP_TCP = 2;
+const RESPONSE_BIT = 0x80;
+
+const RESULT_MESSAGES: Record<number, string> = {
+  1: 'unsupported version',
+  2: 'not authorized',
+  3: 'network failure',
+  4: 'out of resources',
+  5: 'unsupported opcode',
+};
+
+export interface NatPmpOptions {
+  port?: number;
+  /** Milliseconds to keep resending a request. */
+  timeout?: number;
+}
+
+/** NAT-PMP (RFC 6886) client for a known gateway. */
+export class NatPmpClient implements PortMapper {
+  readonly type = 'nat-pmp';
+  private socket: dgram.Socket | null = null;
+
+  constructor(
+    readonly gateway: string,
+    private readonly options: NatPmpOptions = {}
+  ) {}
+
+  async probe(): Promise<boolean> {
+    try {
+      return (await this.getExternalIP()) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  async getExternalIP(): Promise<string | null> {
+    const reply = await this.request(Buffer.from([0, OP_EXTERNAL_ADDRESS]), OP_EXTERNAL_ADDRESS);
+    return reply.length >= 12 ? reply.subarray(8, 12).join('.') : null;
+  }
+
+  async map(request: PortMappingRequest): Promise<PortMappingResult> {
+    const reply = await this.sendMapping(request.privatePort, request.publicPort, request);
+    return {
+      publicPort: reply.readUInt16BE(10),
+      lifetime: reply.readUInt32BE(12),
+    };
+  }
+
+  async unmap(request: PortMappingRequest): Promise<void> {
+    // A zero lifetime and external port deletes the mapping
+    await this.sendMapping(request.privatePort, 0, { ...request, lifetime: 0 });
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private sendMapping(
+    privatePort: number,
+    publicPort: number,
+    { protocol, lifetime }: PortMappingRequest
+  ): Promise<Buffer> {
+    const opcode = protocol === 'udp' ? OP_MAP_UDP : OP_MAP_TCP;
+    const message = Buffer.alloc(12);
+    message.writeUInt8(opcode, 1);
+    message.writeUInt16BE(privatePort, 4);
+    message.writeUInt16BE(publicPort, 6);
+    message.writeUInt32BE(lifetime, 8);
+    return this.request(
+      message,
+      opcode,
+      (reply) => reply.length >= 16 && reply.readUInt16BE(8) === privatePort
+    );
+  }
+
+  private async request(
+    message: Buffer,
+    opcode: number,
+    matches: (reply: Buffer) => boolean = () => true
+  ): Promise<Buffer> {
+    this.socket ??= await connectGateway(this.gateway, this.options.port ?? NAT_PMP_PORT);
+    const reply = await requestGateway(
+      this.socket,
+      message,
+      (buffer) =>
+        buffer.length >= 4 &&
+        buffer[0] === 0 &&
+        buffer[1] === (RESPONSE_BIT | opcode) &&
+        (buffer.readUInt16BE(2) !== 0 || matches(buffer)),
+      this.options.timeout ?? 2000
+    );
+    const result = reply.readUInt16BE(2);
+    if (result !== 0) {
+      throw new Error(`NAT-PMP request refused: ${RESULT_MESSAGES[result] ?? `code ${result}`}`);
+    }
+    return reply;
+  }
+}
@@ -0,0 +1,153 @@
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import { NAT_PMP_PORT, NatPmpOptions } from './NatPmpClient';
+import {
+  PortMapper,
+  PortMappingRequest,
+  PortMappingResult,
+  connectGateway,
+  requestGateway,
+} from './PortMapper';
+
+const PCP_VERSION = 2;
+const OP_ANNOUNCE = 0;
+const OP_MAP = 1;
+const RESPONSE_BIT = 0x80;
+const HEADER_LENGTH = 24;
+const MAP_LENGTH = 36;
+const IANA_PROTOCOLS = { tcp: 6, udp: 17 } as const;
+
+const RESULT_MESSAGES: Record<number, string> = {
+  1: 'unsupported version',
+  2: 'not authorized',
+  3: 'malformed request',
+  4: 'unsupported opcode',
+  7: 'network failure',
+  8: 'out of resources',
+  11: 'cannot provide external port',
+};
+
+/**
+ * PCP (RFC 6887) client for a known gateway. PCP shares its port with
+ * NAT-PMP; gateways that only speak NAT-PMP answer with an unsupported
+ * version error, which makes `probe` fail.
+ */
+export class PcpClient implements PortMapper {
+  readonly type = 'pcp';
+  private socket: dgram.Socket | null = null;
+  /** MAP nonces by protocol and internal port, needed to renew or delete. */
+  private readonly nonces = new Map<string, Buffer>();
+  private externalAddress: string | null = null;
+
+  constructor(
+    readonly gateway: string,
+    private readonly options: NatPmpOptions = {}
+  ) {}
+
+  async probe(): Promise<boolean> {
+    try {
+      await this.request(OP_ANNOUNCE, 0, Buffer.alloc(0));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** PCP has no request for it; this is the address the last mapping got. */
+  async getExternalIP(): Promise<string | null> {
+    return this.externalAddress;
+  }
+
+  async map(request: PortMappingRequest): Promise<PortMappingResult> {
+    const reply = await this.sendMapping(request, request.publicPort, request.lifetime);
+    this.externalAddress = decodeAddress(reply.subarray(HEADER_LENGTH + 20, HEADER_LENGTH + 36));
+    return {
+      publicPort: reply.readUInt16BE(HEADER_LENGTH + 18),
+      lifetime: reply.readUInt32BE(4),
+      externalAddress: this.externalAddress,
+    };
+  }
+
+  async unmap(request: PortMappingRequest): Promise<void> {
+    await this.sendMapping(request, request.publicPort, 0);
+    this.nonces.delete(`${request.protocol}:${request.privatePort}`);
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private sendMapping(
+    { protocol, privatePort }: PortMappingRequest,
+    publicPort: number,
+    lifetime: number
+  ): Promise<Buffer> {
+    const key = `${protocol}:${privatePort}`;
+    const nonce = this.nonces.get(key) ?? crypto.randomBytes(12);
+    this.nonces.set(key, nonce);
+
+    const payload = Buffer.alloc(MAP_LENGTH);
+    nonce.copy(payload, 0);
+    payload.writeUInt8(IANA_PROTOCOLS[protocol], 12);
+    payload.writeUInt16BE(privatePort, 16);
+    payload.writeUInt16BE(publicPort, 18);
+    // Suggested external address left as :: so the gateway picks one
+    return this.request(OP_MAP, lifetime, payload, (reply) =>
+      reply.subarray(HEADER_LENGTH, HEADER_LENGTH + 12).equals(nonce)
+    );
+  }
+
+  private async request(
+    opcode: number,
+    lifetime: number,
+    payload: Buffer,
+    matches: (reply: Buffer) => boolean = () => true
+  ): Promise<Buffer> {
+    this.socket ??= await connectGateway(this.gateway, this.options.port ?? NAT_PMP_PORT);
+
+    const header = Buffer.alloc(HEADER_LENGTH);
+    header.writeUInt8(PCP_VERSION, 0);
+    header.writeUInt8(opcode, 1);
+    header.writeUInt32BE(lifetime, 4);
+    encodeAddress(this.socket.address().address).copy(header, 8);
+
+    const reply = await requestGateway(
+      this.socket,
+      Buffer.concat([header, payload]),
+      (buffer) => {
+        if (buffer.length >= 4 && buffer[0] === 0) {
+          // A NAT-PMP gateway telling us it does not know PCP
+          return true;
+        }
+        return (
+          buffer.length >= HEADER_LENGTH + payload.length &&
+          buffer[0] === PCP_VERSION &&
+          buffer[1] === (RESPONSE_BIT | opcode) &&
+          (buffer[3] !== 0 || matches(buffer))
+        );
+      },
+      this.options.timeout ?? 2000
+    );
+    if (reply[0] !== PCP_VERSION) {
+      throw new Error('Gateway does not support PCP');
+    }
+    const result = reply[3];
+    if (result !== 0) {
+      throw new Error(`PCP request refused: ${RESULT_MESSAGES[result] ?? `code ${result}`}`);
+    }
+    return reply;
+  }
+}
+
+/** IPv4 addresses travel as IPv4-mapped IPv6 addresses. */
+function encodeAddress(address: string): Buffer {
+  const bytes = Buffer.alloc(16);
+  bytes.writeUInt16BE(0xffff, 10);
+  Buffer.from(address.split('.').map((part) => Number(part))).copy(bytes, 12);
+  return bytes;
+}
+
+function decodeAddress(bytes: Buffer): string {
+  return bytes.subarray(12, 16).join('.');
+}
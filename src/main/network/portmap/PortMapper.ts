@@ -0,0 +1,139 @@
+import * as dgram from 'dgram';
+import * as fs from 'fs/promises';
+
+export type PortMappingProtocol = 'tcp' | 'udp';
+
+export interface PortMappingRequest {
+  protocol: PortMappingProtocol;
+  privatePort: number;
+  /** External port to ask for; gateways may hand out another one. */
+  publicPort: number;
+  /** Requested lease in seconds. */
+  lifetime: number;
+}
+
+export interface PortMappingResult {
+  publicPort: number;
+  /** Lease the gateway granted in seconds; 0 means until removed. */
+  lifetime: number;
+  externalAddress?: string;
+}
+
+/** One way of asking a gateway to forward a port: UPnP IGD, NAT-PMP or PCP. */
+export interface PortMapper {
+  readonly type: 'upnp' | 'nat-pmp' | 'pcp';
+  /** Address of the gateway; known once `probe` succeeded. */
+  readonly gateway: string;
+  /** Whether a gateway answers this protocol. */
+  probe(): Promise<boolean>;
+  map(request: PortMappingRequest): Promise<PortMappingResult>;
+  unmap(request: PortMappingRequest): Promise<void>;
+  /** The gateway's public address, or null when it cannot tell. */
+  getExternalIP(): Promise<string | null>;
+  close(): void;
+}
+
+/**
+ * Default IPv4 gateway from the kernel routing table. Only Linux exposes it
+ * without running a command; elsewhere callers find the gateway through SSDP
+ * or configuration.
+ */
+export async function findDefaultGateway(): Promise<string | null> {
+  if (process.platform !== 'linux') {
+    return null;
+  }
+  try {
+    const table = await fs.readFile('/proc/net/route', 'utf8');
+    for (const line of table.split('\n').slice(1)) {
+      const [, destination, gateway] = line.trim().split(/\s+/);
+      if (destination === '00000000' && gateway && gateway !== '00000000') {
+        // Addresses are little-endian hex
+        const bytes = Buffer.from(gateway, 'hex').reverse();
+        return bytes.join('.');
+      }
+    }
+  } catch {
+    // Not available in sandboxes and some containers
+  }
+  return null;
+}
+
+/** Local address the operating system would use to reach `host`. */
+export async function localAddressFor(host: string, port: number): Promise<string> {
+  const socket = dgram.createSocket('udp4');
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.connect(port, host, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+    return socket.address().address;
+  } finally {
+    socket.close();
+  }
+}
+
+/**
+ * Sends a UDP request to the gateway and resolves with the first reply that
+ * `accept` takes, resending with doubling delays as RFC 6886 asks until the
+ * timeout runs out.
+ */
+export function requestGateway(
+  socket: dgram.Socket,
+  request: Buffer,
+  accept: (reply: Buffer) => boolean,
+  timeout: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let delay = 250;
+    let resendTimer: NodeJS.Timeout;
+
+    const send = () => {
+      socket.send(request, (error) => {
+        if (error) {
+          finish(error);
+        }
+      });
+      resendTimer = setTimeout(send, delay);
+      delay *= 2;
+    };
+    const onMessage = (reply: Buffer) => {
+      if (accept(reply)) {
+        finish(null, reply);
+      }
+    };
+    // Connected sockets report ICMP port unreachable, so closed ports fail fast
+    const onError = (error: Error) => finish(error);
+    const finish = (error: Error | null, reply?: Buffer) => {
+      clearTimeout(resendTimer);
+      clearTimeout(timer);
+      socket.off('message', onMessage);
+      socket.off('error', onError);
+      if (reply) {
+        resolve(reply);
+      } else {
+        reject(error);
+      }
+    };
+
+    const timer = setTimeout(() => finish(new Error('Gateway did not answer')), timeout);
+    socket.on('message', onMessage);
+    socket.on('error', onError);
+    send();
+  });
+}
+
+/** A UDP socket connected to the gateway's NAT-PMP/PCP port. */
+export function connectGateway(gateway: string, port: number): Promise<dgram.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    socket.once('error', reject);
+    socket.connect(port, gateway, () => {
+      socket.off('error', reject);
+      socket.on('error', () => undefined);
+      resolve(socket);
+    });
+  });
+}
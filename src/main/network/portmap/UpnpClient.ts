@@ -0,0 +1,238 @@
+import * as dgram from 'dgram';
+import { logger } from '../../utils/logger';
+import { PortMapper, PortMappingRequest, PortMappingResult, localAddressFor } from './PortMapper';
+
+export const SSDP_ADDRESS = '239.255.255.250';
+export const SSDP_PORT = 1900;
+
+const SEARCH_TARGETS = [
+  'urn:schemas-upnp-org:device:InternetGatewayDevice:2',
+  'urn:schemas-upnp-org:device:InternetGatewayDevice:1',
+];
+const SERVICE_TYPE = /^urn:schemas-upnp-org:service:(WANIPConnection:[12]|WANPPPConnection:1)$/;
+/** SOAP fault a gateway returns when it only accepts leases without expiry. */
+const ONLY_PERMANENT_LEASES = 725;
+
+export interface UpnpOptions {
+  /** Where M-SEARCH requests go; the SSDP multicast group unless set. */
+  ssdpAddress?: string;
+  ssdpPort?: number;
+  /** Milliseconds to wait for SSDP answers and for each SOAP call. */
+  timeout?: number;
+  /** Text shown next to the mapping in the router's UI. */
+  description?: string;
+}
+
+class SoapError extends Error {
+  constructor(
+    message: string,
+    readonly code: number | null
+  ) {
+    super(message);
+  }
+}
+
+interface ControlService {
+  url: string;
+  type: string;
+}
+
+/**
+ * UPnP Internet Gateway Device client: finds the gateway with an SSDP
+ * search, reads its description for a WAN connection service and drives
+ * that through SOAP.
+ */
+export class UpnpClient implements PortMapper {
+  readonly type = 'upnp';
+  private service: ControlService | null = null;
+
+  constructor(private readonly options: UpnpOptions = {}) {}
+
+  get gateway(): string {
+    return this.service ? new URL(this.service.url).hostname : '';
+  }
+
+  async probe(): Promise<boolean> {
+    try {
+      for (const location of await this.search()) {
+        this.service = await this.findControlService(location).catch((error) => {
+          logger.debug(`Ignoring UPnP device at ${location}:`, error);
+          return null;
+        });
+        if (this.service) {
+          return true;
+        }
+      }
+    } catch (error) {
+      logger.debug('SSDP search failed:', error);
+    }
+    return false;
+  }
+
+  async getExternalIP(): Promise<string | null> {
+    const response = await this.call('GetExternalIPAddress', {});
+    return readTag(response, 'NewExternalIPAddress');
+  }
+
+  async map(request: PortMappingRequest): Promise<PortMappingResult> {
+    const url = new URL(this.requireService().url);
+    const args = {
+      NewRemoteHost: '',
+      NewExternalPort: request.publicPort,
+      NewProtocol: request.protocol.toUpperCase(),
+      NewInternalPort: request.privatePort,
+      NewInternalClient: await localAddressFor(url.hostname, Number(url.port) || 80),
+      NewEnabled: 1,
+      NewPortMappingDescription: this.options.description ?? 'AirSync-Lite',
+      NewLeaseDuration: request.lifetime,
+    };
+
+    let lifetime = request.lifetime;
+    try {
+      await this.call('AddPortMapping', args);
+    } catch (error) {
+      if (!(error instanceof SoapError) || error.code !== ONLY_PERMANENT_LEASES) {
+        throw error;
+      }
+      lifetime = 0;
+      await this.call('AddPortMapping', { ...args, NewLeaseDuration: 0 });
+    }
+
+    return {
+      publicPort: request.publicPort,
+      lifetime,
+      externalAddress: (await this.getExternalIP().catch(() => null)) ?? undefined,
+    };
+  }
+
+  async unmap(request: PortMappingRequest): Promise<void> {
+    await this.call('DeletePortMapping', {
+      NewRemoteHost: '',
+      NewExternalPort: request.publicPort,
+      NewProtocol: request.protocol.toUpperCase(),
+    });
+  }
+
+  close(): void {
+    this.service = null;
+  }
+
+  /** LOCATION URLs of gateways that answered the search, first answer first. */
+  private search(): Promise<string[]> {
+    const address = this.options.ssdpAddress ?? SSDP_ADDRESS;
+    const port = this.options.ssdpPort ?? SSDP_PORT;
+    const socket = dgram.createSocket('udp4');
+    const locations: string[] = [];
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        socket.close();
+        resolve(locations);
+      };
+      socket.on('message', (message) => {
+        const location = /^location:\s*(\S+)/im.exec(message.toString('utf8'))?.[1];
+        if (location && /^https?:\/\//i.test(location) && !locations.includes(location)) {
+          locations.push(location);
+        }
+      });
+      socket.once('error', (error) => {
+        socket.close();
+        reject(error);
+      });
+      socket.bind(0, () => {
+        for (const target of SEARCH_TARGETS) {
+          const search = [
+            'M-SEARCH * HTTP/1.1',
+            `HOST: ${SSDP_ADDRESS}:${SSDP_PORT}`,
+            'MAN: "ssdp:discover"',
+            'MX: 2',
+            `ST: ${target}`,
+            '',
+            '',
+          ].join('\r\n');
+          socket.send(search, port, address);
+        }
+        setTimeout(finish, this.options.timeout ?? 2000);
+      });
+    });
+  }
+
+  private async findControlService(location: string): Promise<ControlService | null> {
+    const response = await fetch(location, {
+      signal: AbortSignal.timeout(this.options.timeout ?? 2000),
+    });
+    if (!response.ok) {
+      throw new Error(`Device description returned ${response.status}`);
+    }
+    const description = await response.text();
+    const base = readTag(description, 'URLBase') ?? location;
+
+    for (const [service] of description.matchAll(/<service>[\s\S]*?<\/service>/g)) {
+      const type = readTag(service, 'serviceType');
+      const controlUrl = readTag(service, 'controlURL');
+      if (type && controlUrl && SERVICE_TYPE.test(type)) {
+        return { url: new URL(controlUrl, base).toString(), type };
+      }
+    }
+    return null;
+  }
+
+  private requireService(): ControlService {
+    if (!this.service) {
+      throw new Error('No UPnP gateway found');
+    }
+    return this.service;
+  }
+
+  private async call(action: string, args: Record<string, string | number>): Promise<string> {
+    const service = this.requireService();
+    const body =
+      '<?xml version="1.0"?>' +
+      '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" ' +
+      's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/"><s:Body>' +
+      `<u:${action} xmlns:u="${service.type}">` +
+      Object.entries(args)
+        .map(([name, value]) => `<${name}>${escapeXml(String(value))}</${name}>`)
+        .join('') +
+      `</u:${action}></s:Body></s:Envelope>`;
+
+    const response = await fetch(service.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/xml; charset="utf-8"',
+        SOAPAction: `"${service.type}#${action}"`,
+      },
+      body,
+      signal: AbortSignal.timeout(this.options.timeout ?? 2000),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      const code = Number.parseInt(readTag(text, 'errorCode') ?? '', 10);
+      const reason = readTag(text, 'errorDescription') ?? `HTTP ${response.status}`;
+      throw new SoapError(`UPnP ${action} failed: ${reason}`, Number.isNaN(code) ? null : code);
+    }
+    return text;
+  }
+}
+
+/** Text of the first element with this local name, ignoring namespaces. */
+function readTag(xml: string, name: string): string | null {
+  const match = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([^<]*)</`, 'i').exec(xml);
+  return match ? unescapeXml(match[1].trim()) : null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
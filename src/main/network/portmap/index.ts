@@ -0,0 +1,4 @@
+export * from './PortMapper';
+export * from './NatPmpClient';
+export * from './PcpClient';
+export * from './UpnpClient';
@@ -0,0 +1,119 @@
+import {
+  CompressionAlgorithm,
+  NegotiatedCapabilities,
+  ProtocolFeature,
+} from '../../../shared/types/sync';
+import { COMPRESSION_ALGORITHMS, LEGACY_COMPRESSION, SUPPORTED_COMPRESSION } from './Compression';
+import {
+  LEGACY_PROTOCOL_VERSION,
+  compareProtocolVersions,
+  supportsBinaryFrames,
+} from './TransferFrame';
+
+/** First protocol version that runs the capability handshake after authenticating. */
+export const HANDSHAKE_VERSION = '1.2.0';
+
+/** Versions this build can speak, oldest first. */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['1.0.0', '1.1.0', '1.2.0'];
+
+/** Every feature this build implements. */
+export const PROTOCOL_FEATURES: ProtocolFeature[] = [
+  'binary-frames',
+  'delta-sync',
+  'chunk-resume',
+  'multi-source',
+  'rename-ops',
+  'deletion-sync',
+];
+
+const MAX_OFFER_ENTRIES = 64;
+
+/** What each side offers in the `capabilities` handshake message. */
+export interface CapabilitiesMessage {
+  protocolVersions: string[];
+  features: string[];
+  compressionAlgorithms: string[];
+}
+
+export function getLocalCapabilities(): CapabilitiesMessage {
+  return {
+    protocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+    features: PROTOCOL_FEATURES,
+    compressionAlgorithms: SUPPORTED_COMPRESSION,
+  };
+}
+
+/** Peers that report at least this version expect the handshake. */
+export function supportsHandshake(protocolVersion: unknown): boolean {
+  return (
+    typeof protocolVersion === 'string' &&
+    compareProtocolVersions(protocolVersion, HANDSHAKE_VERSION) >= 0
+  );
+}
+
+/**
+ * Agrees on the highest version both sides speak and on the features both
+ * offer. Throws when the offer is malformed or shares no version with ours.
+ */
+export function negotiateCapabilities(
+  local: CapabilitiesMessage,
+  remote: unknown
+): NegotiatedCapabilities {
+  if (!isCapabilitiesMessage(remote)) {
+    throw new Error('Malformed capabilities message');
+  }
+
+  const versions = remote.protocolVersions
+    .filter((version) => local.protocolVersions.includes(version))
+    .sort(compareProtocolVersions);
+  if (versions.length === 0) {
+    throw new Error(`No common protocol version in ${remote.protocolVersions.join(', ')}`);
+  }
+
+  return {
+    protocolVersion: versions[versions.length - 1],
+    features: PROTOCOL_FEATURES.filter(
+      (feature) => local.features.includes(feature) && remote.features.includes(feature)
+    ),
+    compressionAlgorithms: knownCompression(remote.compressionAlgorithms),
+  };
+}
+
+/**
+ * Capabilities of a peer that predates the handshake, implied by the version
+ * and compression algorithms it reported when authenticating. Binary frames
+ * are the only feature a version implies; everything else needs the handshake.
+ */
+export function legacyCapabilities(
+  protocolVersion: unknown,
+  compressionAlgorithms?: unknown
+): NegotiatedCapabilities {
+  const version = typeof protocolVersion === 'string' ? protocolVersion : LEGACY_PROTOCOL_VERSION;
+  const features: ProtocolFeature[] = supportsBinaryFrames(version) ? ['binary-frames'] : [];
+  return {
+    protocolVersion: version,
+    features,
+    compressionAlgorithms: Array.isArray(compressionAlgorithms)
+      ? knownCompression(compressionAlgorithms)
+      : LEGACY_COMPRESSION,
+  };
+}
+
+function knownCompression(algorithms: unknown[]): CompressionAlgorithm[] {
+  return algorithms.filter((algorithm): algorithm is CompressionAlgorithm =>
+    COMPRESSION_ALGORITHMS.includes(algorithm as CompressionAlgorithm)
+  );
+}
+
+function isCapabilitiesMessage(value: unknown): value is CapabilitiesMessage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const message = value as Record<string, unknown>;
+  return [message.protocolVersions, message.features, message.compressionAlgorithms].every(
+    (list) =>
+      Array.isArray(list) &&
+      list.length <= MAX_OFFER_ENTRIES &&
+      list.every((entry) => typeof entry === 'string')
+  );
+}
@@ -0,0 +1,138 @@
+import * as path from 'path';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { CompressionAlgorithm } from '../../../shared/types/sync';
+
+/** Every algorithm the protocol defines, whether or not this build supports it. */
+export const COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ['zstd', 'brotli', 'deflate'];
+
+/** What peers that do not advertise their algorithms can decode. */
+export const LEGACY_COMPRESSION: CompressionAlgorithm[] = ['deflate'];
+
+/** Bytes read from the start of a file to judge whether it compresses. */
+export const ENTROPY_SAMPLE_SIZE = 64 * 1024;
+
+/** Samples above this many bits of entropy per byte are not worth compressing. */
+const MAX_COMPRESSIBLE_ENTROPY = 7.5;
+
+/** Formats that are already compressed, or that are text and always compress. */
+const INCOMPRESSIBLE_EXTENSIONS = new Set(
+  [
+    '.7z .aac .apk .avi .br .bz2 .docx .flac .gif .gz .heic .jar .jpeg .jpg .m4a .m4v',
+    '.mkv .mov .mp3 .mp4 .ogg .opus .png .pptx .rar .tgz .webm .webp .xlsx .xz .zip .zst',
+  ].flatMap((line) => line.split(' '))
+);
+const COMPRESSIBLE_EXTENSIONS = new Set(
+  [
+    '.c .cpp .css .csv .go .h .html .java .js .json .jsx .log .md .py .rs .sql .svg',
+    '.ts .tsx .txt .xml .yaml .yml',
+  ].flatMap((line) => line.split(' '))
+);
+
+type ZlibCall = (data: Buffer, options: object, callback: zlib.CompressCallback) => void;
+
+interface Codec {
+  compress: (data: Buffer, options: object) => Promise<Buffer>;
+  decompress: (data: Buffer, options: object) => Promise<Buffer>;
+  /** Options for a 1-9 compression level. */
+  level: (level: number) => object;
+}
+
+const codec = (
+  compress: ZlibCall,
+  decompress: ZlibCall,
+  level: (level: number) => object
+): Codec => ({ compress: promisify(compress), decompress: promisify(decompress), level });
+
+/** zstd ships with newer Node releases only. */
+const zstd = zlib as typeof zlib & { zstdCompress?: ZlibCall; zstdDecompress?: ZlibCall };
+
+const codecs: Partial<Record<CompressionAlgorithm, Codec>> = {
+  deflate: codec(zlib.deflate, zlib.inflate, (level) => ({ level })),
+  brotli: codec(zlib.brotliCompress, zlib.brotliDecompress, (level) => ({
+    params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level },
+  })),
+};
+if (zstd.zstdCompress && zstd.zstdDecompress) {
+  // 100 is ZSTD_c_compressionLevel
+  codecs.zstd = codec(zstd.zstdCompress, zstd.zstdDecompress, (level) => ({
+    params: { 100: level },
+  }));
+}
+
+/** Algorithms this build can encode and decode, most preferred first. */
+export const SUPPORTED_COMPRESSION = COMPRESSION_ALGORITHMS.filter(
+  (algorithm) => codecs[algorithm] !== undefined
+);
+
+/** Picks our most preferred algorithm that the peer can decode as well. */
+export function negotiateCompression(
+  peerAlgorithms: CompressionAlgorithm[] = LEGACY_COMPRESSION
+): CompressionAlgorithm | undefined {
+  return SUPPORTED_COMPRESSION.find((algorithm) => peerAlgorithms.includes(algorithm));
+}
+
+export function isSupportedCompression(algorithm: unknown): algorithm is CompressionAlgorithm {
+  return SUPPORTED_COMPRESSION.includes(algorithm as CompressionAlgorithm);
+}
+
+/** Shannon entropy of the bytes, from 0 (constant) to 8 (random). */
+export function sampleEntropy(sample: Buffer): number {
+  if (sample.length === 0) {
+    return 0;
+  }
+  const counts = new Array<number>(256).fill(0);
+  for (const byte of sample) {
+    counts[byte]++;
+  }
+  let entropy = 0;
+  for (const count of counts) {
+    if (count > 0) {
+      const probability = count / sample.length;
+      entropy -= probability * Math.log2(probability);
+    }
+  }
+  return entropy;
+}
+
+/**
+ * Decides by extension where the format is known, and by the entropy of a
+ * sample from the start of the file otherwise.
+ */
+export function isCompressible(fileName: string, sample: Buffer): boolean {
+  const extension = path.extname(fileName).toLowerCase();
+  if (INCOMPRESSIBLE_EXTENSIONS.has(extension)) {
+    return false;
+  }
+  if (COMPRESSIBLE_EXTENSIONS.has(extension)) {
+    return true;
+  }
+  return sampleEntropy(sample) <= MAX_COMPRESSIBLE_ENTROPY;
+}
+
+/** `level` is 1-9 as in `performance.compressionLevel`. */
+export async function compressBuffer(
+  algorithm: CompressionAlgorithm,
+  data: Buffer,
+  level: number
+): Promise<Buffer> {
+  const { compress, level: options } = getCodec(algorithm);
+  return await compress(data, options(level));
+}
+
+/** Fails instead of inflating past `maxOutputLength`, e.g. a chunk size. */
+export async function decompressBuffer(
+  algorithm: CompressionAlgorithm,
+  data: Buffer,
+  maxOutputLength: number
+): Promise<Buffer> {
+  return await getCodec(algorithm).decompress(data, { maxOutputLength });
+}
+
+function getCodec(algorithm: CompressionAlgorithm): Codec {
+  const found = codecs[algorithm];
+  if (!found) {
+    throw new Error(`Unsupported compression algorithm: ${algorithm}`);
+  }
+  return found;
+}
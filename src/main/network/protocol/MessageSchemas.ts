@@ -0,0 +1,358 @@
+import { MAX_CHUNK_SIZE } from '../../sync/linkStats';
+
+/** Shape a peer message field must have. */
+export type Schema =
+  | { type: 'string'; maxLength: number; pattern?: RegExp; optional?: boolean }
+  | { type: 'number'; min: number; max: number; integer?: boolean; optional?: boolean }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'enum'; values: readonly string[]; optional?: boolean }
+  | { type: 'array'; items: Schema; maxItems: number; optional?: boolean }
+  | { type: 'object'; fields: Record<string, Schema>; optional?: boolean }
+  | { type: 'record'; keys: Schema; values: Schema; maxEntries: number; optional?: boolean }
+  | { type: 'buffer'; maxBytes: number; optional?: boolean };
+
+/** Schema of a peer message and the most bytes it may carry. */
+export interface MessageSchema {
+  schema: Schema;
+  maxBytes: number;
+}
+
+const KiB = 1024;
+const MiB = 1024 * KiB;
+/** Chunk, block and range lists of the largest files we transfer. */
+const MAX_LIST_ITEMS = 1 << 22;
+/** Files, directories and tombstones in the largest folders we sync. */
+const MAX_FILE_LIST_ITEMS = 1 << 20;
+/** Compressed chunks of incompressible data can come out slightly larger. */
+const MAX_CHUNK_BYTES = MAX_CHUNK_SIZE + 64 * KiB;
+const MAX_CHUNK_BASE64 = Math.ceil(MAX_CHUNK_BYTES / 3) * 4;
+
+const string = (maxLength: number, pattern?: RegExp): Schema => ({
+  type: 'string',
+  maxLength,
+  pattern,
+});
+const integer = (min = 0, max = Number.MAX_SAFE_INTEGER): Schema => ({
+  type: 'number',
+  min,
+  max,
+  integer: true,
+});
+const array = (items: Schema, maxItems = MAX_LIST_ITEMS): Schema => ({
+  type: 'array',
+  items,
+  maxItems,
+});
+const object = (fields: Record<string, Schema>): Schema => ({ type: 'object', fields });
+const record = (keys: Schema, values: Schema, maxEntries: number): Schema => ({
+  type: 'record',
+  keys,
+  values,
+  maxEntries,
+});
+const optional = (schema: Schema): Schema => ({ ...schema, optional: true });
+
+const transferId = string(64, /^[\w-]+$/);
+const deviceId = string(128, /^[\w.-]+$/);
+const folderId = string(256);
+const relativePath = string(4096);
+const hash = string(128, /^[0-9a-f]+$/i);
+const chunkSize = integer(1, MAX_CHUNK_SIZE);
+const names = (maxItems: number) => array(string(32), maxItems);
+const timestamp = string(64);
+const versionVector = record(deviceId, integer(), 4096);
+
+/**
+ * Every message a peer can send us, keyed by socket event. Unknown fields are
+ * dropped, so newer peers can add fields without older ones rejecting them.
+ */
+export const PEER_MESSAGE_SCHEMAS = {
+  authenticate: {
+    schema: object({
+      deviceId,
+      challenge: optional(string(4 * KiB)),
+      signature: optional(string(4 * KiB)),
+      protocolVersion: optional(string(32)),
+      compressionAlgorithms: optional(names(16)),
+    }),
+    maxBytes: 16 * KiB,
+  },
+  'pairing-request': {
+    schema: object({ code: string(16) }),
+    maxBytes: KiB,
+  },
+  capabilities: {
+    schema: object({
+      protocolVersions: names(64),
+      features: names(64),
+      compressionAlgorithms: names(64),
+    }),
+    maxBytes: 16 * KiB,
+  },
+  'request-file-list': {
+    schema: object({ folderId }),
+    maxBytes: KiB,
+  },
+  'file-list-response': {
+    schema: object({
+      folderId,
+      files: array(
+        object({
+          path: relativePath,
+          relativePath,
+          name: string(1024),
+          size: integer(),
+          type: { type: 'enum', values: ['file', 'directory', 'symlink'] },
+          hash: optional(hash),
+          modifiedAt: timestamp,
+          createdAt: timestamp,
+          permissions: optional(integer(0, 0xffffffff)),
+          isIgnored: optional({ type: 'boolean' }),
+          version: optional(versionVector),
+          renamedFrom: optional(relativePath),
+          deleted: optional({ type: 'boolean' }),
+          sealedMetadata: optional(string(4 * KiB, /^[A-Za-z0-9+/]*={0,2}$/)),
+        }),
+        MAX_FILE_LIST_ITEMS
+      ),
+    }),
+    maxBytes: 64 * MiB,
+  },
+  'request-file': {
+    schema: object({
+      transferId,
+      folderId,
+      relativePath,
+      hash: optional(hash),
+      signature: optional(
+        object({
+          blockSize: integer(1, MAX_CHUNK_SIZE),
+          size: integer(),
+          blocks: array(object({ index: integer(), weak: integer(0, 0xffffffff), strong: hash })),
+        })
+      ),
+      ranges: optional(array(object({ offset: integer(), length: integer() }))),
+      resume: optional(object({ chunkSize, chunks: array(integer()) })),
+    }),
+    maxBytes: 32 * MiB,
+  },
+  'request-chunk-manifest': {
+    schema: object({ transferId, folderId, relativePath, chunkSize: optional(chunkSize) }),
+    maxBytes: 8 * KiB,
+  },
+  'chunk-manifest': {
+    schema: object({
+      transferId,
+      size: integer(),
+      hash,
+      chunks: array(object({ offset: integer(), length: integer(1, MAX_CHUNK_SIZE), hash })),
+    }),
+    maxBytes: 32 * MiB,
+  },
+  'transfer-init': {
+    schema: object({
+      transferId,
+      file: object({
+        path: relativePath,
+        name: string(1024),
+        size: integer(),
+        hash: optional(hash),
+        modifiedAt: optional(timestamp),
+      }),
+      totalChunks: integer(),
+      chunkSize,
+      compressed: { type: 'boolean' },
+      // Unknown algorithms are answered with transfer-init-error by the receiver
+      compression: optional(string(32)),
+      delta: optional(object({ baseSize: integer(), size: integer() })),
+      chunks: optional(array(integer())),
+    }),
+    maxBytes: 32 * MiB,
+  },
+  'transfer-init-ack': {
+    schema: object({ maxInFlightBytes: optional(integer(0)) }),
+    maxBytes: KiB,
+  },
+  'transfer-chunk': {
+    schema: object({
+      transferId,
+      chunkIndex: integer(),
+      data: string(MAX_CHUNK_BASE64, /^[A-Za-z0-9+/]*={0,2}$/),
+      hash,
+    }),
+    maxBytes: MAX_CHUNK_BASE64 + KiB,
+  },
+  'transfer-frame': {
+    schema: { type: 'buffer', maxBytes: MAX_CHUNK_BYTES + KiB },
+    maxBytes: MAX_CHUNK_BYTES + KiB,
+  },
+  'chunk-wait': {
+    schema: object({ delayMs: integer(0, 24 * 60 * 60 * 1000) }),
+    maxBytes: KiB,
+  },
+  'transfer-complete': {
+    schema: object({ transferId, fileHash: optional(hash) }),
+    maxBytes: KiB,
+  },
+  'transfer-error': {
+    schema: object({ transferId, error: string(4 * KiB) }),
+    maxBytes: 8 * KiB,
+  },
+  'sync-status': {
+    schema: object({
+      folderId,
+      state: {
+        type: 'enum',
+        values: ['idle', 'scanning', 'syncing', 'paused', 'error', 'conflict'],
+      },
+      progress: optional({ type: 'number', min: 0, max: 100 }),
+      currentFile: optional(relativePath),
+      totalFiles: optional(integer()),
+      completedFiles: optional(integer()),
+      bytesTransferred: optional(integer()),
+      totalBytes: optional(integer()),
+    }),
+    maxBytes: 16 * KiB,
+  },
+} satisfies Record<string, MessageSchema>;
+
+export type PeerMessageType = keyof typeof PEER_MESSAGE_SCHEMAS;
+
+/** Largest message any schema admits, which the socket server must accept. */
+export const MAX_PEER_MESSAGE_BYTES = Math.max(
+  ...Object.values(PEER_MESSAGE_SCHEMAS).map(({ maxBytes }) => maxBytes)
+);
+
+/**
+ * Checks a message from a peer against the schema of its event and returns
+ * it with unknown fields dropped. Throws an error naming the offending field.
+ */
+export function validatePeerMessage(event: PeerMessageType, payload: unknown): unknown {
+  const { schema, maxBytes } = PEER_MESSAGE_SCHEMAS[event];
+  const budget = { remaining: maxBytes };
+  return validate(schema, payload, event, budget);
+}
+
+/** The transfer a message is about, when it names one in a valid format. */
+export function getTransferId(payload: unknown): string | undefined {
+  if (typeof payload !== 'object' || payload === null) {
+    return undefined;
+  }
+  try {
+    const id = (payload as Record<string, unknown>).transferId;
+    return validate(transferId, id, 'transferId', { remaining: Infinity }) as string;
+  } catch {
+    return undefined;
+  }
+}
+
+function validate(
+  schema: Schema,
+  value: unknown,
+  field: string,
+  budget: { remaining: number }
+): unknown {
+  if (value === undefined || value === null) {
+    if (schema.optional) {
+      return undefined;
+    }
+    throw new Error(`${field} is required`);
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new Error(`${field} must be a string`);
+      }
+      if (value.length > schema.maxLength) {
+        throw new Error(`${field} exceeds ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !schema.pattern.test(value)) {
+        throw new Error(`${field} has an invalid format`);
+      }
+      spend(budget, value.length, field);
+      return value;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`${field} must be a number`);
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        throw new Error(`${field} must be an integer`);
+      }
+      if (value < schema.min || value > schema.max) {
+        throw new Error(`${field} must be between ${schema.min} and ${schema.max}`);
+      }
+      spend(budget, 8, field);
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`${field} must be a boolean`);
+      }
+      spend(budget, 1, field);
+      return value;
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        throw new Error(`${field} must be one of ${schema.values.join(', ')}`);
+      }
+      spend(budget, value.length, field);
+      return value;
+    case 'array':
+      if (!Array.isArray(value)) {
+        throw new Error(`${field} must be an array`);
+      }
+      if (value.length > schema.maxItems) {
+        throw new Error(`${field} exceeds ${schema.maxItems} entries`);
+      }
+      return value.map((item, index) => validate(schema.items, item, `${field}[${index}]`, budget));
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value) || Buffer.isBuffer(value)) {
+        throw new Error(`${field} must be an object`);
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const fieldValue = validate(
+          fieldSchema,
+          (value as Record<string, unknown>)[key],
+          `${field}.${key}`,
+          budget
+        );
+        if (fieldValue !== undefined) {
+          result[key] = fieldValue;
+        }
+      }
+      return result;
+    }
+    case 'record': {
+      if (typeof value !== 'object' || Array.isArray(value) || Buffer.isBuffer(value)) {
+        throw new Error(`${field} must be an object`);
+      }
+      const entries = Object.entries(value as Record<string, unknown>);
+      if (entries.length > schema.maxEntries) {
+        throw new Error(`${field} exceeds ${schema.maxEntries} entries`);
+      }
+      // fromEntries defines keys such as __proto__ as plain properties
+      return Object.fromEntries(
+        entries.map(([key, entry]) => [
+          validate(schema.keys, key, `${field} key`, budget),
+          validate(schema.values, entry, `${field}.${key}`, budget),
+        ])
+      );
+    }
+    case 'buffer':
+      if (!Buffer.isBuffer(value)) {
+        throw new Error(`${field} must be binary`);
+      }
+      if (value.length > schema.maxBytes) {
+        throw new Error(`${field} exceeds ${schema.maxBytes} bytes`);
+      }
+      spend(budget, value.length, field);
+      return value;
+  }
+}
+
+function spend(budget: { remaining: number }, bytes: number, field: string): void {
+  budget.remaining -= bytes;
+  if (budget.remaining < 0) {
+    throw new Error(`${field.split(/[.[]/)[0]} exceeds its size limit`);
+  }
+}
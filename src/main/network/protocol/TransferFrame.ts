@@ -0,0 +1,115 @@
+/** Protocol version this build speaks; peers report theirs when they connect. */
+export const PROTOCOL_VERSION = '1.2.0';
+
+/** Version spoken by peers that do not report one. */
+export const LEGACY_PROTOCOL_VERSION = '1.0.0';
+
+/** First protocol version that accepts binary `transfer-frame` events. */
+export const BINARY_FRAMES_VERSION = '1.1.0';
+
+export const FRAME_TYPE_CHUNK = 1;
+
+/** The frame data is compressed with the algorithm from the transfer init. */
+export const FRAME_FLAG_COMPRESSED = 0x01;
+
+const LENGTH_SIZE = 4;
+const HASH_SIZE = 32;
+const MAX_TRANSFER_ID_LENGTH = 255;
+
+/**
+ * One chunk of transfer data. On the wire a frame is laid out as:
+ *
+ *   uint32  length of everything after this field
+ *   uint8   frame type
+ *   uint8   flags
+ *   uint8   transfer ID length, followed by the UTF-8 transfer ID
+ *   uint32  chunk index
+ *   32      SHA-256 of the data
+ *   ...     data
+ *
+ * All integers are big-endian.
+ */
+export interface TransferFrame {
+  transferId: string;
+  chunkIndex: number;
+  flags: number;
+  /** Hex SHA-256 of `data` as sent. */
+  hash: string;
+  data: Buffer;
+}
+
+export function encodeTransferFrame(frame: TransferFrame): Buffer {
+  const transferId = Buffer.from(frame.transferId, 'utf8');
+  if (transferId.length > MAX_TRANSFER_ID_LENGTH) {
+    throw new Error('Transfer ID is too long for a transfer frame');
+  }
+
+  const header = Buffer.alloc(LENGTH_SIZE + 3 + transferId.length + 4 + HASH_SIZE);
+  let offset = header.writeUInt32BE(header.length - LENGTH_SIZE + frame.data.length, 0);
+  offset = header.writeUInt8(FRAME_TYPE_CHUNK, offset);
+  offset = header.writeUInt8(frame.flags, offset);
+  offset = header.writeUInt8(transferId.length, offset);
+  offset += transferId.copy(header, offset);
+  offset = header.writeUInt32BE(frame.chunkIndex, offset);
+  Buffer.from(frame.hash, 'hex').copy(header, offset);
+
+  return Buffer.concat([header, frame.data]);
+}
+
+/**
+ * Parses one frame. Throws when the buffer is truncated, carries trailing
+ * bytes or is not a chunk frame.
+ */
+export function decodeTransferFrame(buffer: Buffer): TransferFrame {
+  const fail = (reason: string): never => {
+    throw new Error(`Malformed transfer frame: ${reason}`);
+  };
+
+  if (buffer.length < LENGTH_SIZE + 3) {
+    fail('truncated header');
+  }
+  const length = buffer.readUInt32BE(0);
+  if (length !== buffer.length - LENGTH_SIZE) {
+    fail(`length ${length} does not match ${buffer.length - LENGTH_SIZE} bytes`);
+  }
+
+  let offset = LENGTH_SIZE;
+  const type = buffer.readUInt8(offset++);
+  if (type !== FRAME_TYPE_CHUNK) {
+    fail(`unknown frame type ${type}`);
+  }
+  const flags = buffer.readUInt8(offset++);
+  const idLength = buffer.readUInt8(offset++);
+  if (idLength === 0 || buffer.length < offset + idLength + 4 + HASH_SIZE) {
+    fail('truncated header');
+  }
+
+  const transferId = buffer.toString('utf8', offset, offset + idLength);
+  offset += idLength;
+  const chunkIndex = buffer.readUInt32BE(offset);
+  offset += 4;
+  const hash = buffer.toString('hex', offset, offset + HASH_SIZE);
+  offset += HASH_SIZE;
+
+  return { transferId, chunkIndex, flags, hash, data: buffer.subarray(offset) };
+}
+
+/** Compares dotted version strings numerically; missing parts count as 0. */
+export function compareProtocolVersions(a: string, b: string): number {
+  const left = a.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  const right = b.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+export function supportsBinaryFrames(protocolVersion: string | undefined): boolean {
+  return (
+    protocolVersion !== undefined &&
+    compareProtocolVersions(protocolVersion, BINARY_FRAMES_VERSION) >= 0
+  );
+}
@@ -0,0 +1,253 @@
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import { logger } from '../../utils/logger';
+import {
+  RelayEndpoint,
+  RelayRequest,
+  RelayStream,
+  UnsignedRelayRequest,
+  parseRelayUrl,
+  readLine,
+  relayRequestPayload,
+  writeLine,
+} from './RelayProtocol';
+
+/** Signs relay requests with the device key peers know from pairing. */
+export interface RelaySigner {
+  sign(data: string): Promise<string>;
+  getPublicKey(): Promise<string>;
+}
+
+/**
+ * A relayed stream to a peer and the relay carrying it. `deviceId` is only
+ * what the peer told the relay; the peer still has to prove it over the stream.
+ */
+export interface RelayConnection {
+  stream: RelayStream;
+  deviceId: string;
+  relay: RelayEndpoint;
+}
+
+/**
+ * Client side of the relays configured in the network rules: stays registered
+ * with each of them so peers can reach this device, and opens sessions to
+ * peers that cannot be reached directly. Emits `incoming` with a
+ * RelayConnection for every session a peer opens to us.
+ */
+export class RelayClient extends EventEmitter {
+  private readonly registrations = new Map<string, net.Socket>();
+  private readonly retryTimers = new Map<string, NodeJS.Timeout>();
+  private running = false;
+  private readonly HANDSHAKE_TIMEOUT = 10 * 1000;
+  private readonly ACCEPT_TIMEOUT = 35 * 1000;
+  private readonly RETRY_DELAY = 30 * 1000;
+  private readonly KEEPALIVE_DELAY = 30 * 1000;
+
+  constructor(
+    private readonly deviceId: string,
+    private readonly signer: RelaySigner,
+    private readonly getRelayUrls: () => string[]
+  ) {
+    super();
+  }
+
+  hasRelays(): boolean {
+    return this.getEndpoints().length > 0;
+  }
+
+  /** Registers with every configured relay, and drops relays no longer configured. */
+  listen(): void {
+    this.running = true;
+    const endpoints = this.getEndpoints();
+    const urls = new Set(endpoints.map((endpoint) => endpoint.url));
+
+    for (const [url, socket] of this.registrations) {
+      if (!urls.has(url)) {
+        this.registrations.delete(url);
+        socket.destroy();
+      }
+    }
+    for (const endpoint of endpoints) {
+      if (!this.registrations.has(endpoint.url) && !this.retryTimers.has(endpoint.url)) {
+        void this.register(endpoint);
+      }
+    }
+  }
+
+  /** Opens a session to `targetId` through the first configured relay that can reach it. */
+  async connect(targetId: string): Promise<RelayConnection> {
+    const errors: string[] = [];
+    for (const relay of this.getEndpoints()) {
+      try {
+        const socket = await this.join(relay, {
+          type: 'connect',
+          token: relay.token,
+          deviceId: this.deviceId,
+          targetId,
+        });
+        return { stream: new RelayStream(socket, relay), deviceId: targetId, relay };
+      } catch (error) {
+        errors.push(`${relay.host}:${relay.port}: ${(error as Error).message}`);
+      }
+    }
+    throw new Error(`No relay could reach ${targetId} (${errors.join('; ') || 'none configured'})`);
+  }
+
+  stop(): void {
+    this.running = false;
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+    for (const socket of this.registrations.values()) {
+      socket.destroy();
+    }
+    this.registrations.clear();
+  }
+
+  private getEndpoints(): RelayEndpoint[] {
+    const endpoints: RelayEndpoint[] = [];
+    for (const url of this.getRelayUrls()) {
+      try {
+        endpoints.push(parseRelayUrl(url));
+      } catch (error) {
+        logger.warn(`Ignoring relay ${url}:`, error);
+      }
+    }
+    return endpoints;
+  }
+
+  private async register(relay: RelayEndpoint): Promise<void> {
+    let socket: net.Socket;
+    try {
+      socket = await this.join(relay, {
+        type: 'listen',
+        token: relay.token,
+        deviceId: this.deviceId,
+      });
+    } catch (error) {
+      logger.warn(`Could not register with relay ${relay.host}:${relay.port}:`, error);
+      this.scheduleRetry(relay);
+      return;
+    }
+
+    if (!this.running) {
+      socket.destroy();
+      return;
+    }
+    this.registrations.set(relay.url, socket);
+    socket.setKeepAlive(true, this.KEEPALIVE_DELAY);
+    logger.info(`Registered with relay ${relay.host}:${relay.port}`);
+
+    let buffered = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      let end: number;
+      while ((end = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, end);
+        buffered = buffered.slice(end + 1);
+        this.handleNotice(relay, line);
+      }
+    });
+    socket.on('error', (error) => logger.debug(`Relay ${relay.host} error:`, error));
+    socket.once('close', () => {
+      if (this.registrations.get(relay.url) === socket) {
+        this.registrations.delete(relay.url);
+        logger.warn(`Lost registration with relay ${relay.host}:${relay.port}`);
+        this.scheduleRetry(relay);
+      }
+    });
+  }
+
+  private handleNotice(relay: RelayEndpoint, line: string): void {
+    let notice: Record<string, unknown>;
+    try {
+      notice = JSON.parse(line);
+    } catch {
+      logger.warn(`Ignoring malformed notice from relay ${relay.host}`);
+      return;
+    }
+    if (
+      notice?.type !== 'incoming' ||
+      typeof notice.sessionId !== 'string' ||
+      typeof notice.from !== 'string'
+    ) {
+      return;
+    }
+
+    const from = notice.from;
+    this.join(relay, {
+      type: 'accept',
+      token: relay.token,
+      deviceId: this.deviceId,
+      sessionId: notice.sessionId,
+    })
+      .then((socket) => {
+        const connection: RelayConnection = {
+          stream: new RelayStream(socket, relay),
+          deviceId: from,
+          relay,
+        };
+        this.emit('incoming', connection);
+      })
+      .catch((error) => logger.warn(`Could not accept relayed session from ${from}:`, error));
+  }
+
+  private scheduleRetry(relay: RelayEndpoint): void {
+    if (!this.running || this.retryTimers.has(relay.url)) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(relay.url);
+      if (this.running && this.getEndpoints().some((endpoint) => endpoint.url === relay.url)) {
+        void this.register(relay);
+      }
+    }, this.RETRY_DELAY);
+    timer.unref?.();
+    this.retryTimers.set(relay.url, timer);
+  }
+
+  private async sign(request: UnsignedRelayRequest): Promise<RelayRequest> {
+    const timestamp = Date.now();
+    return {
+      ...request,
+      timestamp,
+      publicKey: await this.signer.getPublicKey(),
+      signature: await this.signer.sign(relayRequestPayload({ ...request, timestamp })),
+    };
+  }
+
+  /** Connects to a relay, sends a request and waits until the relay accepts it. */
+  private async join(relay: RelayEndpoint, unsigned: UnsignedRelayRequest): Promise<net.Socket> {
+    const request = await this.sign(unsigned);
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(relay.port, relay.host);
+      const onError = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+      socket.once('error', onError);
+      socket.once('connect', () => {
+        socket.off('error', onError);
+        writeLine(socket, request);
+        // Sessions wait for the peer to accept them; registrations are answered at once
+        const timeout = request.type === 'connect' ? this.ACCEPT_TIMEOUT : this.HANDSHAKE_TIMEOUT;
+        readLine(socket, timeout)
+          .then((response) => {
+            const expected = request.type === 'listen' ? 'ok' : 'ready';
+            if (response.type !== expected) {
+              throw new Error(
+                typeof response.error === 'string' ? response.error : 'Unexpected relay response'
+              );
+            }
+            resolve(socket);
+          })
+          .catch((error) => {
+            socket.destroy();
+            reject(error);
+          });
+      });
+    });
+  }
+}
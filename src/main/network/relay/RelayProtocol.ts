@@ -0,0 +1,213 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import { Duplex } from 'stream';
+
+/** Port relays listen on unless their URL names another. */
+export const DEFAULT_RELAY_PORT = 22067;
+
+/** Longest handshake line either side accepts; requests carry a public key and signature. */
+export const MAX_HANDSHAKE_BYTES = 8 * 1024;
+
+/** How far a request's timestamp may be from the relay's clock. */
+export const MAX_REQUEST_AGE = 5 * 60 * 1000;
+
+/** Where a relay listens and the token it expects, parsed from `relay://host:port?token=…`. */
+export interface RelayEndpoint {
+  url: string;
+  host: string;
+  port: number;
+  token?: string;
+}
+
+/**
+ * Handshake lines sent to a relay. Devices keep a `listen` connection open to
+ * be told about `incoming` sessions, which they join with `accept`; a device
+ * reaching a peer opens a session with `connect`.
+ */
+export type UnsignedRelayRequest =
+  | { type: 'listen'; token?: string; deviceId: string }
+  | { type: 'connect'; token?: string; deviceId: string; targetId: string }
+  | { type: 'accept'; token?: string; deviceId: string; sessionId: string };
+
+/** A request signed with the key of the device it names. */
+export type RelayRequest = UnsignedRelayRequest & {
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+  publicKey: string;
+  /** Hex SHA-256 signature over `relayRequestPayload`. */
+  signature: string;
+};
+
+/** Lines a relay answers with; `ready` means everything after it is the peer's stream. */
+export type RelayResponse =
+  | { type: 'ok' }
+  | { type: 'ready'; sessionId: string; peerId: string }
+  | { type: 'incoming'; sessionId: string; from: string }
+  | { type: 'error'; error: string };
+
+export function parseRelayUrl(url: string): RelayEndpoint {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid relay URL: ${url}`);
+  }
+  if (parsed.protocol !== 'relay:' || !parsed.hostname) {
+    throw new Error(`Relay URLs must look like relay://host:port, got ${url}`);
+  }
+
+  return {
+    url,
+    host: parsed.hostname.replace(/^\[|\]$/g, ''),
+    port: parsed.port ? Number(parsed.port) : DEFAULT_RELAY_PORT,
+    token: parsed.searchParams.get('token') ?? undefined,
+  };
+}
+
+/** The bytes a request's signature covers; the token is left out. */
+export function relayRequestPayload(
+  request: UnsignedRelayRequest & Pick<RelayRequest, 'timestamp'>
+): string {
+  return JSON.stringify({
+    type: 'airsync-relay-request',
+    request: request.type,
+    deviceId: request.deviceId,
+    targetId: request.type === 'connect' ? request.targetId : undefined,
+    sessionId: request.type === 'accept' ? request.sessionId : undefined,
+    timestamp: request.timestamp,
+  });
+}
+
+export function verifyRelayRequest(request: RelayRequest): boolean {
+  try {
+    return crypto.verify(
+      'sha256',
+      Buffer.from(relayRequestPayload(request)),
+      request.publicKey,
+      Buffer.from(request.signature, 'hex')
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function writeLine(socket: net.Socket, message: RelayRequest | RelayResponse): void {
+  socket.write(`${JSON.stringify(message)}\n`);
+}
+
+/**
+ * Reads one handshake line and leaves whatever follows it unread, so the
+ * socket can be handed over with the peer's first bytes intact.
+ */
+export function readLine(socket: net.Socket, timeoutMs: number): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let buffered = Buffer.alloc(0);
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      socket.off('readable', onReadable);
+      socket.off('close', onClose);
+      socket.off('error', onError);
+    };
+    const fail = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => fail(new Error('Relay connection closed during handshake'));
+    const onError = (error: Error) => fail(error);
+    const onReadable = () => {
+      let chunk: Buffer | null;
+      while ((chunk = socket.read()) !== null) {
+        buffered = Buffer.concat([buffered, chunk]);
+        const end = buffered.indexOf(0x0a);
+        if (end === -1) {
+          if (buffered.length > MAX_HANDSHAKE_BYTES) {
+            fail(new Error('Relay handshake line too long'));
+            return;
+          }
+          continue;
+        }
+
+        cleanup();
+        if (end + 1 < buffered.length) {
+          socket.unshift(buffered.subarray(end + 1));
+        }
+        try {
+          const message = JSON.parse(buffered.subarray(0, end).toString('utf8'));
+          if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+            throw new Error('Relay handshake must be a JSON object');
+          }
+          resolve(message);
+        } catch (error) {
+          reject(error);
+        }
+        return;
+      }
+    };
+
+    const timer = setTimeout(() => fail(new Error('Relay handshake timed out')), timeoutMs);
+    socket.on('readable', onReadable);
+    socket.once('close', onClose);
+    socket.once('error', onError);
+    onReadable();
+  });
+}
+
+/**
+ * A relayed peer stream handed to code that expects a connection of its own,
+ * like the HTTP server. Being a plain stream, it is read through its buffer
+ * rather than straight from the TCP handle, so nothing read past the
+ * handshake is lost.
+ */
+export class RelayStream extends Duplex {
+  /** Reported as the remote address; tells relayed peers apart from LAN ones. */
+  readonly remoteAddress: string;
+
+  constructor(
+    private readonly socket: net.Socket,
+    relay: RelayEndpoint
+  ) {
+    super();
+    this.remoteAddress = `relay:${relay.host}`;
+    socket.on('data', (chunk: Buffer) => {
+      if (!this.push(chunk)) {
+        socket.pause();
+      }
+    });
+    socket.once('end', () => this.push(null));
+    socket.once('close', () => this.destroy());
+    socket.once('error', (error) => this.destroy(error));
+  }
+
+  _read(): void {
+    this.socket.resume();
+  }
+
+  _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.socket.write(chunk, encoding, callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    this.socket.end(callback);
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.socket.destroy();
+    callback(error);
+  }
+
+  setTimeout(timeout: number, callback?: () => void): this {
+    this.socket.setTimeout(timeout, callback);
+    return this;
+  }
+
+  setNoDelay(noDelay?: boolean): this {
+    this.socket.setNoDelay(noDelay);
+    return this;
+  }
+
+  setKeepAlive(enable?: boolean, initialDelay?: number): this {
+    this.socket.setKeepAlive(enable, initialDelay);
+    return this;
+  }
+}
@@ -0,0 +1,358 @@
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import * as net from 'net';
+import { logger } from '../../utils/logger';
+import {
+  DEFAULT_RELAY_PORT,
+  MAX_REQUEST_AGE,
+  RelayRequest,
+  readLine,
+  verifyRelayRequest,
+  writeLine,
+} from './RelayProtocol';
+
+export interface RelayServerOptions {
+  port?: number;
+  host?: string;
+  /** Tokens clients must present; an empty list lets anyone in. */
+  tokens?: string[];
+  /** Bytes per second a session may move in both directions together; 0 is unlimited. */
+  sessionRateLimit?: number;
+  maxSessions?: number;
+}
+
+interface Registration {
+  socket: net.Socket;
+  publicKey: string;
+}
+
+interface PendingSession {
+  id: string;
+  dialer: net.Socket;
+  from: string;
+  targetId: string;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Relay for devices that cannot reach each other directly. Devices register
+ * by device ID; a peer that wants to reach one opens a session the device
+ * joins, and the relay then pipes the two connections together without
+ * looking at the (end-to-end encrypted) stream.
+ *
+ * Every request is signed with the key of the device it names. A registered
+ * device's key is pinned until its registration closes, so nobody else can
+ * take over its registration or join sessions opened to it.
+ */
+export class RelayServer extends EventEmitter {
+  private server: net.Server | null = null;
+  private readonly registered = new Map<string, Registration>();
+  private readonly pending = new Map<string, PendingSession>();
+  private readonly active = new Set<net.Socket>();
+  private activeSessions = 0;
+  private readonly HANDSHAKE_TIMEOUT = 10 * 1000;
+  private readonly ACCEPT_TIMEOUT = 30 * 1000;
+  private readonly KEEPALIVE_DELAY = 30 * 1000;
+  private readonly DEFAULT_MAX_SESSIONS = 1000;
+
+  constructor(private readonly options: RelayServerOptions = {}) {
+    super();
+  }
+
+  async start(): Promise<number> {
+    this.server = net.createServer((socket) => {
+      void this.handleConnection(socket);
+    });
+
+    const port = await new Promise<number>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port ?? DEFAULT_RELAY_PORT, this.options.host, () => {
+        this.server!.off('error', reject);
+        resolve((this.server!.address() as net.AddressInfo).port);
+      });
+    });
+    logger.info(`Relay server listening on port ${port}`);
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    for (const session of this.pending.values()) {
+      clearTimeout(session.timer);
+      session.dialer.destroy();
+    }
+    this.pending.clear();
+    for (const { socket } of this.registered.values()) {
+      socket.destroy();
+    }
+    for (const socket of this.active) {
+      socket.destroy();
+    }
+    this.registered.clear();
+    this.active.clear();
+
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  getStats(): { listeners: number; pending: number; sessions: number } {
+    return {
+      listeners: this.registered.size,
+      pending: this.pending.size,
+      sessions: this.activeSessions,
+    };
+  }
+
+  private async handleConnection(socket: net.Socket): Promise<void> {
+    socket.on('error', (error) => logger.debug('Relay connection error:', error));
+
+    let request: RelayRequest;
+    try {
+      request = this.parseRequest(await readLine(socket, this.HANDSHAKE_TIMEOUT));
+    } catch (error) {
+      this.refuse(socket, (error as Error).message);
+      return;
+    }
+
+    if (!this.isAuthorized(request.token)) {
+      this.refuse(socket, 'Invalid relay token');
+      return;
+    }
+    const problem = this.checkSignature(request);
+    if (problem) {
+      this.refuse(socket, problem);
+      return;
+    }
+
+    switch (request.type) {
+      case 'listen':
+        this.handleListen(socket, request.deviceId, request.publicKey);
+        break;
+      case 'connect':
+        this.handleConnect(socket, request.deviceId, request.targetId);
+        break;
+      case 'accept':
+        this.handleAccept(socket, request.deviceId, request.sessionId);
+        break;
+    }
+  }
+
+  /** Why a request is refused on the grounds of its signature, if it is. */
+  private checkSignature(request: RelayRequest): string | null {
+    if (Math.abs(Date.now() - request.timestamp) > MAX_REQUEST_AGE) {
+      return 'Request timestamp is out of range';
+    }
+    const registration = this.registered.get(request.deviceId);
+    if (registration && registration.publicKey !== request.publicKey) {
+      return 'Device is registered with another key';
+    }
+    if (request.type === 'accept' && !registration) {
+      return 'Unknown relay session';
+    }
+    if (!verifyRelayRequest(request)) {
+      return 'Invalid signature';
+    }
+    return null;
+  }
+
+  private handleListen(socket: net.Socket, deviceId: string, publicKey: string): void {
+    // A device that reconnects replaces its stale registration
+    this.registered.get(deviceId)?.socket.destroy();
+    this.registered.set(deviceId, { socket, publicKey });
+    socket.setKeepAlive(true, this.KEEPALIVE_DELAY);
+    socket.once('close', () => {
+      if (this.registered.get(deviceId)?.socket === socket) {
+        this.registered.delete(deviceId);
+      }
+    });
+    // Listeners only ever receive; anything they send is ignored
+    socket.resume();
+    writeLine(socket, { type: 'ok' });
+    logger.info(`Device ${deviceId} registered with the relay`);
+  }
+
+  private handleConnect(socket: net.Socket, from: string, targetId: string): void {
+    const listener = this.registered.get(targetId)?.socket;
+    if (!listener) {
+      this.refuse(socket, `Device ${targetId} is not connected to this relay`);
+      return;
+    }
+    const maxSessions = this.options.maxSessions ?? this.DEFAULT_MAX_SESSIONS;
+    if (this.activeSessions + this.pending.size >= maxSessions) {
+      this.refuse(socket, 'Relay is at capacity');
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    const timer = setTimeout(() => {
+      this.pending.delete(id);
+      this.refuse(socket, `Device ${targetId} did not accept the session`);
+    }, this.ACCEPT_TIMEOUT);
+    this.pending.set(id, { id, dialer: socket, from, targetId, timer });
+    socket.once('close', () => {
+      if (this.pending.get(id)?.dialer === socket) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+      }
+    });
+
+    writeLine(listener, { type: 'incoming', sessionId: id, from });
+  }
+
+  private handleAccept(socket: net.Socket, deviceId: string, sessionId: string): void {
+    const session = this.pending.get(sessionId);
+    // Only the device the session was opened for may join it
+    if (!session || session.targetId !== deviceId) {
+      this.refuse(socket, 'Unknown relay session');
+      return;
+    }
+    clearTimeout(session.timer);
+    this.pending.delete(sessionId);
+
+    writeLine(session.dialer, { type: 'ready', sessionId, peerId: deviceId });
+    writeLine(socket, { type: 'ready', sessionId, peerId: session.from });
+    this.pipeSession(session.dialer, socket);
+    logger.info(`Relaying session ${sessionId} from ${session.from} to ${deviceId}`);
+  }
+
+  private pipeSession(a: net.Socket, b: net.Socket): void {
+    this.activeSessions += 1;
+    this.active.add(a);
+    this.active.add(b);
+    const pacer = new SessionPacer(this.options.sessionRateLimit ?? 0);
+
+    let closed = false;
+    const close = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      this.activeSessions -= 1;
+      this.active.delete(a);
+      this.active.delete(b);
+      a.destroy();
+      b.destroy();
+    };
+    a.once('close', close);
+    b.once('close', close);
+
+    forward(a, b, pacer);
+    forward(b, a, pacer);
+  }
+
+  private parseRequest(message: Record<string, unknown>): RelayRequest {
+    const id = (value: unknown, field: string): string => {
+      if (typeof value !== 'string' || !/^[\w.-]{1,128}$/.test(value)) {
+        throw new Error(`Invalid ${field}`);
+      }
+      return value;
+    };
+    const token =
+      typeof message.token === 'string' && message.token.length <= 256 ? message.token : undefined;
+
+    const { timestamp, publicKey, signature } = message;
+    if (typeof timestamp !== 'number' || !Number.isSafeInteger(timestamp)) {
+      throw new Error('Invalid timestamp');
+    }
+    if (typeof publicKey !== 'string' || publicKey.length > 4096) {
+      throw new Error('Invalid publicKey');
+    }
+    if (typeof signature !== 'string' || !/^[0-9a-f]{1,2048}$/i.test(signature)) {
+      throw new Error('Invalid signature');
+    }
+    const proof = { timestamp, publicKey, signature };
+
+    switch (message.type) {
+      case 'listen':
+        return { type: 'listen', token, deviceId: id(message.deviceId, 'deviceId'), ...proof };
+      case 'connect':
+        return {
+          type: 'connect',
+          token,
+          deviceId: id(message.deviceId, 'deviceId'),
+          targetId: id(message.targetId, 'targetId'),
+          ...proof,
+        };
+      case 'accept':
+        return {
+          type: 'accept',
+          token,
+          deviceId: id(message.deviceId, 'deviceId'),
+          sessionId: id(message.sessionId, 'sessionId'),
+          ...proof,
+        };
+      default:
+        throw new Error('Unknown relay request');
+    }
+  }
+
+  private isAuthorized(token: string | undefined): boolean {
+    const tokens = this.options.tokens ?? [];
+    if (tokens.length === 0) {
+      return true;
+    }
+    if (!token) {
+      return false;
+    }
+    const presented = crypto.createHash('sha256').update(token).digest();
+    return tokens.some((expected) =>
+      crypto.timingSafeEqual(presented, crypto.createHash('sha256').update(expected).digest())
+    );
+  }
+
+  private refuse(socket: net.Socket, error: string): void {
+    logger.warn(`Relay refused a connection: ${error}`);
+    if (!socket.destroyed) {
+      writeLine(socket, { type: 'error', error });
+      socket.end();
+    }
+  }
+}
+
+/** Spreads a session's traffic out so it stays within its byte rate. */
+class SessionPacer {
+  private nextFreeAt = 0;
+
+  constructor(private readonly bytesPerSecond: number) {}
+
+  /** Milliseconds to hold off before the next chunk after sending `bytes`. */
+  take(bytes: number): number {
+    if (this.bytesPerSecond <= 0) {
+      return 0;
+    }
+    const now = Date.now();
+    this.nextFreeAt = Math.max(this.nextFreeAt, now) + (bytes / this.bytesPerSecond) * 1000;
+    return Math.max(0, this.nextFreeAt - now);
+  }
+}
+
+function forward(from: net.Socket, to: net.Socket, pacer: SessionPacer): void {
+  let waitingForDrain = false;
+  let pausedUntil = 0;
+
+  const resume = () => {
+    if (!waitingForDrain && Date.now() >= pausedUntil && !from.destroyed) {
+      from.resume();
+    }
+  };
+
+  from.on('data', (chunk: Buffer) => {
+    if (!to.write(chunk)) {
+      waitingForDrain = true;
+      from.pause();
+      to.once('drain', () => {
+        waitingForDrain = false;
+        resume();
+      });
+    }
+    const delay = pacer.take(chunk.length);
+    if (delay > 0) {
+      pausedUntil = Date.now() + delay;
+      from.pause();
+      setTimeout(resume, delay);
+    }
+  });
+  from.once('end', () => to.end());
+  from.resume();
+}
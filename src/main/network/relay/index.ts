@@ -0,0 +1,3 @@
+export * from './RelayProtocol';
+export * from './RelayServer';
+export * from './RelayClient';
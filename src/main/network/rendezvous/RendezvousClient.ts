@@ -0,0 +1,129 @@
+import { logger } from '../../utils/logger';
+import type { PeerAddress } from '../PeerRegistry';
+import {
+  ANNOUNCEMENT_TTL,
+  Announcement,
+  MAX_ANNOUNCED_ADDRESSES,
+  MAX_CLOCK_SKEW,
+  announcementPayload,
+  parseAnnouncement,
+  verifyAnnouncement,
+} from './RendezvousProtocol';
+
+/** Signs announcements with the device key peers know from pairing. */
+export interface AnnouncementSigner {
+  sign(data: string): Promise<string>;
+  getPublicKey(): Promise<string>;
+}
+
+/**
+ * Client side of the rendezvous servers configured in the network rules:
+ * announces where this device can be reached, and looks up where paired
+ * devices announced they are, trusting only what their paired key signed.
+ */
+export class RendezvousClient {
+  private readonly REQUEST_TIMEOUT = 10 * 1000;
+
+  constructor(
+    private readonly deviceId: string,
+    private readonly signer: AnnouncementSigner,
+    private readonly getServerUrls: () => string[]
+  ) {}
+
+  hasServers(): boolean {
+    return this.getServerUrls().length > 0;
+  }
+
+  /** Announces `addresses` to every server; returns how many accepted them. */
+  async announce(addresses: PeerAddress[]): Promise<number> {
+    const unsigned = {
+      deviceId: this.deviceId,
+      addresses: addresses.slice(0, MAX_ANNOUNCED_ADDRESSES),
+      timestamp: Date.now(),
+    };
+    const announcement: Announcement = {
+      ...unsigned,
+      publicKey: await this.signer.getPublicKey(),
+      signature: await this.signer.sign(announcementPayload(unsigned)),
+    };
+
+    let accepted = 0;
+    for (const server of this.getServerUrls()) {
+      try {
+        const response = await fetch(this.endpoint(server, 'v1/announce'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(announcement),
+          signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
+        });
+        if (!response.ok) {
+          throw new Error(`${response.status} ${await this.readError(response)}`);
+        }
+        accepted += 1;
+      } catch (error) {
+        logger.warn(`Could not announce to rendezvous server ${server}:`, error);
+      }
+    }
+    return accepted;
+  }
+
+  /**
+   * Where `deviceId` last announced it can be reached, going by the freshest
+   * announcement any server has that `publicKey` signed; null if none does.
+   */
+  async lookup(deviceId: string, publicKey: string): Promise<PeerAddress[] | null> {
+    let freshest: Announcement | null = null;
+
+    for (const server of this.getServerUrls()) {
+      try {
+        const response = await fetch(
+          this.endpoint(server, `v1/devices/${encodeURIComponent(deviceId)}`),
+          { signal: AbortSignal.timeout(this.REQUEST_TIMEOUT) }
+        );
+        if (response.status === 404) {
+          continue;
+        }
+        if (!response.ok) {
+          throw new Error(`${response.status} ${await this.readError(response)}`);
+        }
+
+        const announcement = parseAnnouncement(await response.json());
+        if (!this.isTrusted(announcement, deviceId, publicKey)) {
+          logger.warn(`Rendezvous server ${server} returned an unverifiable announcement`);
+          continue;
+        }
+        if (!freshest || announcement.timestamp > freshest.timestamp) {
+          freshest = announcement;
+        }
+      } catch (error) {
+        logger.warn(`Could not look up ${deviceId} on rendezvous server ${server}:`, error);
+      }
+    }
+
+    return freshest ? freshest.addresses : null;
+  }
+
+  private isTrusted(announcement: Announcement, deviceId: string, publicKey: string): boolean {
+    const now = Date.now();
+    // Old announcements are refused too, so a server cannot replay stale addresses
+    return (
+      announcement.deviceId === deviceId &&
+      announcement.timestamp > now - ANNOUNCEMENT_TTL &&
+      announcement.timestamp <= now + MAX_CLOCK_SKEW &&
+      verifyAnnouncement(announcement, publicKey)
+    );
+  }
+
+  private endpoint(server: string, route: string): string {
+    return new URL(route, server.endsWith('/') ? server : `${server}/`).toString();
+  }
+
+  private async readError(response: Response): Promise<string> {
+    try {
+      const body = (await response.json()) as { error?: unknown };
+      return typeof body.error === 'string' ? body.error : response.statusText;
+    } catch {
+      return response.statusText;
+    }
+  }
+}
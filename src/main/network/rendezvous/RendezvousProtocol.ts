@@ -0,0 +1,94 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import type { PeerAddress } from '../PeerRegistry';
+
+/** Port rendezvous servers listen on unless their URL names another. */
+export const DEFAULT_RENDEZVOUS_PORT = 22070;
+
+/** How long a server keeps an announcement, and how old one a device still trusts. */
+export const ANNOUNCEMENT_TTL = 15 * 60 * 1000;
+
+/** How far ahead of ours a device's clock may run. */
+export const MAX_CLOCK_SKEW = 5 * 60 * 1000;
+
+export const MAX_ANNOUNCED_ADDRESSES = 16;
+
+/**
+ * Where a device can currently be reached, signed with its key so peers can
+ * tell it apart from an announcement made up by the server or anyone else.
+ */
+export interface Announcement {
+  deviceId: string;
+  addresses: PeerAddress[];
+  /** Milliseconds since the epoch; a newer announcement replaces an older one. */
+  timestamp: number;
+  publicKey: string;
+  /** Hex SHA-256 signature over `announcementPayload`. */
+  signature: string;
+}
+
+/** The bytes an announcement's signature covers. */
+export function announcementPayload(
+  announcement: Pick<Announcement, 'deviceId' | 'addresses' | 'timestamp'>
+): string {
+  return JSON.stringify({
+    type: 'airsync-announcement',
+    deviceId: announcement.deviceId,
+    addresses: announcement.addresses.map(({ address, port }) => ({ address, port })),
+    timestamp: announcement.timestamp,
+  });
+}
+
+export function verifyAnnouncement(announcement: Announcement, publicKey: string): boolean {
+  try {
+    return crypto.verify(
+      'sha256',
+      Buffer.from(announcementPayload(announcement)),
+      publicKey,
+      Buffer.from(announcement.signature, 'hex')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** Checks the shape of an announcement without verifying its signature. */
+export function parseAnnouncement(value: unknown): Announcement {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Announcement must be an object');
+  }
+  const { deviceId, addresses, timestamp, publicKey, signature } = value as Record<string, unknown>;
+
+  if (typeof deviceId !== 'string' || !/^[\w.-]{1,128}$/.test(deviceId)) {
+    throw new Error('Invalid deviceId');
+  }
+  if (!Array.isArray(addresses) || addresses.length > MAX_ANNOUNCED_ADDRESSES) {
+    throw new Error(`addresses must be a list of at most ${MAX_ANNOUNCED_ADDRESSES} entries`);
+  }
+  if (typeof timestamp !== 'number' || !Number.isSafeInteger(timestamp) || timestamp < 0) {
+    throw new Error('Invalid timestamp');
+  }
+  if (typeof publicKey !== 'string' || publicKey.length > 4096) {
+    throw new Error('Invalid publicKey');
+  }
+  if (typeof signature !== 'string' || !/^[0-9a-f]{1,2048}$/i.test(signature)) {
+    throw new Error('Invalid signature');
+  }
+
+  return {
+    deviceId,
+    addresses: addresses.map((entry, index) => {
+      const { address, port } = (entry ?? {}) as Record<string, unknown>;
+      if (typeof address !== 'string' || net.isIP(address) === 0) {
+        throw new Error(`addresses[${index}].address must be an IP address`);
+      }
+      if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`addresses[${index}].port must be a port number`);
+      }
+      return { address, port };
+    }),
+    timestamp,
+    publicKey,
+    signature,
+  };
+}
@@ -0,0 +1,210 @@
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import * as net from 'net';
+import { logger } from '../../utils/logger';
+import { RateLimiter } from '../security/RateLimiter';
+import {
+  ANNOUNCEMENT_TTL,
+  Announcement,
+  DEFAULT_RENDEZVOUS_PORT,
+  MAX_CLOCK_SKEW,
+  parseAnnouncement,
+  verifyAnnouncement,
+} from './RendezvousProtocol';
+
+export interface RendezvousServerOptions {
+  port?: number;
+  host?: string;
+  /** Milliseconds an announcement is kept after it was made. */
+  ttl?: number;
+  maxDevices?: number;
+}
+
+interface AnnouncementRecord {
+  announcement: Announcement;
+  expiresAt: number;
+}
+
+/** Error answered to the client with its HTTP status. */
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Rendezvous for devices on different networks. Devices publish signed
+ * announcements of their current addresses keyed by device ID, and look up
+ * the announcements of their peers:
+ *
+ *   POST /v1/announce        body: Announcement
+ *   GET  /v1/devices/:id     200 with the Announcement, or 404
+ *
+ * The first key a device announces with is pinned until its announcement
+ * expires, so nobody else can overwrite it. Peers still verify every
+ * announcement against the key they paired with.
+ */
+export class RendezvousServer extends EventEmitter {
+  private server: http.Server | null = null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+  private readonly records = new Map<string, AnnouncementRecord>();
+  private readonly rateLimiter = new RateLimiter(60, 60_000);
+  private readonly MAX_BODY_BYTES = 16 * 1024;
+  private readonly DEFAULT_MAX_DEVICES = 10_000;
+  private readonly CLEANUP_INTERVAL = 60 * 1000;
+
+  constructor(private readonly options: RendezvousServerOptions = {}) {
+    super();
+  }
+
+  async start(): Promise<number> {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof RequestError ? error.status : 500;
+        if (status === 500) {
+          logger.error('Rendezvous request failed:', error);
+        }
+        this.reply(res, status, { error: (error as Error).message });
+      });
+    });
+
+    const port = await new Promise<number>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port ?? DEFAULT_RENDEZVOUS_PORT, this.options.host, () => {
+        this.server!.off('error', reject);
+        resolve((this.server!.address() as net.AddressInfo).port);
+      });
+    });
+    this.cleanupTimer = setInterval(() => this.removeExpired(), this.CLEANUP_INTERVAL);
+    logger.info(`Rendezvous server listening on port ${port}`);
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.records.clear();
+
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  getStats(): { devices: number } {
+    return { devices: this.records.size };
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (!this.rateLimiter.check(req.socket.remoteAddress ?? 'unknown')) {
+      throw new RequestError(429, 'Too many requests');
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://rendezvous');
+    if (req.method === 'POST' && pathname === '/v1/announce') {
+      let body: unknown;
+      try {
+        body = JSON.parse(await this.readBody(req));
+      } catch (error) {
+        throw error instanceof RequestError ? error : new RequestError(400, 'Invalid JSON');
+      }
+      this.handleAnnounce(body);
+      this.reply(res, 204);
+      return;
+    }
+
+    const lookup = /^\/v1\/devices\/([\w.-]{1,128})$/.exec(pathname);
+    if (req.method === 'GET' && lookup) {
+      const record = this.records.get(lookup[1]);
+      if (!record || record.expiresAt <= Date.now()) {
+        throw new RequestError(404, 'Device has not announced itself');
+      }
+      this.reply(res, 200, record.announcement);
+      return;
+    }
+
+    throw new RequestError(404, 'Not found');
+  }
+
+  private handleAnnounce(body: unknown): void {
+    let announcement: Announcement;
+    try {
+      announcement = parseAnnouncement(body);
+    } catch (error) {
+      throw new RequestError(400, (error as Error).message);
+    }
+
+    const now = Date.now();
+    const ttl = this.options.ttl ?? ANNOUNCEMENT_TTL;
+    if (announcement.timestamp > now + MAX_CLOCK_SKEW || announcement.timestamp <= now - ttl) {
+      throw new RequestError(400, 'Announcement timestamp is out of range');
+    }
+
+    const existing = this.records.get(announcement.deviceId);
+    const current = existing && existing.expiresAt > now ? existing.announcement : undefined;
+    if (current && current.publicKey !== announcement.publicKey) {
+      throw new RequestError(403, 'Device is registered with another key');
+    }
+    if (current && announcement.timestamp <= current.timestamp) {
+      throw new RequestError(409, 'A newer announcement is on record');
+    }
+    if (!verifyAnnouncement(announcement, announcement.publicKey)) {
+      throw new RequestError(403, 'Invalid signature');
+    }
+    if (!existing && this.records.size >= (this.options.maxDevices ?? this.DEFAULT_MAX_DEVICES)) {
+      throw new RequestError(503, 'Rendezvous server is at capacity');
+    }
+
+    this.records.set(announcement.deviceId, {
+      announcement,
+      expiresAt: announcement.timestamp + ttl,
+    });
+    logger.debug(
+      `Device ${announcement.deviceId} announced ${announcement.addresses.length} addresses`
+    );
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.MAX_BODY_BYTES) {
+          // The rest is drained unread so the error can still be answered
+          reject(new RequestError(413, 'Announcement too large'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.once('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.once('error', reject);
+    });
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [deviceId, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(deviceId);
+      }
+    }
+  }
+
+  private reply(res: http.ServerResponse, status: number, body?: unknown): void {
+    if (res.headersSent) {
+      return;
+    }
+    if (body === undefined) {
+      res.writeHead(status).end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+}
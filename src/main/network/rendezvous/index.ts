@@ -0,0 +1,3 @@
+export * from './RendezvousProtocol';
+export * from './RendezvousServer';
+export * from './RendezvousClient';
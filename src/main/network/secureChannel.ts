@@ -130,11 +130,19 @@ export class SecureChannel {
     const certPath = path.join(this.keyPath, 'cert.pem');
     const keyPath = path.join(this.keyPath, 'cert-key.pem');
 
+    if (!this.privateKey) {
+      await this.loadOrGenerateKeys();
+    }
+
     try {
       const [cert, key] = await Promise.all([
         fs.readFile(certPath, 'utf8'),
         fs.readFile(keyPath, 'utf8'),
       ]);
+      // Peers identify us by the device key in the certificate, so older certificates are replaced
+      if (key !== this.privateKey || !certificateMatchesKey(cert, this.publicKey!)) {
+        throw new Error('Certificate does not carry the device key');
+      }
       this.certificates = { cert, key };
       return this.certificates;
     } catch {
@@ -185,8 +193,10 @@ export class SecureChannel {
       { name: 'organizationName', value: 'AirSync-Lite' },
     ];
 
-    const pems = selfsigned.generate(attrs, {
-      keySize: 2048,
+    // Issued for the device key, so peers can check it against the key they paired with.
+    // The typings predate the keyPair option, hence the options object of its own.
+    const options = {
+      keyPair: { privateKey: this.privateKey!, publicKey: this.publicKey! },
       days: 365,
       algorithm: 'sha256',
       extensions: [
@@ -201,7 +211,8 @@ export class SecureChannel {
           keyEncipherment: true,
         },
       ],
-    });
+    };
+    const pems = selfsigned.generate(attrs, options);
 
     // Store both cert and key for later use
     this.certificates = {
@@ -212,3 +223,18 @@ export class SecureChannel {
     return pems.cert;
   }
 }
+
+/** Whether a PEM certificate was issued for `publicKey`. */
+export function certificateMatchesKey(
+  certificate: string | crypto.X509Certificate,
+  publicKey: string
+): boolean {
+  try {
+    const x509 =
+      typeof certificate === 'string' ? new crypto.X509Certificate(certificate) : certificate;
+    const spki = { type: 'spki', format: 'der' } as const;
+    return x509.publicKey.export(spki).equals(crypto.createPublicKey(publicKey).export(spki));
+  } catch {
+    return false;
+  }
+}
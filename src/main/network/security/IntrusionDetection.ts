@@ -2,7 +2,7 @@ import { EventEmitter } from 'events';
 
 interface IntrusionEvent {
   peerId: string;
-  type: 'rate-limit' | 'invalid-signature' | 'replay';
+  type: 'rate-limit' | 'invalid-signature' | 'replay' | 'malformed-message';
   timestamp: number;
   metadata?: Record<string, unknown>;
 }
@@ -0,0 +1,287 @@
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import * as dns from 'dns/promises';
+import * as net from 'net';
+import * as os from 'os';
+import { logger } from '../../utils/logger';
+import type {
+  NatClassification,
+  NatFilteringBehavior,
+  NatMappingBehavior,
+  NatType,
+} from '../../../shared/types/sync';
+import {
+  BINDING_SUCCESS,
+  ChangeRequest,
+  StunAddress,
+  StunMessage,
+  decodeStunMessage,
+  encodeBindingRequest,
+} from './StunMessage';
+
+export interface NatClassifierOptions {
+  /** Milliseconds to wait for an answer to each probe. */
+  timeout?: number;
+}
+
+/** Common name for a mapping and filtering behaviour pair. */
+export function classifyNatType(
+  mapping: NatMappingBehavior,
+  filtering: NatFilteringBehavior
+): NatType {
+  if (mapping === 'address-dependent' || mapping === 'address-and-port-dependent') {
+    return 'symmetric';
+  }
+  if (mapping === 'unknown' || filtering === 'unknown') {
+    return 'unknown';
+  }
+  if (mapping === 'none') {
+    return filtering === 'endpoint-independent' ? 'open' : 'firewalled';
+  }
+  switch (filtering) {
+    case 'endpoint-independent':
+      return 'full-cone';
+    case 'address-dependent':
+      return 'restricted-cone';
+    default:
+      return 'port-restricted-cone';
+  }
+}
+
+/**
+ * Works out how the NAT in front of this device maps and filters UDP traffic
+ * with the behaviour discovery tests of RFC 5780, all sent from one socket:
+ *
+ * - Mapping: the public endpoint seen by the server's primary address is
+ *   compared with the ones seen by its alternate address and port.
+ * - Filtering: the server is asked to answer from its alternate address and
+ *   port, then from its alternate port only; which answers get through tells
+ *   what the NAT filters.
+ *
+ * Servers without an alternate address (most public ones) only reveal the
+ * public endpoint; mapping is then estimated by asking a second server.
+ */
+export class NatClassifier {
+  private readonly RETRANSMIT_INTERVAL = 250;
+
+  constructor(private readonly options: NatClassifierOptions = {}) {}
+
+  /** Probes the first server that answers; throws if none does. */
+  async classify(servers: StunAddress[]): Promise<NatClassification> {
+    const socket = dgram.createSocket('udp4');
+    try {
+      await new Promise<void>((resolve, reject) => {
+        socket.once('error', reject);
+        socket.bind(0, () => {
+          socket.off('error', reject);
+          resolve();
+        });
+      });
+
+      const resolved: StunAddress[] = [];
+      for (const server of servers) {
+        try {
+          resolved.push(await this.resolve(server));
+        } catch (error) {
+          logger.debug(`Could not resolve STUN server ${server.address}:`, error);
+        }
+      }
+
+      for (const [index, server] of resolved.entries()) {
+        let first: StunMessage;
+        try {
+          first = await this.probe(socket, server);
+        } catch (error) {
+          logger.debug(`STUN server ${server.address}:${server.port} failed:`, error);
+          continue;
+        }
+        return await this.classifyWith(socket, server, first, resolved.slice(index + 1));
+      }
+      throw new Error('No STUN server answered');
+    } finally {
+      socket.close();
+    }
+  }
+
+  private async classifyWith(
+    socket: dgram.Socket,
+    server: StunAddress,
+    first: StunMessage,
+    fallbacks: StunAddress[]
+  ): Promise<NatClassification> {
+    const mapped = first.mappedAddress!;
+    const other = first.otherAddress;
+    let mapping: NatMappingBehavior;
+    let filtering: NatFilteringBehavior = 'unknown';
+
+    if (this.isLocalEndpoint(socket, mapped)) {
+      mapping = 'none';
+    } else if (other && other.address !== server.address && other.port !== server.port) {
+      mapping = await this.testMapping(socket, server, other, mapped);
+    } else {
+      mapping = await this.estimateMapping(socket, fallbacks, mapped);
+    }
+
+    if (other && other.address !== server.address && other.port !== server.port) {
+      filtering = await this.testFiltering(socket, server);
+    }
+
+    return {
+      type: classifyNatType(mapping, filtering),
+      mapping,
+      filtering,
+      publicAddress: mapped.address,
+      publicPort: mapped.port,
+      server: `${server.address}:${server.port}`,
+      checkedAt: Date.now(),
+    };
+  }
+
+  /** RFC 5780 section 4.3, tests II and III. */
+  private async testMapping(
+    socket: dgram.Socket,
+    server: StunAddress,
+    other: StunAddress,
+    mapped: StunAddress
+  ): Promise<NatMappingBehavior> {
+    try {
+      const viaOtherAddress = await this.probe(socket, {
+        address: other.address,
+        port: server.port,
+      });
+      if (sameEndpoint(viaOtherAddress.mappedAddress!, mapped)) {
+        return 'endpoint-independent';
+      }
+      const viaOtherBoth = await this.probe(socket, other);
+      return sameEndpoint(viaOtherBoth.mappedAddress!, viaOtherAddress.mappedAddress!)
+        ? 'address-dependent'
+        : 'address-and-port-dependent';
+    } catch (error) {
+      logger.debug('STUN mapping test failed:', error);
+      return 'unknown';
+    }
+  }
+
+  /** RFC 5780 section 4.4, tests II and III. */
+  private async testFiltering(
+    socket: dgram.Socket,
+    server: StunAddress
+  ): Promise<NatFilteringBehavior> {
+    if (await this.answers(socket, server, { changeIp: true, changePort: true })) {
+      return 'endpoint-independent';
+    }
+    if (await this.answers(socket, server, { changeIp: false, changePort: true })) {
+      return 'address-dependent';
+    }
+    return 'address-and-port-dependent';
+  }
+
+  /**
+   * Compares the endpoint a second server sees. A different one means the
+   * mapping is at least address-dependent; telling that apart from
+   * address-and-port-dependent needs a server with an alternate address.
+   */
+  private async estimateMapping(
+    socket: dgram.Socket,
+    servers: StunAddress[],
+    mapped: StunAddress
+  ): Promise<NatMappingBehavior> {
+    for (const server of servers) {
+      try {
+        const response = await this.probe(socket, server);
+        return sameEndpoint(response.mappedAddress!, mapped)
+          ? 'endpoint-independent'
+          : 'address-dependent';
+      } catch {
+        continue;
+      }
+    }
+    return 'unknown';
+  }
+
+  private async answers(
+    socket: dgram.Socket,
+    server: StunAddress,
+    change: ChangeRequest
+  ): Promise<boolean> {
+    try {
+      await this.probe(socket, server, change);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Sends a binding request, resending it until answered or timed out. */
+  private probe(
+    socket: dgram.Socket,
+    server: StunAddress,
+    change?: ChangeRequest
+  ): Promise<StunMessage> {
+    return new Promise((resolve, reject) => {
+      const transactionId = crypto.randomBytes(12);
+      const request = encodeBindingRequest(transactionId, change);
+
+      const send = () =>
+        socket.send(request, server.port, server.address, (error) => {
+          if (error) {
+            finish(error);
+          }
+        });
+      const onMessage = (buffer: Buffer) => {
+        let message: StunMessage;
+        try {
+          message = decodeStunMessage(buffer);
+        } catch {
+          return;
+        }
+        if (
+          message.type === BINDING_SUCCESS &&
+          message.transactionId.equals(transactionId) &&
+          message.mappedAddress
+        ) {
+          finish(null, message);
+        }
+      };
+      const finish = (error: Error | null, message?: StunMessage) => {
+        clearInterval(retransmit);
+        clearTimeout(timer);
+        socket.off('message', onMessage);
+        if (message) {
+          resolve(message);
+        } else {
+          reject(error);
+        }
+      };
+
+      const retransmit = setInterval(send, this.RETRANSMIT_INTERVAL);
+      const timer = setTimeout(
+        () => finish(new Error('STUN request timed out')),
+        this.options.timeout ?? 2000
+      );
+      socket.on('message', onMessage);
+      send();
+    });
+  }
+
+  private async resolve(server: StunAddress): Promise<StunAddress> {
+    if (net.isIPv4(server.address)) {
+      return server;
+    }
+    const { address } = await dns.lookup(server.address, { family: 4 });
+    return { address, port: server.port };
+  }
+
+  private isLocalEndpoint(socket: dgram.Socket, mapped: StunAddress): boolean {
+    if (mapped.port !== socket.address().port) {
+      return false;
+    }
+    return Object.values(os.networkInterfaces()).some((addresses) =>
+      (addresses ?? []).some((entry) => entry.address === mapped.address)
+    );
+  }
+}
+
+function sameEndpoint(a: StunAddress, b: StunAddress): boolean {
+  return a.address === b.address && a.port === b.port;
+}
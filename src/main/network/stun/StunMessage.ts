@@ -0,0 +1,209 @@
+import * as net from 'net';
+
+/** Port STUN servers listen on unless their URL names another. */
+export const DEFAULT_STUN_PORT = 3478;
+
+export const MAGIC_COOKIE = 0x2112a442;
+export const BINDING_REQUEST = 0x0001;
+export const BINDING_SUCCESS = 0x0101;
+
+const HEADER_LENGTH = 20;
+const ATTR_MAPPED_ADDRESS = 0x0001;
+const ATTR_CHANGE_REQUEST = 0x0003;
+/** RFC 3489 name of OTHER-ADDRESS, still sent by older servers. */
+const ATTR_CHANGED_ADDRESS = 0x0005;
+const ATTR_XOR_MAPPED_ADDRESS = 0x0020;
+const ATTR_RESPONSE_ORIGIN = 0x802b;
+const ATTR_OTHER_ADDRESS = 0x802c;
+const CHANGE_IP = 0x04;
+const CHANGE_PORT = 0x02;
+
+export interface StunAddress {
+  address: string;
+  port: number;
+}
+
+/** Asks the server to answer from its other address and/or port (RFC 5780). */
+export interface ChangeRequest {
+  changeIp: boolean;
+  changePort: boolean;
+}
+
+export interface StunMessage {
+  type: number;
+  transactionId: Buffer;
+  /** Where the server saw the request come from. */
+  mappedAddress?: StunAddress;
+  /** The server's alternate address, for RFC 5780 behaviour tests. */
+  otherAddress?: StunAddress;
+  responseOrigin?: StunAddress;
+  changeRequest?: ChangeRequest;
+}
+
+/** A STUN server from config, written `stun:host[:port]` (RFC 7064). */
+export function parseStunUrl(url: string): StunAddress {
+  const match = /^stun:(\[[0-9a-f:.]+\]|[^\s:/?#[\]]+)(?::(\d{1,5}))?$/i.exec(url);
+  const port = match?.[2] ? Number(match[2]) : DEFAULT_STUN_PORT;
+  if (!match || port < 1 || port > 65535) {
+    throw new Error(`STUN servers must look like stun:host:port, got ${url}`);
+  }
+  return { address: match[1].replace(/^\[|\]$/g, ''), port };
+}
+
+export function encodeBindingRequest(transactionId: Buffer, change?: ChangeRequest): Buffer {
+  const attributes: Buffer[] = [];
+  if (change && (change.changeIp || change.changePort)) {
+    const value = Buffer.alloc(4);
+    value.writeUInt32BE((change.changeIp ? CHANGE_IP : 0) | (change.changePort ? CHANGE_PORT : 0));
+    attributes.push(encodeAttribute(ATTR_CHANGE_REQUEST, value));
+  }
+  return encodeMessage(BINDING_REQUEST, transactionId, attributes);
+}
+
+export function encodeBindingResponse(
+  transactionId: Buffer,
+  mapped: StunAddress,
+  other?: StunAddress,
+  origin?: StunAddress
+): Buffer {
+  const attributes = [
+    encodeAttribute(ATTR_XOR_MAPPED_ADDRESS, encodeAddress(mapped, transactionId)),
+  ];
+  if (origin) {
+    attributes.push(encodeAttribute(ATTR_RESPONSE_ORIGIN, encodeAddress(origin)));
+  }
+  if (other) {
+    attributes.push(encodeAttribute(ATTR_OTHER_ADDRESS, encodeAddress(other)));
+  }
+  return encodeMessage(BINDING_SUCCESS, transactionId, attributes);
+}
+
+/** Parses a STUN message; throws if the bytes are not one. */
+export function decodeStunMessage(buffer: Buffer): StunMessage {
+  if (buffer.length < HEADER_LENGTH || buffer.readUInt32BE(4) !== MAGIC_COOKIE) {
+    throw new Error('Not a STUN message');
+  }
+  const length = buffer.readUInt16BE(2);
+  if (length % 4 !== 0 || HEADER_LENGTH + length > buffer.length) {
+    throw new Error('Truncated STUN message');
+  }
+
+  const message: StunMessage = {
+    type: buffer.readUInt16BE(0),
+    transactionId: Buffer.from(buffer.subarray(8, HEADER_LENGTH)),
+  };
+  let offset = HEADER_LENGTH;
+  while (offset + 4 <= HEADER_LENGTH + length) {
+    const type = buffer.readUInt16BE(offset);
+    const size = buffer.readUInt16BE(offset + 2);
+    const value = buffer.subarray(offset + 4, offset + 4 + size);
+    if (value.length < size) {
+      throw new Error('Truncated STUN attribute');
+    }
+
+    switch (type) {
+      case ATTR_XOR_MAPPED_ADDRESS:
+        message.mappedAddress = decodeAddress(value, message.transactionId);
+        break;
+      case ATTR_MAPPED_ADDRESS:
+        // Only servers that predate XOR-MAPPED-ADDRESS send this alone
+        message.mappedAddress ??= decodeAddress(value);
+        break;
+      case ATTR_OTHER_ADDRESS:
+      case ATTR_CHANGED_ADDRESS:
+        message.otherAddress = decodeAddress(value);
+        break;
+      case ATTR_RESPONSE_ORIGIN:
+        message.responseOrigin = decodeAddress(value);
+        break;
+      case ATTR_CHANGE_REQUEST:
+        if (size >= 4) {
+          const flags = value.readUInt32BE(0);
+          message.changeRequest = {
+            changeIp: (flags & CHANGE_IP) !== 0,
+            changePort: (flags & CHANGE_PORT) !== 0,
+          };
+        }
+        break;
+    }
+    // Attributes are padded to a multiple of four bytes
+    offset += 4 + Math.ceil(size / 4) * 4;
+  }
+  return message;
+}
+
+function encodeMessage(type: number, transactionId: Buffer, attributes: Buffer[]): Buffer {
+  const body = Buffer.concat(attributes);
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt16BE(body.length, 2);
+  header.writeUInt32BE(MAGIC_COOKIE, 4);
+  transactionId.copy(header, 8, 0, 12);
+  return Buffer.concat([header, body]);
+}
+
+function encodeAttribute(type: number, value: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt16BE(value.length, 2);
+  const padding = Buffer.alloc((4 - (value.length % 4)) % 4);
+  return Buffer.concat([header, value, padding]);
+}
+
+/** Encodes an address, XOR-ed with the cookie and transaction when one is given. */
+function encodeAddress({ address, port }: StunAddress, transactionId?: Buffer): Buffer {
+  const family = net.isIPv6(address) ? 0x02 : 0x01;
+  const bytes = family === 0x01 ? ipv4ToBytes(address) : ipv6ToBytes(address);
+  const header = Buffer.alloc(4);
+  header.writeUInt8(family, 1);
+  header.writeUInt16BE(transactionId ? port ^ (MAGIC_COOKIE >>> 16) : port, 2);
+  return Buffer.concat([header, transactionId ? xorAddress(bytes, transactionId) : bytes]);
+}
+
+function decodeAddress(value: Buffer, transactionId?: Buffer): StunAddress {
+  const family = value[1];
+  const size = family === 0x01 ? 4 : family === 0x02 ? 16 : 0;
+  if (size === 0 || value.length < 4 + size) {
+    throw new Error('Invalid STUN address');
+  }
+  const rawPort = value.readUInt16BE(2);
+  const port = transactionId ? rawPort ^ (MAGIC_COOKIE >>> 16) : rawPort;
+  let bytes = Buffer.from(value.subarray(4, 4 + size));
+  if (transactionId) {
+    bytes = xorAddress(bytes, transactionId);
+  }
+  return { address: size === 4 ? bytes.join('.') : bytesToIpv6(bytes), port };
+}
+
+function xorAddress(bytes: Buffer, transactionId: Buffer): Buffer {
+  const key = Buffer.alloc(16);
+  key.writeUInt32BE(MAGIC_COOKIE, 0);
+  transactionId.copy(key, 4, 0, 12);
+  return Buffer.from(bytes.map((byte, index) => byte ^ key[index]));
+}
+
+function ipv4ToBytes(address: string): Buffer {
+  return Buffer.from(address.split('.').map((part) => Number(part)));
+}
+
+function ipv6ToBytes(address: string): Buffer {
+  const [head, tail = ''] = address.split('::');
+  const groups = (part: string) => (part ? part.split(':') : []);
+  const missing = 8 - groups(head).length - groups(tail).length;
+  const all = [
+    ...groups(head),
+    ...(address.includes('::') ? new Array(missing).fill('0') : []),
+    ...groups(tail),
+  ];
+  const bytes = Buffer.alloc(16);
+  all.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+  return bytes;
+}
+
+function bytesToIpv6(bytes: Buffer): string {
+  const groups: string[] = [];
+  for (let index = 0; index < 16; index += 2) {
+    groups.push(bytes.readUInt16BE(index).toString(16));
+  }
+  return groups.join(':');
+}
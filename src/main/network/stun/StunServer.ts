@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import * as dgram from 'dgram';
+import { logger } from '../../utils/logger';
+import {
+  BINDING_REQUEST,
+  DEFAULT_STUN_PORT,
+  StunAddress,
+  decodeStunMessage,
+  encodeBindingResponse,
+} from './StunMessage';
+
+export interface StunServerOptions {
+  /** Address the primary sockets bind to. */
+  host?: string;
+  /**
+   * Second address for RFC 5780 behaviour tests, such as 127.0.0.2 on a
+   * loopback interface; `host` must then name a specific address too.
+   * Without one the server only answers plain binding requests and peers
+   * cannot classify their NAT through it.
+   */
+  alternateHost?: string;
+  /** Primary port; 0 picks a free one. The alternate port is chosen freely. */
+  port?: number;
+}
+
+/**
+ * Minimal STUN responder (RFC 5389 binding requests plus the RFC 5780
+ * CHANGE-REQUEST, OTHER-ADDRESS and RESPONSE-ORIGIN attributes), enough to
+ * probe NAT behaviour against a server we run ourselves, including offline.
+ */
+export class StunServer extends EventEmitter {
+  /** Sockets by [address index][port index], 0 being primary. */
+  private sockets: dgram.Socket[][] = [];
+
+  constructor(private readonly options: StunServerOptions = {}) {
+    super();
+  }
+
+  /** Starts answering and returns the primary address and port. */
+  async start(): Promise<StunAddress> {
+    const hosts = [this.options.host ?? '0.0.0.0'];
+    if (this.options.alternateHost) {
+      if (hosts[0] === '0.0.0.0') {
+        throw new Error('A STUN responder with an alternate address needs a specific host');
+      }
+      hosts.push(this.options.alternateHost);
+    }
+
+    try {
+      const primary = await this.bind(hosts[0], this.options.port ?? DEFAULT_STUN_PORT);
+      const alternate = hosts.length > 1 ? await this.bind(hosts[0], 0) : null;
+      this.sockets.push(alternate ? [primary, alternate] : [primary]);
+      if (alternate) {
+        const ports = this.sockets[0].map((socket) => socket.address().port);
+        this.sockets.push(await Promise.all(ports.map((port) => this.bind(hosts[1], port))));
+      }
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    for (const [hostIndex, row] of this.sockets.entries()) {
+      for (const [portIndex, socket] of row.entries()) {
+        socket.on('message', (message, rinfo) =>
+          this.handleRequest(hostIndex, portIndex, message, rinfo)
+        );
+      }
+    }
+
+    const address = this.sockets[0][0].address();
+    logger.info(`STUN responder listening on ${address.address}:${address.port}`);
+    return { address: address.address, port: address.port };
+  }
+
+  async stop(): Promise<void> {
+    const sockets = this.sockets.flat();
+    this.sockets = [];
+    await Promise.all(
+      sockets.map((socket) => new Promise<void>((resolve) => socket.close(() => resolve())))
+    );
+  }
+
+  private bind(host: string, port: number): Promise<dgram.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket('udp4');
+      socket.once('error', reject);
+      socket.bind(port, host, () => {
+        socket.off('error', reject);
+        socket.on('error', (error) => logger.debug('STUN responder error:', error));
+        resolve(socket);
+      });
+    });
+  }
+
+  private handleRequest(
+    hostIndex: number,
+    portIndex: number,
+    buffer: Buffer,
+    rinfo: dgram.RemoteInfo
+  ): void {
+    let request;
+    try {
+      request = decodeStunMessage(buffer);
+    } catch {
+      return;
+    }
+    if (request.type !== BINDING_REQUEST) {
+      return;
+    }
+
+    const hasAlternate = this.sockets.length > 1;
+    const change = request.changeRequest;
+    if (change && (change.changeIp || change.changePort) && !hasAlternate) {
+      // Servers that cannot honour a change request do not answer it
+      return;
+    }
+
+    const replyFrom =
+      this.sockets[change?.changeIp ? 1 - hostIndex : hostIndex][
+        change?.changePort ? 1 - portIndex : portIndex
+      ];
+    const origin = replyFrom.address();
+    const other = hasAlternate ? this.sockets[1 - hostIndex][1 - portIndex].address() : undefined;
+    const response = encodeBindingResponse(
+      request.transactionId,
+      { address: rinfo.address, port: rinfo.port },
+      other && { address: other.address, port: other.port },
+      { address: origin.address, port: origin.port }
+    );
+    replyFrom.send(response, rinfo.port, rinfo.address);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './StunMessage';
+export * from './StunServer';
+export * from './NatClassifier';
@@ -19,7 +19,12 @@ const electronAPI = {
   addFolder: (folder: FolderConfig) => ipcRenderer.invoke('folders:add', folder),
   updateFolder: (folderId: string, updates: Partial<FolderConfig>) =>
     ipcRenderer.invoke('folders:update', folderId, updates),
+  setEncryptionPasswords: (folderId: string, passwords: Record<string, string>) =>
+    ipcRenderer.invoke('folders:setEncryptionPasswords', folderId, passwords),
   removeFolder: (folderId: string) => ipcRenderer.invoke('folders:remove', folderId),
+  overrideRemoteChanges: (folderId: string) =>
+    ipcRenderer.invoke('folders:overrideRemote', folderId),
+  revertLocalChanges: (folderId: string) => ipcRenderer.invoke('folders:revertLocal', folderId),
   browseFolder: () => ipcRenderer.invoke('folders:browse'),
   openFolder: (path: string) => ipcRenderer.invoke('folders:open', path),
 
@@ -31,6 +36,8 @@ const electronAPI = {
   unpairDevice: (deviceId: string) => ipcRenderer.invoke('devices:unpair', deviceId),
   renameDevice: (deviceId: string, name: string) =>
     ipcRenderer.invoke('devices:rename', deviceId, name),
+  setDeviceUntrusted: (deviceId: string, untrusted: boolean) =>
+    ipcRenderer.invoke('devices:setUntrusted', deviceId, untrusted),
 
   // Sync operations
   getSyncStatus: () => ipcRenderer.invoke('sync:getStatus'),
@@ -39,12 +46,14 @@ const electronAPI = {
   getFileList: (folderId: string) => ipcRenderer.invoke('sync:getFileList', folderId),
   pauseSync: (folderId?: string) => ipcRenderer.invoke('sync:pause', folderId),
   resumeSync: (folderId?: string) => ipcRenderer.invoke('sync:resume', folderId),
+  prioritizePath: (folderId: string, relativePath: string) =>
+    ipcRenderer.invoke('sync:prioritize', folderId, relativePath),
 
   // File operations
   getFileHistory: (filePath: string) => ipcRenderer.invoke('files:getHistory', filePath),
   restoreFileVersion: (filePath: string, versionId: string) =>
     ipcRenderer.invoke('files:restoreVersion', filePath, versionId),
-  resolveConflict: (conflictId: string, resolution: 'local' | 'remote' | 'both') =>
+  resolveConflict: (conflictId: string, resolution: 'local' | 'remote' | 'both' | 'merge') =>
     ipcRenderer.invoke('files:resolveConflict', conflictId, resolution),
   openInDiffTool: (filePath1: string, filePath2: string) =>
     ipcRenderer.invoke('files:openDiff', filePath1, filePath2),
@@ -67,6 +76,7 @@ const electronAPI = {
   getNetworkRules: () => ipcRenderer.invoke('network:getRules'),
   updateNetworkRules: (rules: NetworkRules) => ipcRenderer.invoke('network:updateRules', rules),
   getCurrentSSID: () => ipcRenderer.invoke('network:getCurrentSSID'),
+  getNatStatus: () => ipcRenderer.invoke('network:getNatStatus'),
 
   // Logs and diagnostics
   getLogs: (lines?: number) => ipcRenderer.invoke('logs:get', lines),
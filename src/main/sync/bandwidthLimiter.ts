@@ -0,0 +1,187 @@
+import * as net from 'net';
+import Store from 'electron-store';
+import { AppConfig, PerformanceConfig } from '../../shared/types/config';
+import { DeviceInfo } from '../../shared/types/sync';
+
+export type TransferDirection = 'upload' | 'download';
+
+/**
+ * Token bucket that paces callers so the bytes they take average out to the
+ * configured rate. Up to one second of unused budget can be spent at once.
+ */
+export class TokenBucket {
+  /** Time at which everything taken so far has been paid for. */
+  private paidUntil = 0;
+
+  constructor(
+    private bytesPerSecond = 0,
+    private readonly burstMs = 1000
+  ) {}
+
+  /** Returns whether the rate changed. */
+  setRate(bytesPerSecond: number): boolean {
+    if (bytesPerSecond === this.bytesPerSecond) {
+      return false;
+    }
+    this.bytesPerSecond = bytesPerSecond;
+    this.paidUntil = 0;
+    return true;
+  }
+
+  /** Takes `bytes` from the bucket and returns how many ms the caller has to wait for them. */
+  take(bytes: number, now = Date.now()): number {
+    if (this.bytesPerSecond <= 0 || bytes <= 0) {
+      return 0;
+    }
+    this.paidUntil =
+      Math.max(this.paidUntil, now - this.burstMs) + (bytes / this.bytesPerSecond) * 1000;
+    return Math.max(0, this.paidUntil - now);
+  }
+}
+
+type BucketPair = Record<TransferDirection, TokenBucket>;
+
+const createPair = (): BucketPair => ({ upload: new TokenBucket(), download: new TokenBucket() });
+
+/**
+ * Shapes transfer traffic with a global limit, separate limits for LAN and WAN
+ * peers and optional per-device limits. A chunk waits for every bucket that
+ * applies to it. Limits follow the stored config, e.g. when the schedule
+ * manager lowers them for quiet hours or metered networks.
+ */
+export class BandwidthLimiter {
+  private readonly global = createPair();
+  private readonly lan = createPair();
+  private readonly wan = createPair();
+  private readonly devices = new Map<string, BucketPair>();
+  private readonly waiters = new Set<{ timer: NodeJS.Timeout; resolve: () => void }>();
+  private readonly unsubscribers: Array<() => void> = [];
+
+  constructor(store: Store<AppConfig>) {
+    this.applyPerformanceConfig(store.get('performance'));
+    this.applyDeviceLimits(store.get('devices', []));
+    this.unsubscribers.push(
+      store.onDidChange('performance', (performance) => this.applyPerformanceConfig(performance)),
+      store.onDidChange('devices', (devices) => this.applyDeviceLimits(devices ?? []))
+    );
+  }
+
+  /**
+   * Waits until `bytes` may be sent to or received from the device. `address`
+   * is the peer's remote address, used to tell LAN from WAN peers; `onWait`
+   * hears about the delay before it starts. Changing a limit releases callers
+   * that are waiting under the old one.
+   */
+  async throttle(
+    deviceId: string,
+    direction: TransferDirection,
+    bytes: number,
+    address?: string,
+    onWait?: (delayMs: number) => void
+  ): Promise<void> {
+    const buckets = [
+      this.global[direction],
+      (address === undefined || isLanAddress(address) ? this.lan : this.wan)[direction],
+    ];
+    const device = this.devices.get(deviceId);
+    if (device) {
+      buckets.push(device[direction]);
+    }
+
+    const now = Date.now();
+    const delay = Math.max(...buckets.map((bucket) => bucket.take(bytes, now)));
+    if (delay <= 0) {
+      return;
+    }
+
+    onWait?.(delay);
+    await new Promise<void>((resolve) => {
+      const waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.waiters.delete(waiter);
+          resolve();
+        }, delay),
+      };
+      this.waiters.add(waiter);
+    });
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers.length = 0;
+    this.releaseWaiters();
+  }
+
+  private applyPerformanceConfig(performance: Partial<PerformanceConfig> | undefined): void {
+    const changed = [
+      setLimits(this.global, performance?.uploadLimit, performance?.downloadLimit),
+      setLimits(this.lan, performance?.lanUploadLimit, performance?.lanDownloadLimit),
+      setLimits(this.wan, performance?.wanUploadLimit, performance?.wanDownloadLimit),
+    ];
+    if (changed.includes(true)) {
+      this.releaseWaiters();
+    }
+  }
+
+  private applyDeviceLimits(devices: DeviceInfo[]): void {
+    let changed = false;
+    const limited = new Set<string>();
+    for (const device of devices) {
+      if (!device.uploadLimit && !device.downloadLimit) {
+        continue;
+      }
+      limited.add(device.id);
+      const pair = this.devices.get(device.id) ?? createPair();
+      changed = setLimits(pair, device.uploadLimit, device.downloadLimit) || changed;
+      this.devices.set(device.id, pair);
+    }
+
+    for (const deviceId of this.devices.keys()) {
+      if (!limited.has(deviceId)) {
+        this.devices.delete(deviceId);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.releaseWaiters();
+    }
+  }
+
+  private releaseWaiters(): void {
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.resolve();
+    }
+    this.waiters.clear();
+  }
+}
+
+function setLimits(pair: BucketPair, uploadKBps = 0, downloadKBps = 0): boolean {
+  const upload = pair.upload.setRate(uploadKBps * 1024);
+  const download = pair.download.setRate(downloadKBps * 1024);
+  return upload || download;
+}
+
+/**
+ * Loopback, private, link-local and unique-local addresses count as LAN;
+ * everything else is reached over the internet.
+ */
+export function isLanAddress(address: string): boolean {
+  const host = address.replace(/^::ffff:/i, '').replace(/%.*$/, '');
+  if (net.isIPv4(host)) {
+    const [a, b] = host.split('.').map((part) => Number.parseInt(part, 10));
+    return (
+      a === 10 ||
+      a === 127 ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 169 && b === 254)
+    );
+  }
+  if (net.isIPv6(host)) {
+    const lower = host.toLowerCase();
+    return lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+  }
+  return false;
+}
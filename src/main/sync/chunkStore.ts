@@ -0,0 +1,206 @@
+import Database from 'better-sqlite3';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { ChunkedFile, ContentChunk, ContentChunker } from '../core/diff';
+import { FileStatSignature } from './fileIndex';
+import { logger } from '../utils/logger';
+
+export interface ChunkLocation {
+  filePath: string;
+  offset: number;
+  length: number;
+}
+
+interface ChunkedFileRow {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+  inode: number;
+  hash: string;
+}
+
+/**
+ * Device-wide index of content-defined chunks, keyed by chunk hash. Chunks
+ * are not copied: each entry points at a range of a synced file, and reads
+ * verify the hash so entries for files edited since indexing are discarded.
+ */
+export class ChunkStore {
+  private db: Database.Database;
+  private readonly chunker: ContentChunker;
+
+  constructor(
+    private readonly dbPath: string,
+    chunker: ContentChunker = new ContentChunker()
+  ) {
+    const dataDir = path.dirname(dbPath);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.chunker = chunker;
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.initializeDatabase();
+  }
+
+  private initializeDatabase(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS chunked_files (
+        filePath TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        mtimeMs INTEGER NOT NULL,
+        inode INTEGER NOT NULL,
+        hash TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS chunks (
+        hash TEXT NOT NULL,
+        filePath TEXT NOT NULL REFERENCES chunked_files(filePath) ON DELETE CASCADE,
+        offset INTEGER NOT NULL,
+        length INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chunks_hash ON chunks(hash);
+      CREATE INDEX IF NOT EXISTS idx_chunks_file ON chunks(filePath);
+    `);
+  }
+
+  /**
+   * Returns the chunk list of a file, chunking and indexing it unless the
+   * stored entry still matches the file's size, mtime and inode.
+   */
+  async indexFile(filePath: string): Promise<ChunkedFile> {
+    const stats = await fsp.stat(filePath);
+    const cached = this.getIndexed(filePath, stats);
+    if (cached) {
+      return cached;
+    }
+
+    const chunked = await this.chunker.chunkFile(filePath);
+    this.store(filePath, stats, chunked);
+    return chunked;
+  }
+
+  getIndexed(filePath: string, stats: FileStatSignature): ChunkedFile | undefined {
+    const row = this.db.prepare('SELECT * FROM chunked_files WHERE filePath = ?').get(filePath) as
+      | ChunkedFileRow
+      | undefined;
+
+    if (
+      !row ||
+      row.size !== stats.size ||
+      row.mtimeMs !== Math.floor(stats.mtimeMs) ||
+      row.inode !== stats.ino
+    ) {
+      return undefined;
+    }
+
+    const chunks = this.db
+      .prepare('SELECT offset, length, hash FROM chunks WHERE filePath = ? ORDER BY offset')
+      .all(filePath) as ContentChunk[];
+
+    return { size: row.size, hash: row.hash, chunks };
+  }
+
+  locate(hash: string): ChunkLocation[] {
+    return this.db
+      .prepare('SELECT filePath, offset, length FROM chunks WHERE hash = ?')
+      .all(hash) as ChunkLocation[];
+  }
+
+  /**
+   * Reads a chunk from any file known to contain it, or returns undefined.
+   */
+  async read(hash: string, length: number): Promise<Buffer | undefined> {
+    for (const location of this.locate(hash)) {
+      if (location.length !== length) {
+        continue;
+      }
+
+      try {
+        const data = Buffer.alloc(length);
+        const handle = await fsp.open(location.filePath, 'r');
+        let bytesRead: number;
+        try {
+          ({ bytesRead } = await handle.read(data, 0, length, location.offset));
+        } finally {
+          await handle.close();
+        }
+
+        if (
+          bytesRead === length &&
+          crypto.createHash('sha256').update(data).digest('hex') === hash
+        ) {
+          return data;
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn(`Failed to read chunk from ${location.filePath}`, error);
+          continue;
+        }
+      }
+
+      // The file changed or disappeared since it was indexed
+      this.remove(location.filePath);
+    }
+
+    return undefined;
+  }
+
+  remove(filePath: string): void {
+    this.db.prepare('DELETE FROM chunked_files WHERE filePath = ?').run(filePath);
+  }
+
+  /**
+   * Drops entries under `dirPath` for files that no longer exist.
+   */
+  prune(dirPath: string, existing: Set<string>): number {
+    const prefix = dirPath.endsWith(path.sep) ? dirPath : `${dirPath}${path.sep}`;
+    const paths = this.db
+      .prepare('SELECT filePath FROM chunked_files WHERE substr(filePath, 1, ?) = ?')
+      .pluck()
+      .all(prefix.length, prefix) as string[];
+    const stale = paths.filter((filePath) => !existing.has(filePath));
+
+    const remove = this.db.transaction((batch: string[]) => {
+      for (const filePath of batch) {
+        this.remove(filePath);
+      }
+    });
+    remove(stale);
+
+    return stale.length;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private store(filePath: string, stats: FileStatSignature, chunked: ChunkedFile): void {
+    const write = this.db.transaction(() => {
+      this.remove(filePath);
+      this.db
+        .prepare(
+          'INSERT INTO chunked_files (filePath, size, mtimeMs, inode, hash) VALUES (?, ?, ?, ?, ?)'
+        )
+        .run(filePath, chunked.size, Math.floor(stats.mtimeMs), stats.ino, chunked.hash);
+
+      const insert = this.db.prepare(
+        'INSERT INTO chunks (hash, filePath, offset, length) VALUES (?, ?, ?, ?)'
+      );
+      for (const chunk of chunked.chunks) {
+        insert.run(chunk.hash, filePath, chunk.offset, chunk.length);
+      }
+    });
+
+    try {
+      write();
+    } catch (error) {
+      logger.error(`Failed to update chunk store ${this.dbPath}`, error);
+      throw error;
+    }
+  }
+}
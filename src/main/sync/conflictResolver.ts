@@ -1,15 +1,44 @@
+import { execFile } from 'child_process';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { promisify } from 'util';
 import Store from 'electron-store';
 import { app } from 'electron';
 import { ConflictInfo } from '../../shared/types/sync';
 import { AppConfig } from '../../shared/types/config';
+import {
+  EnvMergeStrategy,
+  JsonMergeStrategy,
+  MergeLabels,
+  MergeResult,
+  MergeStrategy,
+  TextMergeStrategy,
+  YamlMergeStrategy,
+  getLockfileCommand,
+  isLockfile,
+  looksBinary,
+} from '../core/merge';
+import { VersionManager } from './versionManager';
 import { logger } from '../utils/logger';
 
+const execFileAsync = promisify(execFile);
+
+const LOCKFILE_REGENERATE_TIMEOUT = 5 * 60 * 1000;
+
 export class ConflictResolver {
   private conflictDir: string;
-
-  constructor(private store: Store<AppConfig>) {
+  /** Tried in order; the line-based text merge comes last as the fallback. */
+  private readonly strategies: MergeStrategy[] = [
+    new JsonMergeStrategy(),
+    new YamlMergeStrategy(),
+    new EnvMergeStrategy(),
+    new TextMergeStrategy(),
+  ];
+
+  constructor(
+    private store: Store<AppConfig>,
+    private versionManager?: VersionManager
+  ) {
     const basePath = safeResolveUserData(store);
     this.conflictDir = path.join(basePath, 'conflicts');
   }
@@ -19,9 +48,35 @@ export class ConflictResolver {
     await fs.mkdir(this.conflictDir, { recursive: true });
   }
 
+  /**
+   * Adds a merge strategy that takes precedence over the built-in ones for the files it matches.
+   */
+  registerMergeStrategy(strategy: MergeStrategy): void {
+    this.strategies.unshift(strategy);
+  }
+
+  /**
+   * Whether the content of the file can be merged, and so needs a common ancestor.
+   * Lockfiles are resolved by rule instead.
+   */
+  canMergeContent(filePath: string): boolean {
+    return !isLockfile(filePath) && this.strategies.some((strategy) => strategy.matches(filePath));
+  }
+
+  /**
+   * Where the sync engine puts the peer's version of a conflicting file.
+   */
+  getRemoteCopyPath(conflict: ConflictInfo): string {
+    return path.join(this.conflictDir, conflict.id, 'remote' + path.extname(conflict.filePath));
+  }
+
+  /**
+   * Applies a resolution. A `merge` that hits overlapping edits leaves the
+   * conflict unresolved, with the marked-up result in `conflict.mergeFilePath`.
+   */
   async resolveConflict(
     conflict: ConflictInfo,
-    resolution: 'local' | 'remote' | 'both' | 'manual'
+    resolution: 'local' | 'remote' | 'both' | 'manual' | 'merge'
   ): Promise<void> {
     logger.info(`Resolving conflict for ${conflict.filePath} with resolution: ${resolution}`);
 
@@ -46,6 +101,13 @@ export class ConflictResolver {
           // User will manually resolve
           await this.prepareManualResolution(conflict);
           break;
+
+        case 'merge':
+          // Combine both edits against their common ancestor
+          if (!(await this.mergeVersions(conflict))) {
+            return;
+          }
+          break;
       }
 
       // Mark conflict as resolved
@@ -88,6 +150,148 @@ export class ConflictResolver {
     // This just manages the conflict resolution metadata
   }
 
+  /**
+   * Merges both versions against their latest common ancestor in the version store,
+   * using the first strategy for the file's format that can parse all three. A clean
+   * result replaces the local file; otherwise it is written next to it and false is
+   * returned. Lockfiles follow the folder's lockfile rule instead.
+   */
+  private async mergeVersions(conflict: ConflictInfo): Promise<boolean> {
+    const remotePath = this.getRemoteCopyPath(conflict);
+    const strategies = this.strategies.filter((strategy) => strategy.matches(conflict.filePath));
+    if (!isLockfile(conflict.filePath) && strategies.length === 0) {
+      throw new Error(`${conflict.filePath} is not a text file that can be merged`);
+    }
+
+    try {
+      if (isLockfile(conflict.filePath)) {
+        await this.resolveLockfile(conflict, remotePath);
+        return true;
+      }
+
+      const [local, remote] = await Promise.all([
+        fs.readFile(conflict.filePath),
+        fs.readFile(remotePath),
+      ]);
+      if (looksBinary(local) || looksBinary(remote)) {
+        throw new Error(`${conflict.filePath} has binary content and cannot be merged`);
+      }
+
+      // Without an ancestor both sides count as additions, so every difference conflicts
+      const base = await this.loadCommonAncestor(conflict);
+      const result = this.runStrategies(
+        strategies,
+        conflict.filePath,
+        [base?.toString('utf8') ?? '', local.toString('utf8'), remote.toString('utf8')],
+        { local: conflict.localVersion.deviceName, remote: conflict.remoteVersion.deviceName }
+      );
+
+      if (result.clean) {
+        await fs.writeFile(conflict.filePath, result.text);
+        logger.info(`Merged both versions of ${conflict.filePath}`);
+        return true;
+      }
+
+      const ext = path.extname(conflict.filePath);
+      const basename = path.basename(conflict.filePath, ext);
+      const mergeFilePath = path.join(
+        path.dirname(conflict.filePath),
+        `${basename}.~merge~${Date.now()}${ext}`
+      );
+      await fs.writeFile(mergeFilePath, result.text);
+      conflict.mergeFilePath = mergeFilePath;
+      conflict.conflictingKeys = result.conflictingKeys;
+
+      logger.info(
+        result.conflictingKeys
+          ? `Merge of ${conflict.filePath} kept local values for conflicting keys ${result.conflictingKeys.join(', ')} in ${mergeFilePath}`
+          : `Merge of ${conflict.filePath} left ${result.conflicts} conflicting regions in ${mergeFilePath}`
+      );
+      return false;
+    } finally {
+      await fs.rm(path.dirname(remotePath), { recursive: true, force: true });
+    }
+  }
+
+  private runStrategies(
+    strategies: MergeStrategy[],
+    filePath: string,
+    [base, local, remote]: [string, string, string],
+    labels: MergeLabels
+  ): MergeResult {
+    let lastError: unknown;
+    for (const strategy of strategies) {
+      try {
+        return strategy.merge(base, local, remote, labels);
+      } catch (error) {
+        logger.warn(
+          `${strategy.name} merge of ${filePath} failed, trying the next strategy`,
+          error
+        );
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Lockfiles are never merged by content: the newer side wins, and with the
+   * `regenerate` rule the package manager then rebuilds the lockfile from the
+   * (already merged) manifest next to it.
+   */
+  private async resolveLockfile(conflict: ConflictInfo, remotePath: string): Promise<void> {
+    const folder = this.store.get('folders', []).find((f) => f.id === conflict.folderId);
+    const rule = folder?.lockfileRule ?? 'keep-newer';
+
+    const remoteIsNewer =
+      new Date(conflict.remoteVersion.modifiedAt).getTime() >
+      new Date(conflict.localVersion.modifiedAt).getTime();
+    if (remoteIsNewer) {
+      await fs.copyFile(remotePath, conflict.filePath);
+    }
+    logger.info(
+      `Kept the ${remoteIsNewer ? 'remote' : 'local'} version of lockfile ${conflict.filePath}`
+    );
+
+    const command = getLockfileCommand(conflict.filePath);
+    if (rule !== 'regenerate' || !command) {
+      return;
+    }
+
+    try {
+      await execFileAsync(command.command, command.args, {
+        cwd: path.dirname(conflict.filePath),
+        timeout: LOCKFILE_REGENERATE_TIMEOUT,
+      });
+      logger.info(`Regenerated lockfile ${conflict.filePath} with ${command.command}`);
+    } catch (error) {
+      logger.warn(
+        `Failed to regenerate lockfile ${conflict.filePath}, keeping the newer version`,
+        error
+      );
+    }
+  }
+
+  private async loadCommonAncestor(conflict: ConflictInfo): Promise<Buffer | null> {
+    const localVersion = conflict.localVersion.version;
+    const remoteVersion = conflict.remoteVersion.version;
+    if (!this.versionManager || !localVersion || !remoteVersion) {
+      return null;
+    }
+
+    const ancestor = await this.versionManager.findCommonAncestor(
+      conflict.filePath,
+      localVersion,
+      remoteVersion
+    );
+    if (!ancestor) {
+      logger.warn(`No common ancestor of ${conflict.filePath} in the version store`);
+      return null;
+    }
+
+    return this.versionManager.getVersion(conflict.filePath, ancestor.id);
+  }
+
   private async keepBothVersions(conflict: ConflictInfo): Promise<void> {
     const dir = path.dirname(conflict.filePath);
     const basename = path.basename(conflict.filePath, path.extname(conflict.filePath));
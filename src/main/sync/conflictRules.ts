@@ -0,0 +1,47 @@
+import micromatch from 'micromatch';
+import { ConflictInfo, ConflictRule, DeviceInfo } from '../../shared/types/sync';
+
+export type AutomaticResolution = 'local' | 'remote' | 'both' | 'merge';
+
+/**
+ * Returns the first rule matching the conflicting file and the peer it conflicts with.
+ */
+export function findConflictRule(
+  rules: ConflictRule[],
+  relativePath: string,
+  peer: DeviceInfo | undefined
+): ConflictRule | undefined {
+  const normalized = relativePath.split('\\').join('/');
+  return rules.find(
+    (rule) =>
+      (!rule.deviceRole || rule.deviceRole === peer?.role) &&
+      micromatch.isMatch(normalized, rule.pattern, { dot: true })
+  );
+}
+
+/**
+ * Turns a rule into a concrete resolution, or null when the conflict is left to the user.
+ * A deleted remote version counts as empty for `largest`.
+ */
+export function resolveByRule(
+  rule: ConflictRule,
+  conflict: ConflictInfo
+): AutomaticResolution | null {
+  const { localVersion, remoteVersion } = conflict;
+
+  switch (rule.resolution) {
+    case 'manual':
+      return null;
+    case 'newest':
+      return new Date(remoteVersion.modifiedAt).getTime() >
+        new Date(localVersion.modifiedAt).getTime()
+        ? 'remote'
+        : 'local';
+    case 'largest': {
+      const remoteSize = remoteVersion.deleted ? 0 : remoteVersion.size;
+      return remoteSize > localVersion.size ? 'remote' : 'local';
+    }
+    default:
+      return rule.resolution;
+  }
+}
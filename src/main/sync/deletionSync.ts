@@ -2,24 +2,40 @@ import { EventEmitter } from 'events';
 import * as fs from 'fs/promises';
 import Store from 'electron-store';
 import { AppConfig } from '../../shared/types/config';
-import { FolderConfig } from '../../shared/types/sync';
+import { FolderConfig, VersionVector } from '../../shared/types/sync';
+import { VersionManager } from './versionManager';
 import { logger } from '../utils/logger';
+import { validateSyncPath } from '../utils/pathSecurity';
 
-interface DeletionRecord {
+export interface DeletionRecord {
   id: string;
+  folderId: string;
+  /** Path of the deleted file relative to the folder root. */
   path: string;
   deletedAt: number;
   deviceId: string;
   tombstoneExpiry: number;
+  /** Content the file had when it was deleted. */
+  hash?: string;
+  size?: number;
+  /** Version vector of the deleted file, with the deletion counted as a change. */
+  version?: VersionVector;
 }
 
+export type DeletionDetails = Partial<
+  Pick<DeletionRecord, 'deletedAt' | 'hash' | 'size' | 'version'>
+>;
+
 interface DeletionSyncOptions {
   store: Store<AppConfig>;
   tombstoneRetentionDays: number;
+  /** Receives files deleted on other devices; without it they are unlinked. */
+  versionManager?: VersionManager;
 }
 
 export class DeletionSyncManager extends EventEmitter {
   private tombstones: Map<string, DeletionRecord> = new Map();
+  private cleanupInterval: NodeJS.Timeout | null = null;
   private readonly DEFAULT_RETENTION_DAYS = 30;
 
   constructor(private options: DeletionSyncOptions) {
@@ -33,17 +49,24 @@ export class DeletionSyncManager extends EventEmitter {
     logger.info('Deletion sync manager initialized');
   }
 
-  async recordDeletion(filePath: string, folderId: string, deviceId: string): Promise<void> {
-    const now = Date.now();
+  async recordDeletion(
+    filePath: string,
+    folderId: string,
+    deviceId: string,
+    details: DeletionDetails = {}
+  ): Promise<void> {
+    const deletedAt = details.deletedAt ?? Date.now();
     const retentionMs =
       (this.options.tombstoneRetentionDays || this.DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
 
     const record: DeletionRecord = {
+      ...details,
       id: `${folderId}:${filePath}`,
+      folderId,
       path: filePath,
-      deletedAt: now,
+      deletedAt,
       deviceId,
-      tombstoneExpiry: now + retentionMs,
+      tombstoneExpiry: Date.now() + retentionMs,
     };
 
     this.tombstones.set(record.id, record);
@@ -53,29 +76,35 @@ export class DeletionSyncManager extends EventEmitter {
     this.emit('deletion-recorded', record);
   }
 
+  /**
+   * Applies a deletion made on another device: the local copy is moved into the
+   * version store and the peer's tombstone is kept so it propagates further.
+   */
   async handleRemoteDeletion(
     filePath: string,
     folderId: string,
     deviceId: string,
-    folder: FolderConfig
+    folder: FolderConfig,
+    details: DeletionDetails = {}
   ): Promise<void> {
-    const tombstoneId = `${folderId}:${filePath}`;
-
-    // Check if we already know about this deletion
-    if (this.tombstones.has(tombstoneId)) {
-      logger.debug(`Deletion already known: ${filePath}`);
-      return;
-    }
-
-    // Record the tombstone
-    await this.recordDeletion(filePath, folderId, deviceId);
-
-    // Perform local deletion if file exists
-    const fullPath = `${folder.path}/${filePath}`;
+    const fullPath = validateSyncPath(filePath, folder.path);
 
     try {
-      await fs.access(fullPath);
-      await fs.unlink(fullPath);
+      const stats = await fs.stat(fullPath);
+      if (this.options.versionManager) {
+        await this.options.versionManager.archiveFile(
+          fullPath,
+          {
+            modifiedAt: stats.mtime,
+            deviceId,
+            deviceName:
+              this.options.store.get('devices').find((d) => d.id === deviceId)?.name || deviceId,
+          },
+          folder.versioningPolicy
+        );
+      } else {
+        await fs.unlink(fullPath);
+      }
       logger.info(`Deleted local file: ${fullPath}`);
       this.emit('local-file-deleted', { path: fullPath, reason: 'remote-deletion' });
     } catch (error) {
@@ -86,6 +115,42 @@ export class DeletionSyncManager extends EventEmitter {
       // File doesn't exist, nothing to do
       logger.debug(`File already deleted: ${fullPath}`);
     }
+
+    await this.recordDeletion(filePath, folderId, deviceId, details);
+  }
+
+  getTombstone(filePath: string, folderId: string): DeletionRecord | undefined {
+    return this.isDeletionKnown(filePath, folderId)
+      ? this.tombstones.get(`${folderId}:${filePath}`)
+      : undefined;
+  }
+
+  /**
+   * Unexpired tombstones of a folder.
+   */
+  getFolderTombstones(folderId: string): DeletionRecord[] {
+    const now = Date.now();
+    return this.getTombstones().filter(
+      (record) => record.folderId === folderId && now <= record.tombstoneExpiry
+    );
+  }
+
+  /**
+   * Forgets a deletion, e.g. because the file was created again.
+   */
+  async removeTombstone(filePath: string, folderId: string): Promise<void> {
+    if (this.tombstones.delete(`${folderId}:${filePath}`)) {
+      await this.saveTombstones();
+    }
+  }
+
+  async clearFolder(folderId: string): Promise<void> {
+    for (const record of this.getTombstones()) {
+      if (record.folderId === folderId) {
+        this.tombstones.delete(record.id);
+      }
+    }
+    await this.saveTombstones();
   }
 
   isDeletionKnown(filePath: string, folderId: string): boolean {
@@ -116,9 +181,7 @@ export class DeletionSyncManager extends EventEmitter {
       logger.info(`Keeping modified file over deletion: ${filePath}`);
 
       // Remove tombstone since file is being recreated
-      const tombstoneId = `${folderId}:${filePath}`;
-      this.tombstones.delete(tombstoneId);
-      await this.saveTombstones();
+      await this.removeTombstone(filePath, folderId);
 
       return 'keep';
     }
@@ -149,6 +212,13 @@ export class DeletionSyncManager extends EventEmitter {
     return Array.from(this.tombstones.values());
   }
 
+  stop(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
   private async loadTombstones(): Promise<void> {
     const tombstoneData = this.options.store.get('deletionTombstones' as any) || [];
 
@@ -169,7 +239,7 @@ export class DeletionSyncManager extends EventEmitter {
 
   private startCleanupSchedule(): void {
     // Run cleanup every 6 hours
-    setInterval(
+    this.cleanupInterval = setInterval(
       () => {
         this.cleanup();
       },
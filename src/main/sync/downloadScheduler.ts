@@ -0,0 +1,183 @@
+const INITIAL_BATCH = 8;
+const MIN_BATCH = 2;
+const MAX_BATCH = 64;
+/** Batches are sized to take each source about this long at its measured rate. */
+const TARGET_BATCH_MS = 3000;
+/** A source that delivers nothing for this long loses its batch to the others. */
+const STALL_MS = 15_000;
+
+interface SourceState {
+  /** Chunks the source was asked for and has not delivered yet. */
+  batch: Set<number>;
+  lastProgressAt: number;
+  throughput?: number; // bytes/second
+}
+
+/**
+ * Splits the missing chunks of one file across every peer that has it. Each
+ * source is handed a batch of consecutive chunks sized to its measured speed;
+ * once nothing is left to hand out, idle sources duplicate the chunks still
+ * outstanding at slower ones. Chunks of a source that fails, stalls or
+ * disconnects go back to the others.
+ */
+export class DownloadScheduler {
+  private readonly pending: number[];
+  private readonly outstanding: Set<number>;
+  private readonly sources = new Map<string, SourceState>();
+
+  constructor(
+    private readonly chunkSize: number,
+    missing: number[],
+    sourceIds: string[],
+    now = Date.now()
+  ) {
+    this.pending = [...missing].sort((a, b) => a - b);
+    this.outstanding = new Set(missing);
+    for (const sourceId of sourceIds) {
+      this.sources.set(sourceId, { batch: new Set(), lastProgressAt: now });
+    }
+  }
+
+  isComplete(): boolean {
+    return this.outstanding.size === 0;
+  }
+
+  isReceived(chunkIndex: number): boolean {
+    return !this.outstanding.has(chunkIndex);
+  }
+
+  getSources(): string[] {
+    return [...this.sources.keys()];
+  }
+
+  /**
+   * Hands an idle source its next batch. Returns nothing while the source
+   * still has chunks outstanding or there is nothing left it could help with.
+   */
+  next(sourceId: string, now = Date.now()): number[] {
+    const source = this.sources.get(sourceId);
+    if (!source || source.batch.size > 0) {
+      return [];
+    }
+
+    const size = this.getBatchSize(source);
+    let batch = this.takePending(size);
+    if (batch.length === 0) {
+      batch = this.takeFromSlowest(sourceId, size);
+    }
+
+    batch.forEach((chunkIndex) => source.batch.add(chunkIndex));
+    source.lastProgressAt = now;
+    return batch.sort((a, b) => a - b);
+  }
+
+  /** Returns false when another source delivered the chunk first. */
+  markReceived(sourceId: string, chunkIndex: number, bytes: number, now = Date.now()): boolean {
+    const source = this.sources.get(sourceId);
+    if (source) {
+      const elapsed = now - source.lastProgressAt;
+      if (elapsed > 0) {
+        const sample = (bytes * 1000) / elapsed;
+        source.throughput =
+          source.throughput === undefined ? sample : source.throughput * 0.75 + sample * 0.25;
+      }
+      source.lastProgressAt = now;
+    }
+
+    if (!this.outstanding.delete(chunkIndex)) {
+      return false;
+    }
+    for (const other of this.sources.values()) {
+      other.batch.delete(chunkIndex);
+    }
+    return true;
+  }
+
+  /** Ends the source's current batch and hands whatever it did not deliver back out. */
+  release(sourceId: string): void {
+    const source = this.sources.get(sourceId);
+    if (!source) {
+      return;
+    }
+
+    const undelivered = [...source.batch];
+    source.batch.clear();
+    for (const chunkIndex of undelivered) {
+      // Chunks duplicated to another source stay with that source
+      if (this.outstanding.has(chunkIndex) && !this.isAssigned(chunkIndex)) {
+        this.pending.push(chunkIndex);
+      }
+    }
+    this.pending.sort((a, b) => a - b);
+  }
+
+  /** Stops using a source, e.g. after it disconnected or sent bad data. */
+  remove(sourceId: string): void {
+    this.release(sourceId);
+    this.sources.delete(sourceId);
+  }
+
+  /** Sources that stopped delivering while others could take over their batch. */
+  getStalled(now = Date.now()): string[] {
+    if (this.sources.size < 2) {
+      return [];
+    }
+    return [...this.sources]
+      .filter(([, source]) => source.batch.size > 0 && now - source.lastProgressAt > STALL_MS)
+      .map(([sourceId]) => sourceId);
+  }
+
+  private getBatchSize(source: SourceState): number {
+    if (source.throughput === undefined) {
+      return INITIAL_BATCH;
+    }
+    const chunks = Math.round((source.throughput * TARGET_BATCH_MS) / 1000 / this.chunkSize);
+    return Math.min(MAX_BATCH, Math.max(MIN_BATCH, chunks));
+  }
+
+  private takePending(size: number): number[] {
+    const batch: number[] = [];
+    while (batch.length < size && this.pending.length > 0) {
+      const chunkIndex = this.pending.shift()!;
+      if (this.outstanding.has(chunkIndex) && !this.isAssigned(chunkIndex)) {
+        batch.push(chunkIndex);
+      }
+    }
+    return batch;
+  }
+
+  /**
+   * Duplicates the tail of the batch with the most chunks outstanding, which
+   * that source would get to last. Whichever source delivers a chunk first wins.
+   */
+  private takeFromSlowest(sourceId: string, size: number): number[] {
+    let slowest: SourceState | undefined;
+    for (const [otherId, other] of this.sources) {
+      if (otherId !== sourceId && other.batch.size > (slowest?.batch.size ?? 0)) {
+        slowest = other;
+      }
+    }
+    if (!slowest) {
+      return [];
+    }
+
+    const unshared = [...slowest.batch].filter(
+      (chunkIndex) => this.countAssigned(chunkIndex) === 1
+    );
+    return unshared.sort((a, b) => a - b).slice(-Math.min(size, Math.ceil(unshared.length / 2)));
+  }
+
+  private isAssigned(chunkIndex: number): boolean {
+    return this.countAssigned(chunkIndex) > 0;
+  }
+
+  private countAssigned(chunkIndex: number): number {
+    let count = 0;
+    for (const source of this.sources.values()) {
+      if (source.batch.has(chunkIndex)) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
@@ -0,0 +1,266 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { VersionVector } from '../../shared/types/sync';
+import { logger } from '../utils/logger';
+
+export interface FileIndexEntry {
+  relativePath: string;
+  size: number;
+  mtimeMs: number;
+  inode: number;
+  hash: string;
+  blockSize: number;
+  blockHashes: string[];
+  version?: VersionVector;
+  /** Content hash the version vector was last bumped for. */
+  versionHash?: string;
+  /** Path the file was last renamed from; cleared when its content changes. */
+  previousPath?: string;
+}
+
+export interface FileStatSignature {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+}
+
+interface FileIndexRow {
+  relativePath: string;
+  size: number;
+  mtimeMs: number;
+  inode: number;
+  hash: string;
+  blockSize: number;
+  blockHashes: string;
+  version: string | null;
+  versionHash: string | null;
+  previousPath: string | null;
+}
+
+/**
+ * Persistent per-folder index of file metadata, so rescans only rehash files
+ * whose size, mtime or inode changed since they were last indexed.
+ */
+export class FileIndex {
+  private db: Database.Database;
+  private readonly selectStmt: Database.Statement;
+  private readonly upsertStmt: Database.Statement;
+  private readonly versionStmt: Database.Statement;
+  private readonly deleteStmt: Database.Statement;
+  private readonly renameStmt: Database.Statement;
+
+  constructor(private readonly dbPath: string) {
+    const dataDir = path.dirname(dbPath);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.initializeDatabase();
+
+    this.selectStmt = this.db.prepare('SELECT * FROM files WHERE relativePath = ?');
+    this.upsertStmt = this.db.prepare(`
+      INSERT INTO files (relativePath, size, mtimeMs, inode, hash, blockSize, blockHashes)
+      VALUES (@relativePath, @size, @mtimeMs, @inode, @hash, @blockSize, @blockHashes)
+      ON CONFLICT(relativePath) DO UPDATE SET
+        size = excluded.size,
+        mtimeMs = excluded.mtimeMs,
+        inode = excluded.inode,
+        hash = excluded.hash,
+        blockSize = excluded.blockSize,
+        blockHashes = excluded.blockHashes,
+        previousPath = CASE WHEN files.hash = excluded.hash THEN files.previousPath END
+    `);
+    // Rows created here carry no stat data, so the next scan always rehashes them
+    this.versionStmt = this.db.prepare(`
+      INSERT INTO files (relativePath, size, mtimeMs, inode, hash, blockSize, blockHashes, version, versionHash)
+      VALUES (@relativePath, -1, 0, 0, @versionHash, 0, '[]', @version, @versionHash)
+      ON CONFLICT(relativePath) DO UPDATE SET
+        version = excluded.version,
+        versionHash = excluded.versionHash
+    `);
+    this.deleteStmt = this.db.prepare('DELETE FROM files WHERE relativePath = ?');
+    this.renameStmt = this.db.prepare(
+      'UPDATE files SET relativePath = @to, previousPath = @from WHERE relativePath = @from'
+    );
+  }
+
+  private initializeDatabase(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS files (
+        relativePath TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        mtimeMs INTEGER NOT NULL,
+        inode INTEGER NOT NULL,
+        hash TEXT NOT NULL,
+        blockSize INTEGER NOT NULL,
+        blockHashes TEXT NOT NULL,
+        version TEXT,
+        versionHash TEXT,
+        previousPath TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_files_hash ON files(hash);
+    `);
+
+    const columns = this.db.prepare('PRAGMA table_info(files)').all() as Array<{ name: string }>;
+    if (!columns.some((column) => column.name === 'previousPath')) {
+      this.db.exec('ALTER TABLE files ADD COLUMN previousPath TEXT');
+    }
+  }
+
+  get(relativePath: string): FileIndexEntry | undefined {
+    try {
+      const row = this.selectStmt.get(relativePath) as FileIndexRow | undefined;
+      return row ? this.fromRow(row) : undefined;
+    } catch (error) {
+      logger.error(`Failed to read index entry for ${relativePath}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the indexed hash when the on-disk stats still match the index.
+   */
+  lookupHash(relativePath: string, stats: FileStatSignature): string | undefined {
+    const entry = this.get(relativePath);
+    return entry && this.matches(entry, stats) ? entry.hash : undefined;
+  }
+
+  matches(entry: FileIndexEntry, stats: FileStatSignature): boolean {
+    return (
+      entry.size === stats.size &&
+      entry.mtimeMs === Math.floor(stats.mtimeMs) &&
+      entry.inode === stats.ino
+    );
+  }
+
+  list(): FileIndexEntry[] {
+    try {
+      const rows = this.db.prepare('SELECT * FROM files').all() as FileIndexRow[];
+      return rows.map((row) => this.fromRow(row));
+    } catch (error) {
+      logger.error(`Failed to list file index ${this.dbPath}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stores content metadata for scanned files; version columns are left untouched.
+   */
+  upsertMany(entries: Array<Omit<FileIndexEntry, 'version' | 'versionHash'>>): void {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const write = this.db.transaction((batch: typeof entries) => {
+      for (const entry of batch) {
+        this.upsertStmt.run({
+          relativePath: entry.relativePath,
+          size: entry.size,
+          mtimeMs: Math.floor(entry.mtimeMs),
+          inode: entry.inode,
+          hash: entry.hash,
+          blockSize: entry.blockSize,
+          blockHashes: JSON.stringify(entry.blockHashes),
+        });
+      }
+    });
+
+    try {
+      write(entries);
+    } catch (error) {
+      logger.error(`Failed to update file index ${this.dbPath}`, error);
+      throw error;
+    }
+  }
+
+  setVersions(
+    updates: Array<{ relativePath: string; version: VersionVector; versionHash: string }>
+  ): void {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const write = this.db.transaction((batch: typeof updates) => {
+      for (const update of batch) {
+        this.versionStmt.run({
+          relativePath: update.relativePath,
+          version: JSON.stringify(update.version),
+          versionHash: update.versionHash,
+        });
+      }
+    });
+
+    try {
+      write(updates);
+    } catch (error) {
+      logger.error(`Failed to update version info in ${this.dbPath}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves an entry to a new path, keeping its hashes and version history.
+   * Returns false when nothing was indexed at `from`.
+   */
+  rename(from: string, to: string): boolean {
+    const move = this.db.transaction(() => {
+      if (!this.selectStmt.get(from)) {
+        return false;
+      }
+      this.deleteStmt.run(to);
+      this.renameStmt.run({ from, to });
+      return true;
+    });
+
+    try {
+      return move();
+    } catch (error) {
+      logger.error(`Failed to rename index entry ${from} -> ${to}`, error);
+      throw error;
+    }
+  }
+
+  remove(relativePath: string): void {
+    this.deleteStmt.run(relativePath);
+  }
+
+  /**
+   * Drops entries for files that no longer exist on disk.
+   */
+  prune(existing: Set<string>): number {
+    const paths = this.db.prepare('SELECT relativePath FROM files').pluck().all() as string[];
+    const stale = paths.filter((relativePath) => !existing.has(relativePath));
+
+    const remove = this.db.transaction((batch: string[]) => {
+      for (const relativePath of batch) {
+        this.deleteStmt.run(relativePath);
+      }
+    });
+    remove(stale);
+
+    return stale.length;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private fromRow(row: FileIndexRow): FileIndexEntry {
+    return {
+      relativePath: row.relativePath,
+      size: row.size,
+      mtimeMs: row.mtimeMs,
+      inode: row.inode,
+      hash: row.hash,
+      blockSize: row.blockSize,
+      blockHashes: JSON.parse(row.blockHashes) as string[],
+      version: row.version ? (JSON.parse(row.version) as VersionVector) : undefined,
+      versionHash: row.versionHash ?? undefined,
+      previousPath: row.previousPath ?? undefined,
+    };
+  }
+}
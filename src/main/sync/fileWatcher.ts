@@ -4,19 +4,36 @@ import * as fs from 'fs/promises';
 import { Stats } from 'fs';
 import * as crypto from 'crypto';
 import Store from 'electron-store';
+import { app } from 'electron';
 import { EventEmitter } from 'events';
 import { FileInfo, FolderConfig } from '../../shared/types/sync';
 import { AppConfig } from '../../shared/types/config';
 import { IgnoreParser } from '../utils/ignoreParser';
+import { FileIndex, FileIndexEntry } from './fileIndex';
+import { ChunkStore } from './chunkStore';
+import { RenameCandidate, RenameDetector } from '../core/watcher/RenameDetector';
 import { logger } from '../utils/logger';
 
 export interface FileChangeEvent {
-  type: 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir';
+  type: 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir' | 'rename';
   path: string;
   relativePath: string;
   folderId: string;
   stats?: Stats;
   hash?: string;
+  /** Set on `rename` events. */
+  previousPath?: string;
+  previousRelativePath?: string;
+}
+
+/** Indexed files a scan found missing, i.e. deleted since they were last seen. */
+export interface FilesDeletedEvent {
+  folderId: string;
+  entries: FileIndexEntry[];
+}
+
+interface PendingRemoval extends RenameCandidate {
+  event: FileChangeEvent;
 }
 
 export class FileWatcher extends EventEmitter {
@@ -24,11 +41,48 @@ export class FileWatcher extends EventEmitter {
   private ignoreParsers: Map<string, IgnoreParser> = new Map();
   private fileHashes: Map<string, string> = new Map();
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
+  private renameDetectors: Map<string, RenameDetector<PendingRemoval>> = new Map();
+  private fileIndexes: Map<string, FileIndex> = new Map();
+  private chunkStore: ChunkStore | null = null;
+  private readonly indexDir: string;
   private readonly DEBOUNCE_MS = 300;
+  private readonly RENAME_WINDOW_MS = 3000; // Adds wait ~2s for writes to settle
   private readonly HASH_CHUNK_SIZE = 65536; // 64KB chunks for hashing
+  private readonly DEFAULT_BLOCK_SIZE = 1024 * 1024;
+  private readonly CHUNK_INDEX_MIN_SIZE = 64 * 1024; // Smaller files are cheaper to resend
 
   constructor(private store: Store<AppConfig>) {
     super();
+    this.indexDir = path.join(app.getPath('userData'), 'file-index');
+  }
+
+  getFileIndex(folderId: string): FileIndex {
+    let index = this.fileIndexes.get(folderId);
+    if (!index) {
+      index = new FileIndex(path.join(this.indexDir, `${folderId}.db`));
+      this.fileIndexes.set(folderId, index);
+    }
+    return index;
+  }
+
+  /**
+   * Chunk index shared by all folders, used to reuse local data for downloads.
+   */
+  getChunkStore(): ChunkStore {
+    if (!this.chunkStore) {
+      this.chunkStore = new ChunkStore(path.join(app.getPath('userData'), 'chunk-index.db'));
+    }
+    return this.chunkStore;
+  }
+
+  async deleteFileIndex(folderId: string): Promise<void> {
+    this.fileIndexes.get(folderId)?.close();
+    this.fileIndexes.delete(folderId);
+
+    const dbPath = path.join(this.indexDir, `${folderId}.db`);
+    await Promise.all(
+      [dbPath, `${dbPath}-wal`, `${dbPath}-shm`].map((file) => fs.rm(file, { force: true }))
+    );
   }
 
   async watchFolder(folder: FolderConfig): Promise<void> {
@@ -49,6 +103,12 @@ export class FileWatcher extends EventEmitter {
 
       this.ignoreParsers.set(folder.id, ignoreParser);
 
+      const renameDetector = new RenameDetector<PendingRemoval>({
+        windowMs: this.RENAME_WINDOW_MS,
+      });
+      renameDetector.on('remove', ({ event }: PendingRemoval) => this.emitChange(event));
+      this.renameDetectors.set(folder.id, renameDetector);
+
       // Create watcher
       const watcher = chokidar.watch(folder.path, {
         persistent: true,
@@ -100,6 +160,8 @@ export class FileWatcher extends EventEmitter {
       await watcher.close();
       this.watchers.delete(folderId);
       this.ignoreParsers.delete(folderId);
+      this.renameDetectors.get(folderId)?.flush();
+      this.renameDetectors.delete(folderId);
       logger.info(`Stopped watching folder: ${folderId}`);
     }
   }
@@ -110,6 +172,13 @@ export class FileWatcher extends EventEmitter {
     this.watchers.clear();
     this.ignoreParsers.clear();
     this.fileHashes.clear();
+    this.renameDetectors.forEach((detector) => detector.clear());
+    this.renameDetectors.clear();
+
+    this.fileIndexes.forEach((index) => index.close());
+    this.fileIndexes.clear();
+    this.chunkStore?.close();
+    this.chunkStore = null;
 
     // Clear all debounce timers
     this.debounceTimers.forEach((timer) => clearTimeout(timer));
@@ -165,8 +234,30 @@ export class FileWatcher extends EventEmitter {
           hash,
         };
 
-        this.emit('file-change', event);
-        logger.debug(`File event: ${type} - ${relativePath}`);
+        const renameDetector = this.renameDetectors.get(folder.id);
+        if (renameDetector && type === 'unlink') {
+          // Hold the delete briefly in case the file reappears elsewhere
+          const entry = this.getFileIndex(folder.id).get(relativePath);
+          if (entry && entry.size >= 0) {
+            renameDetector.removed({ ...entry, event });
+            return;
+          }
+        } else if (renameDetector && type === 'add' && stats && hash) {
+          const source = renameDetector.added({
+            relativePath,
+            size: stats.size,
+            inode: stats.ino,
+            hash,
+          });
+          if (source) {
+            this.getFileIndex(folder.id).rename(source.relativePath, relativePath);
+            event.type = 'rename';
+            event.previousPath = source.event.path;
+            event.previousRelativePath = source.relativePath;
+          }
+        }
+
+        this.emitChange(event);
       } catch (error) {
         logger.error(`Error handling file event for ${filePath}:`, error);
       }
@@ -175,6 +266,15 @@ export class FileWatcher extends EventEmitter {
     this.debounceTimers.set(debounceKey, timer);
   }
 
+  private emitChange(event: FileChangeEvent): void {
+    this.emit('file-change', event);
+    logger.debug(
+      event.type === 'rename'
+        ? `File event: rename - ${event.previousRelativePath} -> ${event.relativePath}`
+        : `File event: ${event.type} - ${event.relativePath}`
+    );
+  }
+
   private handleWatcherError(error: Error, folder: FolderConfig): void {
     logger.error(`Watcher error for folder ${folder.path}:`, error);
     this.emit('watcher-error', { folderId: folder.id, error });
@@ -205,6 +305,40 @@ export class FileWatcher extends EventEmitter {
     }
   }
 
+  /**
+   * Computes the whole-file SHA-256 and per-block SHA-256 hashes in a single pass.
+   */
+  private async calculateFileHashes(
+    filePath: string,
+    blockSize: number
+  ): Promise<{ hash: string; blockHashes: string[] }> {
+    const hash = crypto.createHash('sha256');
+    const blockHashes: string[] = [];
+    const handle = await fs.open(filePath, 'r');
+    const buffer = Buffer.alloc(blockSize);
+
+    try {
+      let position = 0;
+      let bytesRead: number;
+
+      do {
+        const result = await handle.read(buffer, 0, blockSize, position);
+        bytesRead = result.bytesRead;
+
+        if (bytesRead > 0) {
+          const block = buffer.subarray(0, bytesRead);
+          hash.update(block);
+          blockHashes.push(crypto.createHash('sha256').update(block).digest('hex'));
+          position += bytesRead;
+        }
+      } while (bytesRead > 0);
+
+      return { hash: hash.digest('hex'), blockHashes };
+    } finally {
+      await handle.close();
+    }
+  }
+
   async scanFolder(folder: FolderConfig): Promise<FileInfo[]> {
     const files: FileInfo[] = [];
     const ignoreParser = this.ignoreParsers.get(folder.id);
@@ -213,6 +347,16 @@ export class FileWatcher extends EventEmitter {
       throw new Error(`No ignore parser found for folder ${folder.id}`);
     }
 
+    const index = this.getFileIndex(folder.id);
+    const indexed = new Map(index.list().map((entry) => [entry.relativePath, entry]));
+    const blockSize = this.store.get('performance')?.blockSize || this.DEFAULT_BLOCK_SIZE;
+    const chunkStore = this.getChunkStore();
+    const changed: FileIndexEntry[] = [];
+    const seen = new Set<string>();
+    const chunked = new Set<string>();
+    const unindexed = new Map<string, { fileInfo: FileInfo; inode: number }>();
+    const unreadable: string[] = [];
+
     const scanDirectory = async (dirPath: string): Promise<void> => {
       try {
         const entries = await fs.readdir(dirPath, { withFileTypes: true });
@@ -241,10 +385,39 @@ export class FileWatcher extends EventEmitter {
               isIgnored: false,
             };
 
-            // Calculate hash for files
+            // Only rehash files whose size, mtime or inode changed since the last scan
             if (fileInfo.type === 'file') {
-              fileInfo.hash = await this.calculateFileHash(fullPath);
+              seen.add(relativePath);
+              const entry = indexed.get(relativePath);
+
+              if (entry && entry.blockSize === blockSize && index.matches(entry, stats)) {
+                fileInfo.hash = entry.hash;
+                fileInfo.renamedFrom = entry.previousPath;
+              } else {
+                const { hash, blockHashes } = await this.calculateFileHashes(fullPath, blockSize);
+                fileInfo.hash = hash;
+                changed.push({
+                  relativePath,
+                  size: stats.size,
+                  mtimeMs: stats.mtimeMs,
+                  inode: stats.ino,
+                  hash,
+                  blockSize,
+                  blockHashes,
+                });
+                if (!entry) {
+                  unindexed.set(relativePath, { fileInfo, inode: stats.ino });
+                }
+              }
+
               this.fileHashes.set(fullPath, fileInfo.hash);
+
+              if (stats.size >= this.CHUNK_INDEX_MIN_SIZE) {
+                chunked.add(fullPath);
+                await chunkStore.indexFile(fullPath).catch((error) => {
+                  logger.warn(`Failed to index chunks of ${fullPath}:`, error);
+                });
+              }
             }
 
             files.push(fileInfo);
@@ -259,10 +432,45 @@ export class FileWatcher extends EventEmitter {
         }
       } catch (error) {
         logger.error(`Failed to scan directory ${dirPath}:`, error);
+        unreadable.push(path.relative(folder.path, dirPath));
       }
     };
 
     await scanDirectory(folder.path);
+
+    // A new path holding the inode and content of a vanished entry was moved while we weren't watching
+    const vanished = [...indexed.values()].filter(
+      (entry) => !seen.has(entry.relativePath) && entry.size >= 0
+    );
+    for (const [relativePath, { fileInfo, inode }] of unindexed) {
+      const source = vanished.find(
+        (entry) =>
+          entry.inode === inode && entry.hash === fileInfo.hash && entry.size === fileInfo.size
+      );
+      if (source && index.rename(source.relativePath, relativePath)) {
+        fileInfo.renamedFrom = source.relativePath;
+        vanished.splice(vanished.indexOf(source), 1);
+      }
+    }
+
+    // Whatever is left was deleted, unless it is now ignored or we could not look
+    const deleted = vanished.filter(
+      (entry) =>
+        !ignoreParser.isIgnored(entry.relativePath) &&
+        !unreadable.some((dir) => dir === '' || entry.relativePath.startsWith(dir + path.sep))
+    );
+    if (deleted.length > 0) {
+      const event: FilesDeletedEvent = { folderId: folder.id, entries: deleted };
+      this.emit('files-deleted', event);
+    }
+
+    index.upsertMany(changed);
+    const pruned = index.prune(seen);
+    chunkStore.prune(folder.path, chunked);
+    logger.debug(
+      `Indexed ${folder.path}: ${changed.length} rehashed, ${seen.size - changed.length} cached, ${pruned} removed`
+    );
+
     return files;
   }
 
@@ -0,0 +1,566 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import Store from 'electron-store';
+import { AppConfig, SecurityConfig } from '../../shared/types/config';
+import { FileInfo, FolderConfig } from '../../shared/types/sync';
+import { logger } from '../utils/logger';
+import type { SecretStore } from '../utils/keychain';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number
+) => Promise<Buffer>;
+
+type EncryptionAlgorithm = SecurityConfig['encryptionAlgorithm'];
+
+/** Plaintext facts about a file that travel sealed next to its encrypted blob. */
+export interface SealedMetadata {
+  hash: string;
+  size: number;
+}
+
+export interface EncryptedBlob {
+  hash: string;
+  size: number;
+}
+
+const ALGORITHMS: EncryptionAlgorithm[] = ['aes-256-gcm', 'chacha20-poly1305'];
+const BLOB_MAGIC = Buffer.from('ASE1');
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const BLOCK_SIZE = 1024 * 1024;
+const NAME_SEGMENT_LENGTH = 200;
+const MAX_MEASURED_BLOBS = 10000;
+
+/**
+ * Encrypts one folder for one untrusted device. Everything is deterministic for
+ * a given password, folder and algorithm, so every trusted device produces the
+ * same names and blobs and the untrusted device sees identical copies.
+ *
+ * Blob layout: magic, sealed metadata length (uint16), sealed metadata, then the
+ * content in 1 MiB blocks, each followed by its authentication tag.
+ */
+export class FolderCipher {
+  private readonly nameKey: Buffer;
+  private readonly metadataKey: Buffer;
+  private readonly contentKey: Buffer;
+
+  constructor(
+    key: Buffer,
+    readonly algorithm: EncryptionAlgorithm
+  ) {
+    this.nameKey = deriveKey(key, 'names');
+    this.metadataKey = deriveKey(key, 'metadata');
+    this.contentKey = deriveKey(key, 'content');
+  }
+
+  /** Opaque relative path for a file, split into segments short enough for any filesystem. */
+  encryptPath(relativePath: string): string {
+    const normalized = Buffer.from(relativePath.replace(/\\/g, '/'));
+    const sealed = seal(this.algorithm, this.nameKey, normalized).toString('hex');
+    const segments = [sealed.slice(0, 2)];
+    for (let offset = 2; offset < sealed.length; offset += NAME_SEGMENT_LENGTH) {
+      segments.push(sealed.slice(offset, offset + NAME_SEGMENT_LENGTH));
+    }
+    return segments.join('/');
+  }
+
+  decryptPath(encryptedPath: string): string {
+    const hex = encryptedPath.replace(/[\\/]/g, '');
+    if (!/^(?:[0-9a-f]{2})+$/.test(hex)) {
+      throw new Error('Not an encrypted path');
+    }
+    return open(this.nameKey, Buffer.from(hex, 'hex')).toString('utf8');
+  }
+
+  /** Metadata is bound to the file's path, so blobs cannot be swapped between names. */
+  sealMetadata(relativePath: string, metadata: SealedMetadata): Buffer {
+    return seal(
+      this.algorithm,
+      this.metadataKey,
+      Buffer.from(JSON.stringify({ hash: metadata.hash, size: metadata.size })),
+      Buffer.from(relativePath.replace(/\\/g, '/'))
+    );
+  }
+
+  openMetadata(relativePath: string, sealed: Buffer): SealedMetadata {
+    const metadata = JSON.parse(
+      open(this.metadataKey, sealed, Buffer.from(relativePath.replace(/\\/g, '/'))).toString('utf8')
+    );
+    if (
+      typeof metadata?.hash !== 'string' ||
+      !Number.isInteger(metadata?.size) ||
+      metadata.size < 0
+    ) {
+      throw new Error('Malformed encrypted metadata');
+    }
+    return { hash: metadata.hash, size: metadata.size };
+  }
+
+  /**
+   * Encrypts `sourcePath` into `targetPath`, or only measures the blob when no
+   * target is given. Throws when the file no longer matches `metadata`.
+   */
+  async encryptFile(
+    sourcePath: string,
+    relativePath: string,
+    metadata: SealedMetadata,
+    targetPath?: string
+  ): Promise<EncryptedBlob> {
+    const header = this.createHeader(relativePath, metadata);
+    const fileKey = this.fileKey(metadata.hash);
+    const blobHash = crypto.createHash('sha256').update(header);
+    const plainHash = crypto.createHash('sha256');
+    const source = await fs.open(sourcePath, 'r');
+    const target = targetPath ? await fs.open(targetPath, 'w') : null;
+    const buffer = Buffer.alloc(BLOCK_SIZE);
+    let size = header.length;
+    let plainSize = 0;
+
+    try {
+      await target?.write(header);
+      for (let index = 0; ; index++) {
+        const { bytesRead } = await source.read(buffer, 0, BLOCK_SIZE, index * BLOCK_SIZE);
+        if (bytesRead === 0) {
+          break;
+        }
+
+        const block = buffer.subarray(0, bytesRead);
+        plainHash.update(block);
+        plainSize += bytesRead;
+
+        const cipher = createAeadCipher(this.algorithm, fileKey, blockNonce(index));
+        const encrypted = Buffer.concat([
+          cipher.update(block),
+          cipher.final(),
+          cipher.getAuthTag(),
+        ]);
+        blobHash.update(encrypted);
+        await target?.write(encrypted);
+        size += encrypted.length;
+      }
+    } finally {
+      await source.close();
+      await target?.close();
+    }
+
+    if (plainSize !== metadata.size || plainHash.digest('hex') !== metadata.hash) {
+      if (targetPath) {
+        await fs.rm(targetPath, { force: true });
+      }
+      throw new Error(`${relativePath} changed while it was being encrypted`);
+    }
+
+    return { hash: blobHash.digest('hex'), size };
+  }
+
+  /**
+   * Decrypts and authenticates a blob into `targetPath` and returns the
+   * plaintext metadata it was sealed with.
+   */
+  async decryptFile(
+    sourcePath: string,
+    relativePath: string,
+    targetPath: string
+  ): Promise<SealedMetadata> {
+    const source = await fs.open(sourcePath, 'r');
+    const target = await fs.open(targetPath, 'w');
+    const plainHash = crypto.createHash('sha256');
+
+    try {
+      const sealed = await readSealedHeader(source);
+      if (!sealed) {
+        throw new Error(`${relativePath} is not an encrypted blob`);
+      }
+      const metadata = this.openMetadata(relativePath, sealed);
+      const algorithm = algorithmOf(sealed);
+      const fileKey = this.fileKey(metadata.hash);
+      const blocks = Math.ceil(metadata.size / BLOCK_SIZE);
+      let position = BLOB_MAGIC.length + 2 + sealed.length;
+
+      for (let index = 0; index < blocks; index++) {
+        const plainLength = Math.min(BLOCK_SIZE, metadata.size - index * BLOCK_SIZE);
+        const encrypted = Buffer.alloc(plainLength + TAG_LENGTH);
+        const { bytesRead } = await source.read(encrypted, 0, encrypted.length, position);
+        if (bytesRead !== encrypted.length) {
+          throw new Error(`${relativePath} is truncated`);
+        }
+        position += bytesRead;
+
+        const decipher = createAeadDecipher(algorithm, fileKey, blockNonce(index));
+        decipher.setAuthTag(encrypted.subarray(plainLength));
+        const block = Buffer.concat([
+          decipher.update(encrypted.subarray(0, plainLength)),
+          decipher.final(),
+        ]);
+        plainHash.update(block);
+        await target.write(block);
+      }
+
+      const { bytesRead } = await source.read(Buffer.alloc(1), 0, 1, position);
+      if (bytesRead !== 0 || plainHash.digest('hex') !== metadata.hash) {
+        throw new Error(`${relativePath} does not match its encrypted metadata`);
+      }
+      return metadata;
+    } finally {
+      await source.close();
+      await target.close();
+    }
+  }
+
+  private createHeader(relativePath: string, metadata: SealedMetadata): Buffer {
+    const sealed = this.sealMetadata(relativePath, metadata);
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(sealed.length);
+    return Buffer.concat([BLOB_MAGIC, length, sealed]);
+  }
+
+  /** Each distinct content gets its own key, so block nonces can simply count. */
+  private fileKey(hash: string): Buffer {
+    return deriveKey(this.contentKey, `file:${hash}`);
+  }
+}
+
+/**
+ * Hands out ciphers for untrusted peers and translates file lists to and from
+ * their encrypted form.
+ */
+export class FolderEncryption {
+  private keys: Map<string, Promise<Buffer>> = new Map();
+  private measuredBlobs: Map<string, EncryptedBlob> = new Map();
+  private readonly secrets: SecretStore;
+
+  /** Without a secret store, passwords are only kept for the session. */
+  constructor(
+    private store: Store<AppConfig>,
+    secrets?: SecretStore
+  ) {
+    this.secrets = secrets ?? new MemorySecretStore();
+  }
+
+  isUntrusted(deviceId: string): boolean {
+    return this.store.get('devices', []).some((d) => d.id === deviceId && d.untrusted === true);
+  }
+
+  /**
+   * Cipher for exchanging this folder with `deviceId`, or null when the device
+   * is trusted with plaintext. Untrusted devices without a password get nothing.
+   */
+  async getCipher(folder: FolderConfig, deviceId: string): Promise<FolderCipher | null> {
+    if (!this.isUntrusted(deviceId)) {
+      return null;
+    }
+
+    const password = await this.secrets.getSecret(passwordKey(folder.id, deviceId));
+    if (!password) {
+      throw new Error(`No encryption password set for untrusted device ${deviceId}`);
+    }
+
+    const cacheKey = `${folder.id}\0${password}`;
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      // The folder ID salts the key, so equal passwords on different folders differ
+      key = scrypt(password, `airsync-lite:${folder.id}`, 32);
+      this.keys.set(cacheKey, key);
+    }
+
+    const algorithm =
+      (this.store.get('security.encryptionAlgorithm') as EncryptionAlgorithm | undefined) ??
+      'aes-256-gcm';
+    return new FolderCipher(await key, algorithm);
+  }
+
+  /**
+   * Keeps the passwords in the secret store, never in the config. An empty
+   * password removes the one set for that device.
+   */
+  async setPasswords(folderId: string, passwords: Record<string, string>): Promise<void> {
+    for (const [deviceId, password] of Object.entries(passwords)) {
+      if (password) {
+        await this.secrets.setSecret(passwordKey(folderId, deviceId), password);
+      } else {
+        await this.secrets.deleteSecret(passwordKey(folderId, deviceId));
+      }
+    }
+  }
+
+  async removePasswords(folderId: string, deviceIds: string[]): Promise<void> {
+    for (const deviceId of deviceIds) {
+      await this.secrets.deleteSecret(passwordKey(folderId, deviceId));
+    }
+  }
+
+  /**
+   * The file list an untrusted device gets: encrypted names, blob sizes and
+   * hashes, and version vectors. Directories and timestamps are left out.
+   */
+  async encryptFileList(
+    cipher: FolderCipher,
+    folderId: string,
+    files: FileInfo[]
+  ): Promise<FileInfo[]> {
+    const encrypted: FileInfo[] = [];
+
+    for (const file of files) {
+      if (file.type !== 'file' || (!file.deleted && !file.hash)) {
+        continue;
+      }
+
+      const relativePath = cipher.encryptPath(file.relativePath);
+      const entry: FileInfo = {
+        path: relativePath,
+        relativePath,
+        name: path.basename(relativePath),
+        size: 0,
+        type: 'file',
+        modifiedAt: new Date(0),
+        createdAt: new Date(0),
+        isIgnored: false,
+        version: file.version,
+        deleted: file.deleted,
+      };
+
+      if (!file.deleted) {
+        try {
+          const blob = await this.measure(cipher, folderId, file);
+          entry.hash = blob.hash;
+          entry.size = blob.size;
+        } catch (error) {
+          logger.warn(`Could not encrypt ${file.relativePath} for an untrusted device`, error);
+          continue;
+        }
+      }
+
+      encrypted.push(entry);
+    }
+
+    return encrypted;
+  }
+
+  /**
+   * Turns an untrusted device's list back into plaintext entries. Entries that
+   * do not decrypt, e.g. because of a wrong password, are dropped.
+   */
+  decryptFileList(cipher: FolderCipher, folder: FolderConfig, files: FileInfo[]): FileInfo[] {
+    const decrypted: FileInfo[] = [];
+    let failed = 0;
+
+    for (const file of files) {
+      if (file.type !== 'file') {
+        continue;
+      }
+
+      try {
+        const relativePath = cipher.decryptPath(file.relativePath);
+        const metadata = file.deleted
+          ? undefined
+          : cipher.openMetadata(relativePath, Buffer.from(file.sealedMetadata ?? '', 'base64'));
+
+        decrypted.push({
+          path: path.join(folder.path, relativePath),
+          relativePath,
+          name: path.basename(relativePath),
+          size: metadata?.size ?? 0,
+          type: 'file',
+          hash: metadata?.hash,
+          modifiedAt: file.modifiedAt,
+          createdAt: file.createdAt,
+          isIgnored: false,
+          version: file.version,
+          deleted: file.deleted,
+        });
+      } catch {
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
+      logger.warn(
+        `Could not decrypt ${failed} entries of ${folder.name}; check the encryption password`
+      );
+    }
+    return decrypted;
+  }
+
+  /**
+   * The file list a `receive-encrypted` folder serves: its blobs, each with the
+   * sealed metadata trusted devices need to compare them against plaintext.
+   */
+  async describeStoredFiles(files: FileInfo[]): Promise<FileInfo[]> {
+    const described: FileInfo[] = [];
+
+    for (const file of files) {
+      if (file.type !== 'file') {
+        continue;
+      }
+      if (file.deleted) {
+        described.push(file);
+        continue;
+      }
+
+      const sealed = await readSealedMetadata(file.path).catch(() => undefined);
+      if (sealed) {
+        described.push({ ...file, sealedMetadata: sealed.toString('base64') });
+      }
+    }
+
+    return described;
+  }
+
+  private async measure(
+    cipher: FolderCipher,
+    folderId: string,
+    file: FileInfo
+  ): Promise<EncryptedBlob> {
+    const cacheKey = [
+      folderId,
+      cipher.encryptPath(file.relativePath),
+      cipher.algorithm,
+      file.hash,
+    ].join('\0');
+    const cached = this.measuredBlobs.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const blob = await cipher.encryptFile(file.path, file.relativePath, {
+      hash: file.hash!,
+      size: file.size,
+    });
+    if (this.measuredBlobs.size >= MAX_MEASURED_BLOBS) {
+      this.measuredBlobs.clear();
+    }
+    this.measuredBlobs.set(cacheKey, blob);
+    return blob;
+  }
+}
+
+/**
+ * Reads the sealed metadata from a blob's header, without needing its key.
+ */
+export async function readSealedMetadata(filePath: string): Promise<Buffer | undefined> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    return await readSealedHeader(handle);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readSealedHeader(handle: fs.FileHandle): Promise<Buffer | undefined> {
+  const prefix = Buffer.alloc(BLOB_MAGIC.length + 2);
+  const { bytesRead } = await handle.read(prefix, 0, prefix.length, 0);
+  if (bytesRead !== prefix.length || !prefix.subarray(0, BLOB_MAGIC.length).equals(BLOB_MAGIC)) {
+    return undefined;
+  }
+
+  const sealed = Buffer.alloc(prefix.readUInt16BE(BLOB_MAGIC.length));
+  const { bytesRead: sealedRead } = await handle.read(sealed, 0, sealed.length, prefix.length);
+  return sealedRead === sealed.length ? sealed : undefined;
+}
+
+function deriveKey(key: Buffer, info: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), info, 32));
+}
+
+function blockNonce(index: number): Buffer {
+  const nonce = Buffer.alloc(NONCE_LENGTH);
+  nonce.writeUInt32BE(index, NONCE_LENGTH - 4);
+  return nonce;
+}
+
+/**
+ * Deterministic authenticated encryption: the nonce is derived from the
+ * plaintext, so equal inputs give equal output and nothing else repeats a nonce.
+ * Layout: algorithm index, nonce, tag, ciphertext.
+ */
+function seal(
+  algorithm: EncryptionAlgorithm,
+  key: Buffer,
+  plaintext: Buffer,
+  aad: Buffer = Buffer.alloc(0)
+): Buffer {
+  const nonce = crypto
+    .createHmac('sha256', key)
+    .update(aad)
+    .update('\0')
+    .update(plaintext)
+    .digest()
+    .subarray(0, NONCE_LENGTH);
+  const cipher = createAeadCipher(algorithm, key, nonce);
+  cipher.setAAD(aad, { plaintextLength: plaintext.length });
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([
+    Buffer.from([ALGORITHMS.indexOf(algorithm)]),
+    nonce,
+    cipher.getAuthTag(),
+    ciphertext,
+  ]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad: Buffer = Buffer.alloc(0)): Buffer {
+  if (sealed.length < 1 + NONCE_LENGTH + TAG_LENGTH) {
+    throw new Error('Sealed data is truncated');
+  }
+  const nonce = sealed.subarray(1, 1 + NONCE_LENGTH);
+  const tag = sealed.subarray(1 + NONCE_LENGTH, 1 + NONCE_LENGTH + TAG_LENGTH);
+  const ciphertext = sealed.subarray(1 + NONCE_LENGTH + TAG_LENGTH);
+
+  const decipher = createAeadDecipher(algorithmOf(sealed), key, nonce);
+  decipher.setAAD(aad, { plaintextLength: ciphertext.length });
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function algorithmOf(sealed: Buffer): EncryptionAlgorithm {
+  const algorithm = ALGORITHMS[sealed[0]];
+  if (!algorithm) {
+    throw new Error(`Unknown encryption algorithm ${sealed[0]}`);
+  }
+  return algorithm;
+}
+
+// Both algorithms are AEADs with 96-bit nonces and 128-bit tags behind the same interface
+function createAeadCipher(
+  algorithm: EncryptionAlgorithm,
+  key: Buffer,
+  nonce: Buffer
+): crypto.CipherGCM {
+  return crypto.createCipheriv(algorithm as crypto.CipherGCMTypes, key, nonce, {
+    authTagLength: TAG_LENGTH,
+  });
+}
+
+function createAeadDecipher(
+  algorithm: EncryptionAlgorithm,
+  key: Buffer,
+  nonce: Buffer
+): crypto.DecipherGCM {
+  return crypto.createDecipheriv(algorithm as crypto.CipherGCMTypes, key, nonce, {
+    authTagLength: TAG_LENGTH,
+  });
+}
+
+/** Secret store entry for the password a folder uses with one device. */
+function passwordKey(folderId: string, deviceId: string): string {
+  return `folder-password:${folderId}:${deviceId}`;
+}
+
+class MemorySecretStore implements SecretStore {
+  private secrets = new Map<string, string>();
+
+  async setSecret(key: string, value: string): Promise<void> {
+    this.secrets.set(key, value);
+  }
+
+  async getSecret(key: string): Promise<string | null> {
+    return this.secrets.get(key) ?? null;
+  }
+
+  async deleteSecret(key: string): Promise<void> {
+    this.secrets.delete(key);
+  }
+}
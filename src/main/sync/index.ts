@@ -3,3 +3,12 @@ export * from './transferManager';
 export * from './versionManager';
 export * from './conflictResolver';
 export * from './fileWatcher';
+export * from './versionVector';
+export * from './fileIndex';
+export * from './chunkStore';
+export * from './deletionSync';
+export * from './conflictRules';
+export * from './bandwidthLimiter';
+export * from './linkStats';
+export * from './downloadScheduler';
+export * from './transferPriorities';
@@ -0,0 +1,88 @@
+export const MIN_CHUNK_SIZE = 64 * 1024;
+/**
+ * The transfer message schemas derive their limits from this, and the socket
+ * server accepts messages up to the largest schema limit.
+ */
+export const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const INITIAL_WINDOW = 4;
+const MAX_WINDOW = 64;
+/** Extra chunks beyond the bandwidth-delay product, so the window can grow. */
+const WINDOW_HEADROOM = 2;
+/** Chunks are sized to take about this long to send at the measured rate. */
+const TARGET_CHUNK_MS = 200;
+/** The minimum RTT is re-learned after this long, in case the route changed. */
+const MIN_RTT_WINDOW_MS = 10_000;
+/** Gaps between acks longer than this mean the link was idle, not slow. */
+const IDLE_GAP_MS = 1000;
+
+/** Chunk sizes are powers of two within the supported range. */
+export function isValidChunkSize(chunkSize: unknown): chunkSize is number {
+  return (
+    typeof chunkSize === 'number' &&
+    Number.isInteger(chunkSize) &&
+    chunkSize >= MIN_CHUNK_SIZE &&
+    chunkSize <= MAX_CHUNK_SIZE &&
+    (chunkSize & (chunkSize - 1)) === 0
+  );
+}
+
+/**
+ * RTT and throughput measured from chunk acks on one connection. They size
+ * the window of chunks kept in flight to the bandwidth-delay product, and the
+ * chunks themselves to the link speed.
+ */
+export class LinkStats {
+  private minRtt?: number;
+  private minRttAt = 0;
+  private smoothedRtt?: number;
+  private throughput?: number; // bytes/second
+  private lastAckAt?: number;
+
+  recordAck(rttMs: number, bytes: number, now = Date.now()): void {
+    if (
+      this.minRtt === undefined ||
+      rttMs <= this.minRtt ||
+      now - this.minRttAt > MIN_RTT_WINDOW_MS
+    ) {
+      this.minRtt = rttMs;
+      this.minRttAt = now;
+    }
+    this.smoothedRtt =
+      this.smoothedRtt === undefined ? rttMs : this.smoothedRtt * 0.875 + rttMs * 0.125;
+
+    const gap = this.lastAckAt === undefined ? 0 : now - this.lastAckAt;
+    if (gap > 0 && gap < IDLE_GAP_MS) {
+      const sample = (bytes * 1000) / gap;
+      this.throughput =
+        this.throughput === undefined ? sample : this.throughput * 0.75 + sample * 0.25;
+    }
+    this.lastAckAt = now;
+  }
+
+  getChunkSize(): number {
+    if (this.throughput === undefined) {
+      return DEFAULT_CHUNK_SIZE;
+    }
+    const target = (this.throughput * TARGET_CHUNK_MS) / 1000;
+    const size = 2 ** Math.round(Math.log2(Math.max(target, 1)));
+    return Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, size));
+  }
+
+  /** Chunks to keep in flight, bounded by what the receiver is willing to buffer. */
+  getWindow(chunkSize: number, maxInFlightBytes: number): number {
+    let window = INITIAL_WINDOW;
+    if (this.throughput !== undefined && this.minRtt !== undefined) {
+      const bandwidthDelay = (this.throughput * this.minRtt) / 1000;
+      window = Math.ceil(bandwidthDelay / chunkSize) + WINDOW_HEADROOM;
+    }
+    const affordable = Math.max(1, Math.floor(maxInFlightBytes / chunkSize));
+    return Math.max(1, Math.min(window, MAX_WINDOW, affordable));
+  }
+
+  /** Ack timeout that leaves room for links slower than the base timeout assumes. */
+  getAckTimeout(baseMs: number): number {
+    return Math.max(baseMs, 4 * (this.smoothedRtt ?? 0));
+  }
+}
@@ -1,12 +1,27 @@
 import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import Store from 'electron-store';
 import PQueue from 'p-queue';
 import { v4 as uuidv4 } from 'uuid';
-import { FileWatcher, FileChangeEvent } from './fileWatcher';
+import { FileWatcher, FileChangeEvent, FilesDeletedEvent } from './fileWatcher';
 import { NetworkManager } from '../network/networkManager';
 import { ConflictResolver } from './conflictResolver';
+import { AutomaticResolution, findConflictRule, resolveByRule } from './conflictRules';
 import { VersionManager } from './versionManager';
 import { TransferManager } from './transferManager';
+import { TransferPriorities, sortByPullOrder } from './transferPriorities';
+import { DeletionRecord, DeletionSyncManager } from './deletionSync';
+import { FolderEncryption } from './folderEncryption';
+import {
+  VersionVectorTracker,
+  VersionOrdering,
+  compareVersionVectors,
+  incrementVersionVector,
+  intersectVersionVectors,
+  mergeVersionVectors,
+} from './versionVector';
 import {
   FolderConfig,
   SyncStatus,
@@ -14,9 +29,12 @@ import {
   FileInfo,
   ConflictInfo,
   SyncEvent,
+  VersionVector,
 } from '../../shared/types/sync';
 import { AppConfig } from '../../shared/types/config';
 import { logger } from '../utils/logger';
+import { validateSyncPath } from '../utils/pathSecurity';
+import type { SecretStore } from '../utils/keychain';
 
 export class SyncEngine extends EventEmitter {
   private syncQueues: Map<string, PQueue> = new Map();
@@ -24,21 +42,53 @@ export class SyncEngine extends EventEmitter {
   private conflictResolver: ConflictResolver;
   private versionManager: VersionManager;
   private transferManager: TransferManager;
+  private transferPriorities: TransferPriorities;
+  private versionVectors: VersionVectorTracker;
+  private deletionSync: DeletionSyncManager;
+  private folderEncryption: FolderEncryption;
   private syncInProgress: Set<string> = new Set();
   private pausedFolders: Set<string> = new Set();
+  /** Conflicts matched by a folder conflict rule, resolved once the current sync pass ends. */
+  private ruleResolutions: Map<
+    string,
+    Array<{ conflict: ConflictInfo; resolution: AutomaticResolution }>
+  > = new Map();
   private initialized = false;
+  private readonly TOMBSTONE_RETENTION_DAYS = 30;
+  private readonly MERGE_ANCESTOR_MAX_SIZE = 1024 * 1024;
 
   constructor(
     private store: Store<AppConfig>,
     private fileWatcher: FileWatcher,
-    private networkManager: NetworkManager
+    private networkManager: NetworkManager,
+    secrets?: SecretStore
   ) {
     super();
 
-    this.conflictResolver = new ConflictResolver(store);
     this.versionManager = new VersionManager(store);
+    this.conflictResolver = new ConflictResolver(store, this.versionManager);
     this.transferManager = new TransferManager(store, networkManager);
+    this.transferManager.setChunkStore(this.fileWatcher.getChunkStore());
+    this.folderEncryption = new FolderEncryption(store, secrets);
+    this.transferManager.setFolderEncryption(this.folderEncryption);
+    this.transferPriorities = new TransferPriorities(store);
+    this.transferManager.setTransferPriorities(this.transferPriorities);
+    this.versionVectors = new VersionVectorTracker(
+      (folderId) => this.fileWatcher.getFileIndex(folderId),
+      networkManager.getDeviceId()
+    );
+    this.deletionSync = new DeletionSyncManager({
+      store,
+      tombstoneRetentionDays: this.TOMBSTONE_RETENTION_DAYS,
+      versionManager: this.versionManager,
+    });
 
+    this.networkManager.setFileListProvider((folderId, deviceId) =>
+      this.getLocalFileList(folderId, deviceId)
+    );
+    this.networkManager.setFileHashLookup((folderId, relativePath, stats) =>
+      this.fileWatcher.getFileIndex(folderId).lookupHash(relativePath, stats)
+    );
     this.setupEventHandlers();
   }
 
@@ -54,6 +104,8 @@ export class SyncEngine extends EventEmitter {
       // Initialize transfer manager
       await this.transferManager.initialize();
 
+      await this.deletionSync.initialize();
+
       // Start watching existing folders
       const folders = this.store.get('folders');
       for (const folder of folders) {
@@ -74,6 +126,10 @@ export class SyncEngine extends EventEmitter {
       this.handleFileChange(event);
     });
 
+    this.fileWatcher.on('files-deleted', (event: FilesDeletedEvent) => {
+      this.recordLocalDeletions(event);
+    });
+
     // Handle network events
     this.networkManager.on('device-connected', (deviceId: string) => {
       this.handleDeviceConnected(deviceId);
@@ -89,6 +145,9 @@ export class SyncEngine extends EventEmitter {
     });
 
     this.transferManager.on('transfer-complete', (transfer) => {
+      this.updateFolderStatus(transfer.folderId, {
+        compression: this.transferManager.getCompressionStats(transfer.folderId),
+      });
       this.emit('transfer-complete', transfer);
     });
 
@@ -165,10 +224,23 @@ export class SyncEngine extends EventEmitter {
     this.folderStatuses.delete(folderId);
     this.syncInProgress.delete(folderId);
     this.pausedFolders.delete(folderId);
+    this.ruleResolutions.delete(folderId);
+    this.transferPriorities.clear(folderId);
+    await this.fileWatcher.deleteFileIndex(folderId);
+    await this.deletionSync.clearFolder(folderId);
+    await this.folderEncryption.removePasswords(
+      folderId,
+      this.store.get('devices').map((device) => device.id)
+    );
 
     logger.info(`Removed folder: ${folderId}`);
   }
 
+  /** Sets the passwords a folder is encrypted with for untrusted devices. */
+  async setEncryptionPasswords(folderId: string, passwords: Record<string, string>): Promise<void> {
+    await this.folderEncryption.setPasswords(folderId, passwords);
+  }
+
   async refreshIgnorePatterns(folderId: string): Promise<void> {
     await this.syncFolder(folderId);
   }
@@ -178,11 +250,170 @@ export class SyncEngine extends EventEmitter {
       await this.syncFolder(folderId);
     } else {
       // Sync all folders
-      const folders = this.store.get('folders');
+      const folders = this.byPriority(this.store.get('folders'));
       await Promise.all(folders.map((folder) => this.syncFolder(folder.id)));
     }
   }
 
+  /**
+   * Moves a file, or everything below a directory, to the front of the
+   * folder's transfers and starts syncing it if the folder is idle.
+   */
+  prioritize(folderId: string, relativePath: string): void {
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    if (!folder) {
+      throw new Error(`Folder not found: ${folderId}`);
+    }
+    validateSyncPath(relativePath, folder.path);
+
+    this.transferPriorities.bump(folderId, relativePath);
+    logger.info(`Prioritized ${relativePath} in folder ${folderId}`);
+    void this.syncFolder(folderId);
+  }
+
+  /**
+   * Makes this send-only folder's state win on every peer: local files become
+   * causally newer than the peers' edits, and files only peers have are
+   * recorded as deleted here. Returns the number of files overridden.
+   */
+  async overrideRemoteChanges(folderId: string): Promise<number> {
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    if (!folder) {
+      throw new Error(`Folder ${folderId} not found`);
+    }
+    if (folder.mode !== 'send-only') {
+      throw new Error('Only send-only folders can override remote changes');
+    }
+
+    const { localFiles, localTombstones, peerFiles } = await this.compareWithPeers(folder);
+    const deviceId = this.networkManager.getDeviceId();
+    let overridden = 0;
+
+    for (const [relativePath, entries] of peerFiles) {
+      const localFile = localFiles.get(relativePath);
+      const tombstone = localTombstones.get(relativePath);
+      const changed = entries.filter((entry) =>
+        localFile
+          ? (entry.deleted || entry.hash !== localFile.hash) &&
+            this.compareVersions(localFile, entry) !== 'newer'
+          : !entry.deleted && (!tombstone || this.compareVersions(tombstone, entry) !== 'newer')
+      );
+      if (changed.length === 0) {
+        continue;
+      }
+
+      const remoteVersion = changed.reduce<VersionVector>(
+        (merged, entry) => mergeVersionVectors(merged, entry.version ?? {}),
+        {}
+      );
+      if (localFile) {
+        this.versionVectors.supersede(folder.id, relativePath, remoteVersion);
+      } else {
+        await this.deletionSync.recordDeletion(relativePath, folder.id, deviceId, {
+          hash: changed[0].hash,
+          size: changed[0].size,
+          version: incrementVersionVector(
+            mergeVersionVectors(tombstone?.version ?? {}, remoteVersion),
+            deviceId
+          ),
+        });
+      }
+      overridden++;
+    }
+
+    logger.info(`Overriding remote changes to ${overridden} files in ${folder.path}`);
+    await this.syncFolder(folderId);
+    return overridden;
+  }
+
+  /**
+   * Discards local changes in this receive-only folder: modified files are
+   * fetched from peers again and files no peer has are moved to the version
+   * store. Returns the number of files reverted.
+   */
+  async revertLocalChanges(folderId: string): Promise<number> {
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    if (!folder) {
+      throw new Error(`Folder ${folderId} not found`);
+    }
+    if (folder.mode !== 'receive-only') {
+      throw new Error('Only receive-only folders can revert local changes');
+    }
+
+    const { localFiles, peerFiles } = await this.compareWithPeers(folder);
+    const index = this.fileWatcher.getFileIndex(folder.id);
+    let reverted = 0;
+
+    for (const [relativePath, localFile] of localFiles) {
+      if (localFile.type !== 'file') {
+        continue;
+      }
+
+      const remoteCopies = (peerFiles.get(relativePath) ?? []).filter((entry) => !entry.deleted);
+      if (remoteCopies.some((entry) => entry.hash === localFile.hash)) {
+        continue;
+      }
+
+      if (remoteCopies.length === 0) {
+        // Added here, or deleted on the peers
+        const filePath = validateSyncPath(relativePath, folder.path);
+        await this.versionManager.archiveFile(
+          filePath,
+          {
+            modifiedAt: localFile.modifiedAt,
+            deviceId: this.networkManager.getDeviceId(),
+            deviceName:
+              this.store.get('devices').find((d) => d.id === 'local')?.name || 'This Device',
+          },
+          folder.versioningPolicy
+        );
+        index.remove(relativePath);
+        await this.removeEmptyDirectories(folder.path, path.dirname(filePath));
+      } else {
+        const newest = remoteCopies.reduce((current, entry) =>
+          this.compareVersions(current, entry) === 'older' ? entry : current
+        );
+        // The next sync sees the peer's history with different content and downloads it
+        this.versionVectors.adopt(folder.id, relativePath, newest.version ?? {});
+      }
+      reverted++;
+    }
+
+    logger.info(`Reverting local changes to ${reverted} files in ${folder.path}`);
+    await this.syncFolder(folderId);
+    return reverted;
+  }
+
+  /**
+   * Current local state of a folder next to what each connected peer has at the same paths.
+   */
+  private async compareWithPeers(folder: FolderConfig): Promise<{
+    localFiles: Map<string, FileInfo>;
+    localTombstones: Map<string, FileInfo>;
+    peerFiles: Map<string, FileInfo[]>;
+  }> {
+    const remoteFiles = await this.getRemoteFiles(folder);
+    if (remoteFiles.size === 0) {
+      throw new Error(`No devices sharing ${folder.name} are connected`);
+    }
+
+    const local = await this.listLocalFiles(folder);
+    const peerFiles = new Map<string, FileInfo[]>();
+    for (const files of remoteFiles.values()) {
+      for (const file of files) {
+        if (file.type === 'file') {
+          peerFiles.set(file.relativePath, [...(peerFiles.get(file.relativePath) ?? []), file]);
+        }
+      }
+    }
+
+    return {
+      localFiles: new Map(local.filter((f) => !f.deleted).map((f) => [f.relativePath, f])),
+      localTombstones: new Map(local.filter((f) => f.deleted).map((f) => [f.relativePath, f])),
+      peerFiles,
+    };
+  }
+
   private async syncFolder(folderId: string): Promise<void> {
     if (this.syncInProgress.has(folderId) || this.pausedFolders.has(folderId)) {
       return;
@@ -196,10 +427,11 @@ export class SyncEngine extends EventEmitter {
 
     this.syncInProgress.add(folderId);
     this.updateFolderStatus(folderId, { state: 'scanning' });
+    const startedAt = Date.now();
 
     try {
       // Scan local files
-      const localFiles = await this.fileWatcher.scanFolder(folder);
+      const localFiles = await this.listLocalFiles(folder);
 
       // Get remote file list from connected devices
       const remoteFiles = await this.getRemoteFiles(folder);
@@ -225,7 +457,13 @@ export class SyncEngine extends EventEmitter {
       const queue = this.syncQueues.get(folderId)!;
       let completed = 0;
 
-      for (const action of syncActions) {
+      const pending = sortByPullOrder(syncActions, (action) => action.file, folder.pullOrder);
+      while (pending.length > 0) {
+        // Paths bumped while the pass runs go next
+        const bumped = pending.findIndex((action) =>
+          this.transferPriorities.isBumped(folderId, action.path)
+        );
+        const [action] = pending.splice(Math.max(bumped, 0), 1);
         await queue.add(async () => {
           try {
             await this.executeSyncAction(folder, action);
@@ -254,6 +492,12 @@ export class SyncEngine extends EventEmitter {
       this.addSyncError(folderId, error);
     } finally {
       this.syncInProgress.delete(folderId);
+      await this.applyConflictRules(folderId);
+      this.transferPriorities.clear(folderId, startedAt);
+      // Paths bumped during the pass may not have been part of it
+      if (this.transferPriorities.hasBumps(folderId)) {
+        void this.syncFolder(folderId);
+      }
     }
   }
 
@@ -285,6 +529,109 @@ export class SyncEngine extends EventEmitter {
     }
   }
 
+  /**
+   * The file list served to `deviceId`: encrypted when the device is untrusted,
+   * and with sealed metadata when this folder only stores encrypted blobs.
+   */
+  private async getLocalFileList(folderId: string, deviceId: string): Promise<FileInfo[]> {
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    if (!folder) {
+      throw new Error(`Folder ${folderId} not found`);
+    }
+
+    const files = this.forPeer(deviceId, await this.listLocalFiles(folder));
+    if (folder.mode === 'receive-encrypted') {
+      return this.folderEncryption.describeStoredFiles(files);
+    }
+
+    const cipher = await this.folderEncryption.getCipher(folder, deviceId);
+    return cipher ? this.folderEncryption.encryptFileList(cipher, folder.id, files) : files;
+  }
+
+  /**
+   * Leaves out tombstones and renames unless the peer agreed to them in the
+   * handshake, both in the lists we serve and in the ones we receive.
+   */
+  private forPeer(deviceId: string, files: FileInfo[]): FileInfo[] {
+    const deletions = this.networkManager.hasPeerFeature(deviceId, 'deletion-sync');
+    const renames = this.networkManager.hasPeerFeature(deviceId, 'rename-ops');
+    if (deletions && renames) {
+      return files;
+    }
+    return files
+      .filter((file) => deletions || !file.deleted)
+      .map((file) => (renames || !file.renamedFrom ? file : { ...file, renamedFrom: undefined }));
+  }
+
+  /**
+   * Scans a folder and returns its files with version vectors, followed by
+   * tombstones for files deleted here or on a peer.
+   */
+  private async listLocalFiles(folder: FolderConfig): Promise<FileInfo[]> {
+    const files = await this.fileWatcher.scanFolder(folder);
+
+    for (const file of files) {
+      const tombstone =
+        file.type === 'file' && this.deletionSync.getTombstone(file.relativePath, folder.id);
+      if (tombstone) {
+        // The file was created again after it was deleted
+        if (tombstone.version) {
+          this.versionVectors.inheritDeleted(folder.id, file.relativePath, tombstone.version);
+        }
+        await this.deletionSync.removeTombstone(file.relativePath, folder.id);
+      }
+    }
+
+    const tombstones = this.deletionSync
+      .getFolderTombstones(folder.id)
+      .map((record) => this.tombstoneToFileInfo(folder, record));
+
+    return [...this.versionVectors.annotate(folder.id, files), ...tombstones];
+  }
+
+  private tombstoneToFileInfo(folder: FolderConfig, record: DeletionRecord): FileInfo {
+    const deletedAt = new Date(record.deletedAt);
+    return {
+      path: path.join(folder.path, record.path),
+      relativePath: record.path,
+      name: path.basename(record.path),
+      size: record.size ?? 0,
+      type: 'file',
+      hash: record.hash,
+      modifiedAt: deletedAt,
+      createdAt: deletedAt,
+      isIgnored: false,
+      version: record.version,
+      deleted: true,
+    };
+  }
+
+  /**
+   * Records tombstones for indexed files a scan found missing, counting the
+   * deletion as a change by this device.
+   */
+  private recordLocalDeletions({ folderId, entries }: FilesDeletedEvent): void {
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    if (folder?.mode === 'receive-only' || folder?.mode === 'receive-encrypted') {
+      // Local changes are not propagated; the files are fetched again instead
+      return;
+    }
+
+    const deviceId = this.networkManager.getDeviceId();
+
+    for (const entry of entries) {
+      this.deletionSync
+        .recordDeletion(entry.relativePath, folderId, deviceId, {
+          hash: entry.hash,
+          size: entry.size,
+          version: entry.version ? incrementVersionVector(entry.version, deviceId) : undefined,
+        })
+        .catch((error) => {
+          logger.error(`Failed to record deletion of ${entry.relativePath}:`, error);
+        });
+    }
+  }
+
   private async getRemoteFiles(folder: FolderConfig): Promise<Map<string, FileInfo[]>> {
     const remoteFiles = new Map<string, FileInfo[]>();
     const connectedDevices = this.networkManager.getConnectedDevices();
@@ -292,8 +639,18 @@ export class SyncEngine extends EventEmitter {
     for (const deviceId of folder.devices) {
       if (connectedDevices.has(deviceId)) {
         try {
-          const files = await this.networkManager.requestFileList(deviceId, folder.id);
-          remoteFiles.set(deviceId, files);
+          const cipher = await this.folderEncryption.getCipher(folder, deviceId);
+          const files: FileInfo[] = await this.networkManager.requestFileList(deviceId, folder.id);
+          // Dates arrive as ISO strings over the socket
+          const parsed = this.forPeer(deviceId, files).map((file) => ({
+            ...file,
+            modifiedAt: new Date(file.modifiedAt),
+            createdAt: new Date(file.createdAt),
+          }));
+          remoteFiles.set(
+            deviceId,
+            cipher ? this.folderEncryption.decryptFileList(cipher, folder, parsed) : parsed
+          );
         } catch (error) {
           logger.error(`Failed to get file list from device ${deviceId}:`, error);
         }
@@ -309,31 +666,80 @@ export class SyncEngine extends EventEmitter {
     remoteFiles: Map<string, FileInfo[]>
   ): Promise<SyncAction[]> {
     const actions: SyncAction[] = [];
-    const localFileMap = new Map(localFiles.map((f) => [f.relativePath, f]));
+    // Send-only folders are authoritative and receive-only ones never publish local changes
+    const receives = folder.mode !== 'send-only';
+    const sends = folder.mode === 'send-receive' || folder.mode === 'send-only';
+    // Encrypted copies cannot be compared; the trusted devices settle conflicts among themselves
+    const raisesConflicts = receives && folder.mode !== 'receive-encrypted';
+    const localFileMap = new Map(
+      localFiles.filter((f) => !f.deleted).map((f) => [f.relativePath, f])
+    );
+    const localTombstones = new Map(
+      localFiles.filter((f) => f.deleted).map((f) => [f.relativePath, f])
+    );
+    const localRenames = new Map(
+      localFiles.filter((f) => f.renamedFrom).map((f) => [f.renamedFrom!, f])
+    );
 
     // Check each remote device
     for (const [deviceId, deviceFiles] of remoteFiles) {
-      const remoteFileMap = new Map(deviceFiles.map((f) => [f.relativePath, f]));
+      const remoteFileMap = new Map(
+        deviceFiles.filter((f) => !f.deleted).map((f) => [f.relativePath, f])
+      );
+      const remoteTombstones = new Map(
+        deviceFiles.filter((f) => f.deleted).map((f) => [f.relativePath, f])
+      );
+      // Local paths the peer moved elsewhere; applying the rename takes care of them
+      const renamedAway = new Set<string>();
+      // Local paths the peer deleted; they are deleted here or raised as conflicts
+      const deletedByPeer = new Set<string>();
 
       // Files to download (exist on remote but not local)
       for (const [path, remoteFile] of remoteFileMap) {
         const localFile = localFileMap.get(path);
 
         if (!localFile) {
-          // File doesn't exist locally - download it
-          if (folder.mode === 'send-receive' || folder.mode === 'receive-only') {
+          const tombstone = localTombstones.get(path);
+          if (tombstone && this.compareVersions(tombstone, remoteFile) !== 'older') {
+            // Our deletion is newer and the peer applies it, or it raises the edit it made concurrently
+            continue;
+          }
+
+          const movedAway = localRenames.get(path);
+          if (movedAway && movedAway.hash === remoteFile.hash) {
+            // We moved this file away; the peer applies our rename
+            continue;
+          }
+
+          const source = remoteFile.renamedFrom
+            ? localFileMap.get(remoteFile.renamedFrom)
+            : undefined;
+          const renamed =
+            source?.type === 'file' &&
+            source.hash === remoteFile.hash &&
+            !remoteFileMap.has(source.relativePath);
+
+          if (renamed) {
+            renamedAway.add(source.relativePath);
+          }
+
+          // File doesn't exist locally - move our copy if the peer renamed it, else download it
+          if (receives) {
             actions.push({
-              type: 'download',
+              type: renamed ? 'rename' : 'download',
               path,
+              previousPath: renamed ? source.relativePath : undefined,
               fromDevice: deviceId,
               file: remoteFile,
             });
           }
         } else if (remoteFile.hash && localFile.hash && remoteFile.hash !== localFile.hash) {
           // File exists but has different content
-          if (remoteFile.modifiedAt > localFile.modifiedAt) {
-            // Remote file is newer
-            if (folder.mode === 'send-receive' || folder.mode === 'receive-only') {
+          const ordering = this.compareVersions(localFile, remoteFile);
+
+          if (ordering === 'older' || ordering === 'equal') {
+            // Remote is causally newer, or we adopted its history when resolving a conflict
+            if (receives) {
               actions.push({
                 type: 'download',
                 path,
@@ -341,9 +747,9 @@ export class SyncEngine extends EventEmitter {
                 file: remoteFile,
               });
             }
-          } else if (remoteFile.modifiedAt < localFile.modifiedAt) {
+          } else if (ordering === 'newer') {
             // Local file is newer
-            if (folder.mode === 'send-receive') {
+            if (sends) {
               actions.push({
                 type: 'upload',
                 path,
@@ -351,45 +757,72 @@ export class SyncEngine extends EventEmitter {
                 file: localFile,
               });
             }
-          } else {
-            // Same modification time but different content - conflict!
-            const conflict: ConflictInfo = {
-              id: uuidv4(),
-              filePath: path,
-              folderId: folder.id,
-              localVersion: {
-                id: uuidv4(),
-                hash: localFile.hash!,
-                size: localFile.size,
-                modifiedAt: localFile.modifiedAt,
-                modifiedBy: 'local',
-                deviceId: 'local',
-                deviceName:
-                  this.store.get('devices').find((d) => d.id === 'local')?.name || 'This Device',
-              },
-              remoteVersion: {
-                id: uuidv4(),
-                hash: remoteFile.hash!,
-                size: remoteFile.size,
-                modifiedAt: remoteFile.modifiedAt,
-                modifiedBy: 'remote',
-                deviceId,
-                deviceName:
-                  this.store.get('devices').find((d) => d.id === deviceId)?.name || deviceId,
-              },
-              detectedAt: new Date(),
-              resolved: false,
-            };
-
-            this.addConflict(folder.id, conflict);
+          } else if (raisesConflicts) {
+            // Concurrent edits on both devices - conflict!
+            this.addConflict(
+              folder.id,
+              this.createConflict(folder, localFile, remoteFile, deviceId)
+            );
+          }
+        } else if (localFile.version && remoteFile.version) {
+          // Same content on both sides - just learn the remote history
+          if (localFile.hash === remoteFile.hash) {
+            await this.recordSharedVersion(
+              folder,
+              localFile,
+              intersectVersionVectors(localFile.version, remoteFile.version)
+            );
+          }
+          this.versionVectors.mergeVersion(folder.id, path, remoteFile.version);
+        }
+      }
+
+      // Files the peer deleted
+      for (const [path, tombstone] of remoteTombstones) {
+        const localFile = localFileMap.get(path);
+        if (localFile?.type !== 'file') {
+          continue;
+        }
+
+        const ordering = this.compareVersions(localFile, tombstone);
+        if (ordering === 'older' || ordering === 'equal') {
+          deletedByPeer.add(path);
+          if (receives) {
+            actions.push({
+              type: 'delete',
+              path,
+              expectedHash: localFile.hash,
+              fromDevice: deviceId,
+              file: tombstone,
+            });
+          }
+        } else if (ordering === 'concurrent') {
+          // Edited here while the peer deleted it
+          deletedByPeer.add(path);
+          if (raisesConflicts) {
+            this.addConflict(
+              folder.id,
+              this.createConflict(folder, localFile, tombstone, deviceId)
+            );
           }
         }
+        // A local copy newer than the deletion is uploaded like a new file
       }
 
       // Files to upload (exist locally but not on remote)
-      if (folder.mode === 'send-receive') {
+      if (sends) {
         for (const [path, localFile] of localFileMap) {
-          if (!remoteFileMap.has(path) && localFile.type === 'file') {
+          const peerHasSource =
+            localFile.renamedFrom !== undefined &&
+            remoteFileMap.get(localFile.renamedFrom)?.hash === localFile.hash;
+
+          if (
+            !remoteFileMap.has(path) &&
+            !renamedAway.has(path) &&
+            !deletedByPeer.has(path) &&
+            !peerHasSource &&
+            localFile.type === 'file'
+          ) {
             actions.push({
               type: 'upload',
               path,
@@ -401,22 +834,132 @@ export class SyncEngine extends EventEmitter {
       }
     }
 
-    return actions;
+    return this.mergeDownloadSources(actions);
+  }
+
+  /**
+   * Several peers offering the same content become one download that pulls
+   * from all of them, instead of one download per peer.
+   */
+  private mergeDownloadSources(actions: SyncAction[]): SyncAction[] {
+    const downloads = new Map<string, SyncAction>();
+    // Peers with different histories of the content are kept apart so each version is recorded
+    const haveSameHistory = (a: FileInfo, b: FileInfo) =>
+      a.version && b.version
+        ? compareVersionVectors(a.version, b.version) === 'equal'
+        : !a.version && !b.version;
+    return actions.filter((action) => {
+      if (action.type !== 'download' || !action.file.hash || !action.fromDevice) {
+        return true;
+      }
+
+      const key = `${action.path}\0${action.file.hash}`;
+      const existing = downloads.get(key);
+      if (!existing || !haveSameHistory(existing.file, action.file)) {
+        action.sources = [action.fromDevice];
+        downloads.set(key, action);
+        return true;
+      }
+      existing.sources!.push(action.fromDevice);
+      return false;
+    });
+  }
+
+  private compareVersions(localFile: FileInfo, remoteFile: FileInfo): VersionOrdering {
+    return localFile.version && remoteFile.version
+      ? compareVersionVectors(localFile.version, remoteFile.version)
+      : this.compareByTimestamp(localFile, remoteFile);
+  }
+
+  /**
+   * Fallback ordering for peers that do not send version vectors.
+   */
+  private compareByTimestamp(localFile: FileInfo, remoteFile: FileInfo): VersionOrdering {
+    const localTime = localFile.modifiedAt.getTime();
+    const remoteTime = remoteFile.modifiedAt.getTime();
+
+    if (remoteTime > localTime) {
+      return 'older';
+    }
+    if (remoteTime < localTime) {
+      return 'newer';
+    }
+    return 'concurrent';
+  }
+
+  private createConflict(
+    folder: FolderConfig,
+    localFile: FileInfo,
+    remoteFile: FileInfo,
+    deviceId: string
+  ): ConflictInfo {
+    return {
+      id: uuidv4(),
+      filePath: localFile.path,
+      folderId: folder.id,
+      localVersion: {
+        id: uuidv4(),
+        hash: localFile.hash!,
+        size: localFile.size,
+        modifiedAt: localFile.modifiedAt,
+        modifiedBy: 'local',
+        deviceId: 'local',
+        deviceName: this.store.get('devices').find((d) => d.id === 'local')?.name || 'This Device',
+        version: localFile.version,
+      },
+      remoteVersion: {
+        id: uuidv4(),
+        hash: remoteFile.hash!,
+        size: remoteFile.size,
+        modifiedAt: remoteFile.modifiedAt,
+        modifiedBy: 'remote',
+        deviceId,
+        deviceName: this.store.get('devices').find((d) => d.id === deviceId)?.name || deviceId,
+        version: remoteFile.version,
+        deleted: remoteFile.deleted,
+      },
+      detectedAt: new Date(),
+      resolved: false,
+    };
   }
 
   private async executeSyncAction(folder: FolderConfig, action: SyncAction): Promise<void> {
     const event: SyncEvent = {
       id: uuidv4(),
-      type: action.type === 'download' ? 'file-modified' : 'file-modified',
+      type:
+        action.type === 'rename'
+          ? 'file-renamed'
+          : action.type === 'delete'
+            ? 'file-deleted'
+            : 'file-modified',
       folderId: folder.id,
       filePath: action.path,
-      deviceId: action.type === 'download' ? action.fromDevice : action.toDevice,
+      deviceId: action.type === 'upload' ? action.toDevice : action.fromDevice,
       timestamp: new Date(),
     };
 
     try {
-      if (action.type === 'download') {
-        await this.transferManager.downloadFile(folder, action.file, action.fromDevice!);
+      if (action.type === 'download' || action.type === 'rename') {
+        if (action.type !== 'rename' || !(await this.applyRename(folder, action))) {
+          if (action.sources && action.sources.length > 1) {
+            await this.transferManager.downloadFileFromPeers(folder, action.file, action.sources);
+          } else {
+            await this.transferManager.downloadFile(folder, action.file, action.fromDevice!);
+          }
+          if (action.file.version) {
+            await this.recordSharedVersion(folder, action.file, action.file.version);
+          }
+        }
+        if (action.file.hash && action.file.version) {
+          this.versionVectors.recordRemoteVersion(
+            folder.id,
+            action.path,
+            action.file.hash,
+            action.file.version
+          );
+        }
+      } else if (action.type === 'delete') {
+        await this.applyDeletion(folder, action);
       } else if (action.type === 'upload') {
         await this.transferManager.uploadFile(folder, action.file, action.toDevice!);
       }
@@ -428,6 +971,134 @@ export class SyncEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Keeps mergeable content that both sides hold in the version store, so it can
+   * serve as the common ancestor when later edits to the file conflict. Only
+   * folders that keep versions do this, and their versioning policy prunes it.
+   */
+  private async recordSharedVersion(
+    folder: FolderConfig,
+    file: FileInfo,
+    version: VersionVector
+  ): Promise<void> {
+    if (
+      folder.versioningPolicy.type === 'none' ||
+      !file.hash ||
+      file.size > this.MERGE_ANCESTOR_MAX_SIZE ||
+      !this.conflictResolver.canMergeContent(file.relativePath)
+    ) {
+      return;
+    }
+
+    try {
+      const filePath = validateSyncPath(file.relativePath, folder.path);
+      if (this.versionManager.hasVersion(filePath, file.hash)) {
+        return;
+      }
+
+      const content = await fs.readFile(filePath);
+      if (crypto.createHash('sha256').update(content).digest('hex') !== file.hash) {
+        return;
+      }
+
+      await this.versionManager.createVersion(
+        filePath,
+        content,
+        {
+          hash: file.hash,
+          size: content.length,
+          modifiedAt: new Date(),
+          deviceId: this.networkManager.getDeviceId(),
+          deviceName:
+            this.store.get('devices').find((d) => d.id === 'local')?.name || 'This Device',
+          version,
+        },
+        folder.versioningPolicy
+      );
+    } catch (error) {
+      logger.warn(`Failed to keep shared version of ${file.relativePath}:`, error);
+    }
+  }
+
+  /**
+   * Moves our copy of a file the peer renamed instead of downloading it again.
+   * Returns false when our copy no longer matches and the file must be fetched.
+   */
+  private async applyRename(folder: FolderConfig, action: SyncAction): Promise<boolean> {
+    const previousPath = action.previousPath!;
+    const sourcePath = validateSyncPath(previousPath, folder.path);
+    const targetPath = validateSyncPath(action.path, folder.path);
+    const index = this.fileWatcher.getFileIndex(folder.id);
+
+    const stats = await fs.stat(sourcePath).catch(() => null);
+    const targetExists = await fs.stat(targetPath).then(
+      () => true,
+      () => false
+    );
+    if (
+      !stats?.isFile() ||
+      targetExists ||
+      index.lookupHash(previousPath, stats) !== action.file.hash
+    ) {
+      logger.info(`Cannot apply rename of ${previousPath}, downloading ${action.path} instead`);
+      return false;
+    }
+
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.rename(sourcePath, targetPath);
+    index.rename(previousPath, action.path);
+    await this.removeEmptyDirectories(folder.path, path.dirname(sourcePath));
+
+    logger.info(`Renamed ${previousPath} -> ${action.path} to match ${action.fromDevice}`);
+    return true;
+  }
+
+  /**
+   * Deletes our copy of a file the peer deleted, moving it into the version store.
+   * Leaves the file alone when it changed since the scan that decided to delete it.
+   */
+  private async applyDeletion(folder: FolderConfig, action: SyncAction): Promise<void> {
+    const targetPath = validateSyncPath(action.path, folder.path);
+    const index = this.fileWatcher.getFileIndex(folder.id);
+
+    const stats = await fs.stat(targetPath).catch(() => null);
+    if (stats && index.lookupHash(action.path, stats) !== action.expectedHash) {
+      logger.info(`${action.path} changed since it was scanned, not deleting it`);
+      return;
+    }
+
+    await this.deletionSync.handleRemoteDeletion(
+      action.path,
+      folder.id,
+      action.fromDevice!,
+      folder,
+      {
+        deletedAt: action.file.modifiedAt.getTime(),
+        hash: action.file.hash,
+        size: action.file.size,
+        version: action.file.version,
+      }
+    );
+    index.remove(action.path);
+    await this.removeEmptyDirectories(folder.path, path.dirname(targetPath));
+  }
+
+  /**
+   * Removes `dirPath` and its parents up to the folder root while they are empty,
+   * so renamed or deleted directories do not leave their old tree behind.
+   */
+  private async removeEmptyDirectories(rootPath: string, dirPath: string): Promise<void> {
+    let current = dirPath;
+    while (current.startsWith(rootPath + path.sep)) {
+      try {
+        await fs.rmdir(current);
+      } catch {
+        return;
+      }
+      current = path.dirname(current);
+    }
+  }
+
   private handleFileChange(event: FileChangeEvent): void {
     if (this.pausedFolders.has(event.folderId)) {
       return;
@@ -442,12 +1113,17 @@ export class SyncEngine extends EventEmitter {
 
   private handleDeviceConnected(deviceId: string): void {
     // Sync all folders that include this device
-    const folders = this.store.get('folders');
+    const folders = this.byPriority(this.store.get('folders'));
     folders
       .filter((folder) => folder.devices.includes(deviceId))
       .forEach((folder) => this.syncFolder(folder.id));
   }
 
+  /** Folders with a higher priority start syncing, and queue their transfers, first. */
+  private byPriority(folders: FolderConfig[]): FolderConfig[] {
+    return [...folders].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  }
+
   private handleDeviceDisconnected(deviceId: string): void {
     // Update folder statuses
     const folders = this.store.get('folders');
@@ -536,6 +1212,34 @@ export class SyncEngine extends EventEmitter {
   }
 
   private addConflict(folderId: string, conflict: ConflictInfo): void {
+    const status = this.folderStatuses.get(folderId);
+    if (!status) {
+      return;
+    }
+
+    // The same unresolved conflict is detected again on every sync pass
+    const pending = this.ruleResolutions.get(folderId) ?? [];
+    if (
+      status.conflicts?.some((c) => !c.resolved && c.filePath === conflict.filePath) ||
+      pending.some((entry) => entry.conflict.filePath === conflict.filePath)
+    ) {
+      return;
+    }
+
+    const resolution = this.matchConflictRule(folderId, conflict);
+    if (resolution) {
+      pending.push({ conflict, resolution });
+      this.ruleResolutions.set(folderId, pending);
+      return;
+    }
+
+    this.queueConflict(folderId, conflict);
+  }
+
+  /**
+   * Puts a conflict in front of the user on the Conflicts page.
+   */
+  private queueConflict(folderId: string, conflict: ConflictInfo): void {
     const status = this.folderStatuses.get(folderId);
     if (status) {
       status.conflicts = [...(status.conflicts || []), conflict];
@@ -544,6 +1248,46 @@ export class SyncEngine extends EventEmitter {
     }
   }
 
+  private matchConflictRule(folderId: string, conflict: ConflictInfo): AutomaticResolution | null {
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    if (!folder?.conflictRules?.length) {
+      return null;
+    }
+
+    const peer = this.store.get('devices').find((d) => d.id === conflict.remoteVersion.deviceId);
+    const rule = findConflictRule(
+      folder.conflictRules,
+      path.relative(folder.path, conflict.filePath),
+      peer
+    );
+    return rule ? resolveByRule(rule, conflict) : null;
+  }
+
+  /**
+   * Resolves the conflicts matched by folder rules during the last sync pass.
+   * Any that cannot be resolved automatically are queued for the user instead.
+   */
+  private async applyConflictRules(folderId: string): Promise<void> {
+    const pending = this.ruleResolutions.get(folderId);
+    if (!pending?.length) {
+      return;
+    }
+    this.ruleResolutions.delete(folderId);
+
+    for (const { conflict, resolution } of pending) {
+      try {
+        logger.info(`Resolving conflict for ${conflict.filePath} by folder rule: ${resolution}`);
+        await this.applyResolution(folderId, conflict, resolution);
+        if (!conflict.resolved) {
+          this.queueConflict(folderId, conflict);
+        }
+      } catch (error) {
+        logger.warn(`Conflict rule failed for ${conflict.filePath}, leaving it to the user`, error);
+        this.queueConflict(folderId, conflict);
+      }
+    }
+  }
+
   getSyncStatus(folderId?: string): SyncStatus | Map<string, SyncStatus> {
     if (folderId) {
       return (
@@ -560,7 +1304,7 @@ export class SyncEngine extends EventEmitter {
 
   async resolveConflict(
     conflictId: string,
-    resolution: 'local' | 'remote' | 'both'
+    resolution: 'local' | 'remote' | 'both' | 'merge'
   ): Promise<void> {
     // Find the conflict
     let foundFolderId: string | null = null;
@@ -579,18 +1323,85 @@ export class SyncEngine extends EventEmitter {
       throw new Error('Conflict not found');
     }
 
-    await this.conflictResolver.resolveConflict(foundConflict, resolution);
+    await this.applyResolution(foundFolderId, foundConflict, resolution);
+  }
+
+  private async applyResolution(
+    folderId: string,
+    conflict: ConflictInfo,
+    resolution: AutomaticResolution
+  ): Promise<void> {
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    if (resolution === 'merge') {
+      if (!folder) {
+        throw new Error(`Folder ${folderId} not found`);
+      }
+      await this.fetchRemoteCopy(folder, conflict);
+    }
+
+    await this.conflictResolver.resolveConflict(conflict, resolution);
+
+    if (!conflict.resolved) {
+      // The merge left conflict markers for the user to sort out
+      this.updateFolderStatus(folderId, {});
+      return;
+    }
+
+    const remoteVersion = conflict.remoteVersion.version;
+    if (folder && remoteVersion) {
+      const relativePath = path.relative(folder.path, conflict.filePath);
+      // A merged file is a new local edit that includes the remote changes
+      if (resolution === 'local' || resolution === 'merge') {
+        this.versionVectors.supersede(folderId, relativePath, remoteVersion);
+      } else {
+        this.versionVectors.adopt(folderId, relativePath, remoteVersion);
+      }
+    }
 
     // Update status
-    const status = this.folderStatuses.get(foundFolderId)!;
-    status.conflicts = status.conflicts?.filter((c) => c.id !== conflictId) || [];
+    const status = this.folderStatuses.get(folderId)!;
+    status.conflicts = status.conflicts?.filter((c) => c.id !== conflict.id) || [];
 
     if (status.conflicts.length === 0 && status.state === 'conflict') {
-      this.updateFolderStatus(foundFolderId, { state: 'idle' });
+      this.updateFolderStatus(folderId, { state: 'idle' });
     }
 
     // Resync folder
-    await this.syncFolder(foundFolderId);
+    await this.syncFolder(folderId);
+  }
+
+  /**
+   * Downloads the peer's side of a conflict into the conflict workspace
+   * without touching our copy of the file.
+   */
+  private async fetchRemoteCopy(folder: FolderConfig, conflict: ConflictInfo): Promise<void> {
+    const remote = conflict.remoteVersion;
+    if (remote.deleted) {
+      throw new Error(
+        `${conflict.filePath} was deleted on ${remote.deviceName} and cannot be merged`
+      );
+    }
+
+    const relativePath = path.relative(folder.path, conflict.filePath);
+    const file: FileInfo = {
+      path: conflict.filePath,
+      relativePath,
+      name: path.basename(relativePath),
+      size: remote.size,
+      type: 'file',
+      hash: remote.hash,
+      modifiedAt: remote.modifiedAt,
+      createdAt: remote.modifiedAt,
+      isIgnored: false,
+      version: remote.version,
+    };
+
+    await this.transferManager.downloadFile(
+      folder,
+      file,
+      remote.deviceId,
+      this.conflictResolver.getRemoteCopyPath(conflict)
+    );
   }
 
   async stop(): Promise<void> {
@@ -605,6 +1416,7 @@ export class SyncEngine extends EventEmitter {
     this.syncInProgress.clear();
     this.pausedFolders.clear();
 
+    this.deletionSync.stop();
     await this.versionManager.cleanup();
     await this.transferManager.stop();
 
@@ -613,9 +1425,15 @@ export class SyncEngine extends EventEmitter {
 }
 
 interface SyncAction {
-  type: 'download' | 'upload';
+  type: 'download' | 'upload' | 'rename' | 'delete';
   path: string;
+  /** Local path to move to `path` for `rename` actions. */
+  previousPath?: string;
+  /** Content the local copy must still have for `delete` actions. */
+  expectedHash?: string;
   fromDevice?: string;
+  /** Every peer offering the same content for `download` actions, `fromDevice` first. */
+  sources?: string[];
   toDevice?: string;
   file: FileInfo;
 }
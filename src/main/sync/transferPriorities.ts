@@ -0,0 +1,116 @@
+import Store from 'electron-store';
+import { AppConfig } from '../../shared/types/config';
+import { FileInfo, PullOrder } from '../../shared/types/sync';
+
+/** Queue priority of bumped files, above any folder priority. */
+export const BUMPED_PRIORITY = 1000;
+
+/**
+ * Queue priorities of transfers: the priority of their folder, unless the
+ * file or one of its parent directories was moved to the front by the user.
+ */
+export class TransferPriorities {
+  /** Bumped paths per folder, with the time they were bumped. */
+  private readonly bumped = new Map<string, Map<string, number>>();
+
+  constructor(private store: Store<AppConfig>) {}
+
+  /** Moves a file, or everything below a directory, to the front of the queues. */
+  bump(folderId: string, relativePath: string, now = Date.now()): void {
+    const normalized = normalizePath(relativePath);
+    let paths = this.bumped.get(folderId);
+    if (!paths) {
+      paths = new Map();
+      this.bumped.set(folderId, paths);
+    }
+    paths.set(normalized, now);
+  }
+
+  isBumped(folderId: string, relativePath: string): boolean {
+    const paths = this.bumped.get(folderId);
+    if (!paths || paths.size === 0) {
+      return false;
+    }
+    if (paths.has('')) {
+      return true;
+    }
+
+    const segments = normalizePath(relativePath).split('/');
+    for (let length = segments.length; length > 0; length--) {
+      if (paths.has(segments.slice(0, length).join('/'))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  hasBumps(folderId: string): boolean {
+    return (this.bumped.get(folderId)?.size ?? 0) > 0;
+  }
+
+  getPriority(folderId: string, relativePath?: string): number {
+    if (relativePath !== undefined && this.isBumped(folderId, relativePath)) {
+      return BUMPED_PRIORITY;
+    }
+    const folder = this.store.get('folders').find((f) => f.id === folderId);
+    return folder?.priority ?? 0;
+  }
+
+  /** Forgets bumps made before `before`, i.e. the ones a finished sync pass handled. */
+  clear(folderId: string, before = Infinity): void {
+    const paths = this.bumped.get(folderId);
+    if (!paths) {
+      return;
+    }
+    for (const [relativePath, bumpedAt] of paths) {
+      if (bumpedAt < before) {
+        paths.delete(relativePath);
+      }
+    }
+    if (paths.size === 0) {
+      this.bumped.delete(folderId);
+    }
+  }
+}
+
+/**
+ * Sorts items by the file they transfer. Without an order the discovery order
+ * is kept.
+ */
+export function sortByPullOrder<T>(
+  items: T[],
+  getFile: (item: T) => FileInfo,
+  order?: PullOrder
+): T[] {
+  const sorted = [...items];
+  switch (order) {
+    case 'smallest-first':
+      return sorted.sort((a, b) => getFile(a).size - getFile(b).size);
+    case 'oldest-first':
+      return sorted.sort((a, b) => getTime(getFile(a)) - getTime(getFile(b)));
+    case 'newest-first':
+      return sorted.sort((a, b) => getTime(getFile(b)) - getTime(getFile(a)));
+    case 'alphabetic':
+      return sorted.sort((a, b) => getFile(a).relativePath.localeCompare(getFile(b).relativePath));
+    case 'random':
+      for (let index = sorted.length - 1; index > 0; index--) {
+        const other = Math.floor(Math.random() * (index + 1));
+        [sorted[index], sorted[other]] = [sorted[other], sorted[index]];
+      }
+      return sorted;
+    default:
+      return sorted;
+  }
+}
+
+function normalizePath(relativePath: string): string {
+  return relativePath
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment && segment !== '.')
+    .join('/');
+}
+
+function getTime(file: FileInfo): number {
+  return new Date(file.modifiedAt).getTime();
+}
@@ -4,8 +4,9 @@ import * as crypto from 'crypto';
 import { app } from 'electron';
 import Store from 'electron-store';
 import { v4 as uuidv4 } from 'uuid';
-import { FileVersion, VersioningPolicy } from '../../shared/types/sync';
+import { FileVersion, VersioningPolicy, VersionVector } from '../../shared/types/sync';
 import { AppConfig } from '../../shared/types/config';
+import { compareVersionVectors } from './versionVector';
 import { logger } from '../utils/logger';
 
 interface VersionedFile {
@@ -14,6 +15,18 @@ interface VersionedFile {
   currentVersion: string;
 }
 
+interface VersionMetadata {
+  hash: string;
+  size: number;
+  modifiedAt: Date;
+  deviceId: string;
+  deviceName: string;
+  /** Version vector of the content, so it can serve as a merge ancestor. */
+  version?: VersionVector;
+}
+
+const HASH_BUFFER_SIZE = 1024 * 1024;
+
 export class VersionManager {
   private versionsDir: string;
   private versionDb: Map<string, VersionedFile> = new Map();
@@ -45,7 +58,12 @@ export class VersionManager {
       const db = JSON.parse(data);
 
       for (const [path, file] of Object.entries(db)) {
-        this.versionDb.set(path, file as VersionedFile);
+        const versionedFile = file as VersionedFile;
+        // Dates come back from JSON as strings
+        versionedFile.versions.forEach((version) => {
+          version.modifiedAt = new Date(version.modifiedAt);
+        });
+        this.versionDb.set(path, versionedFile);
       }
 
       logger.info(`Loaded ${this.versionDb.size} versioned files`);
@@ -69,14 +87,51 @@ export class VersionManager {
   async createVersion(
     filePath: string,
     fileContent: Buffer,
+    metadata: VersionMetadata,
+    policy: VersioningPolicy
+  ): Promise<FileVersion> {
+    return this.addVersion(filePath, metadata, policy, (versionPath) =>
+      fs.writeFile(versionPath, fileContent)
+    );
+  }
+
+  /**
+   * Moves a file into the version store instead of deleting it outright. The
+   * file is renamed, or copied when the store is on another drive, so large
+   * files are never read into memory.
+   */
+  async archiveFile(
+    filePath: string,
     metadata: {
-      hash: string;
-      size: number;
       modifiedAt: Date;
       deviceId: string;
       deviceName: string;
     },
     policy: VersioningPolicy
+  ): Promise<FileVersion> {
+    const { hash, size } = await hashFile(filePath);
+    const version = await this.addVersion(
+      filePath,
+      { ...metadata, hash, size },
+      policy,
+      (versionPath) => moveFile(filePath, versionPath)
+    );
+    // Still there when the store already held this content
+    await fs.rm(filePath, { force: true });
+
+    logger.info(`Archived deleted file ${filePath} as version ${version.id}`);
+    return version;
+  }
+
+  /**
+   * Records a version of `filePath`, with `storeContent` putting its content
+   * at the version's path unless a version with the same hash exists.
+   */
+  private async addVersion(
+    filePath: string,
+    metadata: VersionMetadata,
+    policy: VersioningPolicy,
+    storeContent: (versionPath: string) => Promise<void>
   ): Promise<FileVersion> {
     const version: FileVersion = {
       id: uuidv4(),
@@ -86,6 +141,7 @@ export class VersionManager {
       modifiedBy: metadata.deviceName,
       deviceId: metadata.deviceId,
       deviceName: metadata.deviceName,
+      version: metadata.version,
     };
 
     // Get or create versioned file entry
@@ -103,13 +159,17 @@ export class VersionManager {
     const existingVersion = versionedFile.versions.find((v) => v.hash === version.hash);
     if (existingVersion) {
       logger.debug(`Version already exists for ${filePath} with hash ${version.hash}`);
+      if (!existingVersion.version && metadata.version) {
+        existingVersion.version = metadata.version;
+        await this.saveVersionDatabase();
+      }
       return existingVersion;
     }
 
     // Store version content
     const versionPath = this.getVersionPath(filePath, version.id);
     await fs.mkdir(path.dirname(versionPath), { recursive: true });
-    await fs.writeFile(versionPath, fileContent);
+    await storeContent(versionPath);
 
     // Add to versions list
     versionedFile.versions.push(version);
@@ -196,6 +256,38 @@ export class VersionManager {
     );
   }
 
+  hasVersion(filePath: string, hash: string): boolean {
+    return this.versionDb.get(filePath)?.versions.some((v) => v.hash === hash) ?? false;
+  }
+
+  /**
+   * Finds the most recent stored version that both given versions descend from.
+   */
+  async findCommonAncestor(
+    filePath: string,
+    local: VersionVector,
+    remote: VersionVector
+  ): Promise<FileVersion | null> {
+    const precedes = (ancestor: VersionVector, descendant: VersionVector) => {
+      const ordering = compareVersionVectors(ancestor, descendant);
+      return ordering === 'older' || ordering === 'equal';
+    };
+
+    let ancestor: FileVersion | null = null;
+    for (const version of await this.getVersions(filePath)) {
+      if (
+        version.version &&
+        precedes(version.version, local) &&
+        precedes(version.version, remote) &&
+        (!ancestor || compareVersionVectors(version.version, ancestor.version!) === 'newer')
+      ) {
+        ancestor = version;
+      }
+    }
+
+    return ancestor;
+  }
+
   async getVersion(filePath: string, versionId: string): Promise<Buffer | null> {
     const versionedFile = this.versionDb.get(filePath);
     if (!versionedFile) {
@@ -540,3 +632,35 @@ export class VersionManager {
     return `${seconds} second${seconds !== 1 ? 's' : ''}`;
   }
 }
+
+async function hashFile(filePath: string): Promise<{ hash: string; size: number }> {
+  const hash = crypto.createHash('sha256');
+  const handle = await fs.open(filePath, 'r');
+  const buffer = Buffer.alloc(HASH_BUFFER_SIZE);
+  let size = 0;
+
+  try {
+    let bytesRead: number;
+    do {
+      ({ bytesRead } = await handle.read(buffer, 0, buffer.length, size));
+      hash.update(buffer.subarray(0, bytesRead));
+      size += bytesRead;
+    } while (bytesRead > 0);
+  } finally {
+    await handle.close();
+  }
+
+  return { hash: hash.digest('hex'), size };
+}
+
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.copyFile(from, to);
+    await fs.unlink(from);
+  }
+}
@@ -0,0 +1,202 @@
+import { FileInfo, VersionVector } from '../../shared/types/sync';
+import { FileIndex } from './fileIndex';
+
+/**
+ * Causal relationship of a local version vector to a remote one.
+ */
+export type VersionOrdering = 'equal' | 'newer' | 'older' | 'concurrent';
+
+export function compareVersionVectors(
+  local: VersionVector,
+  remote: VersionVector
+): VersionOrdering {
+  let localAhead = false;
+  let remoteAhead = false;
+
+  const deviceIds = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  for (const deviceId of deviceIds) {
+    const localCounter = local[deviceId] ?? 0;
+    const remoteCounter = remote[deviceId] ?? 0;
+
+    if (localCounter > remoteCounter) {
+      localAhead = true;
+    } else if (remoteCounter > localCounter) {
+      remoteAhead = true;
+    }
+  }
+
+  if (localAhead && remoteAhead) {
+    return 'concurrent';
+  }
+  if (localAhead) {
+    return 'newer';
+  }
+  if (remoteAhead) {
+    return 'older';
+  }
+  return 'equal';
+}
+
+export function incrementVersionVector(vector: VersionVector, deviceId: string): VersionVector {
+  return { ...vector, [deviceId]: (vector[deviceId] ?? 0) + 1 };
+}
+
+export function mergeVersionVectors(a: VersionVector, b: VersionVector): VersionVector {
+  const merged: VersionVector = { ...a };
+  for (const [deviceId, counter] of Object.entries(b)) {
+    merged[deviceId] = Math.max(merged[deviceId] ?? 0, counter);
+  }
+  return merged;
+}
+
+/**
+ * History both vectors contain: the per-device minimum of their counters.
+ */
+export function intersectVersionVectors(a: VersionVector, b: VersionVector): VersionVector {
+  const common: VersionVector = {};
+  for (const [deviceId, counter] of Object.entries(a)) {
+    const shared = Math.min(counter, b[deviceId] ?? 0);
+    if (shared > 0) {
+      common[deviceId] = shared;
+    }
+  }
+  return common;
+}
+
+/**
+ * Maintains per-file version vectors in the folder's file index so that local
+ * edits bump this device's counter exactly once per content change.
+ */
+export class VersionVectorTracker {
+  constructor(
+    private resolveIndex: (folderId: string) => FileIndex,
+    private deviceId: string
+  ) {}
+
+  /**
+   * Attaches version vectors to scanned files, incrementing the local counter
+   * for files whose content changed since the vector was last updated.
+   */
+  annotate(folderId: string, files: FileInfo[]): FileInfo[] {
+    const index = this.resolveIndex(folderId);
+    const updates: Array<{ relativePath: string; version: VersionVector; versionHash: string }> =
+      [];
+
+    for (const file of files) {
+      if (file.type !== 'file' || !file.hash) {
+        continue;
+      }
+
+      const entry = index.get(file.relativePath);
+      if (entry?.version && entry.versionHash === file.hash) {
+        file.version = entry.version;
+        continue;
+      }
+
+      file.version = incrementVersionVector(entry?.version ?? {}, this.deviceId);
+      updates.push({
+        relativePath: file.relativePath,
+        version: file.version,
+        versionHash: file.hash,
+      });
+    }
+
+    index.setVersions(updates);
+    return files;
+  }
+
+  getVersion(folderId: string, relativePath: string): VersionVector | undefined {
+    return this.resolveIndex(folderId).get(relativePath)?.version;
+  }
+
+  /**
+   * Records content received from a peer, so the next scan does not treat it as a local edit.
+   */
+  recordRemoteVersion(
+    folderId: string,
+    relativePath: string,
+    hash: string,
+    version: VersionVector
+  ): void {
+    const index = this.resolveIndex(folderId);
+    const known = index.get(relativePath)?.version ?? {};
+    index.setVersions([
+      { relativePath, version: mergeVersionVectors(known, version), versionHash: hash },
+    ]);
+  }
+
+  /**
+   * Merges a peer's history into ours when both sides already hold identical content.
+   */
+  mergeVersion(folderId: string, relativePath: string, version: VersionVector): void {
+    const index = this.resolveIndex(folderId);
+    const entry = index.get(relativePath);
+    if (!entry?.version || !entry.versionHash) {
+      return;
+    }
+
+    const merged = mergeVersionVectors(entry.version, version);
+    if (compareVersionVectors(merged, entry.version) !== 'equal') {
+      index.setVersions([{ relativePath, version: merged, versionHash: entry.versionHash }]);
+    }
+  }
+
+  /**
+   * Carries the history of a deleted file over to a file created again at its
+   * path, so the next `annotate` counts the new file as a change after the deletion.
+   */
+  inheritDeleted(folderId: string, relativePath: string, deletedVersion: VersionVector): void {
+    const index = this.resolveIndex(folderId);
+    const entry = index.get(relativePath);
+    if (entry?.version && compareVersionVectors(entry.version, deletedVersion) === 'newer') {
+      return;
+    }
+
+    index.setVersions([
+      {
+        relativePath,
+        version: mergeVersionVectors(entry?.version ?? {}, deletedVersion),
+        // Matches no content, so the local counter is bumped even for identical content
+        versionHash: '',
+      },
+    ]);
+  }
+
+  /**
+   * Makes the local copy causally newer than the given remote version (conflict resolved as "local").
+   */
+  supersede(folderId: string, relativePath: string, remoteVersion: VersionVector): void {
+    const index = this.resolveIndex(folderId);
+    const entry = index.get(relativePath);
+    if (!entry?.version || !entry.versionHash) {
+      return;
+    }
+
+    index.setVersions([
+      {
+        relativePath,
+        version: incrementVersionVector(
+          mergeVersionVectors(entry.version, remoteVersion),
+          this.deviceId
+        ),
+        versionHash: entry.versionHash,
+      },
+    ]);
+  }
+
+  /**
+   * Adopts the remote history while keeping the local hash, so the next sync
+   * downloads the remote content instead of re-raising the conflict.
+   */
+  adopt(folderId: string, relativePath: string, remoteVersion: VersionVector): void {
+    const index = this.resolveIndex(folderId);
+    const entry = index.get(relativePath);
+    if (!entry?.versionHash) {
+      return;
+    }
+
+    index.setVersions([
+      { relativePath, version: { ...remoteVersion }, versionHash: entry.versionHash },
+    ]);
+  }
+}
@@ -4,11 +4,13 @@ import { logger } from './logger';
 import { getCliBridgePath } from '../../shared/constants/cliBridge';
 import { FileEntry } from '../../shared/types/sync';
 
-export type CliAction = 'sync' | 'status-tree';
+export type CliAction = 'sync' | 'status-tree' | 'override-remote' | 'revert-local' | 'prioritize';
 
 export interface CliRequest {
   action: CliAction;
   folderId?: string;
+  /** File or directory to move to the front, for `prioritize`. */
+  path?: string;
 }
 
 export interface CliSyncResponse {
@@ -21,9 +23,18 @@ export interface CliStatusTreeResponse {
   files: FileEntry[];
 }
 
+export interface CliFolderResetResponse {
+  folderId: string;
+  /** Number of files brought back in line with the authoritative side. */
+  files: number;
+}
+
 export interface CliBridgeHandlers {
   sync: (folderId?: string) => Promise<CliSyncResponse>;
   statusTree: (folderId: string) => Promise<CliStatusTreeResponse>;
+  overrideRemote: (folderId: string) => Promise<CliFolderResetResponse>;
+  revertLocal: (folderId: string) => Promise<CliFolderResetResponse>;
+  prioritize: (folderId: string, relativePath: string) => Promise<CliSyncResponse>;
 }
 
 export interface CliBridgeServer {
@@ -44,6 +55,21 @@ export async function handleCliRequest(
         throw new Error('folderId is required for status-tree');
       }
       return handlers.statusTree(payload.folderId);
+    case 'override-remote':
+      if (!payload.folderId) {
+        throw new Error('folderId is required for override-remote');
+      }
+      return handlers.overrideRemote(payload.folderId);
+    case 'revert-local':
+      if (!payload.folderId) {
+        throw new Error('folderId is required for revert-local');
+      }
+      return handlers.revertLocal(payload.folderId);
+    case 'prioritize':
+      if (!payload.folderId || !payload.path) {
+        throw new Error('folderId and path are required for prioritize');
+      }
+      return handlers.prioritize(payload.folderId, payload.path);
     default:
       throw new Error(`Unsupported CLI action: ${payload.action}`);
   }
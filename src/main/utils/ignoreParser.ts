@@ -10,6 +10,7 @@ export class IgnoreParser {
 
   constructor() {
     this.ig = ignore();
+    this.rebuildIgnore();
   }
 
   async loadFromFolder(folderPath: string): Promise<void> {
@@ -140,6 +141,12 @@ export class IgnoreParser {
     // Always ignore .stignore files themselves
     this.ig.add('.stignore');
 
+    // Always ignore partial downloads the transfer manager keeps for resuming
+    this.ig.add('.airsync-partial/');
+
+    // Always ignore merge results left for the user to finish by hand
+    this.ig.add('*.~merge~*');
+
     // Always ignore system files
     this.ig.add([
       '.DS_Store',
@@ -157,6 +164,11 @@ export class IgnoreParser {
     // Normalize path separators
     const normalizedPath = relativePath.replace(/\\/g, '/');
 
+    // The folder root itself (empty relative path) can never be ignored
+    if (normalizedPath === '' || normalizedPath === '.') {
+      return false;
+    }
+
     // Check if path or any parent directory is ignored
     const parts = normalizedPath.split('/');
     for (let i = 1; i <= parts.length; i++) {
@@ -9,7 +9,14 @@ interface KeychainStore {
   encryptedSecrets: Record<string, string>;
 }
 
-export class KeychainManager {
+/** The part of the keychain that components holding secrets depend on. */
+export interface SecretStore {
+  setSecret(key: string, value: string): Promise<void>;
+  getSecret(key: string): Promise<string | null>;
+  deleteSecret(key: string): Promise<void>;
+}
+
+export class KeychainManager implements SecretStore {
   private store: Store<KeychainStore>;
   private static readonly KEY_FILE = '.keychain.key';
 
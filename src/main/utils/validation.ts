@@ -8,15 +8,62 @@ import {
   ScheduleConfig,
   SecurityConfig,
 } from '../../shared/types/config';
-import { ConflictInfo, DeviceInfo, FolderConfig } from '../../shared/types/sync';
+import {
+  ConflictInfo,
+  ConflictRule,
+  DeviceInfo,
+  CompressionAlgorithm,
+  ProtocolFeature,
+  FolderConfig,
+  LockfileRule,
+  PullOrder,
+} from '../../shared/types/sync';
 
 type PlainObject = Record<string, unknown>;
 
 const ALLOWED_LANGUAGES = new Set<AppConfig['language']>(['ru', 'en', 'es', 'uk']);
 const ALLOWED_THEMES = new Set<AppConfig['theme']>(['light', 'dark', 'system']);
-const ALLOWED_FOLDER_MODES = new Set<FolderConfig['mode']>(['send-receive', 'receive-only']);
+const ALLOWED_FOLDER_MODES = new Set<FolderConfig['mode']>([
+  'send-receive',
+  'send-only',
+  'receive-only',
+  'receive-encrypted',
+]);
+const ALLOWED_LOCKFILE_RULES = new Set<LockfileRule>(['keep-newer', 'regenerate']);
+const ALLOWED_PULL_ORDERS = new Set<PullOrder>([
+  'smallest-first',
+  'oldest-first',
+  'newest-first',
+  'alphabetic',
+  'random',
+]);
+const KNOWN_COMPRESSION_ALGORITHMS = new Set<string>(['zstd', 'brotli', 'deflate']);
+const KNOWN_PROTOCOL_FEATURES = new Set<string>([
+  'binary-frames',
+  'delta-sync',
+  'chunk-resume',
+  'multi-source',
+  'rename-ops',
+  'deletion-sync',
+]);
+const FOLDER_PRIORITY_RANGE = { min: -100, max: 100, integer: true };
+const ALLOWED_CONFLICT_RULE_RESOLUTIONS = new Set<ConflictRule['resolution']>([
+  'local',
+  'remote',
+  'newest',
+  'largest',
+  'both',
+  'merge',
+  'manual',
+]);
+const ALLOWED_DEVICE_ROLES = new Set<NonNullable<ConflictRule['deviceRole']>>(['home', 'school']);
+const MAX_CONFLICT_RULES = 128;
+const MAX_ENCRYPTION_PASSWORD_LENGTH = 256;
 
 const ISO_TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DISCOVERY_URL_REGEX = /^https?:\/\/[^\s/?#]+(:\d{1,5})?(\/\S*)?$/;
+const STUN_URL_REGEX = /^stun:(\[[0-9a-f:.]+\]|[^\s:/?#[\]]+)(:\d{1,5})?$/i;
+const RELAY_URL_REGEX = /^relay:\/\/[^\s/?#]+(:\d{1,5})?\/?(\?\S*)?$/;
 
 const MAX_LOG_LINES = 5000;
 const DEFAULT_LOG_LINES = 1000;
@@ -83,7 +130,7 @@ function ensureNumber(
 function ensureStringArray(
   value: unknown,
   field: string,
-  options?: { allowEmpty?: boolean; maxLength?: number; maxEntries?: number }
+  options?: { allowEmpty?: boolean; maxLength?: number; maxEntries?: number; pattern?: RegExp }
 ): string[] {
   if (!Array.isArray(value)) {
     throw new Error(`Field "${field}" must be an array.`);
@@ -95,6 +142,7 @@ function ensureStringArray(
     ensureString(entry, `${field}[${index}]`, {
       allowEmpty: options?.allowEmpty,
       maxLength: options?.maxLength,
+      pattern: options?.pattern,
     })
   );
 }
@@ -220,6 +268,34 @@ function sanitizeNetworkRules(value: unknown): ScheduleConfig['networkRules'] {
       value.port === undefined
         ? undefined
         : ensureNumber(value.port, 'networkRules.port', { min: 1024, max: 65535, integer: true }),
+    relayServers:
+      value.relayServers === undefined
+        ? undefined
+        : ensureStringArray(value.relayServers, 'networkRules.relayServers', {
+            maxEntries: 16,
+            maxLength: 512,
+            pattern: RELAY_URL_REGEX,
+          }),
+    discoveryServers:
+      value.discoveryServers === undefined
+        ? undefined
+        : ensureStringArray(value.discoveryServers, 'networkRules.discoveryServers', {
+            maxEntries: 16,
+            maxLength: 512,
+            pattern: DISCOVERY_URL_REGEX,
+          }),
+    stunServers:
+      value.stunServers === undefined
+        ? undefined
+        : ensureStringArray(value.stunServers, 'networkRules.stunServers', {
+            maxEntries: 16,
+            maxLength: 256,
+            pattern: STUN_URL_REGEX,
+          }),
+    portMapping:
+      value.portMapping === undefined
+        ? undefined
+        : ensureBoolean(value.portMapping, 'networkRules.portMapping'),
   };
 }
 
@@ -246,6 +322,22 @@ function sanitizePerformanceConfig(value: unknown): PerformanceConfig {
       min: 0,
       integer: true,
     }),
+    lanUploadLimit: ensureNumber(value.lanUploadLimit ?? 0, 'performance.lanUploadLimit', {
+      min: 0,
+      integer: true,
+    }),
+    lanDownloadLimit: ensureNumber(value.lanDownloadLimit ?? 0, 'performance.lanDownloadLimit', {
+      min: 0,
+      integer: true,
+    }),
+    wanUploadLimit: ensureNumber(value.wanUploadLimit ?? 0, 'performance.wanUploadLimit', {
+      min: 0,
+      integer: true,
+    }),
+    wanDownloadLimit: ensureNumber(value.wanDownloadLimit ?? 0, 'performance.wanDownloadLimit', {
+      min: 0,
+      integer: true,
+    }),
     pauseOnLowBattery: ensureBoolean(
       value.pauseOnLowBattery ?? true,
       'performance.pauseOnLowBattery'
@@ -467,6 +559,26 @@ function sanitizeFolderConfig(value: unknown, indexLabel: string): FolderConfig
       value.versioningPolicy ?? { type: 'simple', keepVersions: 5 },
       `${indexLabel}.versioningPolicy`
     ),
+    lockfileRule:
+      value.lockfileRule === undefined
+        ? undefined
+        : (ensureString(value.lockfileRule, `${indexLabel}.lockfileRule`, {
+            enum: ALLOWED_LOCKFILE_RULES,
+          }) as LockfileRule),
+    conflictRules:
+      value.conflictRules === undefined
+        ? undefined
+        : sanitizeConflictRules(value.conflictRules, `${indexLabel}.conflictRules`),
+    priority:
+      value.priority === undefined
+        ? undefined
+        : ensureNumber(value.priority, `${indexLabel}.priority`, FOLDER_PRIORITY_RANGE),
+    pullOrder:
+      value.pullOrder === undefined
+        ? undefined
+        : (ensureString(value.pullOrder, `${indexLabel}.pullOrder`, {
+            enum: ALLOWED_PULL_ORDERS,
+          }) as PullOrder),
     createdAt: sanitizeDate(value.createdAt ?? new Date(), `${indexLabel}.createdAt`),
     updatedAt: sanitizeDate(value.updatedAt ?? new Date(), `${indexLabel}.updatedAt`),
     lastSyncAt: value.lastSyncAt
@@ -476,6 +588,33 @@ function sanitizeFolderConfig(value: unknown, indexLabel: string): FolderConfig
   };
 }
 
+function sanitizeConflictRules(value: unknown, field: string): ConflictRule[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Field "${field}" must be an array.`);
+  }
+  if (value.length > MAX_CONFLICT_RULES) {
+    throw new Error(`Field "${field}" exceeds maximum length of ${MAX_CONFLICT_RULES}.`);
+  }
+  return value.map((rule, index) => {
+    const ruleField = `${field}[${index}]`;
+    if (!isPlainObject(rule)) {
+      throw new Error(`${ruleField} must be an object.`);
+    }
+    return {
+      pattern: ensureString(rule.pattern, `${ruleField}.pattern`, { maxLength: 256 }),
+      resolution: ensureString(rule.resolution, `${ruleField}.resolution`, {
+        enum: ALLOWED_CONFLICT_RULE_RESOLUTIONS,
+      }) as ConflictRule['resolution'],
+      deviceRole:
+        rule.deviceRole === undefined
+          ? undefined
+          : (ensureString(rule.deviceRole, `${ruleField}.deviceRole`, {
+              enum: ALLOWED_DEVICE_ROLES,
+            }) as ConflictRule['deviceRole']),
+    };
+  });
+}
+
 function sanitizeFolderStats(value: unknown, field: string): FolderConfig['stats'] {
   if (!isPlainObject(value)) {
     throw new Error(`${field} must be an object.`);
@@ -597,11 +736,22 @@ function sanitizeConflictInfo(value: unknown, field: string): ConflictInfo {
       value.resolution === undefined
         ? undefined
         : (ensureString(value.resolution, `${field}.resolution`, {
-            enum: new Set(['local', 'remote', 'both', 'manual']),
+            enum: new Set(['local', 'remote', 'both', 'manual', 'merge']),
           }) as ConflictInfo['resolution']),
     resolvedAt: value.resolvedAt
       ? sanitizeDate(value.resolvedAt, `${field}.resolvedAt`)
       : undefined,
+    mergeFilePath:
+      value.mergeFilePath === undefined
+        ? undefined
+        : ensureString(value.mergeFilePath, `${field}.mergeFilePath`),
+    conflictingKeys:
+      value.conflictingKeys === undefined
+        ? undefined
+        : ensureStringArray(value.conflictingKeys, `${field}.conflictingKeys`, {
+            maxEntries: 512,
+            maxLength: 1024,
+          }),
   };
 }
 
@@ -667,6 +817,21 @@ function sanitizeDeviceInfo(value: unknown, indexLabel: string): DeviceInfo {
       enum: new Set(['darwin', 'win32', 'linux']),
     }) as DeviceInfo['platform'],
     role: value.role === undefined ? undefined : (ensureString(value.role, `${indexLabel}.role`) as 'home' | 'school'),
+    untrusted:
+      value.untrusted === undefined
+        ? undefined
+        : ensureBoolean(value.untrusted, `${indexLabel}.untrusted`),
+    uploadLimit:
+      value.uploadLimit === undefined
+        ? undefined
+        : ensureNumber(value.uploadLimit, `${indexLabel}.uploadLimit`, { min: 0, integer: true }),
+    downloadLimit:
+      value.downloadLimit === undefined
+        ? undefined
+        : ensureNumber(value.downloadLimit, `${indexLabel}.downloadLimit`, {
+            min: 0,
+            integer: true,
+          }),
     status: ensureString(value.status ?? 'offline', `${indexLabel}.status`, {
       enum: new Set(['online', 'offline', 'paused']),
     }) as DeviceInfo['status'],
@@ -716,6 +881,23 @@ function sanitizeDeviceCapabilities(value: unknown, field: string): DeviceInfo['
       allowEmpty: false,
       maxLength: 32,
     }),
+    // Algorithms of newer builds that we cannot decode are dropped
+    compressionAlgorithms:
+      value.compressionAlgorithms === undefined
+        ? undefined
+        : (ensureStringArray(value.compressionAlgorithms, `${field}.compressionAlgorithms`, {
+            maxEntries: 16,
+            maxLength: 32,
+          }).filter((algorithm) =>
+            KNOWN_COMPRESSION_ALGORITHMS.has(algorithm)
+          ) as CompressionAlgorithm[]),
+    features:
+      value.features === undefined
+        ? undefined
+        : (ensureStringArray(value.features, `${field}.features`, {
+            maxEntries: 64,
+            maxLength: 32,
+          }).filter((feature) => KNOWN_PROTOCOL_FEATURES.has(feature)) as ProtocolFeature[]),
   };
 }
 
@@ -894,6 +1076,26 @@ export function sanitizeFolderUpdate(input: unknown): Partial<FolderConfig> {
       case 'versioningPolicy':
         sanitized.versioningPolicy = sanitizeVersioningPolicy(value, 'folder.versioningPolicy');
         break;
+      case 'lockfileRule':
+        sanitized.lockfileRule = ensureString(value, 'folder.lockfileRule', {
+          enum: ALLOWED_LOCKFILE_RULES,
+        }) as LockfileRule;
+        break;
+      case 'conflictRules':
+        sanitized.conflictRules = sanitizeConflictRules(value, 'folder.conflictRules');
+        break;
+      case 'priority':
+        sanitized.priority = ensureNumber(value, 'folder.priority', FOLDER_PRIORITY_RANGE);
+        break;
+      case 'pullOrder':
+        // null goes back to discovery order
+        sanitized.pullOrder =
+          value === null
+            ? undefined
+            : (ensureString(value, 'folder.pullOrder', {
+                enum: ALLOWED_PULL_ORDERS,
+              }) as PullOrder);
+        break;
       default:
         throw new Error(`Folder field "${key}" cannot be updated through this endpoint.`);
     }
@@ -901,6 +1103,33 @@ export function sanitizeFolderUpdate(input: unknown): Partial<FolderConfig> {
   return sanitized;
 }
 
+/** Passwords are kept verbatim; surrounding whitespace is part of the secret. */
+export function sanitizeEncryptionPasswords(input: unknown): Record<string, string> {
+  const field = 'encryptionPasswords';
+  if (!isPlainObject(input)) {
+    throw new Error(`${field} must be an object.`);
+  }
+  const entries = Object.entries(input);
+  if (entries.length > 128) {
+    throw new Error(`Field "${field}" exceeds maximum length of 128.`);
+  }
+  return Object.fromEntries(
+    entries.map(([deviceId, password]) => {
+      ensureString(deviceId, `${field} key`, { maxLength: 64 });
+      if (
+        typeof password !== 'string' ||
+        password.length === 0 ||
+        password.length > MAX_ENCRYPTION_PASSWORD_LENGTH
+      ) {
+        throw new Error(
+          `Field "${field}.${deviceId}" must be a password of 1 to ${MAX_ENCRYPTION_PASSWORD_LENGTH} characters.`
+        );
+      }
+      return [deviceId, password];
+    })
+  );
+}
+
 export function sanitizeDeviceRename(name: unknown): string {
   return ensureString(name, 'device.name', { maxLength: 128 });
 }
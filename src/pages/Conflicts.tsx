@@ -10,6 +10,7 @@ interface ConflictRowData {
   filePath: string;
   localModifiedAt: string;
   remoteModifiedAt: string;
+  conflictingKeys: string;
   conflict: ConflictInfo;
   folderId: string;
 }
@@ -28,6 +29,7 @@ export function Conflicts(): JSX.Element {
         remoteModifiedAt: conflict.remoteVersion?.modifiedAt
           ? new Date(conflict.remoteVersion.modifiedAt).toLocaleString()
           : '—',
+        conflictingKeys: conflict.conflictingKeys?.join(', ') || '—',
         conflict,
         folderId: conflict.folderId || '',
       })),
@@ -47,11 +49,16 @@ export function Conflicts(): JSX.Element {
         headerName: 'Удаленное изменение',
         width: 210,
       },
+      {
+        field: 'conflictingKeys',
+        headerName: 'Конфликтующие ключи',
+        width: 200,
+      },
       {
         field: 'actions',
         headerName: 'Разрешение',
         sortable: false,
-        width: 280,
+        width: 380,
         renderCell: (params: GridRenderCellParams<ConflictRowData>) => {
           const { conflict } = params.row as ConflictRowData;
           return (
@@ -65,6 +72,9 @@ export function Conflicts(): JSX.Element {
               <Button size="small" onClick={() => resolveConflict(conflict.id, 'both')}>
                 Сохранить обе
               </Button>
+              <Button size="small" onClick={() => resolveConflict(conflict.id, 'merge')}>
+                Объединить
+              </Button>
             </Stack>
           );
         },
@@ -20,6 +20,17 @@ import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import { useTranslation } from 'react-i18next';
 import { useApp } from '../contexts/AppContext';
 import { rendererLogger } from '../utils/rendererLogger';
+import type { NatClassification, NatType } from '../shared/types/sync';
+
+const NAT_TYPE_COLORS: Record<NatType, 'success' | 'info' | 'warning' | 'default'> = {
+  open: 'success',
+  'full-cone': 'success',
+  'restricted-cone': 'info',
+  'port-restricted-cone': 'info',
+  firewalled: 'warning',
+  symmetric: 'warning',
+  unknown: 'default',
+};
 
 interface PairingDialogState {
   code: string;
@@ -35,6 +46,23 @@ export function Devices(): JSX.Element {
   const [manualCode, setManualCode] = useState('');
   const [pairingError, setPairingError] = useState<string | null>(null);
   const [busyDeviceId, setBusyDeviceId] = useState<string | null>(null);
+  const [natStatus, setNatStatus] = useState<NatClassification | null>(null);
+
+  const loadNatStatus = async () => {
+    try {
+      setNatStatus((await window.electronAPI.getNatStatus()) as NatClassification | null);
+    } catch (error) {
+      rendererLogger.error('Failed to load NAT status', error);
+    }
+  };
+
+  useEffect(() => {
+    void loadNatStatus();
+  }, []);
+
+  const handleRefresh = async () => {
+    await Promise.all([refreshDevices(), loadNatStatus()]);
+  };
 
   useEffect(() => {
     if (!isPairingOpen) {
@@ -99,7 +127,7 @@ export function Devices(): JSX.Element {
       <Stack direction="row" justifyContent="space-between" alignItems="center">
         <Typography variant="h5">{t('devices.title')}</Typography>
         <Stack direction="row" spacing={1}>
-          <Button variant="outlined" onClick={refreshDevices}>
+          <Button variant="outlined" onClick={handleRefresh}>
             {t('devices.refresh')}
           </Button>
           <Button variant="contained" onClick={() => setPairingOpen(true)}>
@@ -117,6 +145,41 @@ export function Devices(): JSX.Element {
         </Stack>
       </Stack>
 
+      <Card variant="outlined">
+        <CardContent>
+          <Stack spacing={1}>
+            <Typography variant="subtitle1">{t('devices.nat.title')}</Typography>
+            {natStatus ? (
+              <>
+                <Stack direction="row" spacing={1}>
+                  <Chip
+                    label={t(`devices.nat.types.${natStatus.type}`)}
+                    color={NAT_TYPE_COLORS[natStatus.type]}
+                  />
+                  <Chip
+                    variant="outlined"
+                    label={t('devices.nat.mapping', { behavior: natStatus.mapping })}
+                  />
+                  <Chip
+                    variant="outlined"
+                    label={t('devices.nat.filtering', { behavior: natStatus.filtering })}
+                  />
+                </Stack>
+                <Typography variant="body2" color="text.secondary">
+                  {t('devices.nat.publicEndpoint', {
+                    address: `${natStatus.publicAddress}:${natStatus.publicPort}`,
+                  })}
+                </Typography>
+              </>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                {t('devices.nat.notChecked')}
+              </Typography>
+            )}
+          </Stack>
+        </CardContent>
+      </Card>
+
       <Grid container spacing={2}>
         {devices.map((device) => (
           <Grid item xs={12} md={6} lg={4} key={device.id}>
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import Stack from '@mui/material/Stack';
 import Button from '@mui/material/Button';
 import Typography from '@mui/material/Typography';
@@ -13,11 +13,14 @@ import IconButton from '@mui/material/IconButton';
 import Tooltip from '@mui/material/Tooltip';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import DeleteIcon from '@mui/icons-material/Delete';
+import UploadIcon from '@mui/icons-material/Upload';
+import RestoreIcon from '@mui/icons-material/Restore';
+import LowPriorityIcon from '@mui/icons-material/LowPriority';
 import { DataGrid, GridColDef, GridRenderCellParams } from '@mui/x-data-grid';
 import { useTranslation } from 'react-i18next';
 import { useApp } from '../contexts/AppContext';
 import { useSync } from '../contexts/SyncContext';
-import type { FolderConfig } from '../shared/types/sync';
+import type { FolderConfig, PullOrder } from '../shared/types/sync';
 import { rendererLogger } from '../utils/rendererLogger';
 
 interface FolderFormState {
@@ -26,10 +29,24 @@ interface FolderFormState {
   mode: FolderConfig['mode'];
 }
 
+interface TransferFormState {
+  priority: string;
+  pullOrder: PullOrder | '';
+  path: string;
+}
+
+const PULL_ORDERS: Array<{ value: PullOrder; label: string }> = [
+  { value: 'smallest-first', label: 'folders.pullOrders.smallestFirst' },
+  { value: 'oldest-first', label: 'folders.pullOrders.oldestFirst' },
+  { value: 'newest-first', label: 'folders.pullOrders.newestFirst' },
+  { value: 'alphabetic', label: 'folders.pullOrders.alphabetic' },
+  { value: 'random', label: 'folders.pullOrders.random' },
+];
+
 export function Folders(): JSX.Element {
   const { t } = useTranslation();
   const { folders, refreshFolders } = useApp();
-  const { syncNow, pauseSync, resumeSync } = useSync();
+  const { syncNow, pauseSync, resumeSync, syncStatuses } = useSync();
 
   const [isDialogOpen, setDialogOpen] = useState(false);
   const [isBusy, setBusy] = useState(false);
@@ -40,6 +57,12 @@ export function Folders(): JSX.Element {
   });
 
   const [removeTarget, setRemoveTarget] = useState<FolderConfig | null>(null);
+  const [transferTarget, setTransferTarget] = useState<FolderConfig | null>(null);
+  const [transferForm, setTransferForm] = useState<TransferFormState>({
+    priority: '0',
+    pullOrder: '',
+    path: '',
+  });
 
   const handleBrowse = async () => {
     try {
@@ -100,6 +123,67 @@ export function Folders(): JSX.Element {
     }
   };
 
+  const handleOverrideRemote = useCallback(
+    async (folderId: string) => {
+      try {
+        await window.electronAPI.overrideRemoteChanges(folderId);
+        await refreshFolders();
+      } catch (error) {
+        rendererLogger.error('Failed to override remote changes', error);
+      }
+    },
+    [refreshFolders]
+  );
+
+  const handleRevertLocal = useCallback(
+    async (folderId: string) => {
+      try {
+        await window.electronAPI.revertLocalChanges(folderId);
+        await refreshFolders();
+      } catch (error) {
+        rendererLogger.error('Failed to revert local changes', error);
+      }
+    },
+    [refreshFolders]
+  );
+
+  const handleOpenTransfers = useCallback((folder: FolderConfig) => {
+    setTransferForm({
+      priority: String(folder.priority ?? 0),
+      pullOrder: folder.pullOrder ?? '',
+      path: '',
+    });
+    setTransferTarget(folder);
+  }, []);
+
+  const handleSaveTransfers = async () => {
+    if (!transferTarget) return;
+    try {
+      setBusy(true);
+      await window.electronAPI.updateFolder(transferTarget.id, {
+        priority: Number(transferForm.priority) || 0,
+        // null goes back to discovery order
+        pullOrder: transferForm.pullOrder || null,
+      } as Partial<FolderConfig>);
+      await refreshFolders();
+      setTransferTarget(null);
+    } catch (error) {
+      rendererLogger.error('Failed to update transfer settings', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePrioritizePath = async () => {
+    if (!transferTarget || !transferForm.path) return;
+    try {
+      await window.electronAPI.prioritizePath(transferTarget.id, transferForm.path);
+      setTransferForm((prev) => ({ ...prev, path: '' }));
+    } catch (error) {
+      rendererLogger.error('Failed to prioritize path', error);
+    }
+  };
+
   const columns = useMemo<GridColDef<FolderConfig>[]>(
     () => [
       { field: 'name', headerName: t('folders.columns.name'), flex: 1 },
@@ -108,10 +192,18 @@ export function Folders(): JSX.Element {
         field: 'mode',
         headerName: t('folders.columns.mode'),
         width: 150,
-        valueFormatter: ({ value }) =>
-          (value as FolderConfig['mode']) === 'receive-only'
-            ? t('folders.modes.receiveOnly')
-            : t('folders.modes.sendReceive'),
+        valueFormatter: ({ value }) => {
+          switch (value as FolderConfig['mode']) {
+            case 'send-only':
+              return t('folders.modes.sendOnly');
+            case 'receive-only':
+              return t('folders.modes.receiveOnly');
+            case 'receive-encrypted':
+              return t('folders.modes.receiveEncrypted');
+            default:
+              return t('folders.modes.sendReceive');
+          }
+        },
       },
       {
         field: 'stats.totalFiles',
@@ -134,11 +226,21 @@ export function Folders(): JSX.Element {
         valueFormatter: ({ value }) =>
           value ? new Date(value as string | number).toLocaleString() : '—',
       },
+      {
+        field: 'compressionSaved',
+        headerName: t('folders.columns.compressionSaved'),
+        width: 140,
+        valueGetter: ({ row }) => {
+          const stats = syncStatuses.get((row as FolderConfig).id)?.compression;
+          return stats ? stats.originalBytes - stats.transferredBytes : 0;
+        },
+        valueFormatter: ({ value }) => formatBytes((value as number) ?? 0),
+      },
       {
         field: 'actions',
         headerName: t('folders.columns.actions'),
         sortable: false,
-        width: 320,
+        width: 400,
         renderCell: (params: GridRenderCellParams<FolderConfig>) => (
           <Stack direction="row" spacing={1}>
             <Button size="small" onClick={() => syncNow(params.row.id)}>
@@ -155,6 +257,25 @@ export function Folders(): JSX.Element {
                 <RefreshIcon fontSize="small" />
               </IconButton>
             </Tooltip>
+            {params.row.mode === 'send-only' && (
+              <Tooltip title={t('folders.actions.overrideRemote')}>
+                <IconButton size="small" onClick={() => handleOverrideRemote(params.row.id)}>
+                  <UploadIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            {params.row.mode === 'receive-only' && (
+              <Tooltip title={t('folders.actions.revertLocal')}>
+                <IconButton size="small" onClick={() => handleRevertLocal(params.row.id)}>
+                  <RestoreIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            <Tooltip title={t('folders.actions.transfersTooltip')}>
+              <IconButton size="small" onClick={() => handleOpenTransfers(params.row)}>
+                <LowPriorityIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
             <Tooltip title={t('folders.actions.removeTooltip')}>
               <IconButton size="small" color="error" onClick={() => setRemoveTarget(params.row)}>
                 <DeleteIcon fontSize="small" />
@@ -164,7 +285,16 @@ export function Folders(): JSX.Element {
         ),
       },
     ],
-    [pauseSync, resumeSync, syncNow, t]
+    [
+      handleOpenTransfers,
+      handleOverrideRemote,
+      handleRevertLocal,
+      pauseSync,
+      resumeSync,
+      syncNow,
+      syncStatuses,
+      t,
+    ]
   );
 
   return (
@@ -215,7 +345,9 @@ export function Folders(): JSX.Element {
             fullWidth
           >
             <MenuItem value="send-receive">{t('folders.modes.sendReceive')}</MenuItem>
+            <MenuItem value="send-only">{t('folders.modes.sendOnly')}</MenuItem>
             <MenuItem value="receive-only">{t('folders.modes.receiveOnly')}</MenuItem>
+            <MenuItem value="receive-encrypted">{t('folders.modes.receiveEncrypted')}</MenuItem>
           </TextField>
         </DialogContent>
         <DialogActions>
@@ -232,6 +364,74 @@ export function Folders(): JSX.Element {
         </DialogActions>
       </Dialog>
 
+      <Dialog
+        open={Boolean(transferTarget)}
+        onClose={() => !isBusy && setTransferTarget(null)}
+        fullWidth
+        maxWidth="sm"
+      >
+        <DialogTitle>{t('folders.transfersTitle', { name: transferTarget?.name })}</DialogTitle>
+        <DialogContent sx={{ pt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            type="number"
+            label={t('folders.fields.priority')}
+            helperText={t('folders.fields.priorityHelp')}
+            value={transferForm.priority}
+            onChange={(event) =>
+              setTransferForm((prev) => ({ ...prev, priority: event.target.value }))
+            }
+            inputProps={{ min: -100, max: 100, step: 1 }}
+            fullWidth
+          />
+          <TextField
+            select
+            label={t('folders.fields.pullOrder')}
+            value={transferForm.pullOrder}
+            onChange={(event) =>
+              setTransferForm((prev) => ({
+                ...prev,
+                pullOrder: event.target.value as PullOrder | '',
+              }))
+            }
+            fullWidth
+          >
+            <MenuItem value="">{t('folders.pullOrders.discovery')}</MenuItem>
+            {PULL_ORDERS.map(({ value, label }) => (
+              <MenuItem key={value} value={value}>
+                {t(label)}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              label={t('folders.fields.prioritizePath')}
+              helperText={t('folders.fields.prioritizePathHelp')}
+              value={transferForm.path}
+              onChange={(event) =>
+                setTransferForm((prev) => ({ ...prev, path: event.target.value }))
+              }
+              fullWidth
+            />
+            <Button
+              onClick={handlePrioritizePath}
+              variant="outlined"
+              disabled={!transferForm.path}
+              sx={{ alignSelf: 'flex-start', mt: 1 }}
+            >
+              {t('folders.actions.prioritize')}
+            </Button>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTransferTarget(null)} disabled={isBusy}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSaveTransfers} variant="contained" disabled={isBusy}>
+            {isBusy ? <CircularProgress size={20} /> : t('folders.actions.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       <Dialog open={Boolean(removeTarget)} onClose={() => setRemoveTarget(null)}>
         <DialogTitle>{t('folders.removeConfirmTitle')}</DialogTitle>
         <DialogContent>
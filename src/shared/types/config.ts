@@ -59,11 +59,19 @@ export interface NetworkRules {
   cellularBehavior: 'pause' | 'limit-speed' | 'normal';
   cellularSpeedLimit?: number; // KB/s
   port?: number;
+  relayServers?: string[]; // relay://host:port?token=..., tried when peers cannot be reached directly
+  discoveryServers?: string[]; // http(s) rendezvous servers used to find peers on other networks
+  stunServers?: string[]; // stun:host:port, probed in order for the public address and NAT type
+  portMapping?: boolean; // ask the router to forward the sync port (UPnP IGD, NAT-PMP or PCP); on by default
 }
 
 export interface PerformanceConfig {
   uploadLimit: number; // KB/s, 0 = unlimited
   downloadLimit: number; // KB/s, 0 = unlimited
+  lanUploadLimit?: number; // KB/s to peers on the local network, 0 = unlimited
+  lanDownloadLimit?: number; // KB/s from peers on the local network, 0 = unlimited
+  wanUploadLimit?: number; // KB/s to peers reached over the internet, 0 = unlimited
+  wanDownloadLimit?: number; // KB/s from peers reached over the internet, 0 = unlimited
   pauseOnLowBattery: boolean;
   batteryThreshold: number; // percentage
   pauseOnPowerSave: boolean;
@@ -2,22 +2,64 @@ export interface FolderConfig {
   id: string;
   path: string;
   name: string;
-  mode: 'send-receive' | 'receive-only';
+  mode: 'send-receive' | 'send-only' | 'receive-only' | 'receive-encrypted';
   status: SyncStatus;
   devices: string[];
   ignorePatterns: string[];
   versioningPolicy: VersioningPolicy;
+  /** How conflicting lockfiles are resolved on merge; defaults to `keep-newer`. */
+  lockfileRule?: LockfileRule;
+  /** Evaluated in order before a conflict is queued for the user; the first match wins. */
+  conflictRules?: ConflictRule[];
+  /** Transfers of folders with a higher priority go first; defaults to 0. */
+  priority?: number;
+  /** Order in which needed files are pulled; discovery order when unset. */
+  pullOrder?: PullOrder;
   createdAt: Date;
   updatedAt: Date;
   lastSyncAt?: Date;
   stats?: FolderStats;
 }
 
+/**
+ * `keep-newer` takes the most recently modified lockfile; `regenerate` then has
+ * the package manager rebuild it from the manifest.
+ */
+export type LockfileRule = 'keep-newer' | 'regenerate';
+
+export type PullOrder =
+  | 'smallest-first'
+  | 'oldest-first'
+  | 'newest-first'
+  | 'alphabetic'
+  | 'random';
+
+export type ConflictRuleResolution =
+  | 'local'
+  | 'remote'
+  | 'newest'
+  | 'largest'
+  | 'both'
+  | 'merge'
+  | 'manual';
+
+export interface ConflictRule {
+  /** Glob matched against the path relative to the folder root. */
+  pattern: string;
+  resolution: ConflictRuleResolution;
+  /** Only applies to conflicts with peers of this role. */
+  deviceRole?: 'home' | 'school';
+}
+
 export interface DeviceInfo {
   id: string;
   name: string;
   platform: 'darwin' | 'win32' | 'linux';
   role?: 'home' | 'school';
+  /** Only ever receives data encrypted with the folder's password for this device. */
+  untrusted?: boolean;
+  uploadLimit?: number; // KB/s, 0 = unlimited
+  downloadLimit?: number; // KB/s, 0 = unlimited
   status: 'online' | 'offline' | 'paused';
   address?: string;
   port?: number;
@@ -33,6 +75,71 @@ export interface DeviceCapabilities {
   relayEnabled: boolean;
   natTraversalEnabled: boolean;
   protocolVersion: string;
+  /** Chunk compression the device can decode; deflate only when absent. */
+  compressionAlgorithms?: CompressionAlgorithm[];
+  /** Protocol features agreed on in the last capability handshake with the device. */
+  features?: ProtocolFeature[];
+}
+
+/** Named protocol features that connected devices agree on before relying on them. */
+export type ProtocolFeature =
+  | 'binary-frames'
+  | 'delta-sync'
+  | 'chunk-resume'
+  | 'multi-source'
+  | 'rename-ops'
+  | 'deletion-sync';
+
+/** What two connected devices agreed on in the capability handshake. */
+export interface NegotiatedCapabilities {
+  protocolVersion: string;
+  features: ProtocolFeature[];
+  /** Algorithms the peer can decode, in its order of preference. */
+  compressionAlgorithms: CompressionAlgorithm[];
+}
+
+export type CompressionAlgorithm = 'zstd' | 'brotli' | 'deflate';
+
+/** How a NAT picks the public endpoint of outgoing traffic (RFC 4787, 'none' without a NAT). */
+export type NatMappingBehavior =
+  | 'none'
+  | 'endpoint-independent'
+  | 'address-dependent'
+  | 'address-and-port-dependent'
+  | 'unknown';
+
+/** Which inbound packets a NAT or firewall lets through to a mapped endpoint. */
+export type NatFilteringBehavior =
+  | 'endpoint-independent'
+  | 'address-dependent'
+  | 'address-and-port-dependent'
+  | 'unknown';
+
+export type NatType =
+  | 'open'
+  | 'firewalled'
+  | 'full-cone'
+  | 'restricted-cone'
+  | 'port-restricted-cone'
+  | 'symmetric'
+  | 'unknown';
+
+/** Result of probing this device's NAT with STUN (RFC 5780). */
+export interface NatClassification {
+  type: NatType;
+  mapping: NatMappingBehavior;
+  filtering: NatFilteringBehavior;
+  publicAddress: string;
+  publicPort: number;
+  /** STUN server the probes went to, as host:port. */
+  server: string;
+  checkedAt: number;
+}
+
+/** Chunk bytes of a folder's transfers before and after compression. */
+export interface CompressionStats {
+  originalBytes: number;
+  transferredBytes: number;
 }
 
 export interface SyncStatus {
@@ -46,6 +153,7 @@ export interface SyncStatus {
   errors?: SyncError[];
   conflicts?: ConflictInfo[];
   events?: SyncEvent[];
+  compression?: CompressionStats;
 }
 
 export interface SyncError {
@@ -66,8 +174,12 @@ export interface ConflictInfo {
   remoteVersion: FileVersion;
   detectedAt: Date;
   resolved: boolean;
-  resolution?: 'local' | 'remote' | 'both' | 'manual';
+  resolution?: 'local' | 'remote' | 'both' | 'manual' | 'merge';
   resolvedAt?: Date;
+  /** File holding the merge result with conflict markers, when a merge could not finish. */
+  mergeFilePath?: string;
+  /** Keys changed on both sides, when a structured (JSON, YAML, .env) merge could not finish. */
+  conflictingKeys?: string[];
 }
 
 export interface FileVersion {
@@ -78,6 +190,9 @@ export interface FileVersion {
   modifiedBy: string;
   deviceId: string;
   deviceName: string;
+  version?: VersionVector;
+  /** The version is a deletion of the file rather than content. */
+  deleted?: boolean;
 }
 
 export interface FileInfo {
@@ -92,8 +207,24 @@ export interface FileInfo {
   permissions?: number;
   isIgnored: boolean;
   versions?: FileVersion[];
+  version?: VersionVector;
+  /** Relative path the file was renamed or moved from since its content last changed. */
+  renamedFrom?: string;
+  /**
+   * Tombstone for a deleted file: `hash`, `size` and `version` describe the deleted
+   * content with the deletion counted in `version`, and `modifiedAt` is when it was deleted.
+   */
+  deleted?: boolean;
+  /**
+   * Base64 of the encrypted `{ hash, size }` of the plaintext, served by
+   * `receive-encrypted` folders for each blob they store.
+   */
+  sealedMetadata?: string;
 }
 
+/** Per-device change counters for a single file, keyed by device ID. */
+export type VersionVector = Record<string, number>;
+
 export interface FolderStats {
   totalFiles: number;
   totalDirectories: number;
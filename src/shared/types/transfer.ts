@@ -1,3 +1,5 @@
+import type { CompressionAlgorithm } from './sync';
+
 export interface TransferInitMessage {
   transferId: string;
   file: {
@@ -10,6 +12,23 @@ export interface TransferInitMessage {
   totalChunks: number;
   chunkSize: number;
   compressed: boolean;
+  /** Algorithm of compressed chunks; deflate when absent. */
+  compression?: CompressionAlgorithm;
+  /** Present when the chunks carry encoded delta instructions instead of file content. */
+  delta?: {
+    baseSize: number;
+    size: number;
+  };
+  /** Indexes of the chunks that follow when resuming; all chunks follow otherwise. */
+  chunks?: number[];
+}
+
+export interface TransferInitAckMessage {
+  /**
+   * Unacknowledged chunk bytes the receiver accepts in flight. Receivers that
+   * leave it out take one chunk at a time.
+   */
+  maxInFlightBytes?: number;
 }
 
 export interface TransferChunkMessage {
@@ -19,6 +38,11 @@ export interface TransferChunkMessage {
   hash: string;
 }
 
+/** Sent before the receiver holds back a chunk ack to stay within its download limit. */
+export interface TransferChunkWaitMessage {
+  delayMs: number;
+}
+
 export interface TransferCompleteMessage {
   transferId: string;
   fileHash?: string;
@@ -34,4 +58,47 @@ export interface TransferRequestMessage {
   folderId: string;
   relativePath: string;
   hash?: string;
+  /** Block signature of the requester's existing copy, enabling a delta response. */
+  signature?: TransferSignature;
+  /**
+   * Byte ranges the requester could not fill from chunks it already has; the
+   * response is a delta that copies everything else from its seed file.
+   */
+  ranges?: TransferRange[];
+  /** Chunks still missing from a partial download of the file with `hash`. */
+  resume?: TransferResume;
+}
+
+export interface TransferResume {
+  chunkSize: number;
+  chunks: number[];
+}
+
+export interface TransferRange {
+  offset: number;
+  length: number;
+}
+
+export interface TransferSignature {
+  blockSize: number;
+  size: number;
+  blocks: Array<{ index: number; weak: number; strong: string }>;
+}
+
+export interface ChunkManifestRequestMessage {
+  transferId: string;
+  folderId: string;
+  relativePath: string;
+  /**
+   * Asks for fixed-size chunks of this size instead of content-defined ones,
+   * so a multi-source download can check each chunk it receives.
+   */
+  chunkSize?: number;
+}
+
+export interface ChunkManifestMessage {
+  transferId: string;
+  size: number;
+  hash: string;
+  chunks: Array<{ offset: number; length: number; hash: string }>;
 }
@@ -0,0 +1,258 @@
+import * as dgram from 'dgram';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+type GatewayProtocol = 'pcp' | 'nat-pmp' | 'upnp';
+
+export interface FakeMapping {
+  via: GatewayProtocol;
+  protocol: 'tcp' | 'udp';
+  internalPort: number;
+  externalPort: number;
+  lifetime: number;
+}
+
+export interface FakeGatewayOptions {
+  /** Protocols the gateway answers; the others are ignored like on a real router. */
+  protocols: GatewayProtocol[];
+  externalAddress?: string;
+  /** Refuse UPnP leases with an expiry, like many consumer routers. */
+  permanentLeasesOnly?: boolean;
+}
+
+const SERVICE_TYPE = 'urn:schemas-upnp-org:service:WANIPConnection:1';
+
+/**
+ * Router stand-in on loopback speaking PCP, NAT-PMP and UPnP IGD, so
+ * NATManager can be tested without one. Every request that creates,
+ * renews or deletes a mapping is kept in `requests`.
+ */
+export class FakeGateway {
+  readonly mappings = new Map<string, FakeMapping>();
+  readonly requests: FakeMapping[] = [];
+  pmpPort = 0;
+  ssdpPort = 0;
+  private pmpSocket: dgram.Socket | null = null;
+  private ssdpSocket: dgram.Socket | null = null;
+  private httpServer: http.Server | null = null;
+  private readonly externalAddress: string;
+
+  constructor(private readonly options: FakeGatewayOptions) {
+    this.externalAddress = options.externalAddress ?? '203.0.113.9';
+  }
+
+  async start(): Promise<void> {
+    const { protocols } = this.options;
+    if (protocols.includes('pcp') || protocols.includes('nat-pmp')) {
+      this.pmpSocket = await bindUdp((message, rinfo) => this.handlePmp(message, rinfo));
+      this.pmpPort = this.pmpSocket.address().port;
+    } else {
+      // Leave a port nobody listens on so probes get refused
+      const unused = await bindUdp(() => undefined);
+      this.pmpPort = unused.address().port;
+      unused.close();
+    }
+
+    if (protocols.includes('upnp')) {
+      this.httpServer = http.createServer((req, res) => this.handleHttp(req, res));
+      await new Promise<void>((resolve) => this.httpServer!.listen(0, '127.0.0.1', resolve));
+      const { port } = this.httpServer.address() as AddressInfo;
+      this.ssdpSocket = await bindUdp((message, rinfo) => {
+        if (!message.toString().startsWith('M-SEARCH')) {
+          return;
+        }
+        const reply = [
+          'HTTP/1.1 200 OK',
+          `LOCATION: http://127.0.0.1:${port}/rootDesc.xml`,
+          'ST: urn:schemas-upnp-org:device:InternetGatewayDevice:1',
+          '',
+          '',
+        ].join('\r\n');
+        this.ssdpSocket!.send(reply, rinfo.port, rinfo.address);
+      });
+      this.ssdpPort = this.ssdpSocket.address().port;
+    } else {
+      this.ssdpPort = this.pmpPort;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.pmpSocket?.close();
+    this.ssdpSocket?.close();
+    await new Promise<void>((resolve) =>
+      this.httpServer ? this.httpServer.close(() => resolve()) : resolve()
+    );
+  }
+
+  private record(mapping: FakeMapping): void {
+    this.requests.push(mapping);
+    const key = `${mapping.protocol}:${mapping.externalPort}`;
+    if (mapping.lifetime === 0 && mapping.via !== 'upnp') {
+      this.mappings.delete(key);
+    } else {
+      this.mappings.set(key, mapping);
+    }
+  }
+
+  private handlePmp(message: Buffer, rinfo: dgram.RemoteInfo): void {
+    const reply = (buffer: Buffer) => this.pmpSocket!.send(buffer, rinfo.port, rinfo.address);
+    const version = message[0];
+
+    if (version === 2 && this.options.protocols.includes('pcp')) {
+      const opcode = message[1];
+      const response = Buffer.alloc(message.length);
+      message.copy(response);
+      response[1] = 0x80 | opcode;
+      response[2] = 0;
+      response[3] = 0;
+      response.fill(0, 8, 24);
+      if (opcode === 1) {
+        const internalPort = message.readUInt16BE(24 + 16);
+        const lifetime = message.readUInt32BE(4);
+        const suggested = message.readUInt16BE(24 + 18);
+        const externalPort = suggested || internalPort;
+        this.record({
+          via: 'pcp',
+          protocol: message[24 + 12] === 17 ? 'udp' : 'tcp',
+          internalPort,
+          externalPort,
+          lifetime,
+        });
+        response.writeUInt16BE(externalPort, 24 + 18);
+        response.fill(0, 24 + 20, 24 + 36);
+        response.writeUInt16BE(0xffff, 24 + 30);
+        Buffer.from(this.externalAddress.split('.').map(Number)).copy(response, 24 + 32);
+      }
+      reply(response);
+      return;
+    }
+
+    if (!this.options.protocols.includes('nat-pmp')) {
+      return;
+    }
+    if (version !== 0) {
+      // NAT-PMP gateways answer unknown versions with result 1
+      reply(Buffer.from([0, 0x80 | message[1], 0, 1, 0, 0, 0, 0]));
+      return;
+    }
+
+    const opcode = message[1];
+    if (opcode === 0) {
+      const response = Buffer.alloc(12);
+      response[1] = 0x80;
+      Buffer.from(this.externalAddress.split('.').map(Number)).copy(response, 8);
+      reply(response);
+      return;
+    }
+
+    const internalPort = message.readUInt16BE(4);
+    const lifetime = message.readUInt32BE(8);
+    const externalPort = lifetime === 0 ? 0 : message.readUInt16BE(6) || internalPort;
+    const protocol = opcode === 1 ? 'udp' : 'tcp';
+    if (lifetime === 0) {
+      for (const [key, mapping] of this.mappings) {
+        if (mapping.internalPort === internalPort && mapping.protocol === protocol) {
+          this.mappings.delete(key);
+        }
+      }
+      this.requests.push({ via: 'nat-pmp', protocol, internalPort, externalPort, lifetime });
+    } else {
+      this.record({ via: 'nat-pmp', protocol, internalPort, externalPort, lifetime });
+    }
+    const response = Buffer.alloc(16);
+    response[1] = 0x80 | opcode;
+    response.writeUInt16BE(internalPort, 8);
+    response.writeUInt16BE(externalPort, 10);
+    response.writeUInt32BE(lifetime, 12);
+    reply(response);
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method === 'GET' && req.url === '/rootDesc.xml') {
+      res.setHeader('Content-Type', 'text/xml');
+      res.end(
+        '<?xml version="1.0"?><root xmlns="urn:schemas-upnp-org:device-1-0"><device>' +
+          '<deviceType>urn:schemas-upnp-org:device:InternetGatewayDevice:1</deviceType>' +
+          '<serviceList><service>' +
+          '<serviceType>urn:schemas-upnp-org:service:Layer3Forwarding:1</serviceType>' +
+          '<controlURL>/ctl/L3F</controlURL></service></serviceList>' +
+          '<deviceList><device><deviceList><device><serviceList><service>' +
+          `<serviceType>${SERVICE_TYPE}</serviceType>` +
+          '<controlURL>/ctl/IPConn</controlURL>' +
+          '</service></serviceList></device></deviceList></device></deviceList>' +
+          '</device></root>'
+      );
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const action = /#(\w+)"/.exec(req.headers.soapaction as string)?.[1];
+      const field = (name: string) => new RegExp(`<${name}>([^<]*)</${name}>`).exec(body)?.[1];
+      const respond = (content: string) =>
+        res.end(
+          `<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>` +
+            `<u:${action}Response xmlns:u="${SERVICE_TYPE}">${content}</u:${action}Response>` +
+            '</s:Body></s:Envelope>'
+        );
+      const fault = (code: number, description: string) => {
+        res.statusCode = 500;
+        res.end(
+          '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><s:Fault>' +
+            '<faultcode>s:Client</faultcode><faultstring>UPnPError</faultstring><detail>' +
+            '<UPnPError xmlns="urn:schemas-upnp-org:control-1-0">' +
+            `<errorCode>${code}</errorCode><errorDescription>${description}</errorDescription>` +
+            '</UPnPError></detail></s:Fault></s:Body></s:Envelope>'
+        );
+      };
+
+      if (req.url !== '/ctl/IPConn') {
+        fault(401, 'Invalid Action');
+        return;
+      }
+      const protocol = field('NewProtocol') === 'UDP' ? 'udp' : 'tcp';
+      const externalPort = Number(field('NewExternalPort'));
+      switch (action) {
+        case 'GetExternalIPAddress':
+          respond(`<NewExternalIPAddress>${this.externalAddress}</NewExternalIPAddress>`);
+          return;
+        case 'AddPortMapping': {
+          const lifetime = Number(field('NewLeaseDuration'));
+          if (lifetime !== 0 && this.options.permanentLeasesOnly) {
+            fault(725, 'OnlyPermanentLeasesSupported');
+            return;
+          }
+          this.record({
+            via: 'upnp',
+            protocol,
+            internalPort: Number(field('NewInternalPort')),
+            externalPort,
+            lifetime,
+          });
+          respond('');
+          return;
+        }
+        case 'DeletePortMapping':
+          if (!this.mappings.delete(`${protocol}:${externalPort}`)) {
+            fault(714, 'NoSuchEntryInArray');
+            return;
+          }
+          respond('');
+          return;
+        default:
+          fault(401, 'Invalid Action');
+      }
+    });
+  }
+}
+
+function bindUdp(
+  onMessage: (message: Buffer, rinfo: dgram.RemoteInfo) => void
+): Promise<dgram.Socket> {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket('udp4');
+    socket.on('message', onMessage);
+    socket.bind(0, '127.0.0.1', () => resolve(socket));
+  });
+}
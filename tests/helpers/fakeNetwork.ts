@@ -0,0 +1,194 @@
+import { EventEmitter } from 'events';
+import {
+  CompressionAlgorithm,
+  NegotiatedCapabilities,
+  ProtocolFeature,
+} from '../../src/shared/types/sync';
+import { SUPPORTED_COMPRESSION } from '../../src/main/network/protocol/Compression';
+import {
+  PROTOCOL_FEATURES,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  legacyCapabilities,
+  negotiateCapabilities,
+  supportsHandshake,
+} from '../../src/main/network/protocol/Capabilities';
+import {
+  PROTOCOL_VERSION,
+  compareProtocolVersions,
+  decodeTransferFrame,
+} from '../../src/main/network/protocol/TransferFrame';
+
+/**
+ * Socket.io events that NetworkManager re-emits as `{ deviceId, payload }`.
+ */
+const FORWARDED_EVENTS: Record<string, string> = {
+  'request-file': 'transfer-request',
+  'request-chunk-manifest': 'chunk-manifest-request',
+  'transfer-init': 'transfer-init',
+  'transfer-chunk': 'transfer-chunk',
+  'transfer-frame': 'transfer-frame',
+  'transfer-complete': 'transfer-complete',
+  'transfer-error': 'transfer-error',
+};
+
+type FakeSocket = EventEmitter & { emit: (channel: string, payload?: unknown) => boolean };
+
+/**
+ * In-memory stand-in for NetworkManager that links devices together, so
+ * TransferManager instances can talk to each other without real sockets.
+ */
+export class FakeNetwork extends EventEmitter {
+  /** Local end of the link to the first peer; acks from the peer are emitted here. */
+  readonly socket: FakeSocket;
+  peer: FakeNetwork | null = null;
+  connected = true;
+  /** Version this device reports to its peers. */
+  protocolVersion = PROTOCOL_VERSION;
+  /** Compression algorithms this device reports to its peers. */
+  compressionAlgorithms: CompressionAlgorithm[] = [...SUPPORTED_COMPRESSION];
+  /** Features this device offers in the capability handshake. */
+  features: ProtocolFeature[] = [...PROTOCOL_FEATURES];
+  private readonly links = new Map<string, { peer: FakeNetwork; socket: FakeSocket }>();
+  private fileListProvider: ((folderId: string, deviceId: string) => Promise<unknown[]>) | null =
+    null;
+
+  constructor(private readonly deviceId: string) {
+    super();
+    this.socket = this.createSocket(() => this.peer);
+  }
+
+  /** Links two devices; a device can be linked to several peers. */
+  static link(a: FakeNetwork, b: FakeNetwork): void {
+    a.attach(b);
+    b.attach(a);
+  }
+
+  getDeviceId(): string {
+    return this.deviceId;
+  }
+
+  getConnectedDevices(): Set<string> {
+    return new Set([...this.links.keys()].filter((deviceId) => this.getConnection(deviceId)));
+  }
+
+  getConnection(deviceId: string) {
+    const link = this.links.get(deviceId);
+    if (!this.connected || !link?.peer.connected) {
+      return null;
+    }
+    return { socket: link.socket, deviceId, secure: false, role: 'client' };
+  }
+
+  /** Runs the handshake NetworkManager would, using what both ends offer. */
+  getPeerCapabilities(deviceId: string): NegotiatedCapabilities {
+    const peer = this.links.get(deviceId)?.peer ?? this;
+    if (!supportsHandshake(peer.protocolVersion)) {
+      return legacyCapabilities(peer.protocolVersion, peer.compressionAlgorithms);
+    }
+    return negotiateCapabilities(FakeNetwork.offerOf(this), FakeNetwork.offerOf(peer));
+  }
+
+  hasPeerFeature(deviceId: string, feature: ProtocolFeature): boolean {
+    return this.getPeerCapabilities(deviceId).features.includes(feature);
+  }
+
+  private static offerOf(network: FakeNetwork) {
+    return {
+      protocolVersions: SUPPORTED_PROTOCOL_VERSIONS.filter(
+        (version) => compareProtocolVersions(version, network.protocolVersion) <= 0
+      ),
+      features: network.features,
+      compressionAlgorithms: network.compressionAlgorithms,
+    };
+  }
+
+  setFileListProvider(provider: (folderId: string, deviceId: string) => Promise<unknown[]>): void {
+    this.fileListProvider = provider;
+  }
+
+  setFileHashLookup(): void {
+    // File hashes are always recomputed in tests
+  }
+
+  async requestFileList(deviceId: string, folderId: string): Promise<any[]> {
+    const provider = this.getConnection(deviceId)
+      ? this.links.get(deviceId)?.peer.fileListProvider
+      : null;
+    if (!provider) {
+      throw new Error(`Not connected to device ${deviceId}`);
+    }
+    return JSON.parse(JSON.stringify(await provider(folderId, this.deviceId)));
+  }
+
+  emitTo(deviceId: string, channel: string, payload: unknown): void {
+    if (this.getConnection(deviceId)) {
+      this.deliver(this.links.get(deviceId)!.peer, channel, payload);
+    }
+  }
+
+  private attach(peer: FakeNetwork): void {
+    const existing = this.links.get(peer.deviceId);
+    if (!this.peer || this.peer.deviceId === peer.deviceId) {
+      // Relinking the first peer, e.g. after it restarted, keeps the same socket
+      this.peer = peer;
+      this.links.set(peer.deviceId, { peer, socket: this.socket });
+    } else {
+      const socket =
+        existing?.socket ?? this.createSocket(() => this.links.get(peer.deviceId)?.peer ?? null);
+      this.links.set(peer.deviceId, { peer, socket });
+    }
+  }
+
+  private createSocket(getPeer: () => FakeNetwork | null): FakeSocket {
+    const socket = new EventEmitter() as FakeSocket;
+    (socket as any).localEmit = socket.emit.bind(socket);
+    socket.emit = (channel: string, payload?: unknown): boolean => {
+      const peer = getPeer();
+      if (peer) {
+        this.deliver(peer, channel, payload);
+      }
+      return true;
+    };
+    return socket;
+  }
+
+  private deliver(peer: FakeNetwork, channel: string, payload: unknown): void {
+    if (!this.connected || !peer.connected) {
+      return;
+    }
+
+    // Round-trip through JSON like socket.io does, and deliver asynchronously
+    const wire = Buffer.isBuffer(payload)
+      ? Buffer.from(payload)
+      : payload === undefined
+        ? undefined
+        : JSON.parse(JSON.stringify(payload));
+    setImmediate(() => {
+      const forwarded = FORWARDED_EVENTS[channel];
+      if (forwarded) {
+        peer.emit(forwarded, { deviceId: this.deviceId, payload: wire });
+      } else {
+        (peer.links.get(this.deviceId)?.socket as any)?.localEmit(channel, wire);
+      }
+    });
+  }
+}
+
+/**
+ * Chunks found in the `socket.emit` calls of a sender, whether they went out
+ * as binary frames or as base64 JSON messages.
+ */
+export function sentChunks(
+  calls: unknown[][]
+): Array<{ transferId: string; chunkIndex: number; data: Buffer }> {
+  return calls.flatMap(([channel, payload]) => {
+    if (channel === 'transfer-frame') {
+      return [decodeTransferFrame(payload as Buffer)];
+    }
+    if (channel === 'transfer-chunk') {
+      const message = payload as { transferId: string; chunkIndex: number; data: string };
+      return [{ ...message, data: Buffer.from(message.data, 'base64') }];
+    }
+    return [];
+  });
+}
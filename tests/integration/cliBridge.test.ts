@@ -36,6 +36,9 @@ describe('CLI Bridge', () => {
       {
         sync: async (folderId?: string) => ({ success: true, message: folderId ?? 'all' }),
         statusTree: async () => ({ folderId: '', files: [] }),
+        overrideRemote: async (folderId: string) => ({ folderId, files: 0 }),
+        revertLocal: async (folderId: string) => ({ folderId, files: 0 }),
+        prioritize: async () => ({ success: true }),
       }
     );
 
@@ -58,9 +61,51 @@ describe('CLI Bridge', () => {
       {
         sync: async () => ({ success: true }),
         statusTree: async (folderId: string) => ({ folderId, files: mockFiles }),
+        overrideRemote: async (folderId: string) => ({ folderId, files: 0 }),
+        revertLocal: async (folderId: string) => ({ folderId, files: 0 }),
+        prioritize: async () => ({ success: true }),
       }
     );
 
     expect(result).toEqual({ folderId: 'folder-1', files: mockFiles });
   });
+
+  it('routes override and revert requests to the folder handlers', async () => {
+    const handlers = {
+      sync: async () => ({ success: true }),
+      statusTree: async (folderId: string) => ({ folderId, files: [] }),
+      overrideRemote: async (folderId: string) => ({ folderId, files: 3 }),
+      revertLocal: async (folderId: string) => ({ folderId, files: 1 }),
+      prioritize: async () => ({ success: true }),
+    };
+
+    await expect(
+      handleCliRequest({ action: 'override-remote', folderId: 'send' }, handlers)
+    ).resolves.toEqual({ folderId: 'send', files: 3 });
+    await expect(
+      handleCliRequest({ action: 'revert-local', folderId: 'receive' }, handlers)
+    ).resolves.toEqual({ folderId: 'receive', files: 1 });
+    await expect(handleCliRequest({ action: 'revert-local' }, handlers)).rejects.toThrow(
+      'folderId is required'
+    );
+  });
+
+  it('routes prioritize requests with the path to move ahead', async () => {
+    const prioritize = jest.fn(async () => ({ success: true }));
+    const handlers = {
+      sync: async () => ({ success: true }),
+      statusTree: async (folderId: string) => ({ folderId, files: [] }),
+      overrideRemote: async (folderId: string) => ({ folderId, files: 0 }),
+      revertLocal: async (folderId: string) => ({ folderId, files: 0 }),
+      prioritize,
+    };
+
+    await expect(
+      handleCliRequest({ action: 'prioritize', folderId: 'code', path: 'src/app' }, handlers)
+    ).resolves.toEqual({ success: true });
+    expect(prioritize).toHaveBeenCalledWith('code', 'src/app');
+    await expect(
+      handleCliRequest({ action: 'prioritize', folderId: 'code' }, handlers)
+    ).rejects.toThrow('folderId and path are required');
+  });
 });
@@ -0,0 +1,100 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { NetworkManager } from '../../src/main/network/networkManager';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+type TestSocket = EventEmitter & { disconnect: jest.Mock; connected: boolean };
+
+describe('NetworkManager connection upgrades', () => {
+  let tempDir: string;
+  let manager: NetworkManager;
+  let events: string[];
+
+  const createSocket = (): TestSocket =>
+    Object.assign(new EventEmitter(), { disconnect: jest.fn(), connected: true });
+
+  const connectionOver = (socket: TestSocket, address: string) => ({
+    socket,
+    deviceId: 'device-b',
+    address,
+    capabilities: {},
+    secure: false,
+    established: new Date(),
+    lastActivity: new Date(),
+    role: 'client',
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'connection-upgrade-'));
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('devices', [
+      { id: 'device-b', name: 'Laptop', platform: 'linux', status: 'offline' } as any,
+    ]);
+    manager = new NetworkManager(store);
+    events = [];
+    for (const event of ['device-connected', 'device-disconnected', 'connection-upgraded']) {
+      manager.on(event, () => events.push(event));
+    }
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('moves a relayed device onto its LAN address without dropping it', () => {
+    jest.useFakeTimers();
+    const relayed = createSocket();
+    const direct = createSocket();
+
+    (manager as any).registerConnection(connectionOver(relayed, 'relay:relay.example.org'));
+    (manager as any).registerConnection(connectionOver(direct, '192.168.1.20'));
+    expect(events).toEqual(['device-connected', 'connection-upgraded']);
+    expect(manager.getConnection('device-b')?.address).toBe('192.168.1.20');
+
+    // The old path lingers for replies in flight, then closes without a disconnect
+    expect(relayed.disconnect).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(30_000);
+    expect(relayed.disconnect).toHaveBeenCalled();
+    relayed.emit('disconnect');
+    expect(events).not.toContain('device-disconnected');
+
+    direct.emit('disconnect');
+    expect(events).toContain('device-disconnected');
+    expect(manager.getConnection('device-b')).toBeNull();
+  });
+
+  it('dials only paths better than the current one', async () => {
+    const dialed: string[] = [];
+    (manager as any).dialAddress = jest.fn(async (deviceId: string, address: string) => {
+      dialed.push(address);
+      return connectionOver(createSocket(), address);
+    });
+    (manager as any).peerRegistry.upsert({
+      id: 'device-b',
+      name: 'Laptop',
+      address: '192.168.1.20',
+      port: 45789,
+      status: 'discovering',
+      addresses: [{ address: '203.0.113.7', port: 41000 }],
+    });
+
+    (manager as any).registerConnection(connectionOver(createSocket(), '198.51.100.4'));
+    await (manager as any).connectToDevice('device-b');
+    expect(dialed).toEqual(['192.168.1.20']);
+    expect(manager.getConnection('device-b')?.address).toBe('192.168.1.20');
+
+    // Already on the LAN: nothing better to try
+    (manager as any).upgradeAttempts.clear();
+    await (manager as any).connectToDevice('device-b');
+    expect(dialed).toEqual(['192.168.1.20']);
+  });
+});
@@ -0,0 +1,150 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FolderConfig } from '../../src/shared/types/sync';
+import { FileIndex } from '../../src/main/sync/fileIndex';
+import { FileWatcher } from '../../src/main/sync/fileWatcher';
+
+describe('FileIndex', () => {
+  let tempDir: string;
+  let index: FileIndex;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-index-'));
+    index = new FileIndex(path.join(tempDir, 'index.db'));
+  });
+
+  afterEach(async () => {
+    index.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const entry = (relativePath: string, hash: string) => ({
+    relativePath,
+    size: 4,
+    mtimeMs: 1_700_000_000_000,
+    inode: 42,
+    hash,
+    blockSize: 1024,
+    blockHashes: [hash],
+  });
+
+  it('returns cached hashes only while stats match', () => {
+    index.upsertMany([entry('a.txt', 'hash-a')]);
+
+    expect(index.lookupHash('a.txt', { size: 4, mtimeMs: 1_700_000_000_000.4, ino: 42 })).toBe(
+      'hash-a'
+    );
+    expect(index.lookupHash('a.txt', { size: 5, mtimeMs: 1_700_000_000_000, ino: 42 })).toBe(
+      undefined
+    );
+    expect(index.lookupHash('a.txt', { size: 4, mtimeMs: 1_700_000_000_000, ino: 43 })).toBe(
+      undefined
+    );
+  });
+
+  it('keeps version info when content metadata is refreshed', () => {
+    index.upsertMany([entry('a.txt', 'hash-a')]);
+    index.setVersions([{ relativePath: 'a.txt', version: { dev: 2 }, versionHash: 'hash-a' }]);
+    index.upsertMany([entry('a.txt', 'hash-b')]);
+
+    const stored = index.get('a.txt');
+    expect(stored?.hash).toBe('hash-b');
+    expect(stored?.version).toEqual({ dev: 2 });
+    expect(stored?.versionHash).toBe('hash-a');
+  });
+
+  it('moves entries on rename until the content changes', () => {
+    index.upsertMany([entry('a.txt', 'hash-a')]);
+    index.setVersions([{ relativePath: 'a.txt', version: { dev: 1 }, versionHash: 'hash-a' }]);
+
+    expect(index.rename('a.txt', 'docs/a.txt')).toBe(true);
+    expect(index.rename('missing.txt', 'docs/b.txt')).toBe(false);
+    expect(index.get('a.txt')).toBeUndefined();
+    expect(index.get('docs/a.txt')).toMatchObject({
+      hash: 'hash-a',
+      version: { dev: 1 },
+      previousPath: 'a.txt',
+    });
+
+    index.upsertMany([entry('docs/a.txt', 'hash-a')]);
+    expect(index.get('docs/a.txt')?.previousPath).toBe('a.txt');
+
+    index.upsertMany([entry('docs/a.txt', 'hash-b')]);
+    expect(index.get('docs/a.txt')?.previousPath).toBeUndefined();
+  });
+
+  it('prunes entries for files that disappeared', () => {
+    index.upsertMany([entry('a.txt', 'hash-a'), entry('b.txt', 'hash-b')]);
+
+    expect(index.prune(new Set(['a.txt']))).toBe(1);
+    expect(index.list().map((e) => e.relativePath)).toEqual(['a.txt']);
+  });
+});
+
+describe('FileWatcher with file index', () => {
+  let tempDir: string;
+  let folderPath: string;
+  let watcher: FileWatcher;
+  let folder: FolderConfig;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-index-scan-'));
+    folderPath = path.join(tempDir, 'folder');
+    await fs.mkdir(folderPath);
+    await fs.writeFile(path.join(folderPath, 'a.txt'), 'alpha');
+    await fs.writeFile(path.join(folderPath, 'b.txt'), 'bravo');
+
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'test-config' });
+    watcher = new FileWatcher(store);
+    folder = {
+      id: `folder-${Date.now()}`,
+      path: folderPath,
+      name: 'folder',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: [],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await watcher.watchFolder(folder);
+  });
+
+  afterEach(async () => {
+    await watcher.deleteFileIndex(folder.id);
+    await watcher.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('rehashes only files whose stats changed', async () => {
+    const hashSpy = jest.spyOn(watcher as any, 'calculateFileHashes');
+
+    await watcher.scanFolder(folder);
+    expect(hashSpy).toHaveBeenCalledTimes(2);
+
+    hashSpy.mockClear();
+    await watcher.scanFolder(folder);
+    expect(hashSpy).not.toHaveBeenCalled();
+
+    await fs.writeFile(path.join(folderPath, 'b.txt'), 'bravo-changed');
+    const files = await watcher.scanFolder(folder);
+    expect(hashSpy).toHaveBeenCalledTimes(1);
+    expect(hashSpy.mock.calls[0][0]).toBe(path.join(folderPath, 'b.txt'));
+    expect(files.find((f) => f.relativePath === 'b.txt')?.hash).toBe(
+      watcher.getFileIndex(folder.id).get('b.txt')?.hash
+    );
+  });
+
+  it('drops index entries for deleted files', async () => {
+    await watcher.scanFolder(folder);
+    await fs.rm(path.join(folderPath, 'a.txt'));
+    await watcher.scanFolder(folder);
+
+    expect(watcher.getFileIndex(folder.id).get('a.txt')).toBeUndefined();
+  });
+});
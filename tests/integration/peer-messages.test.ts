@@ -0,0 +1,226 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { NetworkManager } from '../../src/main/network/networkManager';
+import { IntrusionDetection } from '../../src/main/network/security/IntrusionDetection';
+import { MAX_CHUNK_SIZE } from '../../src/main/sync/linkStats';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+/** Socket whose `deliver` plays a message from the peer and whose `sent` collects our replies. */
+type TestSocket = EventEmitter & {
+  deliver: (channel: string, payload: unknown) => boolean;
+  sent: Array<[string, any]>;
+  disconnect: jest.Mock;
+  connected: boolean;
+  handshake: { address: string };
+  request: { socket: object };
+  data: Record<string, unknown>;
+};
+
+const FORWARDED_EVENTS = [
+  'transfer-request',
+  'chunk-manifest-request',
+  'transfer-init',
+  'transfer-chunk',
+  'transfer-frame',
+  'transfer-complete',
+  'transfer-error',
+  'remote-sync-status',
+];
+
+describe('NetworkManager peer message validation', () => {
+  let tempDir: string;
+  let manager: NetworkManager;
+  let socket: TestSocket;
+  let forwarded: Array<[string, any]>;
+  let report: jest.SpyInstance;
+
+  const createSocket = (): TestSocket => {
+    const created = new EventEmitter() as TestSocket;
+    created.deliver = created.emit.bind(created);
+    created.sent = [];
+    created.emit = (channel: string, payload?: unknown) => {
+      created.sent.push([channel, payload]);
+      return true;
+    };
+    created.disconnect = jest.fn();
+    created.connected = true;
+    created.handshake = { address: '192.168.1.20' };
+    created.request = { socket: {} };
+    created.data = {};
+    return created;
+  };
+
+  const request = {
+    transferId: '7f1c2a9e-3b4d-4c5e-8f60-718293a4b5c6',
+    folderId: 'shared',
+    relativePath: 'docs/readme.md',
+  };
+  const hash = 'ab'.repeat(32);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'peer-messages-'));
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    manager = new NetworkManager(store);
+    socket = createSocket();
+    (manager as any).setupDeviceHandlers(socket, 'device-b');
+
+    forwarded = [];
+    for (const event of FORWARDED_EVENTS) {
+      manager.on(event, (payload) => forwarded.push([event, payload]));
+    }
+    report = jest.spyOn(IntrusionDetection.prototype, 'report');
+  });
+
+  afterEach(async () => {
+    report.mockRestore();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['request-file', { ...request, relativePath: 42 }],
+    ['request-file', { ...request, signature: { blockSize: 2048, size: 10, blocks: [{}] } }],
+    ['request-file', { ...request, resume: { chunkSize: 1024, chunks: [0, -1] } }],
+    ['request-chunk-manifest', { ...request, chunkSize: 1.5 }],
+    ['transfer-init', { transferId: request.transferId, totalChunks: 1, chunkSize: 1024 }],
+    [
+      'transfer-init',
+      {
+        transferId: request.transferId,
+        file: { path: 'a.txt', name: 'a.txt', size: 3 },
+        totalChunks: 1,
+        chunkSize: MAX_CHUNK_SIZE * 2,
+        compressed: false,
+      },
+    ],
+    ['transfer-chunk', { transferId: request.transferId, chunkIndex: 0, data: '<?>', hash }],
+    ['transfer-chunk', { transferId: request.transferId, chunkIndex: -1, data: 'AAAA', hash }],
+    ['transfer-complete', { transferId: request.transferId, fileHash: 'not-a-hash' }],
+    ['transfer-complete', { transferId: '../../etc/passwd' }],
+  ])('rejects a malformed %s and fails the transfer on the peer', (event, payload) => {
+    socket.deliver(event, payload);
+
+    expect(forwarded).toEqual([]);
+    expect(report).toHaveBeenCalledWith(
+      expect.objectContaining({
+        peerId: 'device-b',
+        type: 'malformed-message',
+        metadata: expect.objectContaining({ event }),
+      })
+    );
+    const transferId = (payload as { transferId: string }).transferId;
+    const replies = socket.sent.filter(([channel]) => channel === 'transfer-error');
+    if (transferId === request.transferId) {
+      expect(replies).toEqual([
+        ['transfer-error', { transferId, error: expect.stringContaining(`Malformed ${event}`) }],
+      ]);
+    } else {
+      expect(replies).toEqual([]);
+    }
+  });
+
+  it.each([
+    ['transfer-frame', 'AAAA'],
+    ['transfer-frame', Buffer.alloc(MAX_CHUNK_SIZE + 128 * 1024)],
+    ['transfer-error', { transferId: request.transferId }],
+    ['transfer-error', { transferId: request.transferId, error: 'x'.repeat(5000) }],
+    ['sync-status', { folderId: 'shared', state: 'hacked' }],
+    ['sync-status', { folderId: 'shared', state: 'syncing', progress: 250 }],
+    ['request-file', null],
+    ['transfer-init', [request]],
+  ])('drops a malformed %s without answering it', (event, payload) => {
+    socket.deliver(event, payload);
+
+    expect(forwarded).toEqual([]);
+    expect(report).toHaveBeenCalledTimes(1);
+    expect(socket.sent).toEqual([]);
+  });
+
+  it('answers a malformed file list request with a file list error', () => {
+    socket.deliver('request-file-list', { folderId: { $ne: null } });
+
+    expect(socket.sent).toEqual([
+      ['file-list-error', { error: 'request-file-list.folderId must be a string' }],
+    ]);
+  });
+
+  it('refuses file lists of folders not shared with the peer', () => {
+    (manager as any).store.set('folders', [
+      { id: 'shared', path: tempDir, name: 'shared', devices: ['device-c'], ignorePatterns: [] },
+    ]);
+    socket.deliver('request-file-list', { folderId: 'shared' });
+
+    expect(socket.sent).toEqual([['file-list-error', { error: 'Folder shared not found' }]]);
+  });
+
+  it('forwards valid messages without the fields it does not know', () => {
+    socket.deliver('request-file', { ...request, hash, priority: 'urgent' });
+    socket.deliver('sync-status', {
+      folderId: 'shared',
+      state: 'syncing',
+      progress: 42.5,
+      deviceId: 'device-c',
+    });
+
+    expect(forwarded).toEqual([
+      ['transfer-request', { deviceId: 'device-b', payload: { ...request, hash } }],
+      [
+        'remote-sync-status',
+        { deviceId: 'device-b', folderId: 'shared', state: 'syncing', progress: 42.5 },
+      ],
+    ]);
+    expect(report).not.toHaveBeenCalled();
+  });
+
+  it('checks file list replies before handing them to the sync engine', async () => {
+    (manager as any).connections.set('device-b', { socket, deviceId: 'device-b' });
+    const entry = {
+      path: '/home/b/shared/docs/readme.md',
+      relativePath: 'docs/readme.md',
+      name: 'readme.md',
+      size: 12,
+      type: 'file',
+      hash,
+      modifiedAt: '2026-10-01T12:00:00.000Z',
+      createdAt: '2026-10-01T12:00:00.000Z',
+      isIgnored: false,
+      version: { 'device-b': 3 },
+    };
+
+    const valid = manager.requestFileList('device-b', 'shared');
+    socket.deliver('file-list-response', {
+      folderId: 'shared',
+      files: [{ ...entry, owner: 'root' }],
+    });
+    await expect(valid).resolves.toEqual([entry]);
+
+    const malformed = manager.requestFileList('device-b', 'shared');
+    socket.deliver('file-list-response', {
+      folderId: 'shared',
+      files: [{ ...entry, version: { 'device-b': 'many' } }],
+    });
+    await expect(malformed).rejects.toThrow(
+      'file-list-response.files[0].version.device-b must be a number'
+    );
+  });
+
+  it('refuses to authenticate peers that send a malformed handshake', () => {
+    const incoming = createSocket();
+    (manager as any).handleIncomingConnection(incoming);
+
+    incoming.deliver('authenticate', { deviceId: 'device-b', challenge: { length: 1 } });
+
+    expect(incoming.sent).toEqual([['authentication-failed', undefined]]);
+    expect(incoming.disconnect).toHaveBeenCalled();
+    expect(report).toHaveBeenCalledWith(
+      expect.objectContaining({ peerId: '192.168.1.20', type: 'malformed-message' })
+    );
+  });
+});
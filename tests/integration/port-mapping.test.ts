@@ -0,0 +1,104 @@
+import { NATManager } from '../../src/main/network/NATManager';
+import { FakeGateway } from '../helpers/fakeGateway';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('Port mapping', () => {
+  let gateway: FakeGateway;
+  let manager: NATManager;
+
+  const createManager = (lifetime?: number) =>
+    new NATManager(true, {
+      gateway: '127.0.0.1',
+      pmpPort: gateway.pmpPort,
+      ssdpAddress: '127.0.0.1',
+      ssdpPort: gateway.ssdpPort,
+      timeout: 500,
+      lifetime,
+    });
+
+  afterEach(async () => {
+    await manager?.cleanup();
+    await gateway.stop();
+  });
+
+  it('maps through PCP and removes the mapping on cleanup', async () => {
+    gateway = new FakeGateway({ protocols: ['pcp', 'nat-pmp', 'upnp'] });
+    await gateway.start();
+    manager = createManager();
+    await manager.initialize();
+
+    expect(manager.getDevice()).toEqual({ gateway: '127.0.0.1', type: 'pcp' });
+    const mapping = await manager.mapPort(45789, 45789);
+    expect(mapping).toEqual({
+      protocol: 'tcp',
+      privatePort: 45789,
+      publicPort: 45789,
+      ttl: 7200,
+      externalAddress: '203.0.113.9',
+    });
+    expect(gateway.mappings.size).toBe(1);
+
+    await manager.cleanup();
+    expect(gateway.mappings.size).toBe(0);
+    expect(manager.getMappings()).toEqual([]);
+  });
+
+  it('falls back to NAT-PMP when the gateway does not speak PCP', async () => {
+    gateway = new FakeGateway({ protocols: ['nat-pmp'] });
+    await gateway.start();
+    manager = createManager();
+    await manager.initialize();
+
+    expect(manager.getDevice()?.type).toBe('nat-pmp');
+    await expect(manager.getExternalIP()).resolves.toBe('203.0.113.9');
+    const mapping = await manager.mapPort(45789, 45789);
+    expect(mapping?.externalAddress).toBe('203.0.113.9');
+    expect(gateway.mappings.get('tcp:45789')?.via).toBe('nat-pmp');
+
+    await manager.unmapPort(45789);
+    expect(gateway.mappings.size).toBe(0);
+  });
+
+  it('finds a UPnP gateway and settles for a permanent lease when it insists', async () => {
+    gateway = new FakeGateway({ protocols: ['upnp'], permanentLeasesOnly: true });
+    await gateway.start();
+    manager = createManager();
+    await manager.initialize();
+
+    expect(manager.getDevice()?.type).toBe('upnp');
+    const mapping = await manager.mapPort(45789, 45790);
+    expect(mapping).toMatchObject({ publicPort: 45790, ttl: 0, externalAddress: '203.0.113.9' });
+    expect(gateway.mappings.get('tcp:45790')).toMatchObject({ internalPort: 45789, lifetime: 0 });
+
+    await manager.cleanup();
+    expect(gateway.mappings.size).toBe(0);
+  });
+
+  it('renews leases before they expire', async () => {
+    gateway = new FakeGateway({ protocols: ['nat-pmp'] });
+    await gateway.start();
+    manager = createManager(2);
+    await manager.initialize();
+
+    await manager.mapPort(45789, 45789);
+    expect(gateway.requests).toHaveLength(1);
+
+    // Renewed halfway through the two second lease
+    await new Promise((resolve) => manager.once('mapped', resolve));
+    expect(gateway.requests).toHaveLength(2);
+    expect(gateway.mappings.get('tcp:45789')?.lifetime).toBe(2);
+  });
+
+  it('gives up quietly when no gateway answers', async () => {
+    gateway = new FakeGateway({ protocols: [] });
+    await gateway.start();
+    manager = createManager();
+    await manager.initialize();
+
+    expect(manager.getDevice()).toBeNull();
+    await expect(manager.mapPort(45789, 45789)).resolves.toBeNull();
+  });
+});
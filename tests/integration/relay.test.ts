@@ -0,0 +1,317 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import http from 'http';
+import net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Duplex } from 'stream';
+import Store from 'electron-store';
+import selfsigned from 'selfsigned';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { NetworkManager } from '../../src/main/network/networkManager';
+import {
+  RelayClient,
+  RelayConnection,
+  RelaySigner,
+} from '../../src/main/network/relay/RelayClient';
+import {
+  UnsignedRelayRequest,
+  readLine,
+  relayRequestPayload,
+  writeLine,
+} from '../../src/main/network/relay/RelayProtocol';
+import { RelayServer } from '../../src/main/network/relay/RelayServer';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const TOKEN = 'relay-secret';
+
+interface DeviceKeys extends RelaySigner {
+  publicKey: string;
+  privateKey: string;
+}
+
+function createKeys(): DeviceKeys {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  return {
+    publicKey,
+    privateKey,
+    getPublicKey: async () => publicKey,
+    sign: async (data) => crypto.sign('sha256', Buffer.from(data), privateKey).toString('hex'),
+  };
+}
+
+const keys: Record<string, DeviceKeys> = {
+  'device-a': createKeys(),
+  'device-b': createKeys(),
+  intruder: createKeys(),
+};
+
+function readExactly(stream: Duplex, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      received += chunk.length;
+      if (received >= length) {
+        stream.off('data', onData);
+        resolve(Buffer.concat(chunks));
+      }
+    };
+    stream.on('data', onData);
+    stream.once('error', reject);
+  });
+}
+
+describe('Relay', () => {
+  let relay: RelayServer;
+  let port: number;
+  let clients: RelayClient[];
+
+  const createClient = (deviceId: string, token = TOKEN): RelayClient => {
+    const client = new RelayClient(deviceId, keys[deviceId], () => [
+      `relay://127.0.0.1:${port}?token=${token}`,
+    ]);
+    clients.push(client);
+    return client;
+  };
+
+  /** Sends one handshake line signed with `signer` and returns the relay's answer. */
+  const sendRequest = async (
+    request: UnsignedRelayRequest,
+    signer: DeviceKeys
+  ): Promise<Record<string, unknown>> => {
+    const timestamp = Date.now();
+    const socket = net.connect(port, '127.0.0.1');
+    await new Promise((resolve) => socket.once('connect', resolve));
+    writeLine(socket, {
+      ...request,
+      timestamp,
+      publicKey: signer.publicKey,
+      signature: await signer.sign(relayRequestPayload({ ...request, timestamp })),
+    });
+    try {
+      return await readLine(socket, 5000);
+    } finally {
+      socket.destroy();
+    }
+  };
+
+  const listening = async (client: RelayClient, deviceId: string) => {
+    client.listen();
+    for (let attempt = 0; attempt < 100; attempt++) {
+      if (relay.getStats().listeners > 0) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`${deviceId} never registered with the relay`);
+  };
+
+  const startRelay = async (options: { sessionRateLimit?: number } = {}) => {
+    relay = new RelayServer({ port: 0, host: '127.0.0.1', tokens: [TOKEN], ...options });
+    port = await relay.start();
+  };
+
+  beforeEach(() => {
+    clients = [];
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      client.stop();
+    }
+    await relay.stop();
+  });
+
+  it('pipes a session between two devices in both directions', async () => {
+    await startRelay();
+    const receiver = createClient('device-b');
+    const incoming = new Promise<RelayConnection>((resolve) => receiver.once('incoming', resolve));
+    await listening(receiver, 'device-b');
+
+    const dialed = await createClient('device-a').connect('device-b');
+    const accepted = await incoming;
+    expect(accepted.deviceId).toBe('device-a');
+    expect(dialed.stream.remoteAddress).toBe('relay:127.0.0.1');
+
+    dialed.stream.write('ping');
+    expect((await readExactly(accepted.stream, 4)).toString()).toBe('ping');
+    accepted.stream.write('pong');
+    expect((await readExactly(dialed.stream, 4)).toString()).toBe('pong');
+    expect(relay.getStats().sessions).toBe(1);
+
+    dialed.stream.destroy();
+    await new Promise((resolve) => accepted.stream.once('close', resolve));
+  });
+
+  it('serves relayed sessions through an HTTP server', async () => {
+    await startRelay();
+    const server = http.createServer((req, res) => res.end(`hello ${req.url}`));
+    const receiver = createClient('device-b');
+    receiver.on('incoming', ({ stream }: RelayConnection) => server.emit('connection', stream));
+    await listening(receiver, 'device-b');
+
+    const { stream } = await createClient('device-a').connect('device-b');
+    const body = await new Promise<string>((resolve, reject) => {
+      const req = http.request(
+        { host: 'device-b.relay', path: '/files', createConnection: () => stream as any },
+        (res) => {
+          let text = '';
+          res.on('data', (chunk) => (text += chunk));
+          res.on('end', () => resolve(text));
+        }
+      );
+      req.on('error', reject);
+      req.end();
+    });
+
+    expect(body).toBe('hello /files');
+    stream.destroy();
+  });
+
+  it('refuses devices without a valid token', async () => {
+    await startRelay();
+    const receiver = createClient('device-b');
+    await listening(receiver, 'device-b');
+
+    await expect(createClient('device-a', 'wrong').connect('device-b')).rejects.toThrow(
+      'Invalid relay token'
+    );
+  });
+
+  it('refuses sessions to devices that are not registered', async () => {
+    await startRelay();
+
+    await expect(createClient('device-a').connect('device-c')).rejects.toThrow(
+      'Device device-c is not connected to this relay'
+    );
+    expect(relay.getStats().pending).toBe(0);
+  });
+
+  it('holds sessions to their bandwidth cap', async () => {
+    await startRelay({ sessionRateLimit: 64 * 1024 });
+    const receiver = createClient('device-b');
+    const incoming = new Promise<RelayConnection>((resolve) => receiver.once('incoming', resolve));
+    await listening(receiver, 'device-b');
+
+    const dialed = await createClient('device-a').connect('device-b');
+    const accepted = await incoming;
+
+    const started = Date.now();
+    const received = readExactly(accepted.stream, 96 * 1024);
+    dialed.stream.write(Buffer.alloc(96 * 1024, 1));
+    expect((await received).length).toBe(96 * 1024);
+    // Everything after the first chunk waits its turn at 64 KiB/s
+    expect(Date.now() - started).toBeGreaterThanOrEqual(400);
+
+    dialed.stream.destroy();
+  });
+
+  it('refuses requests not signed by the key they carry', async () => {
+    await startRelay();
+
+    const forged = { ...keys.intruder, publicKey: keys['device-b'].publicKey };
+    await expect(
+      sendRequest({ type: 'listen', token: TOKEN, deviceId: 'device-b' }, forged)
+    ).resolves.toEqual({ type: 'error', error: 'Invalid signature' });
+    expect(relay.getStats().listeners).toBe(0);
+  });
+
+  it('does not let another key take over a registered device', async () => {
+    await startRelay();
+    const receiver = createClient('device-b');
+    const incoming = new Promise<RelayConnection>((resolve) => receiver.once('incoming', resolve));
+    await listening(receiver, 'device-b');
+
+    await expect(
+      sendRequest({ type: 'listen', token: TOKEN, deviceId: 'device-b' }, keys.intruder)
+    ).resolves.toEqual({ type: 'error', error: 'Device is registered with another key' });
+    await expect(
+      sendRequest(
+        { type: 'accept', token: TOKEN, deviceId: 'device-b', sessionId: 'guessed' },
+        keys.intruder
+      )
+    ).resolves.toEqual({ type: 'error', error: 'Device is registered with another key' });
+
+    // Sessions still reach the device that registered first
+    const dialed = await createClient('device-a').connect('device-b');
+    expect((await incoming).deviceId).toBe('device-a');
+    dialed.stream.destroy();
+  });
+});
+
+describe('Relayed sessions', () => {
+  let tempDir: string;
+
+  /** A manager that knows `peerId` by `pairedKey` and presents a certificate for its own keys. */
+  const createManager = (own: DeviceKeys, peerId: string, pairedKey: string) => {
+    const store = new Store<AppConfig>({ cwd: path.join(tempDir, peerId), name: 'config' });
+    store.set('devices', [
+      { id: peerId, name: peerId, platform: 'linux', status: 'offline', publicKey: pairedKey },
+    ] as any);
+    const manager = new NetworkManager(store);
+    const { cert } = selfsigned.generate([{ name: 'commonName', value: peerId }], {
+      keyPair: { privateKey: own.privateKey, publicKey: own.publicKey },
+      days: 1,
+      algorithm: 'sha256',
+    } as any);
+    (manager as any).secureChannel = {
+      generateCertificates: async () => ({ key: own.privateKey, cert }),
+    };
+    return manager;
+  };
+
+  /** Runs the TLS handshake of a relayed session between the two managers over a real socket. */
+  const handshake = async (dialer: NetworkManager, listener: NetworkManager) => {
+    const server = net.createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const accepted = new Promise<net.Socket>((resolve) => server.once('connection', resolve));
+    const dialed = net.connect((server.address() as net.AddressInfo).port, '127.0.0.1');
+    try {
+      return await Promise.allSettled([
+        (dialer as any).secureRelayedStream(dialed, 'device-b', false),
+        accepted.then((socket) => (listener as any).secureRelayedStream(socket, 'device-a', true)),
+      ]);
+    } finally {
+      dialed.destroy();
+      server.close();
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'relayed-sessions-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('runs TLS between the paired device keys', async () => {
+    const dialer = createManager(keys['device-a'], 'device-b', keys['device-b'].publicKey);
+    const listener = createManager(keys['device-b'], 'device-a', keys['device-a'].publicKey);
+
+    const [client, server] = await handshake(dialer, listener);
+    expect(client.status).toBe('fulfilled');
+    expect(server.status).toBe('fulfilled');
+  });
+
+  it('refuses a relayed peer that does not hold the paired key', async () => {
+    const dialer = createManager(keys['device-a'], 'device-b', keys['device-b'].publicKey);
+    const impostor = createManager(keys.intruder, 'device-a', keys['device-a'].publicKey);
+
+    const [client] = await handshake(dialer, impostor);
+    expect(client.status).toBe('rejected');
+    expect((client as PromiseRejectedResult).reason.message).toMatch(
+      'does not hold the key of device device-b'
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import * as crypto from 'crypto';
+
+import {
+  AnnouncementSigner,
+  RendezvousClient,
+} from '../../src/main/network/rendezvous/RendezvousClient';
+import { RendezvousServer } from '../../src/main/network/rendezvous/RendezvousServer';
+import { announcementPayload } from '../../src/main/network/rendezvous/RendezvousProtocol';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+function createSigner(): AnnouncementSigner & { publicKey: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  return {
+    publicKey,
+    getPublicKey: async () => publicKey,
+    sign: async (data) => crypto.sign('sha256', Buffer.from(data), privateKey).toString('hex'),
+  };
+}
+
+describe('Rendezvous', () => {
+  const home = createSigner();
+  const school = createSigner();
+  let server: RendezvousServer;
+  let url: string;
+
+  const addresses = [
+    { address: '203.0.113.7', port: 45789 },
+    { address: '192.168.1.20', port: 45789 },
+  ];
+
+  beforeEach(async () => {
+    server = new RendezvousServer({ port: 0, host: '127.0.0.1' });
+    url = `http://127.0.0.1:${await server.start()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('finds the addresses a paired device announced', async () => {
+    const announcer = new RendezvousClient('home-pc', home, () => [url]);
+    const seeker = new RendezvousClient('school-pc', school, () => [url]);
+
+    expect(await announcer.announce(addresses)).toBe(1);
+    await expect(seeker.lookup('home-pc', home.publicKey)).resolves.toEqual(addresses);
+    await expect(seeker.lookup('laptop', home.publicKey)).resolves.toBeNull();
+  });
+
+  it('ignores announcements not signed by the key the device paired with', async () => {
+    await new RendezvousClient('home-pc', home, () => [url]).announce(addresses);
+
+    const seeker = new RendezvousClient('school-pc', school, () => [url]);
+    await expect(seeker.lookup('home-pc', school.publicKey)).resolves.toBeNull();
+  });
+
+  it('does not let another key take over an announced device ID', async () => {
+    await new RendezvousClient('home-pc', home, () => [url]).announce(addresses);
+
+    const impostor = new RendezvousClient('home-pc', school, () => [url]);
+    expect(await impostor.announce([{ address: '198.51.100.1', port: 1 }])).toBe(0);
+
+    const seeker = new RendezvousClient('school-pc', school, () => [url]);
+    await expect(seeker.lookup('home-pc', home.publicKey)).resolves.toEqual(addresses);
+  });
+
+  it('rejects forged and replayed announcements', async () => {
+    const post = (body: unknown) =>
+      fetch(`${url}/v1/announce`, { method: 'POST', body: JSON.stringify(body) });
+    const unsigned = { deviceId: 'home-pc', addresses, timestamp: Date.now() };
+    const announcement = {
+      ...unsigned,
+      publicKey: home.publicKey,
+      signature: await home.sign(announcementPayload(unsigned)),
+    };
+
+    const forged = await post({ ...announcement, addresses: [{ address: '6.6.6.6', port: 1 }] });
+    expect(forged.status).toBe(403);
+    expect((await post(announcement)).status).toBe(204);
+    expect((await post(announcement)).status).toBe(409);
+    expect(
+      (await post({ ...announcement, addresses: [{ address: 'evil', port: 1 }] })).status
+    ).toBe(400);
+  });
+
+  it('keeps looking on the next server when one is unreachable', async () => {
+    const urls = () => ['http://127.0.0.1:1', url];
+    await new RendezvousClient('home-pc', home, urls).announce(addresses);
+
+    const seeker = new RendezvousClient('school-pc', school, urls);
+    await expect(seeker.lookup('home-pc', home.publicKey)).resolves.toEqual(addresses);
+  });
+});
@@ -1,4 +1,4 @@
-import { SecureChannel } from '../../src/main/network/secureChannel';
+import { SecureChannel, certificateMatchesKey } from '../../src/main/network/secureChannel';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -115,6 +115,8 @@ describe('SecureChannel', () => {
 
     expect(certs.cert).toContain('BEGIN CERTIFICATE');
     expect(certs.key).toContain('BEGIN');
+    // Issued for the device key, which is how peers recognise the certificate
+    expect(certificateMatchesKey(certs.cert, await channel.getPublicKey())).toBe(true);
   });
 
   it('should handle binary data encryption', async () => {
@@ -0,0 +1,75 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+import { io as SocketIOClient, Socket as ClientSocket } from 'socket.io-client';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { NetworkManager } from '../../src/main/network/networkManager';
+import { validatePeerMessage } from '../../src/main/network/protocol/MessageSchemas';
+import {
+  FRAME_FLAG_COMPRESSED,
+  encodeTransferFrame,
+} from '../../src/main/network/protocol/TransferFrame';
+import { MAX_CHUNK_SIZE } from '../../src/main/sync/linkStats';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('NetworkManager socket server', () => {
+  let tempDir: string;
+  let manager: NetworkManager;
+  let client: ClientSocket | null = null;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'socket-buffer-'));
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    manager = new NetworkManager(store);
+
+    // Only the socket server is under test; keep discovery and NAT off the network
+    const internals = manager as any;
+    internals.secureChannel = { initialize: async () => undefined };
+    internals.discoveryService = { start: async () => undefined, stop: async () => undefined };
+    internals.natTraversal = { start: async () => undefined, stop: async () => undefined };
+    internals.relayClient = { listen: () => undefined, stop: () => undefined };
+    internals.natManager = { cleanup: async () => undefined };
+    internals.startRendezvous = () => undefined;
+    internals.startPortMapping = async () => undefined;
+    internals.startHeartbeat = () => undefined;
+    await manager.start();
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    client = null;
+    await manager.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('accepts a transfer frame carrying the largest chunk over a real connection', async () => {
+    // Incompressible data comes out of compression a little larger than it went in
+    const data = crypto.randomBytes(MAX_CHUNK_SIZE + 64 * 1024);
+    const frame = encodeTransferFrame({
+      transferId: crypto.randomUUID(),
+      chunkIndex: 0,
+      flags: FRAME_FLAG_COMPRESSED,
+      hash: crypto.createHash('sha256').update(data).digest('hex'),
+      data,
+    });
+
+    const received = new Promise<Buffer>((resolve) =>
+      (manager as any).socketServer.once('connection', (socket: any) =>
+        socket.once('transfer-frame', resolve)
+      )
+    );
+    const { port } = (manager as any).server.address();
+    client = SocketIOClient(`http://127.0.0.1:${port}`, { reconnection: false });
+    client.once('connect', () => client!.emit('transfer-frame', frame));
+
+    const payload = await received;
+    expect(Buffer.compare(payload, frame)).toBe(0);
+    expect(() => validatePeerMessage('transfer-frame', payload)).not.toThrow();
+  });
+});
@@ -0,0 +1,80 @@
+import { NATTraversal } from '../../src/main/network/natTraversal';
+import { NatClassifier } from '../../src/main/network/stun/NatClassifier';
+import { StunServer } from '../../src/main/network/stun/StunServer';
+import { StunAddress } from '../../src/main/network/stun/StunMessage';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('STUN', () => {
+  let responder: StunServer;
+  let primary: StunAddress;
+
+  afterEach(async () => {
+    await responder.stop();
+  });
+
+  describe('against an RFC 5780 responder', () => {
+    beforeEach(async () => {
+      responder = new StunServer({ host: '127.0.0.1', alternateHost: '127.0.0.2', port: 0 });
+      primary = await responder.start();
+    });
+
+    it('classifies an unfiltered host without NAT as open', async () => {
+      const result = await new NatClassifier({ timeout: 500 }).classify([primary]);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          type: 'open',
+          mapping: 'none',
+          filtering: 'endpoint-independent',
+          publicAddress: '127.0.0.1',
+          server: `127.0.0.1:${primary.port}`,
+        })
+      );
+    });
+
+    it('moves on to the next server when one does not answer', async () => {
+      const result = await new NatClassifier({ timeout: 300 }).classify([
+        { address: '127.0.0.1', port: 9 },
+        primary,
+      ]);
+
+      expect(result.server).toBe(`127.0.0.1:${primary.port}`);
+    });
+
+    it('uses the STUN servers from the network rules', async () => {
+      const traversal = new NATTraversal(() => ['not a url', `stun:127.0.0.1:${primary.port}`]);
+
+      const result = await traversal.classifyNat();
+
+      expect(result.type).toBe('open');
+      expect(traversal.getNatClassification()).toBe(result);
+      expect(traversal.getPublicEndpoint()).toEqual({
+        address: '127.0.0.1',
+        port: result.publicPort,
+      });
+    });
+  });
+
+  it('leaves filtering unknown on servers without an alternate address', async () => {
+    responder = new StunServer({ host: '127.0.0.1', port: 0 });
+    primary = await responder.start();
+
+    const result = await new NatClassifier({ timeout: 300 }).classify([primary]);
+
+    expect(result).toEqual(
+      expect.objectContaining({ type: 'unknown', mapping: 'none', filtering: 'unknown' })
+    );
+  });
+
+  it('fails when no server answers', async () => {
+    responder = new StunServer({ host: '127.0.0.1', port: 0 });
+    await responder.start();
+
+    await expect(
+      new NatClassifier({ timeout: 200 }).classify([{ address: '127.0.0.1', port: 9 }])
+    ).rejects.toThrow('No STUN server answered');
+  });
+});
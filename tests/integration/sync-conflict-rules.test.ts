@@ -0,0 +1,184 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import {
+  ConflictRule,
+  DeviceInfo,
+  FileInfo,
+  FolderConfig,
+  SyncStatus,
+  VersionVector,
+} from '../../src/shared/types/sync';
+import { FileWatcher } from '../../src/main/sync/fileWatcher';
+import { SyncEngine } from '../../src/main/sync/syncEngine';
+import { findConflictRule, resolveByRule } from '../../src/main/sync/conflictRules';
+import { FakeNetwork } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('SyncEngine conflict rules', () => {
+  let tempDir: string;
+  let folder: FolderConfig;
+  let store: Store<AppConfig>;
+  let watcher: FileWatcher;
+  let engine: SyncEngine;
+  let remoteFiles: FileInfo[];
+  let remoteContent: string;
+  let downloadSpy: jest.SpyInstance;
+
+  const original = ['# Plan', 'Budget: 100', ''].join('\n');
+  const notesPath = () => path.join(folder.path, 'notes.md');
+  const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+  const shareRemote = (content: string, version: VersionVector) => {
+    remoteContent = content;
+    remoteFiles = [
+      {
+        path: '/remote/notes.md',
+        relativePath: 'notes.md',
+        name: 'notes.md',
+        size: Buffer.byteLength(content),
+        type: 'file',
+        hash: sha256(content),
+        modifiedAt: new Date(),
+        createdAt: new Date(),
+        isIgnored: false,
+        version,
+      },
+    ];
+  };
+
+  const sync = () => (engine as any).syncFolder(folder.id) as Promise<void>;
+  const conflicts = () => (engine.getSyncStatus(folder.id) as SyncStatus).conflicts ?? [];
+
+  const setRules = (conflictRules: ConflictRule[]) => {
+    folder = { ...folder, conflictRules };
+    store.set('folders', [folder]);
+  };
+
+  const diverge = async (localContent: string, remoteEdit: string) => {
+    shareRemote(original, { 'device-a': 1 });
+    await sync();
+    await fs.writeFile(notesPath(), localContent);
+    shareRemote(remoteEdit, { 'device-a': 2 });
+    downloadSpy.mockClear();
+    await sync();
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-rules-'));
+    await fs.mkdir(path.join(tempDir, 'folder'));
+    await fs.writeFile(path.join(tempDir, 'folder', 'notes.md'), original);
+
+    folder = {
+      id: `folder-${Date.now()}`,
+      path: path.join(tempDir, 'folder'),
+      name: 'folder',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'simple', keepVersions: 5 },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', [{ id: 'device-a', name: 'Laptop', role: 'home' } as DeviceInfo]);
+
+    const local = new FakeNetwork('device-b');
+    const remote = new FakeNetwork('device-a');
+    FakeNetwork.link(local, remote);
+    remote.setFileListProvider(async () => remoteFiles);
+
+    watcher = new FileWatcher(store);
+    engine = new SyncEngine(store, watcher, local as any);
+    await (engine as any).initializeFolder(folder);
+
+    const transferManager = (engine as any).transferManager;
+    downloadSpy = jest
+      .spyOn(transferManager, 'downloadFile')
+      .mockImplementation(async (...args: unknown[]) => {
+        const file = args[1] as FileInfo;
+        const targetPath =
+          (args[3] as string | undefined) ?? path.join(folder.path, file.relativePath);
+        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+        await fs.writeFile(targetPath, remoteContent);
+      });
+    jest.spyOn(transferManager, 'uploadFile').mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await engine.removeFolder(folder.id);
+    await watcher.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves matching conflicts without queuing them for the user', async () => {
+    setRules([{ pattern: '**/*.md', resolution: 'remote' }]);
+    const detected = jest.fn();
+    engine.on('conflict-detected', detected);
+
+    await diverge('# Plan\nBudget: 120\n', '# Plan\nBudget: 90\n');
+
+    expect(detected).not.toHaveBeenCalled();
+    expect(conflicts()).toEqual([]);
+    expect(await fs.readFile(notesPath(), 'utf8')).toBe('# Plan\nBudget: 90\n');
+  });
+
+  it('only applies rules scoped to the role of the conflicting peer', async () => {
+    setRules([
+      { pattern: '*.md', resolution: 'remote', deviceRole: 'school' },
+      { pattern: '*.txt', resolution: 'remote' },
+    ]);
+
+    await diverge('# Plan\nBudget: 120\n', '# Plan\nBudget: 90\n');
+
+    expect(conflicts()).toHaveLength(1);
+    expect(await fs.readFile(notesPath(), 'utf8')).toBe('# Plan\nBudget: 120\n');
+  });
+
+  it('queues the conflict when a merge rule hits overlapping edits', async () => {
+    setRules([{ pattern: 'notes.md', resolution: 'merge' }]);
+
+    await diverge('# Plan\nBudget: 120\n', '# Plan\nBudget: 90\n');
+
+    const [conflict] = conflicts();
+    expect(conflict.resolved).toBe(false);
+    expect(conflict.mergeFilePath).toBeDefined();
+  });
+
+  it('picks the newest or largest side', () => {
+    const version = (size: number, modifiedAt: string) => ({
+      id: 'v',
+      hash: 'h',
+      size,
+      modifiedAt: new Date(modifiedAt),
+      modifiedBy: 'user',
+      deviceId: 'device-a',
+      deviceName: 'Laptop',
+    });
+    const conflict = {
+      id: 'c',
+      filePath: '/sync/a.psd',
+      localVersion: version(10, '2025-01-02'),
+      remoteVersion: version(20, '2025-01-01'),
+      detectedAt: new Date(),
+      resolved: false,
+    };
+
+    expect(resolveByRule({ pattern: '*', resolution: 'newest' }, conflict)).toBe('local');
+    expect(resolveByRule({ pattern: '*', resolution: 'largest' }, conflict)).toBe('remote');
+    expect(resolveByRule({ pattern: '*', resolution: 'manual' }, conflict)).toBeNull();
+    expect(
+      findConflictRule([{ pattern: 'design/**', resolution: 'local' }], 'design\\a.psd', undefined)
+    ).toBeDefined();
+  });
+});
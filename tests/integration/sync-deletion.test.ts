@@ -0,0 +1,172 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig, SyncStatus, VersionVector } from '../../src/shared/types/sync';
+import { FileWatcher } from '../../src/main/sync/fileWatcher';
+import { SyncEngine } from '../../src/main/sync/syncEngine';
+import { FakeNetwork } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('SyncEngine deletion propagation', () => {
+  let tempDir: string;
+  let folder: FolderConfig;
+  let watcher: FileWatcher;
+  let engine: SyncEngine;
+  let remote: FakeNetwork;
+  let remoteFiles: FileInfo[];
+  let downloadSpy: jest.SpyInstance;
+  let uploadSpy: jest.SpyInstance;
+
+  const notes = Buffer.from('meeting notes');
+  const notesPath = () => path.join(folder.path, 'docs', 'notes.txt');
+  const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+  const remoteEntry = (version: VersionVector, deleted?: boolean): FileInfo => ({
+    path: '/remote/docs/notes.txt',
+    relativePath: 'docs/notes.txt',
+    name: 'notes.txt',
+    size: notes.length,
+    type: 'file',
+    hash: sha256(notes),
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    isIgnored: false,
+    version,
+    deleted,
+  });
+
+  const sync = () => (engine as any).syncFolder(folder.id) as Promise<void>;
+  const listedByUs = () => remote.requestFileList('device-b', folder.id) as Promise<FileInfo[]>;
+  const exists = (filePath: string) =>
+    fs.stat(filePath).then(
+      () => true,
+      () => false
+    );
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-deletion-'));
+    const folderPath = path.join(tempDir, 'folder');
+    await fs.mkdir(path.join(folderPath, 'docs'), { recursive: true });
+    await fs.writeFile(path.join(folderPath, 'docs', 'notes.txt'), notes);
+
+    folder = {
+      id: `folder-${Date.now()}`,
+      path: folderPath,
+      name: 'folder',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'simple', keepVersions: 5 },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+
+    const local = new FakeNetwork('device-b');
+    remote = new FakeNetwork('device-a');
+    FakeNetwork.link(local, remote);
+    remote.setFileListProvider(async () => remoteFiles);
+    remoteFiles = [];
+
+    watcher = new FileWatcher(store);
+    engine = new SyncEngine(store, watcher, local as any);
+    await (engine as any).initializeFolder(folder);
+
+    const transferManager = (engine as any).transferManager;
+    downloadSpy = jest.spyOn(transferManager, 'downloadFile').mockResolvedValue(undefined);
+    uploadSpy = jest.spyOn(transferManager, 'uploadFile').mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await engine.removeFolder(folder.id);
+    await watcher.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('advertises local deletions instead of fetching the file back', async () => {
+    remoteFiles = [remoteEntry({ 'device-a': 1 })];
+    await sync();
+    await fs.unlink(notesPath());
+
+    await sync();
+
+    expect(downloadSpy).not.toHaveBeenCalled();
+    const tombstone = (await listedByUs()).find((file) => file.deleted);
+    expect(tombstone).toMatchObject({
+      relativePath: 'docs/notes.txt',
+      deleted: true,
+      hash: sha256(notes),
+      version: { 'device-a': 1, 'device-b': 2 },
+    });
+  });
+
+  it('keeps tombstones from peers on the original protocol', async () => {
+    remoteFiles = [remoteEntry({ 'device-a': 1 })];
+    await sync();
+    await fs.unlink(notesPath());
+    await sync();
+
+    remote.protocolVersion = '1.0.0';
+    expect((await listedByUs()).filter((file) => file.type === 'file')).toEqual([]);
+  });
+
+  it('moves files the peer deleted into the version store', async () => {
+    remoteFiles = [remoteEntry({ 'device-a': 1, 'device-b': 1 }, true)];
+
+    await sync();
+
+    expect(await exists(notesPath())).toBe(false);
+    expect(await fs.readdir(folder.path)).toEqual([]);
+    expect(watcher.getFileIndex(folder.id).get('docs/notes.txt')).toBeUndefined();
+
+    const [version] = await (engine as any).versionManager.getVersions(notesPath());
+    expect(await (engine as any).versionManager.getVersion(notesPath(), version.id)).toEqual(notes);
+
+    // The peer's tombstone is passed on unchanged
+    expect(await listedByUs()).toEqual([
+      expect.objectContaining({ deleted: true, version: { 'device-a': 1, 'device-b': 1 } }),
+    ]);
+  });
+
+  it('raises a conflict when the peer deleted a file edited here', async () => {
+    remoteFiles = [remoteEntry({ 'device-a': 1 }, true)];
+
+    await sync();
+
+    const status = engine.getSyncStatus(folder.id) as SyncStatus;
+    expect(status.conflicts).toHaveLength(1);
+    expect(status.conflicts![0].remoteVersion.deleted).toBe(true);
+    expect(uploadSpy).not.toHaveBeenCalled();
+    expect(await exists(notesPath())).toBe(true);
+
+    await engine.resolveConflict(status.conflicts![0].id, 'remote');
+
+    expect(await exists(notesPath())).toBe(false);
+  });
+
+  it('lets a file created again supersede its tombstone', async () => {
+    await sync();
+    await fs.unlink(notesPath());
+    await sync();
+
+    await fs.writeFile(notesPath(), notes);
+    await sync();
+
+    const listed = await listedByUs();
+    expect(listed.filter((file) => file.deleted)).toEqual([]);
+    expect(listed.find((file) => file.relativePath === 'docs/notes.txt')?.version).toEqual({
+      'device-b': 3,
+    });
+  });
+});
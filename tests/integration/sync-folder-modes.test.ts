@@ -0,0 +1,155 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig, SyncStatus, VersionVector } from '../../src/shared/types/sync';
+import { FileWatcher } from '../../src/main/sync/fileWatcher';
+import { SyncEngine } from '../../src/main/sync/syncEngine';
+import { FakeNetwork } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('SyncEngine folder modes', () => {
+  let tempDir: string;
+  let folder: FolderConfig;
+  let watcher: FileWatcher;
+  let engine: SyncEngine;
+  let remoteContents: Map<string, string>;
+  let remoteFiles: FileInfo[];
+  let downloadSpy: jest.SpyInstance;
+
+  const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+  const shareRemote = (relativePath: string, content: string, version: VersionVector) => {
+    remoteContents.set(relativePath, content);
+    remoteFiles = [
+      ...remoteFiles.filter((file) => file.relativePath !== relativePath),
+      {
+        path: `/remote/${relativePath}`,
+        relativePath,
+        name: path.basename(relativePath),
+        size: Buffer.byteLength(content),
+        type: 'file',
+        hash: sha256(content),
+        modifiedAt: new Date(),
+        createdAt: new Date(),
+        isIgnored: false,
+        version,
+      },
+    ];
+  };
+
+  const sync = () => (engine as any).syncFolder(folder.id) as Promise<void>;
+  const readLocal = (relativePath: string) =>
+    fs.readFile(path.join(folder.path, relativePath), 'utf8');
+  const localEntry = async (relativePath: string) =>
+    ((await (engine as any).listLocalFiles(folder)) as FileInfo[]).find(
+      (file) => file.relativePath === relativePath
+    );
+
+  const setUp = async (mode: FolderConfig['mode']) => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-modes-'));
+    await fs.mkdir(path.join(tempDir, 'folder'));
+    await fs.writeFile(path.join(tempDir, 'folder', 'notes.md'), 'local notes\n');
+
+    folder = {
+      id: `folder-${Date.now()}`,
+      path: path.join(tempDir, 'folder'),
+      name: 'folder',
+      mode,
+      status: { state: 'idle' },
+      devices: ['device-a'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'simple', keepVersions: 5 },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+
+    const local = new FakeNetwork('device-b');
+    const remote = new FakeNetwork('device-a');
+    FakeNetwork.link(local, remote);
+    remote.setFileListProvider(async () => remoteFiles);
+
+    watcher = new FileWatcher(store);
+    engine = new SyncEngine(store, watcher, local as any);
+    await (engine as any).initializeFolder(folder);
+
+    const transferManager = (engine as any).transferManager;
+    downloadSpy = jest
+      .spyOn(transferManager, 'downloadFile')
+      .mockImplementation(async (...args: unknown[]) => {
+        const file = args[1] as FileInfo;
+        const targetPath =
+          (args[3] as string | undefined) ?? path.join(folder.path, file.relativePath);
+        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+        await fs.writeFile(targetPath, remoteContents.get(file.relativePath) ?? '');
+      });
+    jest.spyOn(transferManager, 'uploadFile').mockResolvedValue(undefined);
+  };
+
+  beforeEach(() => {
+    remoteContents = new Map();
+    remoteFiles = [];
+  });
+
+  afterEach(async () => {
+    await engine.removeFolder(folder.id);
+    await watcher.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('never applies remote changes to a send-only folder', async () => {
+    await setUp('send-only');
+    shareRemote('notes.md', 'remote notes\n', { 'device-a': 5 });
+    shareRemote('extra.txt', 'extra\n', { 'device-a': 1 });
+
+    await sync();
+
+    expect(downloadSpy).not.toHaveBeenCalled();
+    expect(await readLocal('notes.md')).toBe('local notes\n');
+    expect((engine.getSyncStatus(folder.id) as SyncStatus).conflicts ?? []).toEqual([]);
+  });
+
+  it('overrides remote changes by making the local state newer', async () => {
+    await setUp('send-only');
+    shareRemote('notes.md', 'remote notes\n', { 'device-a': 5 });
+    shareRemote('extra.txt', 'extra\n', { 'device-a': 1 });
+
+    await expect(engine.overrideRemoteChanges(folder.id)).resolves.toBe(2);
+
+    const notes = await localEntry('notes.md');
+    expect(notes?.version).toMatchObject({ 'device-a': 5 });
+    expect((engine as any).compareVersions(notes, remoteFiles[0])).toBe('newer');
+    const extra = await localEntry('extra.txt');
+    expect(extra?.deleted).toBe(true);
+    expect((engine as any).compareVersions(extra, remoteFiles[1])).toBe('newer');
+
+    await expect(engine.revertLocalChanges(folder.id)).rejects.toThrow(/receive-only/);
+  });
+
+  it('reverts local additions and edits in a receive-only folder', async () => {
+    await setUp('receive-only');
+    shareRemote('notes.md', 'local notes\n', { 'device-a': 1 });
+    await sync();
+
+    await fs.writeFile(path.join(folder.path, 'notes.md'), 'edited here\n');
+    await fs.mkdir(path.join(folder.path, 'drafts'));
+    await fs.writeFile(path.join(folder.path, 'drafts', 'idea.md'), 'new idea\n');
+    shareRemote('notes.md', 'local notes\n', { 'device-a': 1 });
+
+    await expect(engine.revertLocalChanges(folder.id)).resolves.toBe(2);
+
+    expect(await readLocal('notes.md')).toBe('local notes\n');
+    await expect(fs.access(path.join(folder.path, 'drafts'))).rejects.toThrow();
+    expect(await localEntry('drafts/idea.md')).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig, SyncStatus, VersionVector } from '../../src/shared/types/sync';
+import { FileWatcher } from '../../src/main/sync/fileWatcher';
+import { SyncEngine } from '../../src/main/sync/syncEngine';
+import { FakeNetwork } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('SyncEngine merge resolution', () => {
+  let tempDir: string;
+  let folder: FolderConfig;
+  let watcher: FileWatcher;
+  let engine: SyncEngine;
+  let remoteFiles: FileInfo[];
+  let remoteContent: string;
+
+  const original = ['# Plan', '', 'Goals', 'Budget: 100', 'Owner: Ann', ''].join('\n');
+  const notesPath = () => path.join(folder.path, 'notes.md');
+  const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+  const shareRemote = (content: string, version: VersionVector) => {
+    remoteContent = content;
+    remoteFiles = [
+      {
+        path: '/remote/notes.md',
+        relativePath: 'notes.md',
+        name: 'notes.md',
+        size: Buffer.byteLength(content),
+        type: 'file',
+        hash: sha256(content),
+        modifiedAt: new Date(),
+        createdAt: new Date(),
+        isIgnored: false,
+        version,
+      },
+    ];
+  };
+
+  const sync = () => (engine as any).syncFolder(folder.id) as Promise<void>;
+  const conflicts = () => (engine.getSyncStatus(folder.id) as SyncStatus).conflicts ?? [];
+
+  /** Both sides start from the same content, then edit it concurrently. */
+  const diverge = async (localContent: string, remoteEdit: string) => {
+    shareRemote(original, { 'device-a': 1 });
+    await sync();
+
+    await fs.writeFile(notesPath(), localContent);
+    shareRemote(remoteEdit, { 'device-a': 2 });
+    await sync();
+    expect(conflicts()).toHaveLength(1);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-merge-'));
+    await fs.mkdir(path.join(tempDir, 'folder'));
+    await fs.writeFile(path.join(tempDir, 'folder', 'notes.md'), original);
+
+    folder = {
+      id: `folder-${Date.now()}`,
+      path: path.join(tempDir, 'folder'),
+      name: 'folder',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'simple', keepVersions: 5 },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+
+    const local = new FakeNetwork('device-b');
+    const remote = new FakeNetwork('device-a');
+    FakeNetwork.link(local, remote);
+    remote.setFileListProvider(async () => remoteFiles);
+
+    watcher = new FileWatcher(store);
+    engine = new SyncEngine(store, watcher, local as any);
+    await (engine as any).initializeFolder(folder);
+
+    const transferManager = (engine as any).transferManager;
+    jest.spyOn(transferManager, 'downloadFile').mockImplementation(async (...args: unknown[]) => {
+      const targetPath = args[3] as string;
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.writeFile(targetPath, remoteContent);
+    });
+    jest.spyOn(transferManager, 'uploadFile').mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await engine.removeFolder(folder.id);
+    await watcher.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('merges edits to different lines against the last shared version', async () => {
+    await diverge(
+      original.replace('# Plan', '# Q3 plan'),
+      original.replace('Owner: Ann', 'Owner: Bob')
+    );
+
+    await engine.resolveConflict(conflicts()[0].id, 'merge');
+
+    expect(await fs.readFile(notesPath(), 'utf8')).toBe(
+      ['# Q3 plan', '', 'Goals', 'Budget: 100', 'Owner: Bob', ''].join('\n')
+    );
+    expect(conflicts()).toEqual([]);
+    expect(watcher.getFileIndex(folder.id).get('notes.md')?.version).toEqual({
+      'device-a': 2,
+      'device-b': 4,
+    });
+  });
+
+  it('keeps no merge ancestors for folders without versioning', async () => {
+    folder.versioningPolicy = { type: 'none' };
+    (engine as any).store.set('folders', [folder]);
+
+    shareRemote(original, { 'device-a': 1 });
+    await sync();
+
+    expect(await (engine as any).versionManager.getVersions(notesPath())).toEqual([]);
+  });
+
+  it('writes a merge file with conflict markers when both sides changed the same line', async () => {
+    const localContent = original.replace('Budget: 100', 'Budget: 120');
+    await diverge(localContent, original.replace('Budget: 100', 'Budget: 90'));
+
+    await engine.resolveConflict(conflicts()[0].id, 'merge');
+
+    const [conflict] = conflicts();
+    expect(conflict.resolved).toBe(false);
+    expect(await fs.readFile(notesPath(), 'utf8')).toBe(localContent);
+    expect(await fs.readFile(conflict.mergeFilePath!, 'utf8')).toBe(
+      [
+        '# Plan',
+        '',
+        'Goals',
+        '<<<<<<< This Device',
+        'Budget: 120',
+        '=======',
+        'Budget: 90',
+        '>>>>>>> device-a',
+        'Owner: Ann',
+        '',
+      ].join('\n')
+    );
+
+    // The merge file stays on this device until the user finishes it
+    const files = await (engine as any).listLocalFiles(folder);
+    expect(files.map((file: FileInfo) => file.relativePath)).toEqual(['notes.md']);
+  });
+});
@@ -0,0 +1,137 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { FileWatcher } from '../../src/main/sync/fileWatcher';
+import { SyncEngine } from '../../src/main/sync/syncEngine';
+import { FakeNetwork } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('SyncEngine rename propagation', () => {
+  let tempDir: string;
+  let folder: FolderConfig;
+  let watcher: FileWatcher;
+  let engine: SyncEngine;
+  let remote: FakeNetwork;
+  let remoteFiles: FileInfo[];
+  let downloadSpy: jest.SpyInstance;
+  let uploadSpy: jest.SpyInstance;
+
+  const report = crypto.randomBytes(100 * 1024);
+  const notes = Buffer.from('meeting notes');
+  const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+  const remoteFile = (relativePath: string, content: Buffer, renamedFrom?: string): FileInfo => ({
+    path: `/remote/${relativePath}`,
+    relativePath,
+    name: path.basename(relativePath),
+    size: content.length,
+    type: 'file',
+    hash: sha256(content),
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    isIgnored: false,
+    version: { 'device-a': 1 },
+    renamedFrom,
+  });
+
+  const sync = () => (engine as any).syncFolder(folder.id) as Promise<void>;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-rename-'));
+    const folderPath = path.join(tempDir, 'folder');
+    await fs.mkdir(path.join(folderPath, 'docs'), { recursive: true });
+    await fs.writeFile(path.join(folderPath, 'docs', 'report.pdf'), report);
+    await fs.writeFile(path.join(folderPath, 'docs', 'notes.txt'), notes);
+
+    folder = {
+      id: `folder-${Date.now()}`,
+      path: folderPath,
+      name: 'folder',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+
+    const local = new FakeNetwork('device-b');
+    remote = new FakeNetwork('device-a');
+    FakeNetwork.link(local, remote);
+    remote.setFileListProvider(async () => remoteFiles);
+
+    watcher = new FileWatcher(store);
+    engine = new SyncEngine(store, watcher, local as any);
+    await (engine as any).initializeFolder(folder);
+
+    const transferManager = (engine as any).transferManager;
+    downloadSpy = jest.spyOn(transferManager, 'downloadFile').mockResolvedValue(undefined);
+    uploadSpy = jest.spyOn(transferManager, 'uploadFile').mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await watcher.deleteFileIndex(folder.id);
+    await watcher.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('moves local files when the peer renamed their directory', async () => {
+    remoteFiles = [
+      remoteFile('archive/report.pdf', report, 'docs/report.pdf'),
+      remoteFile('archive/notes.txt', notes, 'docs/notes.txt'),
+    ];
+
+    await sync();
+
+    expect(downloadSpy).not.toHaveBeenCalled();
+    expect(uploadSpy).not.toHaveBeenCalled();
+    expect(await fs.readFile(path.join(folder.path, 'archive', 'report.pdf'))).toEqual(report);
+    expect((await fs.readdir(folder.path)).sort()).toEqual(['archive']);
+
+    const index = watcher.getFileIndex(folder.id);
+    expect(index.get('archive/report.pdf')?.previousPath).toBe('docs/report.pdf');
+    expect(index.get('archive/report.pdf')?.version).toEqual({ 'device-a': 1, 'device-b': 1 });
+  });
+
+  it('does not fetch back files we moved while the peer still has the old path', async () => {
+    await fs.rename(path.join(folder.path, 'docs'), path.join(folder.path, 'archive'));
+    remoteFiles = [remoteFile('docs/report.pdf', report), remoteFile('docs/notes.txt', notes)];
+
+    await sync();
+
+    expect(downloadSpy).not.toHaveBeenCalled();
+    expect(uploadSpy).not.toHaveBeenCalled();
+    expect(watcher.getFileIndex(folder.id).get('archive/notes.txt')?.previousPath).toBe(
+      'docs/notes.txt'
+    );
+  });
+
+  it('downloads the renamed file when the local copy was edited', async () => {
+    await fs.writeFile(path.join(folder.path, 'docs', 'notes.txt'), 'edited notes');
+    remoteFiles = [
+      remoteFile('docs/report.pdf', report),
+      remoteFile('archive/notes.txt', notes, 'docs/notes.txt'),
+    ];
+
+    await sync();
+
+    expect(downloadSpy).toHaveBeenCalledTimes(1);
+    expect(downloadSpy.mock.calls[0][1].relativePath).toBe('archive/notes.txt');
+    expect(await fs.readFile(path.join(folder.path, 'docs', 'notes.txt'), 'utf8')).toBe(
+      'edited notes'
+    );
+  });
+});
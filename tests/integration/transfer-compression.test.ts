@@ -0,0 +1,147 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { CompressionAlgorithm, FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { TransferInitMessage } from '../../src/shared/types/transfer';
+import { TransferManager } from '../../src/main/sync/transferManager';
+import { SUPPORTED_COMPRESSION } from '../../src/main/network/protocol/Compression';
+import { FakeNetwork, sentChunks } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('TransferManager adaptive compression', () => {
+  let tempDir: string;
+  const managers: TransferManager[] = [];
+
+  const createSide = async (name: string, network: FakeNetwork) => {
+    const root = path.join(tempDir, name);
+    await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+
+    const folder: FolderConfig = {
+      id: 'shared',
+      path: path.join(root, 'folder'),
+      name: 'shared',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a', 'device-b'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: root, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+    store.set('performance.compressionEnabled', true);
+    store.set('performance.deltaSync', false);
+
+    const manager = new TransferManager(store, network as any);
+    await manager.initialize();
+    managers.push(manager);
+    return { folder, manager };
+  };
+
+  const transfer = async (
+    name: string,
+    content: Buffer,
+    receiver: { protocolVersion?: string; compressionAlgorithms?: CompressionAlgorithm[] } = {}
+  ) => {
+    const senderNetwork = new FakeNetwork('device-a');
+    const receiverNetwork = new FakeNetwork('device-b');
+    Object.assign(receiverNetwork, receiver);
+    FakeNetwork.link(senderNetwork, receiverNetwork);
+
+    const { folder: senderFolder, manager: sender } = await createSide('a', senderNetwork);
+    const { folder: receiverFolder, manager: receiverManager } = await createSide(
+      'b',
+      receiverNetwork
+    );
+    await fs.writeFile(path.join(senderFolder.path, name), content);
+    const file: FileInfo = {
+      path: path.join(receiverFolder.path, name),
+      relativePath: name,
+      name,
+      size: content.length,
+      type: 'file',
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
+      modifiedAt: new Date(),
+      createdAt: new Date(),
+      isIgnored: false,
+    };
+
+    const spy = jest.spyOn(senderNetwork.socket, 'emit');
+    await receiverManager.downloadFile(receiverFolder, file, 'device-a');
+
+    const received = await fs.readFile(path.join(receiverFolder.path, name));
+    expect(received.equals(content)).toBe(true);
+
+    const init = spy.mock.calls.find(([channel]) => channel === 'transfer-init')?.[1];
+    return {
+      init: init as TransferInitMessage,
+      sentBytes: sentChunks(spy.mock.calls).reduce((total, chunk) => total + chunk.data.length, 0),
+      senderStats: sender.getCompressionStats('shared'),
+      receiverStats: receiverManager.getCompressionStats('shared'),
+    };
+  };
+
+  const text = () =>
+    Buffer.from(
+      Array.from({ length: 40_000 }, (_, line) => `${line}: the quick brown fox jumps\n`).join('')
+    );
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-compression-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.map((manager) => manager.stop()));
+    managers.length = 0;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('compresses text with the preferred algorithm and counts the bytes saved', async () => {
+    const content = text();
+    const { init, sentBytes, senderStats, receiverStats } = await transfer('notes.log', content);
+
+    expect(init.compressed).toBe(true);
+    expect(init.compression).toBe(SUPPORTED_COMPRESSION[0]);
+    expect(sentBytes).toBeLessThan(content.length / 4);
+    expect(senderStats).toEqual({ originalBytes: content.length, transferredBytes: sentBytes });
+    expect(receiverStats).toEqual(senderStats);
+  }, 20000);
+
+  it('sends already compressed formats as they are', async () => {
+    const { init, receiverStats } = await transfer('photo.jpg', text());
+
+    expect(init.compressed).toBe(false);
+    expect(receiverStats.transferredBytes).toBe(receiverStats.originalBytes);
+  }, 20000);
+
+  it('sends high-entropy content as it is', async () => {
+    const content = crypto.randomBytes(512 * 1024);
+    const { init, senderStats } = await transfer('blob.bin', content);
+
+    expect(init.compressed).toBe(false);
+    expect(senderStats).toEqual({
+      originalBytes: content.length,
+      transferredBytes: content.length,
+    });
+  }, 20000);
+
+  it('uses deflate for peers that do not advertise their algorithms', async () => {
+    const { init, sentBytes } = await transfer('notes.log', text(), {
+      protocolVersion: '1.0.0',
+      compressionAlgorithms: ['deflate'],
+    });
+
+    expect(init.compression).toBe('deflate');
+    expect(sentBytes).toBeGreaterThan(0);
+  }, 20000);
+});
@@ -0,0 +1,224 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { PARTIAL_TRANSFER_DIR, TransferManager } from '../../src/main/sync/transferManager';
+import { ChunkStore } from '../../src/main/sync/chunkStore';
+import { FakeNetwork, sentChunks } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('TransferManager delta transfers', () => {
+  let tempDir: string;
+  let senderFolder: FolderConfig;
+  let receiverFolder: FolderConfig;
+  let sender: TransferManager;
+  let receiver: TransferManager;
+  let senderNetwork: FakeNetwork;
+  let receiverChunks: ChunkStore;
+  const chunkStores: ChunkStore[] = [];
+
+  const createSide = async (name: string, network: FakeNetwork) => {
+    const root = path.join(tempDir, name);
+    await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+
+    const folder: FolderConfig = {
+      id: 'shared',
+      path: path.join(root, 'folder'),
+      name: 'shared',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a', 'device-b'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: root, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('performance', {
+      uploadLimit: 0,
+      downloadLimit: 0,
+      maxConcurrentTransfers: 2,
+      compressionEnabled: false,
+      compressionLevel: 6,
+      deltaSync: true,
+      blockSize: 1024 * 1024,
+      pauseOnLowBattery: false,
+      batteryThreshold: 20,
+      pauseOnPowerSave: false,
+    });
+
+    const chunkStore = new ChunkStore(path.join(root, 'chunk-index.db'));
+    chunkStores.push(chunkStore);
+    const manager = new TransferManager(store, network as any);
+    manager.setChunkStore(chunkStore);
+    await manager.initialize();
+    return { folder, manager, chunkStore };
+  };
+
+  const fileInfo = (folder: FolderConfig, relativePath: string, content: Buffer): FileInfo => ({
+    path: path.join(folder.path, relativePath),
+    relativePath,
+    name: path.basename(relativePath),
+    size: content.length,
+    type: 'file',
+    hash: crypto.createHash('sha256').update(content).digest('hex'),
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    isIgnored: false,
+  });
+
+  const sentChunkBytes = (): number =>
+    sentChunks(sendSpy.mock.calls).reduce((sum, chunk) => sum + chunk.data.length, 0);
+
+  let sendSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-delta-'));
+    senderNetwork = new FakeNetwork('device-a');
+    const receiverNetwork = new FakeNetwork('device-b');
+    FakeNetwork.link(senderNetwork, receiverNetwork);
+
+    ({ folder: senderFolder, manager: sender } = await createSide('a', senderNetwork));
+    ({
+      folder: receiverFolder,
+      manager: receiver,
+      chunkStore: receiverChunks,
+    } = await createSide('b', receiverNetwork));
+    sendSpy = jest.spyOn(senderNetwork.socket, 'emit');
+  });
+
+  afterEach(async () => {
+    await sender.stop();
+    await receiver.stop();
+    chunkStores.forEach((chunkStore) => chunkStore.close());
+    chunkStores.length = 0;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('downloads a new file in full', async () => {
+    const content = crypto.randomBytes(300 * 1024);
+    await fs.writeFile(path.join(senderFolder.path, 'new.bin'), content);
+
+    await receiver.downloadFile(
+      receiverFolder,
+      fileInfo(receiverFolder, 'new.bin', content),
+      'device-a'
+    );
+
+    const received = await fs.readFile(path.join(receiverFolder.path, 'new.bin'));
+    expect(received.equals(content)).toBe(true);
+    expect(sentChunkBytes()).toBe(content.length);
+  });
+
+  it('transfers only the changed blocks of an edited file', async () => {
+    const original = crypto.randomBytes(2 * 1024 * 1024);
+    const edited = Buffer.from(original);
+    edited.write('one edited line\n', 1_234_567);
+
+    await fs.writeFile(path.join(receiverFolder.path, 'asset.bin'), original);
+    await fs.writeFile(path.join(senderFolder.path, 'asset.bin'), edited);
+
+    await receiver.downloadFile(
+      receiverFolder,
+      fileInfo(receiverFolder, 'asset.bin', edited),
+      'device-a'
+    );
+
+    const received = await fs.readFile(path.join(receiverFolder.path, 'asset.bin'));
+    expect(received.equals(edited)).toBe(true);
+    expect(sentChunkBytes()).toBeLessThan(16 * 1024);
+
+    const leftovers = (await fs.readdir(receiverFolder.path)).filter(
+      (name) => name !== 'asset.bin'
+    );
+    expect(leftovers).toEqual([]);
+  });
+
+  it('requests the whole file from peers that did not agree to delta sync', async () => {
+    const original = crypto.randomBytes(2 * 1024 * 1024);
+    const edited = Buffer.from(original);
+    edited.write('one edited line\n', 1_234_567);
+    senderNetwork.features = senderNetwork.features.filter((feature) => feature !== 'delta-sync');
+
+    await fs.writeFile(path.join(receiverFolder.path, 'asset.bin'), original);
+    await fs.writeFile(path.join(senderFolder.path, 'asset.bin'), edited);
+
+    await receiver.downloadFile(
+      receiverFolder,
+      fileInfo(receiverFolder, 'asset.bin', edited),
+      'device-a'
+    );
+
+    const received = await fs.readFile(path.join(receiverFolder.path, 'asset.bin'));
+    expect(received.equals(edited)).toBe(true);
+    expect(sentChunkBytes()).toBe(edited.length);
+  });
+
+  it('reuses chunks of other local files for a renamed copy', async () => {
+    const content = crypto.randomBytes(1024 * 1024);
+    const renamed = Buffer.concat([content.subarray(0, 300_000), content.subarray(310_000)]);
+
+    await fs.mkdir(path.join(receiverFolder.path, 'exports'));
+    await fs.writeFile(path.join(receiverFolder.path, 'exports', 'draft.mov'), content);
+    await receiverChunks.indexFile(path.join(receiverFolder.path, 'exports', 'draft.mov'));
+    await fs.writeFile(path.join(senderFolder.path, 'final.mov'), renamed);
+    const applyFile = jest.spyOn((receiver as any).patchApplier, 'applyFile');
+
+    await receiver.downloadFile(
+      receiverFolder,
+      fileInfo(receiverFolder, 'final.mov', renamed),
+      'device-a'
+    );
+
+    const received = await fs.readFile(path.join(receiverFolder.path, 'final.mov'));
+    expect(received.equals(renamed)).toBe(true);
+    expect(sentChunkBytes()).toBeLessThan(renamed.length / 2);
+    expect((await fs.readdir(receiverFolder.path)).sort()).toEqual(['exports', 'final.mov']);
+
+    // The seed and the delta stay out of the folder's synced files while in use
+    const [seedPath, deltaPath] = applyFile.mock.calls[0] as string[];
+    for (const scratchPath of [seedPath, deltaPath]) {
+      expect(path.dirname(scratchPath)).toBe(path.join(receiverFolder.path, PARTIAL_TRANSFER_DIR));
+    }
+  });
+
+  it('refuses requests from devices the folder is not shared with', async () => {
+    const content = crypto.randomBytes(100 * 1024);
+    await fs.writeFile(path.join(senderFolder.path, 'private.bin'), content);
+    (sender as any).store.set('folders', [{ ...senderFolder, devices: ['device-c'] }]);
+    (receiver as any).MAX_RETRIES = 1;
+
+    await expect(
+      receiver.downloadFile(
+        receiverFolder,
+        fileInfo(receiverFolder, 'private.bin', content),
+        'device-a'
+      )
+    ).rejects.toThrow('Folder not found: shared');
+    expect(sendSpy.mock.calls.map(([channel]) => channel)).not.toContain('transfer-init');
+    await expect(fs.access(path.join(receiverFolder.path, 'private.bin'))).rejects.toThrow();
+  });
+
+  it('rejects when the peer cannot send the file', async () => {
+    const content = crypto.randomBytes(100 * 1024);
+    (receiver as any).MAX_RETRIES = 1;
+
+    await expect(
+      receiver.downloadFile(
+        receiverFolder,
+        fileInfo(receiverFolder, 'gone.bin', content),
+        'device-a'
+      )
+    ).rejects.toThrow();
+    await expect(fs.access(path.join(receiverFolder.path, 'gone.bin'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,134 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { DeviceInfo, FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { TransferManager } from '../../src/main/sync/transferManager';
+import { FolderEncryption } from '../../src/main/sync/folderEncryption';
+import { FakeNetwork } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('TransferManager with untrusted peers', () => {
+  const password = 'correct horse battery staple';
+  let tempDir: string;
+  const managers: TransferManager[] = [];
+
+  const createSide = async (
+    name: string,
+    network: FakeNetwork,
+    options: Pick<FolderConfig, 'mode'> & { passwords?: Record<string, string> },
+    devices: Partial<DeviceInfo>[]
+  ) => {
+    const root = path.join(tempDir, name);
+    await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+
+    const folder: FolderConfig = {
+      id: 'shared',
+      path: path.join(root, 'folder'),
+      name: 'shared',
+      status: { state: 'idle' },
+      devices: devices.map((device) => device.id!),
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      mode: options.mode,
+    };
+
+    const store = new Store<AppConfig>({ cwd: root, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', devices as DeviceInfo[]);
+    store.set('performance.deltaSync', true);
+
+    const encryption = new FolderEncryption(store);
+    await encryption.setPasswords(folder.id, options.passwords ?? {});
+    const manager = new TransferManager(store, network as any);
+    manager.setFolderEncryption(encryption);
+    await manager.initialize();
+    managers.push(manager);
+    return { folder, store, manager, encryption };
+  };
+
+  const listFiles = async (dir: string): Promise<string[]> => {
+    const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => path.join(entry.path, entry.name));
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-encrypted-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.map((manager) => manager.stop()));
+    managers.length = 0;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('stores opaque blobs on the untrusted device and decrypts them on trusted ones', async () => {
+    const trustedNetwork = new FakeNetwork('device-a');
+    const untrustedNetwork = new FakeNetwork('device-u');
+    const otherNetwork = new FakeNetwork('device-c');
+    const untrustedPeer = { id: 'device-u', name: 'School PC', untrusted: true };
+
+    const trusted = await createSide(
+      'a',
+      trustedNetwork,
+      { mode: 'send-receive', passwords: { 'device-u': password } },
+      [untrustedPeer]
+    );
+    const untrusted = await createSide('u', untrustedNetwork, { mode: 'receive-encrypted' }, [
+      { id: 'device-a', name: 'Laptop' },
+      { id: 'device-c', name: 'Desktop' },
+    ]);
+    const other = await createSide(
+      'c',
+      otherNetwork,
+      { mode: 'send-receive', passwords: { 'device-u': password } },
+      [untrustedPeer]
+    );
+
+    const content = Buffer.from('exam answers: 42\n'.repeat(5000));
+    await fs.mkdir(path.join(trusted.folder.path, 'private'));
+    await fs.writeFile(path.join(trusted.folder.path, 'private', 'answers.txt'), content);
+    const plainFile: FileInfo = {
+      path: path.join(trusted.folder.path, 'private', 'answers.txt'),
+      relativePath: 'private/answers.txt',
+      name: 'answers.txt',
+      size: content.length,
+      type: 'file',
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
+      modifiedAt: new Date(),
+      createdAt: new Date(),
+      isIgnored: false,
+      version: { 'device-a': 1 },
+    };
+
+    // The untrusted device pulls the entry it saw in the trusted device's encrypted list
+    const cipher = (await trusted.encryption.getCipher(trusted.folder, 'device-u'))!;
+    const [entry] = await trusted.encryption.encryptFileList(cipher, 'shared', [plainFile]);
+    FakeNetwork.link(trustedNetwork, untrustedNetwork);
+    await untrusted.manager.downloadFile(untrusted.folder, entry, 'device-a');
+
+    const stored = await listFiles(untrusted.folder.path);
+    expect(stored).toEqual([path.join(untrusted.folder.path, entry.relativePath)]);
+    const blob = await fs.readFile(stored[0]);
+    expect(blob.includes(Buffer.from('exam answers'))).toBe(false);
+    expect(stored[0]).not.toMatch(/private|answers/);
+
+    // Another trusted device pulls the blob from the untrusted one and decrypts it
+    FakeNetwork.link(otherNetwork, untrustedNetwork);
+    await other.manager.downloadFile(other.folder, plainFile, 'device-u');
+
+    const received = await fs.readFile(path.join(other.folder.path, 'private', 'answers.txt'));
+    expect(received.equals(content)).toBe(true);
+    expect(await listFiles(other.folder.path)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,149 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { TransferManager } from '../../src/main/sync/transferManager';
+import { FakeNetwork, sentChunks } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('TransferManager chunk framing', () => {
+  let tempDir: string;
+  const managers: TransferManager[] = [];
+
+  const createSide = async (name: string, network: FakeNetwork) => {
+    const root = path.join(tempDir, name);
+    await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+
+    const folder: FolderConfig = {
+      id: 'shared',
+      path: path.join(root, 'folder'),
+      name: 'shared',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a', 'device-b'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: root, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+    store.set('performance.compressionEnabled', true);
+    store.set('performance.deltaSync', false);
+
+    const manager = new TransferManager(store, network as any);
+    await manager.initialize();
+    managers.push(manager);
+    return { folder, manager };
+  };
+
+  const transfer = async (receiverVersion: string) => {
+    const senderNetwork = new FakeNetwork('device-a');
+    const receiverNetwork = new FakeNetwork('device-b');
+    receiverNetwork.protocolVersion = receiverVersion;
+    FakeNetwork.link(senderNetwork, receiverNetwork);
+
+    const { folder: senderFolder } = await createSide('a', senderNetwork);
+    const { folder: receiverFolder, manager: receiver } = await createSide('b', receiverNetwork);
+
+    const content = Buffer.concat([crypto.randomBytes(1024 * 1024), Buffer.alloc(512 * 1024, 7)]);
+    await fs.writeFile(path.join(senderFolder.path, 'mixed.bin'), content);
+    const file: FileInfo = {
+      path: path.join(receiverFolder.path, 'mixed.bin'),
+      relativePath: 'mixed.bin',
+      name: 'mixed.bin',
+      size: content.length,
+      type: 'file',
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
+      modifiedAt: new Date(),
+      createdAt: new Date(),
+      isIgnored: false,
+    };
+
+    // The sender picks the chunk format from the version the receiver reported
+    const spy = jest.spyOn(senderNetwork.socket, 'emit');
+    await receiver.downloadFile(receiverFolder, file, 'device-a');
+
+    const received = await fs.readFile(path.join(receiverFolder.path, 'mixed.bin'));
+    expect(received.equals(content)).toBe(true);
+    return spy.mock.calls;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-framing-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.map((manager) => manager.stop()));
+    managers.length = 0;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('sends raw binary frames to peers that support them', async () => {
+    const calls = await transfer('1.1.0');
+    const channels = calls.map(([channel]) => channel);
+
+    expect(channels).toContain('transfer-frame');
+    expect(channels).not.toContain('transfer-chunk');
+    expect(sentChunks(calls).map((chunk) => chunk.chunkIndex)).toEqual([0, 1]);
+  });
+
+  it('refuses chunks that fall outside the announced file', async () => {
+    const network = new FakeNetwork('device-b');
+    FakeNetwork.link(new FakeNetwork('device-a'), network);
+    const { folder, manager } = await createSide('b', network);
+    const emitTo = jest.spyOn(network, 'emitTo');
+
+    const tempFilePath = path.join(folder.path, 'two-chunks.bin.part');
+    const chunkSize = 64 * 1024;
+    (manager as any).downloadSessions.set('transfer-1', {
+      transfer: { id: 'transfer-1', folderId: 'shared', progress: { bytesTransferred: 0 } },
+      tempFilePath,
+      fileHandle: await fs.open(tempFilePath, 'w'),
+      totalChunks: 2,
+      chunkSize,
+      compressed: false,
+      compression: 'deflate',
+      receivedChunks: 0,
+      hash: crypto.createHash('sha256'),
+      queue: Promise.resolve(),
+      queuedBytes: 0,
+    });
+
+    const send = (chunkIndex: number, data: Buffer) =>
+      (manager as any).receiveChunk('device-a', {
+        transferId: 'transfer-1',
+        chunkIndex,
+        hash: crypto.createHash('sha256').update(data).digest('hex'),
+        data,
+      });
+    await send(2, Buffer.alloc(16));
+    await send(-1, Buffer.alloc(16));
+    await send(1, Buffer.alloc(chunkSize + 1));
+
+    expect(emitTo.mock.calls.map(([, channel]) => channel)).toEqual([
+      'chunk-error:transfer-1:2',
+      'chunk-error:transfer-1:-1',
+      'chunk-error:transfer-1:1',
+    ]);
+    await (manager as any).downloadSessions.get('transfer-1').fileHandle.close();
+    expect((await fs.stat(tempFilePath)).size).toBe(0);
+  });
+
+  it('falls back to base64 JSON chunks for peers on the original protocol', async () => {
+    const calls = await transfer('1.0.0');
+    const channels = calls.map(([channel]) => channel);
+
+    expect(channels).toContain('transfer-chunk');
+    expect(channels).not.toContain('transfer-frame');
+  });
+});
@@ -0,0 +1,163 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { TransferManager } from '../../src/main/sync/transferManager';
+import { logger } from '../../src/main/utils/logger';
+import {
+  decodeTransferFrame,
+  encodeTransferFrame,
+} from '../../src/main/network/protocol/TransferFrame';
+import { FakeNetwork, sentChunks } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('TransferManager multi-source downloads', () => {
+  const CHUNK_SIZE = 1024 * 1024;
+  const SOURCES = ['device-a', 'device-b', 'device-c'];
+  let tempDir: string;
+  let content: Buffer;
+  let receiverNetwork: FakeNetwork;
+  let sourceNetworks: Map<string, FakeNetwork>;
+  const managers: TransferManager[] = [];
+
+  const createSide = async (name: string, network: FakeNetwork) => {
+    const root = path.join(tempDir, name);
+    await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+
+    const folder: FolderConfig = {
+      id: 'shared',
+      path: path.join(root, 'folder'),
+      name: 'shared',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: [...SOURCES, 'device-r'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: root, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+    store.set('performance.compressionEnabled', false);
+
+    const manager = new TransferManager(store, network as any);
+    await manager.initialize();
+    managers.push(manager);
+    return { folder, manager };
+  };
+
+  const describeFile = (folder: FolderConfig): FileInfo => ({
+    path: path.join(folder.path, 'disk.img'),
+    relativePath: 'disk.img',
+    name: 'disk.img',
+    size: content.length,
+    type: 'file',
+    hash: crypto.createHash('sha256').update(content).digest('hex'),
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    isIgnored: false,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-multisource-'));
+    content = crypto.randomBytes(24 * CHUNK_SIZE + 4321);
+    receiverNetwork = new FakeNetwork('device-r');
+    sourceNetworks = new Map();
+
+    for (const deviceId of SOURCES) {
+      const network = new FakeNetwork(deviceId);
+      FakeNetwork.link(network, receiverNetwork);
+      sourceNetworks.set(deviceId, network);
+      const { folder } = await createSide(deviceId, network);
+      await fs.writeFile(path.join(folder.path, 'disk.img'), content);
+    }
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await Promise.all(managers.map((manager) => manager.stop()));
+    managers.length = 0;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('splits the chunks of a file across every peer that has it', async () => {
+    const { folder, manager } = await createSide('receiver', receiverNetwork);
+    const spies = SOURCES.map((deviceId) =>
+      jest.spyOn(sourceNetworks.get(deviceId)!.socket, 'emit')
+    );
+
+    await manager.downloadFileFromPeers(folder, describeFile(folder), SOURCES);
+
+    const sent = spies.map((spy) => sentChunks(spy.mock.calls).map((chunk) => chunk.chunkIndex));
+    sent.forEach((chunks) => expect(chunks.length).toBeGreaterThan(0));
+    expect(new Set(sent.flat()).size).toBe(25);
+
+    const received = await fs.readFile(path.join(folder.path, 'disk.img'));
+    expect(received.equals(content)).toBe(true);
+    expect(await fs.readdir(folder.path)).toEqual(['disk.img']);
+  }, 30000);
+
+  it('reassigns the chunks of peers that send bad data or disconnect', async () => {
+    const { folder, manager } = await createSide('receiver', receiverNetwork);
+
+    // device-b flips a byte in every chunk, with a frame hash that matches the damage
+    const corrupt = sourceNetworks.get('device-b')!;
+    const originalEmit = corrupt.socket.emit;
+    corrupt.socket.emit = (channel: string, payload?: unknown): boolean => {
+      if (channel !== 'transfer-frame') {
+        return originalEmit(channel, payload);
+      }
+      const frame = decodeTransferFrame(payload as Buffer);
+      const data = Buffer.from(frame.data);
+      data[0] ^= 0xff;
+      const hash = crypto.createHash('sha256').update(data).digest('hex');
+      return originalEmit(channel, encodeTransferFrame({ ...frame, data, hash }));
+    };
+
+    // device-c drops off as soon as it is asked for a batch
+    const leaving = sourceNetworks.get('device-c')!;
+    const originalNetworkEmit = leaving.emit.bind(leaving);
+    leaving.emit = (event: string, ...args: unknown[]): boolean => {
+      if (event === 'transfer-request') {
+        leaving.connected = false;
+        receiverNetwork.emit('device-disconnected', 'device-c');
+        return true;
+      }
+      return originalNetworkEmit(event, ...args);
+    };
+
+    await manager.downloadFileFromPeers(folder, describeFile(folder), SOURCES);
+
+    for (const deviceId of ['device-b', 'device-c']) {
+      expect(logger.warn).toHaveBeenCalledWith(
+        `Dropping ${deviceId} as a source of disk.img`,
+        expect.any(Error)
+      );
+    }
+    const received = await fs.readFile(path.join(folder.path, 'disk.img'));
+    expect(received.equals(content)).toBe(true);
+    expect(await fs.readdir(folder.path)).toEqual(['disk.img']);
+  }, 30000);
+
+  it('downloads from one peer when the others cannot help', async () => {
+    const { folder, manager } = await createSide('receiver', receiverNetwork);
+    sourceNetworks.get('device-b')!.connected = false;
+    sourceNetworks.get('device-c')!.connected = false;
+    const spy = jest.spyOn(manager, 'downloadFile');
+
+    await manager.downloadFileFromPeers(folder, describeFile(folder), SOURCES);
+
+    expect(spy).toHaveBeenCalledWith(folder, expect.anything(), 'device-a');
+    const received = await fs.readFile(path.join(folder.path, 'disk.img'));
+    expect(received.equals(content)).toBe(true);
+  }, 30000);
+});
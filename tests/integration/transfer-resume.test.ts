@@ -0,0 +1,134 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { PARTIAL_TRANSFER_DIR, TransferManager } from '../../src/main/sync/transferManager';
+import { FakeNetwork, sentChunks } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('TransferManager resumable downloads', () => {
+  const CHUNK_SIZE = 1024 * 1024;
+  let tempDir: string;
+  const managers: TransferManager[] = [];
+
+  const createSide = async (name: string, network: FakeNetwork) => {
+    const root = path.join(tempDir, name);
+    await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+
+    const folder: FolderConfig = {
+      id: 'shared',
+      path: path.join(root, 'folder'),
+      name: 'shared',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a', 'device-b'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: root, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+    store.set('performance.compressionEnabled', false);
+
+    const manager = new TransferManager(store, network as any);
+    await manager.initialize();
+    managers.push(manager);
+    return { folder, manager };
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-resume-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.map((manager) => manager.stop()));
+    managers.length = 0;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('requests only missing and damaged chunks after a disconnect and restart', async () => {
+    const content = crypto.randomBytes(6 * CHUNK_SIZE + 1234);
+    const senderNetwork = new FakeNetwork('device-a');
+    const receiverNetwork = new FakeNetwork('device-b');
+    FakeNetwork.link(senderNetwork, receiverNetwork);
+
+    const { folder: senderFolder } = await createSide('a', senderNetwork);
+    const { folder: receiverFolder, manager: receiver } = await createSide('b', receiverNetwork);
+    await fs.writeFile(path.join(senderFolder.path, 'video.mov'), content);
+
+    const file: FileInfo = {
+      path: path.join(receiverFolder.path, 'video.mov'),
+      relativePath: 'video.mov',
+      name: 'video.mov',
+      size: content.length,
+      type: 'file',
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
+      modifiedAt: new Date(),
+      createdAt: new Date(),
+      isIgnored: false,
+    };
+
+    // Chunks from 3 on are lost, and the link drops once chunk 2 is acked
+    const localEmit = (senderNetwork.socket as any).localEmit;
+    const originalEmit = senderNetwork.socket.emit;
+    senderNetwork.socket.emit = (channel: string, payload?: any): boolean => {
+      const [chunk] = sentChunks([[channel, payload]]);
+      return chunk && chunk.chunkIndex >= 3 ? true : originalEmit(channel, payload);
+    };
+    const originalEmitTo = receiverNetwork.emitTo.bind(receiverNetwork);
+    receiverNetwork.emitTo = (deviceId: string, channel: string, payload: unknown) => {
+      originalEmitTo(deviceId, channel, payload);
+      const [, transferId, chunkIndex] = channel.split(':');
+      if (channel.startsWith('chunk-ack:') && chunkIndex === '2') {
+        senderNetwork.connected = false;
+        receiverNetwork.connected = false;
+        setImmediate(() => {
+          localEmit(`chunk-error:${transferId}:3`, { message: 'Connection lost' });
+          receiverNetwork.emit('device-disconnected', 'device-a');
+        });
+      }
+    };
+
+    await expect(receiver.downloadFile(receiverFolder, file, 'device-a')).rejects.toThrow();
+    await receiver.stop();
+
+    const partialDir = path.join(receiverFolder.path, PARTIAL_TRANSFER_DIR);
+    const [partName] = (await fs.readdir(partialDir)).filter((name) => name.endsWith('.part'));
+    // Damage chunk 1, which the resumed download has to detect and fetch again
+    const handle = await fs.open(path.join(partialDir, partName), 'r+');
+    await handle.write(Buffer.alloc(100, 0xff), 0, 100, CHUNK_SIZE + 10);
+    await handle.close();
+
+    // Restarted receiver on a fresh connection
+    senderNetwork.connected = true;
+    const restartedNetwork = new FakeNetwork('device-b');
+    FakeNetwork.link(senderNetwork, restartedNetwork);
+    const restarted = new TransferManager(
+      new Store<AppConfig>({ cwd: path.join(tempDir, 'b'), name: 'config' }),
+      restartedNetwork as any
+    );
+    await restarted.initialize();
+    managers.push(restarted);
+
+    senderNetwork.socket.emit = originalEmit;
+    const resumeSpy = jest.spyOn(senderNetwork.socket, 'emit');
+    await restarted.downloadFile(receiverFolder, file, 'device-a');
+
+    const resent = sentChunks(resumeSpy.mock.calls).map((chunk) => chunk.chunkIndex);
+    expect(resent).toEqual([1, 3, 4, 5, 6]);
+
+    const received = await fs.readFile(path.join(receiverFolder.path, 'video.mov'));
+    expect(received.equals(content)).toBe(true);
+    expect(await fs.readdir(receiverFolder.path)).toEqual(['video.mov']);
+  }, 20000);
+});
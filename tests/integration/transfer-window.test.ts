@@ -0,0 +1,113 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { TransferManager } from '../../src/main/sync/transferManager';
+import { FakeNetwork, sentChunks } from '../helpers/fakeNetwork';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('TransferManager chunk window', () => {
+  let tempDir: string;
+  const managers: TransferManager[] = [];
+
+  const createSide = async (name: string, network: FakeNetwork) => {
+    const root = path.join(tempDir, name);
+    await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+
+    const folder: FolderConfig = {
+      id: 'shared',
+      path: path.join(root, 'folder'),
+      name: 'shared',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-a', 'device-b'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const store = new Store<AppConfig>({ cwd: root, name: 'config' });
+    store.set('folders', [folder]);
+    store.set('devices', []);
+    store.set('performance.compressionEnabled', false);
+    store.set('performance.deltaSync', false);
+
+    const manager = new TransferManager(store, network as any);
+    await manager.initialize();
+    managers.push(manager);
+    return { folder, manager };
+  };
+
+  /** Downloads a 6 MiB file and returns the most chunks that were ever unacknowledged. */
+  const download = async (legacyReceiver: boolean) => {
+    const senderNetwork = new FakeNetwork('device-a');
+    const receiverNetwork = new FakeNetwork('device-b');
+    FakeNetwork.link(senderNetwork, receiverNetwork);
+    const { folder: senderFolder } = await createSide('a', senderNetwork);
+    const { folder: receiverFolder, manager: receiver } = await createSide('b', receiverNetwork);
+
+    const content = crypto.randomBytes(6 * 1024 * 1024);
+    await fs.writeFile(path.join(senderFolder.path, 'disk.img'), content);
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const originalEmit = senderNetwork.socket.emit;
+    senderNetwork.socket.emit = (channel: string, payload?: unknown): boolean => {
+      inFlight += sentChunks([[channel, payload]]).length;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return originalEmit(channel, payload);
+    };
+    const originalEmitTo = receiverNetwork.emitTo.bind(receiverNetwork);
+    receiverNetwork.emitTo = (deviceId: string, channel: string, payload: unknown) => {
+      if (channel.startsWith('chunk-ack:')) {
+        inFlight -= 1;
+      }
+      // Receivers from before the window never state how much they buffer
+      const legacyAck = legacyReceiver && channel.startsWith('transfer-init-ack:');
+      originalEmitTo(deviceId, channel, legacyAck ? {} : payload);
+    };
+
+    const file: FileInfo = {
+      path: path.join(receiverFolder.path, 'disk.img'),
+      relativePath: 'disk.img',
+      name: 'disk.img',
+      size: content.length,
+      type: 'file',
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
+      modifiedAt: new Date(),
+      createdAt: new Date(),
+      isIgnored: false,
+    };
+    await receiver.downloadFile(receiverFolder, file, 'device-a');
+
+    const received = await fs.readFile(path.join(receiverFolder.path, 'disk.img'));
+    expect(received.equals(content)).toBe(true);
+    return maxInFlight;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-window-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.map((manager) => manager.stop()));
+    managers.length = 0;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('keeps several chunks in flight and writes them in order', async () => {
+    expect(await download(false)).toBeGreaterThan(1);
+  });
+
+  it('sends one chunk at a time to receivers that do not state a buffer size', async () => {
+    expect(await download(true)).toBe(1);
+  });
+});
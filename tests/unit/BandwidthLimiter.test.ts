@@ -0,0 +1,88 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { DeviceInfo } from '../../src/shared/types/sync';
+import { BandwidthLimiter, TokenBucket, isLanAddress } from '../../src/main/sync/bandwidthLimiter';
+
+describe('bandwidth limiting', () => {
+  let tempDir: string;
+  let store: Store<AppConfig>;
+  let limiter: BandwidthLimiter;
+
+  const waitFor = (throttle: Promise<void>) => {
+    let done = false;
+    void throttle.then(() => (done = true));
+    return () => done;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bandwidth-'));
+    store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('performance.uploadLimit', 0);
+    store.set('performance.downloadLimit', 0);
+    store.set('devices', []);
+  });
+
+  afterEach(async () => {
+    limiter?.stop();
+    jest.useRealTimers();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('lets a second of burst through and paces the rest', () => {
+    const bucket = new TokenBucket(1000);
+
+    expect(bucket.take(1000, 10_000)).toBe(0);
+    expect(bucket.take(500, 10_000)).toBe(500);
+    expect(bucket.take(500, 10_250)).toBe(750);
+    expect(bucket.take(1000, 20_000)).toBe(0);
+    expect(new TokenBucket(0).take(1_000_000)).toBe(0);
+  });
+
+  it('applies the strictest of the global, network and device limits', () => {
+    store.set('performance.uploadLimit', 100);
+    store.set('performance.wanUploadLimit', 10);
+    store.set('devices', [{ id: 'device-a', uploadLimit: 50 } as DeviceInfo]);
+    limiter = new BandwidthLimiter(store);
+
+    const delays: number[] = [];
+    const record = (delayMs: number) => delays.push(Math.round(delayMs / 100) * 100);
+    const bytes = 100 * 1024;
+    void limiter.throttle('device-b', 'upload', bytes, '192.168.1.20', record);
+    void limiter.throttle('device-b', 'upload', bytes, '192.168.1.20', record);
+    void limiter.throttle('device-a', 'upload', bytes, '10.0.0.5', record);
+    void limiter.throttle('device-c', 'upload', bytes, '203.0.113.9', record);
+    void limiter.throttle('device-c', 'download', bytes, '203.0.113.9', record);
+
+    expect(delays).toEqual([1000, 2000, 9000]);
+  });
+
+  it('releases waiting transfers when the schedule lifts the limit', async () => {
+    jest.useFakeTimers();
+    store.set('performance.downloadLimit', 1);
+    limiter = new BandwidthLimiter(store);
+
+    const done = waitFor(limiter.throttle('device-a', 'download', 60 * 1024));
+    await Promise.resolve();
+    expect(done()).toBe(false);
+
+    store.set('performance', { ...store.get('performance'), downloadLimit: 0 });
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(done()).toBe(true);
+  });
+
+  it('tells LAN peers from WAN peers', () => {
+    expect(isLanAddress('192.168.0.4')).toBe(true);
+    expect(isLanAddress('::ffff:10.1.2.3')).toBe(true);
+    expect(isLanAddress('172.20.0.1')).toBe(true);
+    expect(isLanAddress('fe80::1%en0')).toBe(true);
+    expect(isLanAddress('fd12:3456::1')).toBe(true);
+    expect(isLanAddress('172.32.0.1')).toBe(false);
+    expect(isLanAddress('2001:db8::1')).toBe(false);
+    expect(isLanAddress('8.8.8.8')).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  PROTOCOL_FEATURES,
+  getLocalCapabilities,
+  legacyCapabilities,
+  negotiateCapabilities,
+  supportsHandshake,
+} from '../../src/main/network/protocol/Capabilities';
+
+describe('capability negotiation', () => {
+  const local = getLocalCapabilities();
+
+  it('agrees on the highest common version and the features both sides offer', () => {
+    const negotiated = negotiateCapabilities(local, {
+      protocolVersions: ['1.1.0', '1.2.0', '2.0.0'],
+      features: ['rename-ops', 'binary-frames', 'sparse-files'],
+      compressionAlgorithms: ['lz4', 'brotli', 'deflate'],
+    });
+
+    expect(negotiated).toEqual({
+      protocolVersion: '1.2.0',
+      features: ['binary-frames', 'rename-ops'],
+      compressionAlgorithms: ['brotli', 'deflate'],
+    });
+  });
+
+  it('rejects malformed offers and offers without a common version', () => {
+    expect(() => negotiateCapabilities(local, null)).toThrow('Malformed');
+    expect(() =>
+      negotiateCapabilities(local, { protocolVersions: ['1.2.0'], features: 'all' })
+    ).toThrow('Malformed');
+    expect(() =>
+      negotiateCapabilities(local, {
+        protocolVersions: ['3.0.0'],
+        features: [],
+        compressionAlgorithms: [],
+      })
+    ).toThrow('No common protocol version');
+  });
+
+  it('derives the capabilities of peers that predate the handshake', () => {
+    expect(supportsHandshake('1.1.0')).toBe(false);
+    expect(supportsHandshake('1.2.0')).toBe(true);
+    expect(supportsHandshake(undefined)).toBe(false);
+
+    const original = legacyCapabilities(undefined);
+    expect(original.protocolVersion).toBe('1.0.0');
+    expect(original.features).toEqual([]);
+    expect(original.compressionAlgorithms).toEqual(['deflate']);
+
+    const framed = legacyCapabilities('1.1.0', ['brotli', 'unknown']);
+    expect(framed.features).toEqual(['binary-frames']);
+    expect(framed.compressionAlgorithms).toEqual(['brotli']);
+    expect(PROTOCOL_FEATURES).toEqual(expect.arrayContaining(framed.features));
+  });
+});
@@ -0,0 +1,39 @@
+import * as crypto from 'crypto';
+import {
+  SUPPORTED_COMPRESSION,
+  compressBuffer,
+  decompressBuffer,
+  isCompressible,
+  negotiateCompression,
+  sampleEntropy,
+} from '../../src/main/network/protocol/Compression';
+
+describe('chunk compression', () => {
+  const text = Buffer.from('const answer = 42;\n'.repeat(2000));
+
+  it('judges files by extension, then by the entropy of a sample', () => {
+    expect(sampleEntropy(Buffer.alloc(1024, 7))).toBe(0);
+    expect(sampleEntropy(crypto.randomBytes(64 * 1024))).toBeGreaterThan(7.9);
+
+    expect(isCompressible('render.MP4', text)).toBe(false);
+    expect(isCompressible('index.ts', crypto.randomBytes(1024))).toBe(true);
+    expect(isCompressible('disk.img', text)).toBe(true);
+    expect(isCompressible('disk.img', crypto.randomBytes(64 * 1024))).toBe(false);
+  });
+
+  it('negotiates the most preferred algorithm both sides support', () => {
+    expect(negotiateCompression([...SUPPORTED_COMPRESSION].reverse())).toBe(
+      SUPPORTED_COMPRESSION[0]
+    );
+    expect(negotiateCompression()).toBe('deflate');
+    expect(negotiateCompression([])).toBeUndefined();
+  });
+
+  it.each(SUPPORTED_COMPRESSION)('round-trips chunks with %s', async (algorithm) => {
+    const compressed = await compressBuffer(algorithm, text, 6);
+
+    expect(compressed.length).toBeLessThan(text.length / 10);
+    expect((await decompressBuffer(algorithm, compressed, text.length)).equals(text)).toBe(true);
+    await expect(decompressBuffer(algorithm, compressed, 1024)).rejects.toThrow();
+  });
+});
@@ -182,4 +182,38 @@ describe('ConflictResolver (CRITICAL BUG FIXES)', () => {
     expect(conflict1.resolved).toBe(true);
     expect(conflict2.resolved).toBe(true);
   });
+
+  it('resolves lockfile conflicts by keeping the newer version', async () => {
+    const conflict = createConflict({ filePath: path.join(tempDir, 'package-lock.json') });
+    await fs.mkdir(tempDir, { recursive: true });
+    await fs.writeFile(conflict.filePath, '{"lockfileVersion":3,"name":"local"}');
+    const remoteCopy = resolver.getRemoteCopyPath(conflict);
+    await fs.mkdir(path.dirname(remoteCopy), { recursive: true });
+    await fs.writeFile(remoteCopy, '{"lockfileVersion":3,"name":"remote"}');
+
+    await resolver.resolveConflict(conflict, 'merge');
+
+    expect(conflict.resolved).toBe(true);
+    expect(await fs.readFile(conflict.filePath, 'utf8')).toBe(
+      '{"lockfileVersion":3,"name":"remote"}'
+    );
+  });
+
+  it('reports conflicting keys of structured files', async () => {
+    const conflict = createConflict({ filePath: path.join(tempDir, 'tsconfig.json') });
+    await fs.mkdir(tempDir, { recursive: true });
+    await fs.writeFile(conflict.filePath, '{"target":"es2020","strict":true}');
+    const remoteCopy = resolver.getRemoteCopyPath(conflict);
+    await fs.mkdir(path.dirname(remoteCopy), { recursive: true });
+    await fs.writeFile(remoteCopy, '{"target":"es2022","strict":true}');
+
+    await resolver.resolveConflict(conflict, 'merge');
+
+    expect(conflict.resolved).toBe(false);
+    expect(conflict.conflictingKeys).toEqual(['target']);
+    expect(JSON.parse(await fs.readFile(conflict.mergeFilePath!, 'utf8'))).toEqual({
+      target: 'es2020',
+      strict: true,
+    });
+  });
 });
@@ -0,0 +1,114 @@
+import {
+  ConnectionRacer,
+  DialCandidate,
+  pathTier,
+  rankCandidates,
+} from '../../src/main/network/ConnectionRacer';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const lan: DialCandidate = { address: '192.168.1.20', port: 45789, source: 'discovery' };
+const vpn: DialCandidate = { address: '10.8.0.3', port: 45789, source: 'config' };
+const wan: DialCandidate = { address: '203.0.113.7', port: 41000, source: 'rendezvous' };
+const relay: DialCandidate = { address: 'relay', port: 0, source: 'relay' };
+
+describe('rankCandidates', () => {
+  it('orders LAN, then WAN, then relay and drops duplicates', () => {
+    expect(rankCandidates([relay, wan, lan, { ...lan, source: 'config' }, vpn])).toEqual([
+      lan,
+      vpn,
+      wan,
+      relay,
+    ]);
+  });
+
+  it('tells paths apart by the address recorded on a connection', () => {
+    expect(pathTier('fe80::1')).toBe('lan');
+    expect(pathTier('2001:db8::1')).toBe('wan');
+    expect(pathTier('relay:relay.example.org')).toBe('relay');
+    expect(pathTier(relay)).toBe('relay');
+  });
+});
+
+describe('ConnectionRacer', () => {
+  const racer = new ConnectionRacer({ stagger: 50, relayDelay: 200 });
+
+  /** Dials that settle after `delay` ms, succeeding unless `fail` is set. */
+  const scripted = (outcomes: Record<string, { delay: number; fail?: boolean }>) => {
+    const started: string[] = [];
+    const closed: string[] = [];
+    const dial = (candidate: DialCandidate) => {
+      started.push(candidate.address);
+      const { delay, fail } = outcomes[candidate.address];
+      return new Promise<string>((resolve, reject) =>
+        setTimeout(
+          () => (fail ? reject(new Error('unreachable')) : resolve(candidate.address)),
+          delay
+        )
+      );
+    };
+    return { dial, close: (connection: string) => closed.push(connection), started, closed };
+  };
+
+  it('keeps the first connection up and closes later ones', async () => {
+    const { dial, close, started, closed } = scripted({
+      '192.168.1.20': { delay: 80 },
+      '203.0.113.7': { delay: 10 },
+    });
+
+    const result = await racer.race([wan, lan], dial, close);
+    expect(started).toEqual(['192.168.1.20', '203.0.113.7']);
+    expect(result?.candidate).toEqual(wan);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(closed).toEqual(['192.168.1.20']);
+  });
+
+  it('does not start a slower path when the preferred one answers in time', async () => {
+    const { dial, close, started } = scripted({
+      '192.168.1.20': { delay: 10 },
+      '203.0.113.7': { delay: 10 },
+    });
+
+    const result = await racer.race([wan, lan, relay], dial, close);
+    expect(result?.candidate).toEqual(lan);
+    expect(started).toEqual(['192.168.1.20']);
+  });
+
+  it('moves on as soon as every attempt so far has failed', async () => {
+    const { dial, close, started } = scripted({
+      '192.168.1.20': { delay: 0, fail: true },
+      '203.0.113.7': { delay: 0, fail: true },
+      relay: { delay: 0 },
+    });
+
+    const startedAt = Date.now();
+    const result = await racer.race([lan, wan, relay], dial, close);
+    expect(result?.candidate).toEqual(relay);
+    expect(started).toEqual(['192.168.1.20', '203.0.113.7', 'relay']);
+    expect(Date.now() - startedAt).toBeLessThan(150);
+  });
+
+  it('holds relays back while a direct attempt is pending', async () => {
+    const { dial, close, started } = scripted({
+      '203.0.113.7': { delay: 120 },
+      relay: { delay: 0 },
+    });
+
+    const result = await racer.race([relay, wan], dial, close);
+    expect(result?.candidate).toEqual(wan);
+    expect(started).toEqual(['203.0.113.7']);
+  });
+
+  it('resolves with null when nothing answers', async () => {
+    const { dial, close } = scripted({
+      '192.168.1.20': { delay: 5, fail: true },
+      '203.0.113.7': { delay: 5, fail: true },
+    });
+
+    await expect(racer.race([lan, wan], dial, close)).resolves.toBeNull();
+    await expect(racer.race([], dial, close)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ContentChunker } from '../../src/main/core/diff/ContentChunker';
+import { Hashing } from '../../src/main/core/watcher/Hashing';
+import { ChunkStore } from '../../src/main/sync/chunkStore';
+
+describe('ContentChunker', () => {
+  const chunker = new ContentChunker({ minSize: 2048, avgSize: 8192, maxSize: 32768 });
+
+  it('covers the input with chunks within the size bounds', () => {
+    const data = crypto.randomBytes(500_000);
+    const { chunks, size, hash } = chunker.chunkBuffer(data);
+
+    let offset = 0;
+    for (const chunk of chunks) {
+      expect(chunk.offset).toBe(offset);
+      expect(chunk.length).toBeLessThanOrEqual(32768);
+      offset += chunk.length;
+    }
+    chunks.slice(0, -1).forEach((chunk) => expect(chunk.length).toBeGreaterThanOrEqual(2048));
+
+    expect(offset).toBe(data.length);
+    expect(size).toBe(data.length);
+    expect(hash).toBe(crypto.createHash('sha256').update(data).digest('hex'));
+  });
+
+  it('keeps chunks after an insertion unchanged', () => {
+    const data = crypto.randomBytes(400_000);
+    const edited = Buffer.concat([
+      data.subarray(0, 100_000),
+      Buffer.from('inserted'),
+      data.subarray(100_000),
+    ]);
+
+    const before = new Set(chunker.chunkBuffer(data).chunks.map((chunk) => chunk.hash));
+    const after = chunker.chunkBuffer(edited).chunks;
+    const changed = after.filter((chunk) => !before.has(chunk.hash));
+
+    expect(changed.reduce((sum, chunk) => sum + chunk.length, 0)).toBeLessThan(3 * 32768);
+  });
+
+  it('chunks files the same way as buffers', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-chunker-'));
+    try {
+      const data = crypto.randomBytes(3 * 1024 * 1024 + 17);
+      await fs.writeFile(path.join(tempDir, 'data.bin'), data);
+
+      expect(await chunker.chunkFile(path.join(tempDir, 'data.bin'))).toEqual(
+        chunker.chunkBuffer(data)
+      );
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('rolls the window hash consistently', () => {
+    const hashing = new Hashing({ algorithm: 'sha256', blockSize: 16, rollingWindow: 4 });
+    const rolling = hashing.createRollingHash();
+    const fresh = hashing.createRollingHash();
+    const bytes = [...crypto.randomBytes(64)];
+
+    bytes.forEach((byte) => rolling.push(byte));
+    bytes.slice(-4).forEach((byte) => fresh.push(byte));
+
+    expect(rolling.value()).toBe(fresh.value());
+  });
+});
+
+describe('ChunkStore', () => {
+  let tempDir: string;
+  let store: ChunkStore;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunk-store-'));
+    store = new ChunkStore(
+      path.join(tempDir, 'chunks.db'),
+      new ContentChunker({ minSize: 2048, avgSize: 8192, maxSize: 32768 })
+    );
+  });
+
+  afterEach(async () => {
+    store.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads indexed chunks and drops entries for files that changed', async () => {
+    const filePath = path.join(tempDir, 'data', 'video.mov');
+    await fs.mkdir(path.dirname(filePath));
+    await fs.writeFile(filePath, crypto.randomBytes(100_000));
+
+    const { chunks } = await store.indexFile(filePath);
+    const [first] = chunks;
+    const original = await fs.readFile(filePath);
+
+    expect(await store.read(first.hash, first.length)).toEqual(
+      original.subarray(first.offset, first.offset + first.length)
+    );
+
+    await fs.writeFile(filePath, crypto.randomBytes(100_000));
+    expect(await store.read(first.hash, first.length)).toBeUndefined();
+    expect(store.locate(chunks[1].hash)).toEqual([]);
+  });
+
+  it('reuses the chunk list while the file is unchanged and prunes removed files', async () => {
+    const dataDir = path.join(tempDir, 'data');
+    await fs.mkdir(dataDir);
+    await fs.writeFile(path.join(dataDir, 'a.bin'), crypto.randomBytes(50_000));
+    await fs.writeFile(path.join(dataDir, 'b.bin'), crypto.randomBytes(50_000));
+
+    const first = await store.indexFile(path.join(dataDir, 'a.bin'));
+    const stats = await fs.stat(path.join(dataDir, 'a.bin'));
+    expect(store.getIndexed(path.join(dataDir, 'a.bin'), stats)).toEqual(first);
+
+    await store.indexFile(path.join(dataDir, 'b.bin'));
+    expect(store.prune(dataDir, new Set([path.join(dataDir, 'a.bin')]))).toBe(1);
+    expect(store.locate(first.chunks[0].hash)).toHaveLength(1);
+  });
+});
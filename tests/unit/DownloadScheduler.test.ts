@@ -0,0 +1,78 @@
+import { DownloadScheduler } from '../../src/main/sync/downloadScheduler';
+
+describe('DownloadScheduler', () => {
+  const MiB = 1024 * 1024;
+  const range = (from: number, to: number) =>
+    Array.from({ length: to - from }, (_, index) => from + index);
+
+  const createScheduler = () =>
+    new DownloadScheduler(MiB, range(0, 20), ['device-a', 'device-b', 'device-c'], 0);
+
+  it('hands each source its own batch of consecutive chunks', () => {
+    const scheduler = createScheduler();
+
+    expect(scheduler.next('device-a', 0)).toEqual(range(0, 8));
+    expect(scheduler.next('device-b', 0)).toEqual(range(8, 16));
+    expect(scheduler.next('device-c', 0)).toEqual(range(16, 20));
+    // Busy sources get nothing more until their batch is done
+    expect(scheduler.next('device-a', 0)).toEqual([]);
+  });
+
+  it('duplicates the tail of a slower batch once nothing is left to hand out', () => {
+    const scheduler = createScheduler();
+    scheduler.next('device-a', 0);
+    scheduler.next('device-b', 0);
+    scheduler.next('device-c', 0);
+
+    // 1 MiB/s makes for batches of three chunks
+    range(16, 20).forEach((chunkIndex, index) =>
+      scheduler.markReceived('device-c', chunkIndex, MiB, (index + 1) * 1000)
+    );
+    scheduler.release('device-c');
+
+    expect(scheduler.next('device-c', 4000)).toEqual([5, 6, 7]);
+    expect(scheduler.markReceived('device-c', 7, MiB, 5000)).toBe(true);
+    expect(scheduler.markReceived('device-a', 7, MiB, 5000)).toBe(false);
+    expect(scheduler.isReceived(7)).toBe(true);
+  });
+
+  it('gives the chunks of a dropped source to the others', () => {
+    const scheduler = createScheduler();
+    scheduler.next('device-a', 0);
+    scheduler.next('device-b', 0);
+    scheduler.next('device-c', 0);
+    scheduler.markReceived('device-b', 8, MiB, 100);
+
+    scheduler.remove('device-b');
+    range(16, 20).forEach((chunkIndex) => scheduler.markReceived('device-c', chunkIndex, MiB, 200));
+    scheduler.release('device-c');
+
+    expect(scheduler.getSources()).toEqual(['device-a', 'device-c']);
+    expect(scheduler.next('device-c', 200)).toEqual(range(9, 16));
+    expect(scheduler.next('device-b', 200)).toEqual([]);
+  });
+
+  it('reports sources that stopped delivering while others can take over', () => {
+    const scheduler = createScheduler();
+    scheduler.next('device-a', 0);
+    scheduler.next('device-b', 0);
+    scheduler.markReceived('device-b', 8, MiB, 10_000);
+
+    expect(scheduler.getStalled(16_000)).toEqual(['device-a']);
+
+    const single = new DownloadScheduler(MiB, range(0, 4), ['device-a'], 0);
+    single.next('device-a', 0);
+    expect(single.getStalled(60_000)).toEqual([]);
+  });
+
+  it('completes once every missing chunk arrived', () => {
+    const scheduler = new DownloadScheduler(MiB, [1, 3], ['device-a', 'device-b'], 0);
+
+    expect(scheduler.isReceived(0)).toBe(true);
+    expect(scheduler.next('device-a', 0)).toEqual([1, 3]);
+    scheduler.markReceived('device-a', 3, MiB, 10);
+    expect(scheduler.isComplete()).toBe(false);
+    scheduler.markReceived('device-a', 1, MiB, 20);
+    expect(scheduler.isComplete()).toBe(true);
+  });
+});
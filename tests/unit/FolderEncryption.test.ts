@@ -0,0 +1,187 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { DeviceInfo, FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import { FolderCipher, FolderEncryption } from '../../src/main/sync/folderEncryption';
+
+jest.mock('../../src/main/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('folder encryption for untrusted devices', () => {
+  let tempDir: string;
+  let store: Store<AppConfig>;
+  let encryption: FolderEncryption;
+  let folder: FolderConfig;
+
+  const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+  const writeFile = async (relativePath: string, content: Buffer): Promise<FileInfo> => {
+    const filePath = path.join(folder.path, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return {
+      path: filePath,
+      relativePath,
+      name: path.basename(relativePath),
+      size: content.length,
+      type: 'file',
+      hash: sha256(content),
+      modifiedAt: new Date(),
+      createdAt: new Date(),
+      isIgnored: false,
+      version: { 'device-a': 3 },
+    };
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'folder-encryption-'));
+    folder = {
+      id: 'shared',
+      path: path.join(tempDir, 'folder'),
+      name: 'shared',
+      mode: 'send-receive',
+      status: { state: 'idle' },
+      devices: ['device-u'],
+      ignorePatterns: [],
+      versioningPolicy: { type: 'none' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('devices', [
+      { id: 'device-u', name: 'School PC', untrusted: true } as DeviceInfo,
+      { id: 'device-b', name: 'Laptop' } as DeviceInfo,
+    ]);
+    encryption = new FolderEncryption(store);
+    await encryption.setPasswords('shared', { 'device-u': 'correct horse battery staple' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('only encrypts for untrusted devices that have a password', async () => {
+    await expect(encryption.getCipher(folder, 'device-b')).resolves.toBeNull();
+    await expect(encryption.getCipher(folder, 'device-u')).resolves.toBeInstanceOf(FolderCipher);
+    await expect(encryption.getCipher({ ...folder, id: 'other' }, 'device-u')).rejects.toThrow(
+      /No encryption password/
+    );
+  });
+
+  it('keeps passwords in the secret store', async () => {
+    const secrets = new Map<string, string>();
+    encryption = new FolderEncryption(store, {
+      setSecret: async (key, value) => void secrets.set(key, value),
+      getSecret: async (key) => secrets.get(key) ?? null,
+      deleteSecret: async (key) => void secrets.delete(key),
+    });
+
+    await encryption.setPasswords('shared', { 'device-u': 'correct horse battery staple' });
+    expect([...secrets.values()]).toEqual(['correct horse battery staple']);
+    await expect(encryption.getCipher(folder, 'device-u')).resolves.toBeInstanceOf(FolderCipher);
+
+    await encryption.setPasswords('shared', { 'device-u': '' });
+    expect(secrets.size).toBe(0);
+    await expect(encryption.getCipher(folder, 'device-u')).rejects.toThrow(
+      /No encryption password/
+    );
+  });
+
+  it('encrypts names deterministically and binds metadata to them', async () => {
+    const cipher = (await encryption.getCipher(folder, 'device-u'))!;
+    const encrypted = cipher.encryptPath('docs/plan.md');
+
+    expect(encrypted).toBe(cipher.encryptPath('docs\\plan.md'));
+    expect(encrypted).not.toContain('plan');
+    expect(cipher.decryptPath(encrypted)).toBe('docs/plan.md');
+
+    const sealed = cipher.sealMetadata('docs/plan.md', { hash: 'abc', size: 3 });
+    expect(cipher.openMetadata('docs/plan.md', sealed)).toEqual({ hash: 'abc', size: 3 });
+    expect(() => cipher.openMetadata('docs/other.md', sealed)).toThrow();
+
+    // The same password on another folder
+    await encryption.setPasswords('other', { 'device-u': 'correct horse battery staple' });
+    const otherFolder = (await encryption.getCipher({ ...folder, id: 'other' }, 'device-u'))!;
+    expect(() => otherFolder.decryptPath(encrypted)).toThrow();
+  });
+
+  it('round-trips contents with either configured algorithm', async () => {
+    const content = crypto.randomBytes(1024 * 1024 + 123);
+    const file = await writeFile('big.bin', content);
+
+    for (const algorithm of ['aes-256-gcm', 'chacha20-poly1305'] as const) {
+      store.set('security.encryptionAlgorithm', algorithm);
+      const cipher = (await encryption.getCipher(folder, 'device-u'))!;
+      const blobPath = path.join(tempDir, `blob-${algorithm}`);
+      const plainPath = path.join(tempDir, `plain-${algorithm}`);
+
+      const blob = await cipher.encryptFile(
+        file.path,
+        'big.bin',
+        { hash: file.hash!, size: file.size },
+        blobPath
+      );
+      const stored = await fs.readFile(blobPath);
+      expect(blob).toEqual({ hash: sha256(stored), size: stored.length });
+      expect(stored.includes(content.subarray(0, 64))).toBe(false);
+
+      await expect(cipher.decryptFile(blobPath, 'big.bin', plainPath)).resolves.toEqual({
+        hash: file.hash,
+        size: content.length,
+      });
+      expect((await fs.readFile(plainPath)).equals(content)).toBe(true);
+
+      stored[stored.length - 1] ^= 1;
+      await fs.writeFile(blobPath, stored);
+      await expect(cipher.decryptFile(blobPath, 'big.bin', plainPath)).rejects.toThrow();
+    }
+  });
+
+  it('translates file lists for the untrusted device and back', async () => {
+    const notes = await writeFile('docs/notes.txt', Buffer.from('meet at noon\n'));
+    const tombstone: FileInfo = { ...notes, relativePath: 'old.txt', deleted: true };
+    const directory: FileInfo = { ...notes, relativePath: 'docs', type: 'directory' };
+    const cipher = (await encryption.getCipher(folder, 'device-u'))!;
+
+    const served = await encryption.encryptFileList(cipher, folder.id, [
+      directory,
+      notes,
+      tombstone,
+    ]);
+
+    expect(served).toHaveLength(2);
+    expect(JSON.stringify(served)).not.toMatch(/notes|old\.txt|docs/);
+    expect(served[0]).toMatchObject({ version: { 'device-a': 3 }, modifiedAt: new Date(0) });
+    expect(served[1]).toMatchObject({ deleted: true, size: 0 });
+
+    // The untrusted device stores the blob under its encrypted name
+    const blobPath = path.join(tempDir, 'stored', served[0].relativePath);
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+    await cipher.encryptFile(
+      notes.path,
+      notes.relativePath,
+      { hash: notes.hash!, size: notes.size },
+      blobPath
+    );
+    const stored = await encryption.describeStoredFiles([
+      { ...served[0], path: blobPath },
+      served[1],
+    ]);
+
+    const decrypted = encryption.decryptFileList(cipher, folder, stored);
+    expect(decrypted).toEqual([
+      expect.objectContaining({
+        relativePath: 'docs/notes.txt',
+        hash: notes.hash,
+        size: notes.size,
+        version: notes.version,
+      }),
+      expect.objectContaining({ relativePath: 'old.txt', deleted: true, hash: undefined }),
+    ]);
+  });
+});
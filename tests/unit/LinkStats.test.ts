@@ -0,0 +1,56 @@
+import {
+  DEFAULT_CHUNK_SIZE,
+  LinkStats,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  isValidChunkSize,
+} from '../../src/main/sync/linkStats';
+
+describe('LinkStats', () => {
+  const MiB = 1024 * 1024;
+
+  // Acks arriving every `gapMs` for chunks of `bytes`, each taking `rttMs` to be acked
+  const feed = (stats: LinkStats, count: number, bytes: number, gapMs: number, rttMs: number) => {
+    for (let index = 1; index <= count; index++) {
+      stats.recordAck(rttMs, bytes, index * gapMs);
+    }
+  };
+
+  it('starts with a small window of default chunks', () => {
+    const stats = new LinkStats();
+
+    expect(stats.getChunkSize()).toBe(DEFAULT_CHUNK_SIZE);
+    expect(stats.getWindow(DEFAULT_CHUNK_SIZE, 16 * MiB)).toBe(4);
+    expect(stats.getAckTimeout(30_000)).toBe(30_000);
+  });
+
+  it('fills the bandwidth-delay product of a fast, distant link', () => {
+    const stats = new LinkStats();
+    // 1 MiB acked every 10 ms is 100 MiB/s; with 200 ms RTT that is 20 MiB in flight
+    feed(stats, 50, MiB, 10, 200);
+
+    const chunkSize = stats.getChunkSize();
+    expect(chunkSize).toBe(MAX_CHUNK_SIZE);
+    expect(stats.getWindow(chunkSize, 64 * MiB)).toBe(7);
+    expect(stats.getWindow(chunkSize, 16 * MiB)).toBe(4);
+    expect(stats.getWindow(MiB, 4 * MiB)).toBe(4);
+  });
+
+  it('shrinks chunks on slow links and waits longer for their acks', () => {
+    const stats = new LinkStats();
+    // 64 KiB acked every 500 ms is 128 KiB/s, with a 20 s RTT from a deep queue
+    feed(stats, 50, 64 * 1024, 500, 20_000);
+
+    expect(stats.getChunkSize()).toBe(MIN_CHUNK_SIZE);
+    expect(stats.getWindow(MIN_CHUNK_SIZE, 16 * MiB)).toBe(42);
+    expect(stats.getAckTimeout(30_000)).toBe(80_000);
+  });
+
+  it('only accepts power-of-two chunk sizes in range', () => {
+    expect(isValidChunkSize(MiB)).toBe(true);
+    expect(isValidChunkSize(MIN_CHUNK_SIZE)).toBe(true);
+    expect(isValidChunkSize(MiB + 1)).toBe(false);
+    expect(isValidChunkSize(MAX_CHUNK_SIZE * 2)).toBe(false);
+    expect(isValidChunkSize('1048576')).toBe(false);
+  });
+});
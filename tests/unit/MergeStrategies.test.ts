@@ -0,0 +1,101 @@
+import {
+  EnvMergeStrategy,
+  JsonMergeStrategy,
+  TextMergeStrategy,
+  YamlMergeStrategy,
+  isLockfile,
+  mergeKeys,
+} from '../../src/main/core/merge';
+
+describe('structured merge strategies', () => {
+  const labels = { local: 'local', remote: 'remote' };
+
+  it('merges objects key by key and reports keys changed on both sides', () => {
+    const result = mergeKeys(
+      { name: 'app', scripts: { build: 'tsc', test: 'jest' }, files: ['dist'] },
+      { name: 'app', scripts: { build: 'tsc -p .', test: 'jest' }, files: ['dist', 'bin'] },
+      { name: 'app-lite', scripts: { build: 'tsc', test: 'vitest' }, files: ['lib'] }
+    );
+
+    expect(result.value).toEqual({
+      name: 'app-lite',
+      scripts: { build: 'tsc -p .', test: 'vitest' },
+      files: ['dist', 'bin'],
+    });
+    expect(result.conflicts).toEqual([
+      { key: 'files', base: ['dist'], local: ['dist', 'bin'], remote: ['lib'] },
+    ]);
+  });
+
+  it('merges package.json edits regardless of key order and formatting', () => {
+    const base = '{\n  "name": "app",\n  "version": "1.0.0",\n  "dependencies": {}\n}\n';
+    const local = '{\n    "version": "1.1.0",\n    "name": "app",\n    "dependencies": {}\n}\n';
+    const remote = '{"name":"app","version":"1.0.0","dependencies":{"yaml":"1.10.3"}}';
+
+    const result = new JsonMergeStrategy().merge(base, local, remote);
+
+    expect(result).toMatchObject({ clean: true, conflictingKeys: [] });
+    expect(result.text).toBe(
+      '{\n    "version": "1.1.0",\n    "name": "app",\n    "dependencies": {\n        "yaml": "1.10.3"\n    }\n}\n'
+    );
+  });
+
+  it('keeps the local value of conflicting JSON keys', () => {
+    const result = new JsonMergeStrategy().merge(
+      '{"compilerOptions":{"target":"es2019","strict":false}}',
+      '{"compilerOptions":{"target":"es2020","strict":false}}',
+      '{"compilerOptions":{"target":"es2022","strict":true}}'
+    );
+
+    expect(result.clean).toBe(false);
+    expect(result.conflictingKeys).toEqual(['compilerOptions.target']);
+    expect(JSON.parse(result.text)).toEqual({
+      compilerOptions: { target: 'es2020', strict: true },
+    });
+  });
+
+  it('applies remote YAML edits to the local document without losing comments', () => {
+    const base = ['# CI', 'on: push', 'jobs:', '  test:', '    runs-on: ubuntu-latest', ''].join(
+      '\n'
+    );
+    const local = base.replace('on: push', 'on: [push, pull_request] # both');
+    const remote = base.replace('ubuntu-latest', 'macos-latest') + 'env:\n  CI: "true"\n';
+
+    const result = new YamlMergeStrategy().merge(base, local, remote);
+
+    expect(result.clean).toBe(true);
+    expect(result.text).toContain('# CI');
+    expect(result.text).toContain('# both');
+    expect(result.text).toContain('runs-on: macos-latest');
+    expect(result.text).toContain('CI: "true"');
+  });
+
+  it('rejects YAML that cannot be parsed so the text merge can take over', () => {
+    expect(() => new YamlMergeStrategy().merge('a: 1\n', 'a: [1\n', 'a: 2\n')).toThrow(/YAML/);
+  });
+
+  it('merges .env files by variable', () => {
+    const base = '# database\nDB_HOST=localhost\nDB_PORT=5432\nDEBUG=false\n';
+    const local = '# database\nDB_HOST=db.internal\nDB_PORT=5432\nDEBUG=false\n';
+    const remote = '# database\nDB_HOST=localhost\nDB_PORT=6432\nexport API_KEY=abc\n';
+
+    const result = new EnvMergeStrategy().merge(base, local, remote);
+
+    expect(result.clean).toBe(true);
+    expect(result.text).toBe('# database\nDB_HOST=db.internal\nDB_PORT=6432\nAPI_KEY=abc\n');
+    expect(
+      new EnvMergeStrategy().merge(base, 'DEBUG=true\n', 'DEBUG=verbose\n').conflictingKeys
+    ).toEqual(['DEBUG']);
+  });
+
+  it('matches files by name and leaves lockfiles alone', () => {
+    expect(new JsonMergeStrategy().matches('app/tsconfig.json')).toBe(true);
+    expect(new JsonMergeStrategy().matches('app/package-lock.json')).toBe(false);
+    expect(new YamlMergeStrategy().matches('.github/workflows/ci.yml')).toBe(true);
+    expect(new YamlMergeStrategy().matches('pnpm-lock.yaml')).toBe(false);
+    expect(new EnvMergeStrategy().matches('app/.env.local')).toBe(true);
+    expect(new TextMergeStrategy().matches('app/package-lock.json')).toBe(false);
+    expect(isLockfile('app/yarn.lock')).toBe(true);
+    expect(new TextMergeStrategy().merge('a\n', 'b\n', 'a\n', labels).text).toBe('b\n');
+  });
+});
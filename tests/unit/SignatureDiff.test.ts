@@ -0,0 +1,93 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SignatureDiff } from '../../src/main/core/diff/SignatureDiff';
+import { DeltaEncoder } from '../../src/main/core/diff/DeltaEncoder';
+import { PatchApplier } from '../../src/main/core/diff/PatchApplier';
+
+describe('SignatureDiff', () => {
+  let tempDir: string;
+  const signatureDiff = new SignatureDiff({ minBlockSize: 512, maxBlockSize: 4096 });
+  const encoder = new DeltaEncoder();
+  const applier = new PatchApplier();
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signature-diff-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const roundTrip = async (base: Buffer, target: Buffer) => {
+    const basePath = path.join(tempDir, 'base.bin');
+    const targetPath = path.join(tempDir, 'target.bin');
+    const deltaPath = path.join(tempDir, 'delta.bin');
+    const outputPath = path.join(tempDir, 'output.bin');
+    await fs.writeFile(basePath, base);
+    await fs.writeFile(targetPath, target);
+
+    const signature = await signatureDiff.createSignature(basePath, 1024);
+    const result = await signatureDiff.diff(targetPath, signature);
+    const deltaSize = await encoder.encodeToFile(result.chunks, targetPath, deltaPath);
+    await applier.applyFile(basePath, deltaPath, outputPath);
+
+    return { result, deltaSize, output: await fs.readFile(outputPath) };
+  };
+
+  it('sends only the edited region of a large file', async () => {
+    const base = crypto.randomBytes(256 * 1024);
+    const target = Buffer.from(base);
+    target.write('edited line', 100_000);
+
+    const { result, deltaSize, output } = await roundTrip(base, target);
+
+    expect(output.equals(target)).toBe(true);
+    expect(result.targetHash).toBe(crypto.createHash('sha256').update(target).digest('hex'));
+    expect(result.literalBytes).toBeLessThanOrEqual(2048);
+    expect(deltaSize).toBeLessThan(4096);
+  });
+
+  it('finds blocks shifted by an insertion', async () => {
+    const base = crypto.randomBytes(64 * 1024);
+    const target = Buffer.concat([
+      base.subarray(0, 10_000),
+      Buffer.from('xyz'),
+      base.subarray(10_000),
+    ]);
+
+    const { result, output } = await roundTrip(base, target);
+
+    expect(output.equals(target)).toBe(true);
+    expect(result.literalBytes).toBeLessThan(2 * 1024);
+  });
+
+  it('handles truncation, empty bases and unrelated content', async () => {
+    const base = crypto.randomBytes(10_000);
+
+    const truncated = await roundTrip(base, base.subarray(0, 5_500));
+    expect(truncated.output.equals(base.subarray(0, 5_500))).toBe(true);
+
+    const fromEmpty = await roundTrip(Buffer.alloc(0), base);
+    expect(fromEmpty.output.equals(base)).toBe(true);
+    expect(fromEmpty.result.literalBytes).toBe(base.length);
+
+    const unrelated = crypto.randomBytes(3_000);
+    const replaced = await roundTrip(base, unrelated);
+    expect(replaced.output.equals(unrelated)).toBe(true);
+  });
+
+  it('decodes what it encodes', () => {
+    const chunks = encoder.decode(
+      encoder.encode([
+        { type: 'copy', offset: 4096, length: 1024 },
+        { type: 'insert', offset: 10, data: Buffer.from('abc') },
+      ])
+    );
+
+    expect(chunks[0]).toEqual({ type: 'copy', offset: 4096, length: 1024 });
+    expect(chunks[1].data?.toString()).toBe('abc');
+  });
+});
@@ -0,0 +1,75 @@
+import * as crypto from 'crypto';
+
+import { classifyNatType } from '../../src/main/network/stun/NatClassifier';
+import {
+  BINDING_REQUEST,
+  BINDING_SUCCESS,
+  decodeStunMessage,
+  encodeBindingRequest,
+  encodeBindingResponse,
+  parseStunUrl,
+} from '../../src/main/network/stun/StunMessage';
+
+describe('STUN messages', () => {
+  const transactionId = crypto.randomBytes(12);
+
+  it('round-trips change requests and binding responses', () => {
+    const request = decodeStunMessage(
+      encodeBindingRequest(transactionId, { changeIp: false, changePort: true })
+    );
+    expect(request).toEqual({
+      type: BINDING_REQUEST,
+      transactionId,
+      changeRequest: { changeIp: false, changePort: true },
+    });
+
+    const response = decodeStunMessage(
+      encodeBindingResponse(
+        transactionId,
+        { address: '2001:db8:0:0:0:0:0:7', port: 50000 },
+        { address: '198.51.100.2', port: 3479 },
+        { address: '198.51.100.1', port: 3478 }
+      )
+    );
+    expect(response).toEqual({
+      type: BINDING_SUCCESS,
+      transactionId,
+      mappedAddress: { address: '2001:db8:0:0:0:0:0:7', port: 50000 },
+      otherAddress: { address: '198.51.100.2', port: 3479 },
+      responseOrigin: { address: '198.51.100.1', port: 3478 },
+    });
+  });
+
+  it('rejects packets that are not STUN', () => {
+    expect(() => decodeStunMessage(Buffer.from('AIRSYNC-PUNCH:device-a'))).toThrow(
+      'Not a STUN message'
+    );
+  });
+
+  it('parses stun: URLs', () => {
+    expect(parseStunUrl('stun:stun.example.org')).toEqual({
+      address: 'stun.example.org',
+      port: 3478,
+    });
+    expect(parseStunUrl('stun:[2001:db8::1]:19302')).toEqual({
+      address: '2001:db8::1',
+      port: 19302,
+    });
+    expect(() => parseStunUrl('http://stun.example.org')).toThrow();
+  });
+});
+
+describe('classifyNatType', () => {
+  it.each([
+    ['none', 'endpoint-independent', 'open'],
+    ['none', 'address-and-port-dependent', 'firewalled'],
+    ['endpoint-independent', 'endpoint-independent', 'full-cone'],
+    ['endpoint-independent', 'address-dependent', 'restricted-cone'],
+    ['endpoint-independent', 'address-and-port-dependent', 'port-restricted-cone'],
+    ['address-dependent', 'unknown', 'symmetric'],
+    ['address-and-port-dependent', 'endpoint-independent', 'symmetric'],
+    ['endpoint-independent', 'unknown', 'unknown'],
+  ] as const)('names %s mapping with %s filtering %s', (mapping, filtering, type) => {
+    expect(classifyNatType(mapping, filtering)).toBe(type);
+  });
+});
@@ -0,0 +1,83 @@
+import { ThreeWayMerge, isMergeableTextFile, looksBinary } from '../../src/main/core/merge';
+
+describe('ThreeWayMerge', () => {
+  const merger = new ThreeWayMerge();
+  const lines = (...items: string[]) => items.map((item) => `${item}\n`).join('');
+  const base = lines('# Title', 'intro', 'one', 'two', 'three', 'outro');
+
+  it('combines edits to different parts of a file', () => {
+    const local = lines('# New title', 'intro', 'one', 'two', 'three', 'outro');
+    const remote = lines('# Title', 'intro', 'one', 'two', 'three', 'outro', 'appendix');
+
+    expect(merger.merge(base, local, remote)).toEqual({
+      clean: true,
+      conflicts: 0,
+      text: lines('# New title', 'intro', 'one', 'two', 'three', 'outro', 'appendix'),
+    });
+  });
+
+  it('keeps deletions and takes identical changes once', () => {
+    const local = lines('# Title', 'intro', 'two', 'three', 'outro', 'footer');
+    const remote = lines('# Title', 'intro', 'one', 'two', 'THREE', 'outro', 'footer');
+
+    const result = merger.merge(base, local, remote);
+
+    expect(result.clean).toBe(true);
+    expect(result.text).toBe(lines('# Title', 'intro', 'two', 'THREE', 'outro', 'footer'));
+  });
+
+  it('wraps overlapping edits in conflict markers', () => {
+    const local = lines('# Title', 'intro', 'one', 'mine', 'three', 'outro');
+    const remote = lines('# Title', 'intro', 'one', 'theirs', 'three', 'outro');
+
+    const result = merger.merge(base, local, remote, { local: 'laptop', remote: 'desktop' });
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toBe(1);
+    expect(result.text).toBe(
+      lines(
+        '# Title',
+        'intro',
+        'one',
+        '<<<<<<< laptop',
+        'mine',
+        '=======',
+        'theirs',
+        '>>>>>>> desktop',
+        'three',
+        'outro'
+      )
+    );
+  });
+
+  it('handles missing trailing newlines and CRLF files', () => {
+    const crlfBase = 'a\r\nb\r\nc';
+    const result = merger.merge(crlfBase, 'a\r\nb\r\nlocal', 'a\r\nb\r\nremote');
+
+    expect(result.text).toBe(
+      'a\r\nb\r\n<<<<<<< local\r\nlocal\r\n=======\r\nremote\r\n>>>>>>> remote\r\n'
+    );
+    expect(merger.merge('', 'same', 'same')).toMatchObject({ clean: true, text: 'same' });
+  });
+
+  it('reproduces one side exactly when the other is unchanged', () => {
+    const random = (count: number) =>
+      Array.from({ length: count }, () => `line ${Math.floor(Math.random() * 8)}\n`).join('');
+
+    for (let i = 0; i < 50; i++) {
+      const original = random(40);
+      const edited = random(35);
+
+      expect(merger.merge(original, original, edited)).toMatchObject({ clean: true, text: edited });
+      expect(merger.merge(original, edited, original)).toMatchObject({ clean: true, text: edited });
+    }
+  });
+
+  it('detects which files can be merged as text', () => {
+    expect(isMergeableTextFile('docs/README.md')).toBe(true);
+    expect(isMergeableTextFile('src/App.TSX')).toBe(true);
+    expect(isMergeableTextFile('photos/cat.jpg')).toBe(false);
+    expect(looksBinary(Buffer.from([0x89, 0x50, 0x00, 0x47]))).toBe(true);
+    expect(looksBinary(Buffer.from('plain text'))).toBe(false);
+  });
+});
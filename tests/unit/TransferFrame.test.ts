@@ -0,0 +1,47 @@
+import * as crypto from 'crypto';
+import {
+  FRAME_FLAG_COMPRESSED,
+  compareProtocolVersions,
+  decodeTransferFrame,
+  encodeTransferFrame,
+  supportsBinaryFrames,
+} from '../../src/main/network/protocol/TransferFrame';
+
+describe('transfer frames', () => {
+  const data = crypto.randomBytes(4096);
+  const frame = {
+    transferId: '0b6f4c9e-8d1a-4f7e-9a43-2f2d6b8c1e55',
+    chunkIndex: 70_000,
+    flags: FRAME_FLAG_COMPRESSED,
+    hash: crypto.createHash('sha256').update(data).digest('hex'),
+    data,
+  };
+
+  it('round-trips a chunk with a length prefix and no encoding overhead', () => {
+    const encoded = encodeTransferFrame(frame);
+
+    expect(encoded.readUInt32BE(0)).toBe(encoded.length - 4);
+    expect(encoded.length).toBe(data.length + 4 + 3 + frame.transferId.length + 4 + 32);
+    expect(decodeTransferFrame(encoded)).toEqual(frame);
+  });
+
+  it('rejects truncated, padded and unknown frames', () => {
+    const encoded = encodeTransferFrame(frame);
+    const unknownType = Buffer.from(encoded);
+    unknownType.writeUInt8(9, 4);
+
+    expect(() => decodeTransferFrame(encoded.subarray(0, 20))).toThrow(/Malformed/);
+    expect(() => decodeTransferFrame(Buffer.concat([encoded, Buffer.alloc(1)]))).toThrow(/length/);
+    expect(() => decodeTransferFrame(unknownType)).toThrow(/frame type 9/);
+    expect(() => decodeTransferFrame(Buffer.alloc(2))).toThrow(/truncated/);
+  });
+
+  it('only uses binary frames with peers that negotiated them', () => {
+    expect(compareProtocolVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+    expect(compareProtocolVersions('1.1', '1.1.0')).toBe(0);
+    expect(supportsBinaryFrames('1.0.0')).toBe(false);
+    expect(supportsBinaryFrames('1.1.0')).toBe(true);
+    expect(supportsBinaryFrames('2.0.0')).toBe(true);
+    expect(supportsBinaryFrames(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import Store from 'electron-store';
+
+import { AppConfig } from '../../src/shared/types/config';
+import { FileInfo, FolderConfig } from '../../src/shared/types/sync';
+import {
+  BUMPED_PRIORITY,
+  TransferPriorities,
+  sortByPullOrder,
+} from '../../src/main/sync/transferPriorities';
+
+describe('transfer priorities', () => {
+  let tempDir: string;
+  let store: Store<AppConfig>;
+
+  const folder = (id: string, priority?: number): FolderConfig => ({
+    id,
+    path: path.join(tempDir, id),
+    name: id,
+    mode: 'send-receive',
+    status: { state: 'idle' },
+    devices: [],
+    ignorePatterns: [],
+    versioningPolicy: { type: 'none' },
+    priority,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const file = (relativePath: string, size: number, modifiedAt: string): FileInfo => ({
+    path: relativePath,
+    relativePath,
+    name: path.basename(relativePath),
+    size,
+    type: 'file',
+    modifiedAt: new Date(modifiedAt),
+    createdAt: new Date(modifiedAt),
+    isIgnored: false,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'priorities-'));
+    store = new Store<AppConfig>({ cwd: tempDir, name: 'config' });
+    store.set('folders', [folder('code', 10), folder('renders')]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('uses the folder priority unless the path was bumped', () => {
+    const priorities = new TransferPriorities(store);
+
+    expect(priorities.getPriority('code', 'src/index.ts')).toBe(10);
+    expect(priorities.getPriority('renders', 'final.mov')).toBe(0);
+
+    priorities.bump('renders', 'shots/');
+    expect(priorities.getPriority('renders', 'shots/012/frame.exr')).toBe(BUMPED_PRIORITY);
+    expect(priorities.isBumped('renders', 'shots-old/frame.exr')).toBe(false);
+    expect(priorities.isBumped('code', 'shots/frame.exr')).toBe(false);
+  });
+
+  it('forgets only the bumps a finished pass handled', () => {
+    const priorities = new TransferPriorities(store);
+    priorities.bump('code', 'README.md', 1000);
+    priorities.bump('code', 'docs', 3000);
+
+    priorities.clear('code', 2000);
+
+    expect(priorities.isBumped('code', 'README.md')).toBe(false);
+    expect(priorities.isBumped('code', 'docs/guide.md')).toBe(true);
+    priorities.clear('code');
+    expect(priorities.hasBumps('code')).toBe(false);
+  });
+
+  it('sorts files by the folder pull order', () => {
+    const files = [
+      file('b.mov', 20_000, '2024-03-01'),
+      file('c.ts', 10, '2024-01-01'),
+      file('a.md', 300, '2024-02-01'),
+    ];
+    const order = (pullOrder?: Parameters<typeof sortByPullOrder>[2]) =>
+      sortByPullOrder(files, (item) => item, pullOrder).map((item) => item.relativePath);
+
+    expect(order()).toEqual(['b.mov', 'c.ts', 'a.md']);
+    expect(order('smallest-first')).toEqual(['c.ts', 'a.md', 'b.mov']);
+    expect(order('oldest-first')).toEqual(['c.ts', 'a.md', 'b.mov']);
+    expect(order('newest-first')).toEqual(['b.mov', 'a.md', 'c.ts']);
+    expect(order('alphabetic')).toEqual(['a.md', 'b.mov', 'c.ts']);
+    expect(order('random').sort()).toEqual(['a.md', 'b.mov', 'c.ts']);
+  });
+});
@@ -128,6 +128,25 @@ describe('VersionManager (CRITICAL BUG FIXES)', () => {
     expect(restoredContent).toBe('Original content');
   });
 
+  it('archives a deleted file by moving it into the version store', async () => {
+    const testFilePath = path.join(tempDir, 'archived.bin');
+    const content = crypto.randomBytes(3 * 1024 * 1024 + 17);
+    const metadata = { modifiedAt: new Date(), deviceId: 'device-1', deviceName: 'Device 1' };
+    await fs.writeFile(testFilePath, content);
+
+    const version = await manager.archiveFile(testFilePath, metadata, { type: 'none' });
+    expect(version.hash).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+    expect(version.size).toBe(content.length);
+    await expect(fs.access(testFilePath)).rejects.toThrow();
+    expect((await manager.getVersion(testFilePath, version.id))?.equals(content)).toBe(true);
+
+    // The same content deleted again is already stored
+    await fs.writeFile(testFilePath, content);
+    const again = await manager.archiveFile(testFilePath, metadata, { type: 'none' });
+    expect(again.id).toBe(version.id);
+    await expect(fs.access(testFilePath)).rejects.toThrow();
+  });
+
   it('should enforce maxVersions policy', async () => {
     const testFilePath = path.join(tempDir, 'test.txt');
 
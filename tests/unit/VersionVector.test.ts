@@ -0,0 +1,101 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { FileInfo } from '../../src/shared/types/sync';
+import {
+  VersionVectorTracker,
+  compareVersionVectors,
+  incrementVersionVector,
+  mergeVersionVectors,
+} from '../../src/main/sync/versionVector';
+import { FileIndex } from '../../src/main/sync/fileIndex';
+
+const makeFile = (relativePath: string, hash: string): FileInfo => ({
+  path: `/sync/${relativePath}`,
+  relativePath,
+  name: path.basename(relativePath),
+  size: 10,
+  type: 'file',
+  hash,
+  modifiedAt: new Date(),
+  createdAt: new Date(),
+  isIgnored: false,
+});
+
+describe('version vectors', () => {
+  it('orders vectors causally', () => {
+    expect(compareVersionVectors({ a: 1, b: 2 }, { a: 1, b: 2 })).toBe('equal');
+    expect(compareVersionVectors({ a: 2, b: 2 }, { a: 1, b: 2 })).toBe('newer');
+    expect(compareVersionVectors({ a: 1 }, { a: 1, b: 1 })).toBe('older');
+    expect(compareVersionVectors({ a: 2, b: 1 }, { a: 1, b: 2 })).toBe('concurrent');
+  });
+
+  it('increments and merges counters', () => {
+    expect(incrementVersionVector({ a: 1 }, 'a')).toEqual({ a: 2 });
+    expect(incrementVersionVector({ a: 1 }, 'b')).toEqual({ a: 1, b: 1 });
+    expect(mergeVersionVectors({ a: 3, b: 1 }, { b: 4, c: 1 })).toEqual({ a: 3, b: 4, c: 1 });
+  });
+});
+
+describe('VersionVectorTracker', () => {
+  let tempDir: string;
+  let index: FileIndex;
+  const resolveIndex = () => index;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'version-vector-'));
+    index = new FileIndex(path.join(tempDir, 'index.db'));
+  });
+
+  afterEach(async () => {
+    index.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('bumps the local counter only when content changes', () => {
+    const tracker = new VersionVectorTracker(resolveIndex, 'device-a');
+
+    const [first] = tracker.annotate('folder', [makeFile('a.txt', 'h1')]);
+    expect(first.version).toEqual({ 'device-a': 1 });
+
+    const [unchanged] = tracker.annotate('folder', [makeFile('a.txt', 'h1')]);
+    expect(unchanged.version).toEqual({ 'device-a': 1 });
+
+    const [edited] = tracker.annotate('folder', [makeFile('a.txt', 'h2')]);
+    expect(edited.version).toEqual({ 'device-a': 2 });
+  });
+
+  it('does not count downloaded content as a local edit', () => {
+    const tracker = new VersionVectorTracker(resolveIndex, 'device-a');
+    tracker.annotate('folder', [makeFile('a.txt', 'h1')]);
+
+    tracker.recordRemoteVersion('folder', 'a.txt', 'h2', { 'device-a': 1, 'device-b': 1 });
+    const [file] = tracker.annotate('folder', [makeFile('a.txt', 'h2')]);
+
+    expect(file.version).toEqual({ 'device-a': 1, 'device-b': 1 });
+  });
+
+  it('resolves concurrent versions in favour of either side', () => {
+    const tracker = new VersionVectorTracker(resolveIndex, 'device-a');
+    tracker.annotate('folder', [makeFile('a.txt', 'h1'), makeFile('b.txt', 'h1')]);
+    const remote = { 'device-b': 1 };
+
+    tracker.supersede('folder', 'a.txt', remote);
+    tracker.adopt('folder', 'b.txt', remote);
+
+    expect(compareVersionVectors(tracker.getVersion('folder', 'a.txt')!, remote)).toBe('newer');
+    expect(compareVersionVectors(tracker.getVersion('folder', 'b.txt')!, remote)).toBe('equal');
+  });
+
+  it('persists vectors across restarts', () => {
+    new VersionVectorTracker(resolveIndex, 'device-a').annotate('folder', [
+      makeFile('a.txt', 'h1'),
+    ]);
+    index.close();
+    index = new FileIndex(path.join(tempDir, 'index.db'));
+
+    const reloaded = new VersionVectorTracker(resolveIndex, 'device-a');
+    expect(reloaded.getVersion('folder', 'a.txt')).toEqual({ 'device-a': 1 });
+  });
+});
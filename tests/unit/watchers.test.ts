@@ -16,6 +16,7 @@ jest.mock('p-queue', () => {
 
 import { ChangeQueue } from '../../src/main/core/watcher/ChangeQueue';
 import { WatchEvent } from '../../src/main/core/watcher/EventTypes';
+import { RenameDetector, RenameCandidate } from '../../src/main/core/watcher/RenameDetector';
 
 describe('ChangeQueue', () => {
   const createEvent = (type: WatchEvent['type'], idx: number): WatchEvent => ({
@@ -81,3 +82,56 @@ describe('ChangeQueue', () => {
     jest.useRealTimers();
   });
 });
+
+describe('RenameDetector', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const file = (relativePath: string, extra: Partial<RenameCandidate> = {}): RenameCandidate => ({
+    relativePath,
+    size: 10,
+    ...extra,
+  });
+
+  it('pairs a removal with a later addition of the same content', () => {
+    const detector = new RenameDetector<RenameCandidate>({ windowMs: 1000 });
+    const removed = jest.fn();
+    detector.on('remove', removed);
+
+    const source = file('old/a.txt', { hash: 'h1', inode: 7 });
+    detector.removed(source);
+    jest.advanceTimersByTime(500);
+
+    expect(detector.added(file('other.txt', { hash: 'h2', inode: 8 }))).toBeUndefined();
+    expect(detector.added(file('new/a.txt', { hash: 'h1', inode: 9 }))).toBe(source);
+
+    jest.advanceTimersByTime(1000);
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  it('prefers the inode match and falls back to inode when hashes are unknown', () => {
+    const detector = new RenameDetector<RenameCandidate>({ windowMs: 1000 });
+    const copy = file('copy.txt', { hash: 'h1', inode: 1 });
+    const original = file('original.txt', { hash: 'h1', inode: 2 });
+    detector.removed(copy);
+    detector.removed(original);
+
+    expect(detector.added(file('moved.txt', { hash: 'h1', inode: 2 }))).toBe(original);
+
+    const unhashed = file('unhashed.txt', { inode: 3 });
+    detector.removed(unhashed);
+    expect(detector.added(file('moved-unhashed.txt', { inode: 3 }))).toBe(unhashed);
+  });
+
+  it('reports unpaired removals as deletes once the window expires', () => {
+    const detector = new RenameDetector<RenameCandidate>({ windowMs: 1000 });
+    const removed = jest.fn();
+    detector.on('remove', removed);
+
+    detector.removed(file('gone.txt', { hash: 'h1' }));
+    jest.advanceTimersByTime(1000);
+
+    expect(removed).toHaveBeenCalledWith(expect.objectContaining({ relativePath: 'gone.txt' }));
+    expect(detector.added(file('late.txt', { hash: 'h1' }))).toBeUndefined();
+  });
+});